@@ -134,9 +134,17 @@ const tsAuthkey = await Secret("ts-authkey", {
   value: alchemy.secret(process.env.TS_AUTHKEY || "null"),
 });
 
+// Shared by the main and agent workers, the agent sends it so its calls are audited as MCP
+const mcpAgentSecret = await Secret("mcp-agent-secret", {
+  value: alchemy.secret(process.env.MCP_AGENT_SECRET || crypto.randomUUID()),
+});
+
 const bindings =  {
   MINECRAFT_CONTAINER: container,
 
+  // Identifies the MCP agent's calls in the audit log
+  MCP_AGENT_SECRET: mcpAgentSecret,
+
   // Secrets for Tailscale
   TS_AUTHKEY: tsAuthkey,
   NODE_ENV: process.env.NODE_ENV ?? 'development',
@@ -187,7 +195,8 @@ const agentWorkerPromise: Promise<import("alchemy/cloudflare").Worker> = Promise
   compatibility: "node",
   bindings: {
     MCP_OBJECT: agentDO,
-    MINEFLARE_WORKER: worker // bind to the main worker
+    MINEFLARE_WORKER: worker, // bind to the main worker
+    MCP_AGENT_SECRET: mcpAgentSecret,
   },
 }));
 
@@ -8,8 +8,15 @@
  * Endpoints:
  * - GET /path/to/file - Serve file content
  * - GET /path/to/directory?backup=true - Create tar.gz and upload to R2
+ * - GET /path/to/directory?backup=true&backup_id=<id>&format=incremental - Background incremental backup (see below)
+ *   Add &prefix=worlds/<id>/ to write the backup under a world profile's prefix
  * - GET /path/to/directory?restore=<backup_filename> - Fetch backup from R2 and restore to directory
  * - GET /path/to/directory?list_backups=true - List available backups for the directory
+ * - GET /data?import=imports/<name>.zip|.tar.gz - Replace the world directories with an uploaded world archive
+ * - GET /path/to/file?offset=<n> - Serve the file from byte n (negative: the last -n bytes), for tailing logs.
+ *   X-File-Size and X-Range-Start headers give the file size and where the content starts
+ * - GET /path/to/directory?list_files=true - List the files below a directory (recursive, for the plugin config editor)
+ * - PUT /data/plugins/path/to/file - Replace a file below /data/plugins with the request body
  * 
  * Features:
  * - Multipart concurrent downloads with retries for large files (>= 50 MB)
@@ -28,13 +35,31 @@
  *   name: backups/<reverseEpochSec>_<YYYYMMDDHH>_<dir>.tar.gz.
  * - This ensures that simple S3 list calls yield the most recent backups first,
  *   avoiding extra client-side fetching and sorting.
+ *
+ * Incremental backups:
+ * - Region files (.mca), plugin jars and any other file >= 1 MB are stored once,
+ *   content-addressed by SHA-256 under chunks/sha256/<xx>/<hash>. Unchanged files
+ *   are not uploaded again.
+ * - Everything else (directories, symlinks, small config/data files) goes into a
+ *   small per-backup tarball under backup-bases/.
+ * - The backup itself is a manifest at backups/<reverseEpochSec>_<YYYYMMDDHH>_<dir>.manifest.json
+ *   listing the base tarball and every content-addressed file, so it sorts alongside
+ *   the tarball backups. ?restore= accepts either kind of key.
  */
 
 import { spawn } from "bun";
 import { file, S3Client } from "bun";
+import { mkdir, readdir, rename, rm, stat, writeFile } from "node:fs/promises";
 
 const PORT = 8083;
 
+// Only plugin configuration can be written through the file server
+const WRITABLE_PREFIX = "/data/plugins/";
+const MAX_WRITE_SIZE = 1024 * 1024;
+// Plugin folders can hold caches and rendered maps, the config editor only needs the top few levels
+const LIST_FILES_MAX_DEPTH = 3;
+const LIST_FILES_MAX_ENTRIES = 1000;
+
 // Use a fixed "max epoch" ~100 years in the future to compute reverse-epoch seconds
 // New backup filenames start with this reverse-epoch so lexicographic ascending order
 // yields newest-first.
@@ -49,13 +74,66 @@ function formatUTCDateYYYYMMDDHH(d: Date): string {
   return `${yyyy}${MM}${dd}${HH}`;
 }
 
-function generateBackupKey(dirName: string, at: Date = new Date()): string {
+function generateBackupKey(dirName: string, at: Date = new Date(), extension: string = ".tar.gz", prefix: string = ""): string {
   const nowSeconds = Math.floor(at.getTime() / 1000);
   const reverseEpochSeconds = MAX_EPOCH_SECONDS - nowSeconds;
   const reversePart = String(reverseEpochSeconds).padStart(REV_SECONDS_WIDTH, '0');
   const datePart = formatUTCDateYYYYMMDDHH(at);
   // Global ordering by reverse-epoch; include human-readable date and dir name
-  return `backups/${reversePart}_${datePart}_${dirName}.tar.gz`;
+  return `${prefix}backups/${reversePart}_${datePart}_${dirName}${extension}`;
+}
+
+// World profiles other than the default one keep their backups under worlds/<id>/
+const WORLD_PREFIX_REGEX = /^(worlds\/[a-z0-9-]+\/)?$/;
+const BACKUP_KEY_PREFIX_REGEX = /^(worlds\/[a-z0-9-]+\/)?backups\//;
+
+const MANIFEST_EXTENSION = ".manifest.json";
+const CHUNK_PREFIX = "chunks/sha256/";
+// Base tarballs must not live under backups/ or the start script would mistake them for full backups
+const BASE_PREFIX = "backup-bases/";
+// Files at least this big are content-addressed even if they aren't region files or jars
+const CHUNK_MIN_SIZE = 1024 * 1024; // 1 MB
+const MAX_CONCURRENT_CHUNK_TRANSFERS = 4;
+const CHUNK_CACHE_TTL_MS = 60 * 60 * 1000;
+// Uploaded world archives, written by the worker's world import route
+const IMPORT_PREFIX = "imports/";
+
+function chunkKey(sha256: string): string {
+  return `${CHUNK_PREFIX}${sha256.slice(0, 2)}/${sha256}`;
+}
+
+function isChunkedFile(path: string, size: number): boolean {
+  return path.endsWith(".mca") || path.endsWith(".jar") || size >= CHUNK_MIN_SIZE;
+}
+
+interface BackupManifest {
+  version: 1;
+  directory: string;
+  created_at: string;
+  // Directories, symlinks and small files
+  base: { key: string; size: number };
+  // Content-addressed files, paths are relative to the directory's parent (e.g. data/world/region/r.0.0.mca)
+  files: Array<{ path: string; sha256: string; size: number }>;
+  total_size: number;
+}
+
+async function hashFile(path: string): Promise<string> {
+  const hasher = new Bun.CryptoHasher("sha256");
+  for await (const chunk of Bun.file(path).stream()) {
+    hasher.update(chunk);
+  }
+  return hasher.digest("hex");
+}
+
+async function runWithConcurrency<T>(items: T[], limit: number, fn: (item: T) => Promise<void>): Promise<void> {
+  let next = 0;
+  const workers = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      const item = items[next++];
+      await fn(item);
+    }
+  });
+  await Promise.all(workers);
 }
 
 interface BackupResult {
@@ -399,11 +477,18 @@ class FileServer {
     id: string;
     directory: string;
     status: "pending" | "running" | "success" | "failed";
+    format?: "tarball" | "incremental";
+    prefix?: string;
     startedAt: number;
     completedAt?: number;
     result?: { backup_path: string; size: number; note?: string };
     error?: string;
   }> = new Map();
+  // Incremental backup caches, valid for the life of the container:
+  // path -> hash for files whose size and mtime haven't changed, and chunks recently seen in R2.
+  // Chunks are only trusted for an hour since retention may garbage collect unreferenced ones.
+  private fileHashCache: Map<string, { size: number; mtime: string; sha256: string }> = new Map();
+  private uploadedChunks: Map<string, number> = new Map();
 
   private jsonResponse(data: unknown, init?: { status?: number; headers?: Record<string, string> }): Response {
     const body = JSON.stringify(data);
@@ -479,24 +564,42 @@ class FileServer {
     const isBackup = url.searchParams.get("backup")?.toLowerCase() === "true";
     const restoreParam = url.searchParams.get("restore");
     const isListBackups = url.searchParams.get("list_backups")?.toLowerCase() === "true";
+    const importParam = url.searchParams.get("import");
+    const isListFiles = url.searchParams.get("list_files")?.toLowerCase() === "true";
+    const offsetParam = url.searchParams.get("offset");
+
+    if (req.method === "PUT") {
+      return await this.handleFileWrite(url.pathname, req);
+    }
 
     if (isBackup) {
       const id = url.searchParams.get("backup_id");
       if (id) {
         // Start background backup and return immediately
-        return await this.handleBackgroundBackupStart(url.pathname, id);
+        const format = url.searchParams.get("format") === "incremental" ? "incremental" : "tarball";
+        const prefix = url.searchParams.get("prefix") || "";
+        if (!WORLD_PREFIX_REGEX.test(prefix)) {
+          return this.jsonResponse({ error: "Invalid backup prefix" }, { status: 400 });
+        }
+        return await this.handleBackgroundBackupStart(url.pathname, id, format, prefix);
       }
       return await this.handleBackup(url.pathname);
     } else if (restoreParam) {
       return await this.handleRestore(url.pathname, restoreParam);
+    } else if (importParam) {
+      return await this.handleWorldImport(url.pathname, importParam);
     } else if (isListBackups) {
       return await this.handleListBackups(url.pathname);
+    } else if (isListFiles) {
+      return await this.handleListFiles(url.pathname);
+    } else if (offsetParam !== null) {
+      return await this.handleFileRange(url.pathname, parseInt(offsetParam, 10));
     } else {
       return await this.handleFileServe(url.pathname);
     }
   }
 
-  private async handleBackgroundBackupStart(pathname: string, id: string): Promise<Response> {
+  private async handleBackgroundBackupStart(pathname: string, id: string, format: "tarball" | "incremental", prefix: string = ""): Promise<Response> {
     // Normalize directory path
     let directory = pathname;
     if (!directory.startsWith("/")) {
@@ -520,11 +623,13 @@ class FileServer {
       id,
       directory,
       status: "pending" as const,
+      format,
+      prefix,
       startedAt: Date.now(),
     };
     this.backupJobs.set(id, job);
     this.backupCount++;
-    console.log(`[FileServer] Background backup job created: ${id} for ${directory}`);
+    console.log(`[FileServer] Background backup job created: ${id} for ${directory} (${format})`);
 
     // Start async work (do not await)
     this.executeBackupJob(job).then(r => {
@@ -550,7 +655,7 @@ class FileServer {
     });
   }
 
-  private async executeBackupJob(job: { id: string; directory: string; status: "pending" | "running" | "success" | "failed"; startedAt: number; completedAt?: number; result?: { backup_path: string; size: number; note?: string }; error?: string; }): Promise<void> {
+  private async executeBackupJob(job: { id: string; directory: string; status: "pending" | "running" | "success" | "failed"; format?: "tarball" | "incremental"; prefix?: string; startedAt: number; completedAt?: number; result?: { backup_path: string; size: number; note?: string }; error?: string; }): Promise<void> {
     const { id, directory } = job;
     console.log(`[FileServer] Starting background backup execution for ${id}: ${directory}`);
 
@@ -558,13 +663,22 @@ class FileServer {
       job.status = "running";
       this.backupJobs.set(id, job);
 
+      if (job.format === "incremental") {
+        job.result = await this.createIncrementalBackup(id, directory, job.prefix ?? "");
+        job.status = "success";
+        job.completedAt = Date.now();
+        this.backupJobs.set(id, job);
+        console.log(`[FileServer] [${id}] Incremental backup completed successfully`);
+        return;
+      }
+
       // Create S3 client
       const s3Client = createS3Client('data');
 
       // Generate backup filename using reverse-epoch seconds for newest-first lex order
       const now = new Date();
       const dirName = directory.split("/").filter(Boolean).pop() || "backup";
-      const backupFilename = generateBackupKey(dirName, now);
+      const backupFilename = generateBackupKey(dirName, now, ".tar.gz", job.prefix ?? "");
 
       console.log(`[FileServer] [${id}] Creating backup: ${directory} -> ${backupFilename}`);
 
@@ -645,6 +759,124 @@ class FileServer {
       console.error(`[FileServer] [${id}] ${job.error}`);
     }
   }
+  /**
+   * Incremental backup: upload changed content-addressed files, a base tarball with everything
+   * else, then the manifest that ties them together. Returns the manifest key as backup_path.
+   */
+  private async createIncrementalBackup(id: string, directory: string, prefix: string = ""): Promise<{ backup_path: string; size: number; note?: string }> {
+    const s3Client = createS3Client('data');
+    const now = new Date();
+    const dirName = directory.split("/").filter(Boolean).pop() || "backup";
+    const parentDir = directory.substring(0, directory.lastIndexOf("/")) || "/";
+    const manifestKey = generateBackupKey(dirName, now, MANIFEST_EXTENSION, prefix);
+    const baseKey = generateBackupKey(dirName, now).replace(/^backups\//, BASE_PREFIX);
+
+    console.log(`[FileServer] [${id}] Creating incremental backup: ${directory} -> ${manifestKey}`);
+
+    // List everything (except logs and cache, same as the tarball backup) as type, size, mtime, path
+    const findProc = spawn([
+      "find",
+      dirName,
+      "(", "-path", `${dirName}/logs`, "-o", "-path", `${dirName}/cache`, ")", "-prune",
+      "-o", "-printf", "%y\\t%s\\t%T@\\t%p\\0",
+    ], { cwd: parentDir });
+    const findOutput = await new Response(findProc.stdout).text();
+    const findExit = await findProc.exited;
+    if (findExit !== 0) {
+      const stderr = await new Response(findProc.stderr).text();
+      throw new Error(`find command failed with exit code ${findExit}: ${stderr}`);
+    }
+
+    const baseEntries: string[] = [];
+    const chunkedFiles: Array<{ path: string; size: number; mtime: string }> = [];
+    for (const record of findOutput.split("\0")) {
+      if (!record) continue;
+      const [type, sizeText, mtime, ...pathParts] = record.split("\t");
+      const path = pathParts.join("\t");
+      const size = parseInt(sizeText, 10) || 0;
+      if (type === "f" && isChunkedFile(path, size)) {
+        chunkedFiles.push({ path, size, mtime });
+      } else {
+        baseEntries.push(path);
+      }
+    }
+    console.log(`[FileServer] [${id}] ${chunkedFiles.length} content-addressed files, ${baseEntries.length} entries in base tarball`);
+
+    // Hash and upload content-addressed files that R2 doesn't have yet
+    const files: BackupManifest["files"] = [];
+    let uploadedCount = 0;
+    let uploadedBytes = 0;
+    await runWithConcurrency(chunkedFiles, MAX_CONCURRENT_CHUNK_TRANSFERS, async (entry) => {
+      const fullPath = `${parentDir === "/" ? "" : parentDir}/${entry.path}`;
+      const cached = this.fileHashCache.get(fullPath);
+      const sha256 = (cached && cached.size === entry.size && cached.mtime === entry.mtime)
+        ? cached.sha256
+        : await hashFile(fullPath);
+      this.fileHashCache.set(fullPath, { size: entry.size, mtime: entry.mtime, sha256 });
+
+      const key = chunkKey(sha256);
+      const seenAt = this.uploadedChunks.get(key);
+      if (!seenAt || Date.now() - seenAt > CHUNK_CACHE_TTL_MS) {
+        if (!(await s3Client.exists(key))) {
+          await s3Client.write(key, Bun.file(fullPath), { type: "application/octet-stream" });
+          uploadedCount++;
+          uploadedBytes += entry.size;
+        }
+        this.uploadedChunks.set(key, Date.now());
+      }
+      files.push({ path: entry.path, sha256, size: entry.size });
+    });
+    console.log(`[FileServer] [${id}] Uploaded ${uploadedCount} new files (${(uploadedBytes / (1024 * 1024)).toFixed(2)} MB)`);
+
+    // Base tarball with directories, symlinks and small files
+    const listFile = `/tmp/backup_${id}.list`;
+    const tempFile = `/tmp/backup_${formatUTCDateYYYYMMDDHH(now)}_${id}.base.tar.gz`;
+    await Bun.write(listFile, baseEntries.join("\0"));
+    const tarProc = spawn([
+      "tar",
+      "-czf",
+      tempFile,
+      "-C",
+      parentDir,
+      "--no-recursion",
+      "--null",
+      "-T",
+      listFile,
+    ]);
+    const tarExit = await tarProc.exited;
+    if (tarExit !== 0) {
+      const stderr = await new Response(tarProc.stderr).text();
+      throw new Error(`tar command failed with exit code ${tarExit}: ${stderr || 'no error output'}`);
+    }
+    const baseSize = (await Bun.file(tempFile).stat())?.size || 0;
+    await s3Client.write(baseKey, Bun.file(tempFile), { type: "application/x-tar" });
+    try {
+      await unlink(tempFile);
+      await unlink(listFile);
+    } catch {
+      console.error(`[FileServer] [${id}] Failed to clean up temp files`);
+    }
+
+    // The manifest goes last so a backup is only listed once everything it references exists
+    files.sort((a, b) => a.path.localeCompare(b.path));
+    const totalSize = baseSize + files.reduce((sum, f) => sum + f.size, 0);
+    const manifest: BackupManifest = {
+      version: 1,
+      directory: dirName,
+      created_at: now.toISOString(),
+      base: { key: baseKey, size: baseSize },
+      files,
+      total_size: totalSize,
+    };
+    await s3Client.write(manifestKey, JSON.stringify(manifest), { type: "application/json" });
+
+    return {
+      backup_path: manifestKey,
+      size: totalSize,
+      note: `incremental backup, uploaded ${uploadedCount} new files (${baseSize + uploadedBytes} bytes)`,
+    };
+  }
+
   private async handleFileServe(pathname: string): Promise<Response> {
     console.log(`[FileServer] File serve request for: ${pathname}`);
     // Normalize path
@@ -698,6 +930,101 @@ class FileServer {
     }
   }
 
+  private async handleFileRange(pathname: string, offset: number): Promise<Response> {
+    if (!Number.isFinite(offset)) {
+      return new Response("Invalid offset", { status: 400 });
+    }
+    try {
+      const info = await stat(pathname);
+      if (!info.isFile()) {
+        return new Response("File not found", { status: 404 });
+      }
+      // The file may have been replaced (log rotation) since the caller's last read, then start over
+      const start = offset < 0 ? Math.max(0, info.size + offset) : (offset > info.size ? 0 : offset);
+      const content = await Bun.file(pathname).slice(start, info.size).arrayBuffer();
+      return new Response(content, {
+        headers: {
+          "Content-Type": "application/octet-stream",
+          "Content-Length": content.byteLength.toString(),
+          "X-File-Size": info.size.toString(),
+          "X-Range-Start": start.toString(),
+        },
+      });
+    } catch (error: any) {
+      if (error.code === "ENOENT") {
+        return new Response("File not found", { status: 404 });
+      }
+      console.error("[FileServer] Error serving file range:", error);
+      return new Response(`Internal server error: ${error.message}`, { status: 500 });
+    }
+  }
+
+  private async handleListFiles(pathname: string): Promise<Response> {
+    const directory = pathname.replace(/\/+$/, "") || "/";
+    if (directory.split("/").includes("..")) {
+      return this.jsonResponse({ error: "Invalid path" }, { status: 400 });
+    }
+    console.log(`[FileServer] List files request for: ${directory}`);
+
+    const files: Array<{ path: string; size: number; modified: number }> = [];
+    let truncated = false;
+    const walk = async (dir: string, relative: string, depth: number): Promise<void> => {
+      const entries = await readdir(dir, { withFileTypes: true });
+      entries.sort((a, b) => a.name.localeCompare(b.name));
+      for (const entry of entries) {
+        if (files.length >= LIST_FILES_MAX_ENTRIES) {
+          truncated = true;
+          return;
+        }
+        const entryPath = `${dir}/${entry.name}`;
+        const entryRelative = relative ? `${relative}/${entry.name}` : entry.name;
+        if (entry.isDirectory()) {
+          if (depth < LIST_FILES_MAX_DEPTH) {
+            await walk(entryPath, entryRelative, depth + 1);
+          }
+        } else if (entry.isFile()) {
+          const info = await stat(entryPath);
+          files.push({ path: entryRelative, size: info.size, modified: info.mtimeMs });
+        }
+      }
+    };
+
+    try {
+      await walk(directory, "", 1);
+      return this.jsonResponse({ success: true, directory, files, truncated });
+    } catch (error: any) {
+      if (error.code === "ENOENT" || error.code === "ENOTDIR") {
+        return this.jsonResponse({ error: "Directory not found" }, { status: 404 });
+      }
+      console.error("[FileServer] Error listing files:", error);
+      return this.jsonResponse({ error: `List files failed: ${error.message}` }, { status: 500 });
+    }
+  }
+
+  private async handleFileWrite(pathname: string, req: Request): Promise<Response> {
+    if (!pathname.startsWith(WRITABLE_PREFIX) || pathname.split("/").includes("..") || pathname.endsWith("/")) {
+      return this.jsonResponse({ error: `Only files below ${WRITABLE_PREFIX} can be written` }, { status: 403 });
+    }
+    console.log(`[FileServer] File write request for: ${pathname}`);
+
+    try {
+      const content = new Uint8Array(await req.arrayBuffer());
+      if (content.length > MAX_WRITE_SIZE) {
+        return this.jsonResponse({ error: `File is larger than ${MAX_WRITE_SIZE} bytes` }, { status: 413 });
+      }
+      const directory = pathname.slice(0, pathname.lastIndexOf("/"));
+      await mkdir(directory, { recursive: true });
+      // Write next to the file and rename so a plugin never reads a half-written config
+      const tmpPath = `${pathname}.tmp-${Date.now()}`;
+      await writeFile(tmpPath, content);
+      await rename(tmpPath, pathname);
+      return this.jsonResponse({ success: true, path: pathname, size: content.length });
+    } catch (error: any) {
+      console.error("[FileServer] Error writing file:", error);
+      return this.jsonResponse({ error: `Write failed: ${error.message}` }, { status: 500 });
+    }
+  }
+
   private async handleBackup(pathname: string): Promise<Response> {
     this.backupCount++;
     console.log(`[FileServer] Backup request for: ${pathname}`);
@@ -910,6 +1237,7 @@ class FileServer {
     console.log(`[FileServer] ============ RESTORE START ============`);
     console.log(`[FileServer] Restore request: ${backupFilename} -> ${pathname}`);
     console.log(`[FileServer] Active restores: ${this.activeRestores}`);
+    let staging: string | null = null;
 
     try {
       // Normalize directory path
@@ -925,7 +1253,7 @@ class FileServer {
       console.log(`[FileServer] S3 client created successfully`);
 
       // Validate backup filename (prevent path traversal)
-      if (backupFilename.includes("..") || !backupFilename.startsWith("backups/")) {
+      if (backupFilename.includes("..") || !BACKUP_KEY_PREFIX_REGEX.test(backupFilename)) {
         console.error(`[FileServer] Invalid backup filename: ${backupFilename}`);
         return new Response(
           JSON.stringify({ error: "Invalid backup filename" }),
@@ -937,6 +1265,22 @@ class FileServer {
       }
       console.log(`[FileServer] Backup filename validated`);
 
+      // The backup is unpacked into a staging directory and only moved into place once all of it is
+      // there, so a failed restore leaves the directory as it was instead of half overwritten
+      const dirName = directory.split("/").filter(Boolean).pop() || "backup";
+      staging = `${directory}/.restore-${Date.now()}`;
+      await ensureDirectory(staging);
+      console.log(`[FileServer] Staging restore in ${staging}`);
+
+      if (backupFilename.endsWith(MANIFEST_EXTENSION)) {
+        const result = await this.restoreFromManifest(s3Client, backupFilename, directory, staging);
+        await swapInRestored(`${staging}/${dirName}`, directory);
+        const totalDuration = Date.now() - restoreStartTime;
+        console.log(`[FileServer] ============ RESTORE COMPLETE ============`);
+        console.log(`[FileServer] Total restore time: ${(totalDuration / 1000).toFixed(2)}s`);
+        return this.jsonResponse(result);
+      }
+
       console.log(`[FileServer] Checking file size for: ${backupFilename}`);
 
       // First, check the file size with a HEAD request
@@ -1027,17 +1371,9 @@ class FileServer {
         console.log(`[FileServer] Size verification: OK`);
       }
 
-      // Ensure target directory exists
-      const parentDir = directory.substring(0, directory.lastIndexOf("/")) || "/";
-      console.log(`[FileServer] Parent directory: ${parentDir}`);
-      console.log(`[FileServer] Ensuring parent directory exists...`);
-      await ensureDirectory(parentDir);
-      console.log(`[FileServer] Parent directory ready`);
-
-      // Extract tar.gz archive to the parent directory
-      // The tar will create/overwrite the target directory
+      // Extract tar.gz archive to the staging directory, it holds the target directory as <dirName>/
       console.log(`[FileServer] ======== EXTRACTION START ========`);
-      console.log(`[FileServer] Extracting to: ${parentDir}`);
+      console.log(`[FileServer] Extracting to: ${staging}`);
       
       const extractStartTime = Date.now();
       const tarProc = spawn([
@@ -1045,7 +1381,7 @@ class FileServer {
         "-xzf",
         tempFile,
         "-C",
-        parentDir,
+        staging,
         "--overwrite",           // Overwrite existing files without unlinking directories
         "--no-same-permissions", // Don't preserve permissions (avoid utime errors)
         "--no-same-owner",       // Don't preserve ownership
@@ -1066,6 +1402,7 @@ class FileServer {
 
       console.log(`[FileServer] ======== EXTRACTION COMPLETE ========`);
       console.log(`[FileServer] Extraction took ${(extractDuration / 1000).toFixed(2)}s`);
+      await swapInRestored(`${staging}/${dirName}`, directory);
 
       // Clean up temp file
       console.log(`[FileServer] Cleaning up temp file: ${tempFile}`);
@@ -1104,11 +1441,217 @@ class FileServer {
 
       return this.jsonResponse({ error: errorMsg }, { status: 500 });
     } finally {
+      if (staging) {
+        await rm(staging, { recursive: true, force: true }).catch((cleanupError: any) =>
+          console.warn(`[FileServer] Failed to clean up ${staging}: ${cleanupError.message}`));
+      }
       this.activeRestores--;
       console.log(`[FileServer] Active restores now: ${this.activeRestores}`);
     }
   }
 
+  /**
+   * Rebuild a directory from an incremental backup manifest under parentDir: extract the base
+   * tarball, then download every content-addressed file and check its hash.
+   */
+  private async restoreFromManifest(s3Client: S3Client, manifestKey: string, directory: string, parentDir: string): Promise<RestoreResult> {
+    console.log(`[FileServer] Restoring from manifest: ${manifestKey}`);
+    const manifest = await s3Client.file(manifestKey).json() as BackupManifest;
+    if (manifest.version !== 1) {
+      throw new Error(`Unsupported manifest version: ${manifest.version}`);
+    }
+    const dirName = directory.split("/").filter(Boolean).pop() || "backup";
+    // Paths come from R2, never let them escape the target directory
+    for (const entry of manifest.files) {
+      if (!entry.path.startsWith(`${dirName}/`) || entry.path.split("/").includes("..")) {
+        throw new Error(`Invalid path in manifest: ${entry.path}`);
+      }
+    }
+    if (manifest.base.key.includes("..") || !manifest.base.key.startsWith(BASE_PREFIX)) {
+      throw new Error(`Invalid base tarball in manifest: ${manifest.base.key}`);
+    }
+
+    // Base tarball first: directories, symlinks and small files
+    await ensureDirectory(parentDir);
+    const tempFile = `/tmp/restore_${Date.now()}.base.tar.gz`;
+    if (manifest.base.size >= LARGE_FILE_THRESHOLD) {
+      await downloadLargeFile(s3Client, manifest.base.key, tempFile, manifest.base.size);
+    } else {
+      await Bun.write(tempFile, await s3Client.file(manifest.base.key).arrayBuffer());
+    }
+    const tarProc = spawn([
+      "tar",
+      "-xzf",
+      tempFile,
+      "-C",
+      parentDir,
+      "--overwrite",
+      "--no-same-permissions",
+      "--no-same-owner",
+      "--touch",
+    ]);
+    const tarExit = await tarProc.exited;
+    try {
+      await unlink(tempFile);
+    } catch (e) {
+      console.warn(`[FileServer] Failed to clean up temp file: ${e}`);
+    }
+    if (tarExit !== 0) {
+      const stderr = await new Response(tarProc.stderr).text();
+      throw new Error(`tar extraction failed with exit code ${tarExit}: ${stderr}`);
+    }
+    console.log(`[FileServer] Base tarball extracted, downloading ${manifest.files.length} files...`);
+
+    // Then the content-addressed files. node:fs is used here rather than spawning rm/mkdir
+    // because a large world has thousands of region files.
+    let restoredCount = 0;
+    await runWithConcurrency(manifest.files, MAX_CONCURRENT_CHUNK_TRANSFERS, async (entry) => {
+      const dest = `${parentDir === "/" ? "" : parentDir}/${entry.path}`;
+      await mkdir(dest.substring(0, dest.lastIndexOf("/")), { recursive: true });
+      // Replace rather than write through an existing symlink
+      await rm(dest, { force: true });
+      const key = chunkKey(entry.sha256);
+      if (entry.size >= LARGE_FILE_THRESHOLD) {
+        await downloadLargeFile(s3Client, key, dest, entry.size);
+      } else {
+        await Bun.write(dest, await s3Client.file(key).arrayBuffer());
+      }
+      const sha256 = await hashFile(dest);
+      if (sha256 !== entry.sha256) {
+        throw new Error(`Checksum mismatch for ${entry.path}`);
+      }
+      restoredCount++;
+      if (restoredCount % 100 === 0) {
+        console.log(`[FileServer] Restored ${restoredCount}/${manifest.files.length} files`);
+      }
+    });
+
+    console.log(`[FileServer] Restored ${restoredCount} files from ${manifestKey}`);
+    return {
+      success: true,
+      restored_from: manifestKey,
+      restored_to: directory,
+      size: manifest.total_size,
+      note: "incremental restore",
+    };
+  }
+
+  /**
+   * Import an uploaded world archive (.zip or .tar.gz) into the server directory.
+   * The directory holding the shallowest level.dat replaces <dir>/<LEVEL>; sibling <name>_nether and
+   * <name>_the_end directories (a Bukkit-style server world) replace the nether and end worlds.
+   * A single-player world keeps its dimensions in DIM-1/DIM1, which Paper migrates on first load.
+   * The archive is deleted from R2 once the import succeeds.
+   */
+  private async handleWorldImport(pathname: string, archiveKey: string): Promise<Response> {
+    let directory = pathname;
+    if (!directory.startsWith("/")) {
+      directory = "/" + directory;
+    }
+    if (archiveKey.includes("..") || !archiveKey.startsWith(IMPORT_PREFIX)) {
+      return this.jsonResponse({ error: "Invalid import archive" }, { status: 400 });
+    }
+    const isZip = archiveKey.toLowerCase().endsWith(".zip");
+    // Zips are extracted with Python's zipfile module, python3 comes with the base image
+    if (isZip && !Bun.which("python3")) {
+      return this.jsonResponse({ error: "Can't extract .zip archives, python3 is missing from the container. Upload a .tar.gz instead." }, { status: 500 });
+    }
+    // Extract next to the world so the final moves are renames on the same filesystem
+    const workDir = `${directory}/.world-import-${Date.now()}`;
+    const archiveFile = `/tmp/world-import-${Date.now()}${isZip ? ".zip" : ".tar.gz"}`;
+    console.log(`[FileServer] World import: ${archiveKey} -> ${directory}`);
+
+    try {
+      const s3Client = createS3Client('data');
+      const { size } = await s3Client.file(archiveKey).stat();
+      if (size >= LARGE_FILE_THRESHOLD) {
+        await downloadLargeFile(s3Client, archiveKey, archiveFile, size);
+      } else {
+        await Bun.write(archiveFile, await s3Client.file(archiveKey).arrayBuffer());
+      }
+
+      await ensureDirectory(workDir);
+      const extractProc = isZip
+        ? spawn(["python3", "-m", "zipfile", "-e", archiveFile, workDir])
+        : spawn(["tar", "-xzf", archiveFile, "-C", workDir, "--no-same-permissions", "--no-same-owner", "--touch"]);
+      const extractExit = await extractProc.exited;
+      if (extractExit !== 0) {
+        const stderr = await new Response(extractProc.stderr).text();
+        throw new Error(`Extraction failed with exit code ${extractExit}: ${stderr}`);
+      }
+
+      const findProc = spawn(["find", workDir, "-name", "level.dat", "-type", "f", "-not", "-path", "*/__MACOSX/*"]);
+      const levelDats = (await new Response(findProc.stdout).text()).split("\n").filter(Boolean)
+        .sort((a, b) => a.split("/").length - b.split("/").length);
+      await findProc.exited;
+      if (levelDats.length === 0) {
+        throw new Error("No level.dat found in archive");
+      }
+
+      const worldDir = levelDats[0].substring(0, levelDats[0].lastIndexOf("/"));
+      const worldParent = worldDir.substring(0, worldDir.lastIndexOf("/"));
+      const worldName = worldDir.substring(worldDir.lastIndexOf("/") + 1);
+      const level = process.env.LEVEL || "world";
+      const moves: Array<{ from: string; to: string }> = [{ from: worldDir, to: `${directory}/${level}` }];
+      // A world at the archive root has no meaningful name or siblings
+      if (worldDir !== workDir) {
+        for (const suffix of ["_nether", "_the_end"]) {
+          const sibling = `${worldParent}/${worldName}${suffix}`;
+          if ((await spawn(["test", "-d", sibling]).exited) === 0) {
+            moves.push({ from: sibling, to: `${directory}/${level}${suffix}` });
+          }
+        }
+      }
+
+      // The previous world is set aside as <name>.old until the imported one is in place, and put
+      // back if that fails (it is also in the shutdown backup taken before this start)
+      const worldDirs = ["", "_nether", "_the_end"].map(suffix => `${directory}/${level}${suffix}`);
+      const setAside: string[] = [];
+      const movedIn: string[] = [];
+      try {
+        for (const worldPath of worldDirs) {
+          if (await stat(worldPath).then(() => true, () => false)) {
+            await rm(`${worldPath}.old`, { recursive: true, force: true });
+            await rename(worldPath, `${worldPath}.old`);
+            setAside.push(worldPath);
+          }
+        }
+        for (const move of moves) {
+          await rm(`${move.from}/session.lock`, { force: true });
+          await rename(move.from, move.to);
+          movedIn.push(move.to);
+          console.log(`[FileServer] Imported ${move.from.substring(workDir.length) || "/"} as ${move.to}`);
+        }
+      } catch (error) {
+        for (const worldPath of movedIn) {
+          await rm(worldPath, { recursive: true, force: true }).catch(() => {});
+        }
+        for (const worldPath of setAside) {
+          await rename(`${worldPath}.old`, worldPath).catch((restoreError: any) =>
+            console.error(`[FileServer] Failed to restore ${worldPath}: ${restoreError.message}`));
+        }
+        throw error;
+      }
+      for (const worldPath of setAside) {
+        await rm(`${worldPath}.old`, { recursive: true, force: true });
+      }
+
+      await s3Client.file(archiveKey).delete();
+      return this.jsonResponse({
+        success: true,
+        imported_from: archiveKey,
+        imported_to: moves.map(move => move.to),
+        size,
+      });
+    } catch (error: any) {
+      console.error(`[FileServer] World import failed: ${error.message}`);
+      return this.jsonResponse({ error: `World import failed: ${error.message}` }, { status: 500 });
+    } finally {
+      await rm(workDir, { recursive: true, force: true }).catch(() => {});
+      await unlink(archiveFile);
+    }
+  }
+
   private async handleListBackups(pathname: string): Promise<Response> {
     console.log(`[FileServer] List backups request for: ${pathname}`);
 
@@ -1142,7 +1685,7 @@ class FileServer {
       
       if (listResult.contents) {
         for (const item of listResult.contents) {
-          if (!item.key.endsWith(`_${dirName}.tar.gz`)) continue;
+          if (!item.key.endsWith(`_${dirName}.tar.gz`) && !item.key.endsWith(`_${dirName}${MANIFEST_EXTENSION}`)) continue;
           backups.push({
             path: item.key,
             size: item.size || 0,
@@ -1183,6 +1726,22 @@ async function unlink(path: string): Promise<void> {
 }
 
 // Helper to ensure directory exists
+/**
+ * Move what a restore unpacked into place: every top-level entry of the restored copy replaces the
+ * one of the same name in the directory. Files the backup doesn't have (ones from the image) stay.
+ */
+async function swapInRestored(restored: string, directory: string): Promise<void> {
+  const entries = await readdir(restored).catch(() => null);
+  if (!entries) {
+    throw new Error(`The backup has no ${directory.split("/").filter(Boolean).pop()} directory`);
+  }
+  for (const name of entries) {
+    await rm(`${directory}/${name}`, { recursive: true, force: true });
+    await rename(`${restored}/${name}`, `${directory}/${name}`);
+  }
+  console.log(`[FileServer] Moved ${entries.length} restored entries into ${directory}`);
+}
+
 async function ensureDirectory(path: string): Promise<void> {
   const proc = spawn(["mkdir", "-p", path]);
   await proc.exited;
@@ -61,6 +61,20 @@ write_status() {
   echo "[Status] $1"
 }
 
+# Result of a restore requested from the dashboard (RESTORE_BACKUP_KEY), the worker reads it to only
+# forget the request once the backup was restored, or to show why it wasn't
+write_restore_result() {
+  if [ -z "${RESTORE_BACKUP_KEY:-}" ]; then
+    return
+  fi
+  if [ "${RESTORED_BACKUP:-}" = "$RESTORE_BACKUP_KEY" ]; then
+    printf '{"key":"%s","success":true}\n' "$RESTORE_BACKUP_KEY" | sudo tee /status/restore.json > /dev/null
+  else
+    printf '{"key":"%s","success":false,"error":"%s"}\n' "$RESTORE_BACKUP_KEY" "${RESTORE_ERROR:-The backup was not restored}" | sudo tee /status/restore.json > /dev/null
+  fi
+  sudo chmod 644 /status/restore.json
+}
+
 ensure_version_specific_plugins() {
   echo "Ensuring version-specific plugins are correctly linked..."
   
@@ -100,6 +114,28 @@ ensure_version_specific_plugins() {
   echo "Version-specific plugin linking completed"
 }
 
+download_custom_plugin() {
+  local plugin="$1"
+  local target="$2"
+  local bucket="${DATA_BUCKET_NAME:-${DYNMAP_BUCKET:-}}"
+  
+  if [ -z "${AWS_ENDPOINT_URL:-}" ] || [ -z "$bucket" ]; then
+    echo "Warning: No R2 configuration, cannot download uploaded plugin $plugin"
+    return 1
+  fi
+  
+  mkdir -p "$(dirname "$target")"
+  # Download next to the target first so a failed download keeps the previous jar
+  if curl -s -f -o "${target}.download" "${AWS_ENDPOINT_URL}/${bucket}/plugins/custom/${plugin}.jar"; then
+    mv "${target}.download" "$target"
+    echo "Downloaded uploaded plugin $plugin"
+  else
+    rm -f "${target}.download"
+    echo "Warning: Failed to download uploaded plugin $plugin"
+    return 1
+  fi
+}
+
 do_optional_plugins() {
   # Temporarily disable exit-on-error for this function
   set +e
@@ -114,6 +150,13 @@ do_optional_plugins() {
       src="/data/optional_plugins/${plugin}.jar"
       dest="/data/plugins/${plugin}.jar"
       
+      # Uploaded plugins live in the data bucket, always fetch them so a re-uploaded jar is picked up
+      case " ${CUSTOM_PLUGINS:-} " in
+        *" ${plugin} "*)
+          download_custom_plugin "$plugin" "$src"
+          ;;
+      esac
+      
       # Wrap operations in error handling
       if [ -f "$src" ]; then
         # Only create the symlink if it doesn't already exist or points elsewhere
@@ -223,6 +266,33 @@ configure_dynmap() {
   cat /data/plugins/dynmap/configuration.txt
 }
 
+configure_authme() {
+  # Only when the AuthMe optional plugin is enabled (see PLUGIN_SPECS in src/container.ts)
+  case " ${OPTIONAL_PLUGINS:-} " in
+    *" AuthMe-5.6.0 "*) ;;
+    *) return ;;
+  esac
+
+  MIN_PASSWORD_LENGTH="${AUTHME_MIN_PASSWORD_LENGTH:-8}"
+  if ! [[ "$MIN_PASSWORD_LENGTH" =~ ^[0-9]+$ ]]; then
+    echo "Warning: AUTHME_MIN_PASSWORD_LENGTH is not a number, using 8"
+    MIN_PASSWORD_LENGTH=8
+  fi
+
+  echo "Configuring AuthMe (minimum password length $MIN_PASSWORD_LENGTH)..."
+  mkdir -p /data/plugins/AuthMe
+  CONFIG=/data/plugins/AuthMe/config.yml
+  if [ -f "$CONFIG" ]; then
+    sed -i "s/^\\( *minPasswordLength:\\).*/\\1 ${MIN_PASSWORD_LENGTH}/" "$CONFIG"
+  else
+    # AuthMe fills in every other setting with its defaults on first load
+    cat > "$CONFIG" <<EOF
+settings:
+  security:
+    minPasswordLength: ${MIN_PASSWORD_LENGTH}
+EOF
+  fi
+}
 
 start_http_proxy() {
   # PORTS: 8084 (control), 8085-8100 (data channels - 16 channels)
@@ -785,6 +855,7 @@ restore_from_backup() {
   # Check if we have AWS credentials configured
   if [ -z "${AWS_ACCESS_KEY_ID:-}" ] || [ -z "${AWS_ENDPOINT_URL:-}" ] || [ -z "${DATA_BUCKET_NAME:-${DYNMAP_BUCKET:-}}" ]; then
     echo "No R2 credentials found, skipping restore"
+    RESTORE_ERROR="No R2 credentials to restore with"
     return
   fi
   
@@ -801,6 +872,7 @@ restore_from_backup() {
     fi
     if [ $i -eq 60 ]; then
       echo "Warning: File server did not become ready, skipping restore"
+      RESTORE_ERROR="The file server did not start"
       return 1
     fi
     sleep 0.5
@@ -817,6 +889,7 @@ restore_from_backup() {
     fi
     if [ $i -eq 60 ]; then
       echo "Warning: HTTP proxy control connection not established, skipping restore"
+      RESTORE_ERROR="Could not connect to R2"
       return 1
     fi
     if [ -n "$PROXY_STATUS" ]; then
@@ -831,6 +904,7 @@ restore_from_backup() {
   # Check if directory already exists and has content (e.g., level.dat indicates a world exists)
   if [ -d "/$dir_name" ] && [ -f "/$dir_name/level.dat" ]; then
     echo "Directory /$dir_name already exists with world data (level.dat found), skipping restore"
+    RESTORE_ERROR="/$dir_name already had a world"
     return
   fi
   
@@ -840,20 +914,31 @@ restore_from_backup() {
   # Note: S3 list returns keys in lexicographic (alphabetical) ascending order
   # Our backup naming uses reverse-epoch seconds as prefix, so ascending order = newest first
   # Format: backups/<reverseEpochSec>_<YYYYMMDDHH>_<dir>.tar.gz
-  LIST_URL="${AWS_ENDPOINT_URL}/${BUCKET}/?prefix=backups/&delimiter="
+  # World profiles other than the default one keep their backups under BACKUP_PREFIX (worlds/<id>/)
+  BACKUP_KEY_PREFIX="${BACKUP_PREFIX:-}backups/"
+  echo "Using backups under ${BACKUP_KEY_PREFIX} (level: ${LEVEL:-world})"
+  LIST_URL="${AWS_ENDPOINT_URL}/${BUCKET}/?prefix=${BACKUP_KEY_PREFIX}&delimiter="
   
   if ! BACKUP_LIST=$(curl -s -f "$LIST_URL" 2>&1); then
     echo "Warning: Failed to list backups for $dir_name, skipping restore"
+    RESTORE_ERROR="Could not list the backups"
     return 1
   fi
   
-  # Extract backup keys that end with _<dir_name>.tar.gz
+  # Extract backup keys that end with _<dir_name>.tar.gz (full) or _<dir_name>.manifest.json (incremental)
   # S3 returns them in ascending lex order, which means newest-first due to reverse-epoch prefix
   # Just take the first match (newest)
-  LATEST_BACKUP=$(echo "$BACKUP_LIST" | grep -o '<Key>backups/[^<]*_'"${dir_name}"'\.tar\.gz</Key>' | sed 's/<Key>//g' | sed 's|</Key>||g' | head -n 1)
+  LATEST_BACKUP=$(echo "$BACKUP_LIST" | grep -o '<Key>'"${BACKUP_KEY_PREFIX}"'[^<]*_'"${dir_name}"'\.\(tar\.gz\|manifest\.json\)</Key>' | sed 's/<Key>//g' | sed 's|</Key>||g' | head -n 1)
+  
+  # A point-in-time restore requested from the dashboard overrides the latest backup
+  # (the worker has already checked that the key exists)
+  if [ -n "${RESTORE_BACKUP_KEY:-}" ]; then
+    echo "Restore requested for specific backup: $RESTORE_BACKUP_KEY"
+    LATEST_BACKUP="$RESTORE_BACKUP_KEY"
+  fi
   
   if [ -z "$LATEST_BACKUP" ]; then
-    echo "No backups found for $dir_name, skipping restore"
+    echo "No backups found for $dir_name, skipping restore (a new world will be generated)"
     return
   fi
   
@@ -861,20 +946,43 @@ restore_from_backup() {
   echo "Restoring $dir_name from $LATEST_BACKUP..."
   write_status "Restoring world data from backup"
   
-  # Call the file server restore endpoint
+  # Call the file server restore endpoint. It unpacks into a staging directory, a failed restore
+  # leaves /data as it was. There is no fallback to another backup: an older one would silently
+  # start an old world, which the next backups then replace the good ones with.
   RESTORE_URL="http://localhost:8083/${dir_name}?restore=${LATEST_BACKUP}"
   
-  if curl -s -f "$RESTORE_URL" > /tmp/restore_result.json 2>&1; then
-    echo "✓ Restore completed for $dir_name"
-    cat /tmp/restore_result.json
-  else
-    echo "✗ Warning: Restore failed for $dir_name"
+  if ! curl -s -f "$RESTORE_URL" > /tmp/restore_result.json 2>&1; then
+    echo "✗ Restore failed for $dir_name"
     cat /tmp/restore_result.json 2>&1 || true
+    RESTORE_ERROR="The file server could not restore the backup"
+    return 1
   fi
+  echo "✓ Restore completed for $dir_name"
+  RESTORED_BACKUP="$LATEST_BACKUP"
+  cat /tmp/restore_result.json
   
   echo "Restore process completed"
 }
 
+# Replace the world with an archive uploaded through the dashboard (IMPORT_WORLD_KEY is set by the worker)
+# Runs after restore_from_backup so plugins and configs still come from the latest backup
+import_world_archive() {
+  if [ -z "${IMPORT_WORLD_KEY:-}" ]; then
+    return
+  fi
+
+  echo "Importing uploaded world from $IMPORT_WORLD_KEY..."
+  write_status "Importing uploaded world"
+
+  if curl -s -f "http://localhost:8083/data?import=${IMPORT_WORLD_KEY}" > /tmp/import_result.json 2>&1; then
+    echo "✓ World import completed"
+    cat /tmp/import_result.json
+  else
+    echo "✗ Warning: World import failed, keeping the restored world"
+    cat /tmp/import_result.json 2>&1 || true
+  fi
+}
+
 
 
 
@@ -928,7 +1036,18 @@ write_status "Fixing /data permissions"
 # Ensure /data is owned by minecraft user and writable before restore
 sudo chown -R 1000:1000 /data || true
 sudo chmod -R u+rwX /data || true
-restore_from_backup || (sleep 15 && restore_from_backup)
+# Rather not start than start on an empty or partial world when the backup can't be restored
+# (the retry runs in this shell, not a subshell, so write_restore_result sees how it went)
+if ! restore_from_backup && ! { sleep 15 && restore_from_backup; }; then
+  write_restore_result
+  write_status "Failed to restore the world from backup"
+  echo "✗ Could not restore /data from backup, not starting the server"
+  # Give the worker a chance to read the result before the container stops
+  sleep 10
+  exit 1
+fi
+write_restore_result
+import_world_archive || true
 
 # Set up server jar symlinks after restore (in case restore overwrote them)
 write_status "Setting up server jar symlinks"
@@ -951,6 +1070,9 @@ do_optional_plugins || true
 write_status "Configuring Dynmap"
 configure_dynmap
 
+# Configure the AuthMe login plugin if it is enabled
+configure_authme || true
+
 echo "Services started, launching main application..."
 echo "Command: $@"
 
@@ -2,6 +2,8 @@ import { McpAgent } from "agents/mcp";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import { getOAuthMetadata, validateMcpBearerToken } from "./server/mcp-oauth";
+import { WEEKDAYS } from "./lib/play-schedule";
+import { MCP_AGENT_HEADER } from "./lib/audit-log";
 import type { agentWorker } from "../alchemy.run";
 import { WorkerEntrypoint } from "cloudflare:workers";
 import { readFileSync } from "fs";
@@ -110,13 +112,32 @@ export class MineflareAgent extends McpAgent {
             })
         );
 
-        // Helper to make API calls to the main worker
+        // Helper to make API calls to the main worker, through its binding
+        // Carries the agent secret so changes show up as coming from MCP in the audit log
+        const env = this.env as NonNullable<typeof agentWorker.Env>;
         const callWorkerAPI = async (path: string, options?: RequestInit): Promise<any> => {
-            const baseUrl = (this.env as any).WORKER_URL || 'http://localhost';
-            const response = await fetch(`${baseUrl}${path}`, options);
+            const headers = new Headers(options?.headers);
+            headers.set(MCP_AGENT_HEADER, await env.MCP_AGENT_SECRET.get());
+            const response = await env.MINEFLARE_WORKER.fetch(new Request(new URL(path, 'https://mineflare.internal'), { ...options, headers }));
             return response.json();
         };
 
+        // One-line summary of a play schedule returned by /api/play-schedule
+        const describePlaySchedule = (schedule: any): string => {
+            if (!schedule.enabled || schedule.windows.length === 0) {
+                return 'No play schedule, the server only starts on request.';
+            }
+            const windows = schedule.windows
+                .map((w: { day: number; start: string; end: string }) => `${WEEKDAYS[w.day]} ${w.start}-${w.end}`)
+                .join(', ');
+            const when = schedule.current
+                ? `A window is on until ${new Date(schedule.current.end).toISOString()}.`
+                : schedule.next
+                    ? `Next window starts ${new Date(schedule.next.start).toISOString()}.`
+                    : '';
+            return `Scheduled ${windows} (${schedule.timezone}), starting ${schedule.prestartMinutes} minutes early. ${when}`.trim();
+        };
+
         // Register tools
         
         // 1. get_server_overview - Shows comprehensive status
@@ -275,7 +296,18 @@ export class MineflareAgent extends McpAgent {
                     }
 
                     // Trigger start by calling status endpoint
-                    await callWorkerAPI('/api/status');
+                    const status = await callWorkerAPI('/api/status');
+                    if (status.budgetExceeded) {
+                        return {
+                            content: [{ type: "text", text: `${status.error}. The owner can raise the budget or allow starts for the rest of the month in the dashboard.` }],
+                            structuredContent: {
+                                success: false,
+                                serverState: 'stopped',
+                                message: 'Monthly budget exceeded',
+                                action: 'start'
+                            }
+                        };
+                    }
 
                     return {
                         content: [{ type: "text", text: "Server is starting up! This may take up to 5 minutes." }],
@@ -383,18 +415,18 @@ export class MineflareAgent extends McpAgent {
             },
             async () => {
                 try {
-                    // Get WebSocket token
-                    const tokenResponse = await callWorkerAPI('/auth/ws-token');
+                    // The agent gets no WebSocket token: the terminal is a root shell, so it needs an
+                    // admin signed in to the dashboard with two-factor authentication
                     const state = await callWorkerAPI('/api/getState');
                     
                     const baseUrl = (this.env as any).WORKER_URL || '';
                     const terminalUrl = `${baseUrl}/src/terminal`;
 
                     return {
-                        content: [{ type: "text", text: "Terminal opened. You can now run commands and create plugins with my help!" }],
+                        content: [{ type: "text", text: `Open the terminal at ${terminalUrl}, it needs an admin signed in to the dashboard with two-factor authentication.` }],
                         structuredContent: {
                             terminalUrl,
-                            wsToken: tokenResponse.token,
+                            wsToken: '',
                             serverRunning: state.status === 'running'
                         }
                     };
@@ -461,6 +493,154 @@ export class MineflareAgent extends McpAgent {
                 }
             }
         );
+
+        // 7. list_backups - Shows backup history and available restore points
+        this.server.registerTool(
+            "list_backups",
+            {
+                title: "List Backups",
+                description: "Use when the user asks about world backups: when the last backup ran, whether backups are failing, or which restore points exist.",
+                inputSchema: {
+                    limit: z.number().int().min(1).max(100).optional().describe("How many recent backup runs to include (default 10)")
+                },
+                annotations: {
+                    readOnlyHint: true
+                },
+                _meta: {
+                    "openai/toolInvocation/invoking": "Checking backups...",
+                    "openai/toolInvocation/invoked": "Backups retrieved"
+                }
+            },
+            async ({ limit }: { limit?: number }) => {
+                try {
+                    const [historyData, backupsData] = await Promise.all([
+                        callWorkerAPI(`/api/backups/history?limit=${limit ?? 10}`),
+                        callWorkerAPI('/api/backups')
+                    ]);
+
+                    const history = historyData.history || [];
+                    const backups = backupsData.backups || [];
+                    const last = history[0];
+                    const lastText = !last
+                        ? 'No backups have run yet.'
+                        : last.success === null
+                            ? `A ${last.trigger} backup is in progress since ${new Date(last.startedAt).toISOString()}.`
+                            : last.success
+                                ? `Last backup (${last.trigger}) succeeded at ${new Date(last.completedAt).toISOString()}.`
+                                : `Last backup (${last.trigger}) failed at ${new Date(last.completedAt).toISOString()}: ${last.error || 'unknown error'}.`;
+
+                    return {
+                        content: [{
+                            type: "text" as const,
+                            text: `${lastText} ${backups.length} restore point${backups.length !== 1 ? 's' : ''} available.`
+                        }],
+                        structuredContent: {
+                            history,
+                            backups,
+                            pendingRestore: backupsData.pendingRestore ?? null
+                        } as Record<string, unknown>
+                    };
+                } catch (error) {
+                    console.error("Failed to list backups:", error);
+                    return {
+                        content: [{ type: "text" as const, text: "Failed to retrieve backups." }],
+                        structuredContent: {
+                            history: [],
+                            backups: [],
+                            error: error instanceof Error ? error.message : 'Unknown error'
+                        } as Record<string, unknown>
+                    };
+                }
+            }
+        );
+
+        // 8. get_play_schedule - Shows when the server is scheduled to be up
+        this.server.registerTool(
+            "get_play_schedule",
+            {
+                title: "Get Play Schedule",
+                description: "Use when the user asks when the server is scheduled to run, or about the weekly play windows in which it starts automatically.",
+                inputSchema: {},
+                annotations: {
+                    readOnlyHint: true
+                },
+                _meta: {
+                    "openai/toolInvocation/invoking": "Checking play schedule...",
+                    "openai/toolInvocation/invoked": "Play schedule retrieved"
+                }
+            },
+            async () => {
+                try {
+                    const schedule = await callWorkerAPI('/api/play-schedule');
+                    if (schedule.error) {
+                        throw new Error(schedule.error);
+                    }
+                    return {
+                        content: [{ type: "text" as const, text: describePlaySchedule(schedule) }],
+                        structuredContent: schedule as Record<string, unknown>
+                    };
+                } catch (error) {
+                    console.error("Failed to get play schedule:", error);
+                    return {
+                        content: [{ type: "text" as const, text: "Failed to retrieve the play schedule." }],
+                        structuredContent: {
+                            error: error instanceof Error ? error.message : 'Unknown error'
+                        } as Record<string, unknown>
+                    };
+                }
+            }
+        );
+
+        // 9. set_play_schedule - Changes the weekly play windows
+        this.server.registerTool(
+            "set_play_schedule",
+            {
+                title: "Set Play Schedule",
+                description: "Use when the user wants the server to start and stop automatically at set times each week, e.g. \"run it Fridays from 19:00 to 23:00\". Omitted fields keep their current value, windows replaces the whole list.",
+                inputSchema: {
+                    enabled: z.boolean().optional().describe("Whether the schedule is active"),
+                    timezone: z.string().optional().describe("IANA timezone the window times are in, e.g. Europe/London"),
+                    windows: z.array(z.object({
+                        day: z.number().int().min(0).max(6).describe("Day of the week, 0 = Sunday"),
+                        start: z.string().describe("Start time, HH:MM"),
+                        end: z.string().describe("End time, HH:MM. At or before the start means the next day")
+                    })).optional().describe("The weekly windows"),
+                    prestartMinutes: z.number().int().min(0).max(60).optional().describe("Start the server this many minutes before a window")
+                },
+                annotations: {
+                    readOnlyHint: false
+                },
+                _meta: {
+                    "openai/toolInvocation/invoking": "Updating play schedule...",
+                    "openai/toolInvocation/invoked": "Play schedule updated"
+                }
+            },
+            async (update: { enabled?: boolean; timezone?: string; windows?: Array<{ day: number; start: string; end: string }>; prestartMinutes?: number }) => {
+                try {
+                    const result = await callWorkerAPI('/api/play-schedule', {
+                        method: 'POST',
+                        headers: { 'Content-Type': 'application/json' },
+                        body: JSON.stringify(update)
+                    });
+                    if (!result.success) {
+                        throw new Error(result.error || 'Unknown error');
+                    }
+                    return {
+                        content: [{ type: "text" as const, text: `Play schedule updated. ${describePlaySchedule(result.playSchedule)}` }],
+                        structuredContent: result as Record<string, unknown>
+                    };
+                } catch (error) {
+                    console.error("Failed to set play schedule:", error);
+                    return {
+                        content: [{ type: "text" as const, text: `Failed to update the play schedule: ${error instanceof Error ? error.message : 'Unknown error'}` }],
+                        structuredContent: {
+                            success: false,
+                            error: error instanceof Error ? error.message : 'Unknown error'
+                        } as Record<string, unknown>
+                    };
+                }
+            }
+        );
     }
 }
 
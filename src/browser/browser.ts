@@ -87,11 +87,11 @@ async function connect() {
         updateStatus('Getting authentication token...');
         
         // Get WebSocket token from auth endpoint
-        const tokenResponse = await fetchApi('/auth/ws-token');
-        const { token } = await tokenResponse.json() as { token: string };
+        const tokenResponse = await fetchApi('/auth/ws-token?for=browser');
+        const { token, error } = await tokenResponse.json() as { token?: string; error?: string };
         
         if (!token) {
-            throw new Error('Failed to get WebSocket token');
+            throw new Error(error || 'Failed to get WebSocket token');
         }
         
         updateStatus('Loading noVNC...');
@@ -2,12 +2,27 @@ import { ServerStatus } from './components/ServerStatus';
 import { PlayerList } from './components/PlayerList';
 import { useServerData } from './hooks/useServerData';
 import { Terminal } from './components/Terminal';
+import { ServerLogs } from './components/ServerLogs';
+import { ActivityFeed } from './components/ActivityFeed';
+import { PlayerStats } from './components/PlayerStats';
+import { AutoSleep } from './components/AutoSleep';
+import { PlaySchedule } from './components/PlaySchedule';
 import { Minimap } from './components/Minimap';
 import { Plugins } from './components/Plugins';
 import { Login } from './components/Login';
-import { useAuth } from './hooks/useAuth';
+import { hasRole, useAuth } from './hooks/useAuth';
 import { SessionTimer } from './components/SessionTimer';
 import { VersionSelector } from './components/VersionSelector';
+import { Backups } from './components/Backups';
+import { LastBackup } from './components/LastBackup';
+import { WorldSwitcher } from './components/WorldSwitcher';
+import { Settings } from './components/Settings';
+import { Moderation } from './components/Moderation';
+import { Users } from './components/Users';
+import { ApiTokens } from './components/ApiTokens';
+import { TwoFactor } from './components/TwoFactor';
+import { Sessions } from './components/Sessions';
+import { AuditLog } from './components/AuditLog';
 import logo from '../../dist/client/mineflare-logo.png';
 
 try {
@@ -25,20 +40,30 @@ export function App() {
   const isDebugMode = new URLSearchParams(window.location.search).get('debug') === 'true';
   
   // Only start polling server data when authenticated
-  const { status, players, info, plugins, loading, error, serverState, startupStep, serverVersion, supportedVersions, canChangeVersion, startServer, stopServer, refresh, togglePlugin, updateVersion } = useServerData(auth.authenticated);
+  const { status, players, info, plugins, loading, error, serverState, startupStep, serverVersion, supportedVersions, canChangeVersion, startServer, stopServer, refresh, togglePlugin, updateVersion, fetchVersion, fetchPlugins, fetchPlayers } = useServerData(auth.authenticated);
 
-  // Show login overlay if not authenticated
-  if (!auth.authenticated) {
+  // Show login overlay if not authenticated, or to sign up with an invite link
+  if (!auth.authenticated || auth.invite) {
     return (
       <Login
         passwordSet={auth.passwordSet}
+        invite={auth.invite}
         onSetup={auth.setup}
         onLogin={auth.login}
+        twoFactorRequired={auth.twoFactorRequired}
+        onVerifyTwoFactor={auth.verifyTwoFactor}
+        onCancelTwoFactor={auth.cancelTwoFactor}
+        onAcceptInvite={auth.acceptInvite}
+        onDismissInvite={auth.dismissInvite}
         loading={auth.loading}
       />
     );
   }
 
+  // What the signed-in user's role may do, the worker enforces the same per route
+  const canModerate = hasRole(auth.user, 'moderator');
+  const canAdmin = hasRole(auth.user, 'admin');
+
   return (
     <div style={{
       minHeight: '100vh',
@@ -140,6 +165,40 @@ export function App() {
           </div>
         )}
 
+        {/* Signed-in user */}
+        {auth.user && (
+          <div style={{
+            position: 'absolute',
+            top: '20px',
+            left: '20px',
+            zIndex: 10,
+            display: 'flex',
+            alignItems: 'center',
+            gap: '10px',
+            fontSize: '0.875rem',
+            color: '#b0b0b0',
+          }}>
+            <span>👤 {auth.user.username} <span style={{ color: '#888' }}>({auth.user.role})</span></span>
+            <button
+              onClick={auth.logout}
+              style={{
+                fontSize: '0.75rem',
+                fontWeight: '600',
+                padding: '4px 12px',
+                background: 'transparent',
+                color: '#888',
+                border: '1px solid rgba(255, 255, 255, 0.15)',
+                borderRadius: '8px',
+                cursor: 'pointer',
+                textTransform: 'uppercase',
+                letterSpacing: '0.05em',
+              }}
+            >
+              Sign out
+            </button>
+          </div>
+        )}
+
         {/* Start/Stop Button */}
         {!serverState ? (
           <div style={{
@@ -172,6 +231,15 @@ export function App() {
               Loading server state
             </p>
           </div>
+        ) : serverState === 'stopped' && !canModerate ? (
+          <p style={{
+            marginTop: '40px',
+            fontSize: '0.9rem',
+            color: '#888',
+            textAlign: 'center',
+          }}>
+            The server is stopped. Ask a moderator to start it.
+          </p>
         ) : serverState === 'stopped' ? (
           <div style={{
             marginTop: '40px',
@@ -287,7 +355,7 @@ export function App() {
         ) : null}
         
         {/* Terminal and Stop buttons - show when running, starting, or in debug mode */}
-        {(serverState === 'running' || serverState === 'starting' || isDebugMode) && (
+        {(serverState === 'running' || serverState === 'starting' || isDebugMode) && canModerate && (
           <div style={{
             position: 'absolute',
             top: '20px',
@@ -296,8 +364,11 @@ export function App() {
             display: 'flex',
             gap: '12px',
           }}>
-            <button
-              onClick={() => window.open('/src/terminal', '_blank')}
+            {canAdmin && <button
+              onClick={() => auth.twoFactorVerified
+                ? window.open('/src/terminal', '_blank')
+                : alert('The terminal needs two-factor authentication. Turn it on in the Two-Factor Authentication panel, or sign in again with your code.')}
+              title={auth.twoFactorVerified ? undefined : 'Needs a sign-in with two-factor authentication'}
               style={{
                 fontSize: '0.875rem',
                 fontWeight: '600',
@@ -323,7 +394,7 @@ export function App() {
               }}
             >
               🖥️ Terminal
-            </button>
+            </button>}
             <button
               onClick={stopServer}
               disabled={isDebugMode ? false : (serverState === 'starting' ? false : loading)}
@@ -491,23 +562,62 @@ export function App() {
         <div className="responsive-grid">
           {/* First Row: Server Status and Server Plugins (50/50) */}
           <ServerStatus status={status} info={info} serverState={serverState} startupStep={startupStep} />
-          <Plugins plugins={plugins} serverState={serverState} onPluginToggle={togglePlugin} />
+          {canAdmin && <Plugins plugins={plugins} serverState={serverState} onPluginToggle={togglePlugin} onPluginsChange={fetchPlugins} />}
           
-          {/* Second Row: Version Selector and Session Timer (50/50) */}
-          <VersionSelector 
+          {/* Second Row: Version Selector and Worlds (50/50) */}
+          {canAdmin && <VersionSelector 
             currentVersion={serverVersion} 
             supportedVersions={supportedVersions} 
             serverState={serverState}
             onVersionChange={updateVersion}
+          />}
+          <WorldSwitcher
+            serverState={serverState}
+            supportedVersions={supportedVersions}
+            currentVersion={serverVersion}
+            onWorldChange={fetchVersion}
           />
+
+          {/* Third Row: Session Timer and Players Online (50/50) */}
           <SessionTimer serverState={serverState} />
-          
-          {/* Third Row: Players Online (full width or fit) */}
           <PlayerList players={players} />
+          {/* Player leaderboard and daily peaks (full width) */}
+          <PlayerStats serverState={serverState} players={players} />
+
+          {/* Fourth Row: World Backups and Last Backup (50/50) */}
+          <Backups serverState={serverState} />
+          <LastBackup serverState={serverState} />
+
+          {/* Fifth Row: Server Settings and Moderation (50/50) */}
+          <Settings serverState={serverState} />
+          <Moderation serverState={serverState} players={players} />
+
+          {/* Sixth Row: Auto-Sleep and Play Schedule */}
+          <AutoSleep serverState={serverState} />
+          <PlaySchedule serverState={serverState} />
+
+          {/* Seventh Row: API Tokens and Two-Factor Authentication */}
+          {auth.user && <ApiTokens user={auth.user} />}
+          <TwoFactor verified={auth.twoFactorVerified} onChange={auth.checkStatus} />
+
+          {/* Signed-in devices and password (full width) */}
+          <Sessions onSignedOut={auth.checkStatus} />
+
+          {/* Accounts and invites (full width, owner only) */}
+          {auth.user && hasRole(auth.user, 'owner') && <Users currentUser={auth.user} />}
+
+          {/* Audit log (full width, admins only) */}
+          {canAdmin && <AuditLog />}
         </div>
 
+        {/* Activity feed (full width) */}
+        <ActivityFeed serverState={serverState} onPlayersChange={fetchPlayers} />
+
         {/* Terminal (full width) */}
-        <Terminal serverState={serverState} />
+        {canModerate && <Terminal serverState={serverState} />}
+
+        {/* Server log (full width) */}
+        <ServerLogs serverState={serverState} />
       </div>
 
       {/* Floating Minimap */}
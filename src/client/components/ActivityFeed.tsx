@@ -0,0 +1,206 @@
+import { useEffect, useState } from 'preact/hooks';
+import { backendUrl, fetchApi, fetchWithAuth } from '../utils/api';
+import type { ServerEvent, ServerEventType, ServerEventsResponse } from '../types/api';
+
+interface Props {
+  serverState: 'stopped' | 'starting' | 'running' | 'stopping';
+  // Called when a player joins or leaves so the player list doesn't wait for the next poll
+  onPlayersChange?: () => void;
+}
+
+// Events kept in the feed
+const MAX_EVENTS = 200;
+
+const EVENT_ICONS: Record<ServerEventType, string> = {
+  join: '➡️',
+  leave: '⬅️',
+  chat: '💬',
+  death: '💀',
+  advancement: '🏆',
+  server_start: '🟢',
+  server_stop: '🔴',
+};
+
+const FILTERS: Array<{ label: string; types: ServerEventType[] }> = [
+  { label: 'All', types: [] },
+  { label: 'Players', types: ['join', 'leave'] },
+  { label: 'Chat', types: ['chat'] },
+  { label: 'Deaths', types: ['death'] },
+  { label: 'Advancements', types: ['advancement'] },
+  { label: 'Server', types: ['server_start', 'server_stop'] },
+];
+
+function formatTime(time: number): string {
+  const date = new Date(time);
+  return date.toDateString() === new Date().toDateString()
+    ? date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+    : date.toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+}
+
+/**
+ * Recent joins, leaves, chat, deaths, advancements and server starts and stops. The history is
+ * fetched from /api/events, new events arrive over the /ws WebSocket while the server runs.
+ */
+export function ActivityFeed({ serverState, onPlayersChange }: Props) {
+  const [events, setEvents] = useState<ServerEvent[]>([]);
+  const [filter, setFilter] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  const merge = (incoming: ServerEvent[]) => {
+    setEvents(current => {
+      const byId = new Map(current.map(event => [event.id, event]));
+      for (const event of incoming) {
+        byId.set(event.id, event);
+      }
+      return [...byId.values()].sort((a, b) => b.time - a.time || b.id - a.id).slice(0, MAX_EVENTS);
+    });
+  };
+
+  useEffect(() => {
+    const fetchEvents = async () => {
+      try {
+        const response = await fetchWithAuth(`/api/events?limit=${MAX_EVENTS}`);
+        const data = await response.json() as ServerEventsResponse;
+        if (data.error) {
+          setError(data.error);
+          return;
+        }
+        setError(null);
+        merge(data.events);
+      } catch (err) {
+        console.error('Failed to fetch server events:', err);
+      }
+    };
+    fetchEvents();
+  }, [serverState]);
+
+  // Live events while the server runs
+  useEffect(() => {
+    if (serverState !== 'running') {
+      return;
+    }
+    let closed = false;
+    let socket: WebSocket | null = null;
+    const connect = async () => {
+      try {
+        const tokenResponse = await fetchApi('/auth/ws-token');
+        if (!tokenResponse.ok) {
+          return;
+        }
+        const { token } = await tokenResponse.json() as { token: string };
+        if (closed) return;
+        const url = backendUrl(`/ws?token=${encodeURIComponent(token)}`);
+        url.protocol = url.protocol === 'https:' ? 'wss:' : 'ws:';
+        socket = new WebSocket(url);
+        socket.onopen = () => {
+          socket?.send(JSON.stringify({ type: 'events.subscribe' }));
+        };
+        socket.onmessage = (message) => {
+          const data = JSON.parse(message.data as string) as { type: string; events?: ServerEvent[]; event?: ServerEvent; error?: string };
+          if (data.type === 'events.error') {
+            setError(data.error ?? 'Event stream failed');
+          } else if (data.type === 'events' && data.events) {
+            merge(data.events);
+          } else if (data.type === 'event' && data.event) {
+            merge([data.event]);
+            if (data.event.type === 'join' || data.event.type === 'leave') {
+              onPlayersChange?.();
+            }
+          }
+        };
+      } catch (err) {
+        console.error('Failed to connect event stream:', err);
+      }
+    };
+    connect();
+    return () => {
+      closed = true;
+      socket?.close();
+    };
+  }, [serverState]);
+
+  const types = FILTERS[filter].types;
+  const visible = types.length === 0 ? events : events.filter(event => types.includes(event.type));
+
+  const buttonStyle = (active: boolean) => ({
+    fontSize: '0.7rem',
+    fontWeight: '600',
+    padding: '4px 10px',
+    background: active ? 'rgba(87, 166, 78, 0.35)' : 'rgba(87, 166, 78, 0.15)',
+    color: '#57A64E',
+    border: '1px solid rgba(87, 166, 78, 0.3)',
+    borderRadius: '8px',
+    cursor: 'pointer',
+    textTransform: 'uppercase' as const,
+    letterSpacing: '0.05em',
+  });
+
+  return (
+    <div style={{
+      marginBottom: '24px',
+      background: 'rgba(26, 46, 30, 0.4)',
+      backdropFilter: 'blur(10px)',
+      border: '1px solid rgba(87, 166, 78, 0.2)',
+      borderRadius: '16px',
+      padding: '24px 32px',
+      boxShadow: '0 8px 32px rgba(0, 0, 0, 0.3)',
+    }}>
+      <div style={{ display: 'flex', alignItems: 'center', gap: '12px', flexWrap: 'wrap', marginBottom: '16px' }}>
+        <div style={{
+          width: '48px',
+          height: '48px',
+          borderRadius: '12px',
+          background: 'linear-gradient(135deg, #5B9BD5 0%, #3A7BBF 100%)',
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'center',
+          fontSize: '1.5rem',
+          boxShadow: '0 4px 12px rgba(91, 155, 213, 0.3)',
+        }}>
+          📣
+        </div>
+        <div style={{ marginRight: 'auto' }}>
+          <h2 style={{ margin: '0 0 4px 0', fontSize: '1.5rem', fontWeight: '700', color: '#fff' }}>
+            Activity
+          </h2>
+          <div style={{ color: '#888', fontSize: '0.875rem', fontWeight: '500' }}>
+            {serverState === 'running' ? 'Live' : 'Last 7 days'}
+          </div>
+        </div>
+        {FILTERS.map((option, index) => (
+          <button key={option.label} onClick={() => setFilter(index)} style={buttonStyle(filter === index)}>
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      {error && (
+        <div style={{ color: '#ff6b6b', fontSize: '0.8rem', marginBottom: '8px' }}>⚠️ {error}</div>
+      )}
+
+      <div style={{ maxHeight: '260px', overflowY: 'auto', display: 'flex', flexDirection: 'column', gap: '4px' }}>
+        {visible.length === 0 && (
+          <div style={{ color: '#666', fontSize: '0.875rem', padding: '12px 0' }}>No activity yet</div>
+        )}
+        {visible.map(event => (
+          <div key={event.id} style={{
+            display: 'flex',
+            gap: '10px',
+            alignItems: 'baseline',
+            padding: '6px 10px',
+            background: 'rgba(0, 0, 0, 0.2)',
+            borderRadius: '6px',
+            fontSize: '0.85rem',
+            color: '#e0e0e0',
+          }}>
+            <span style={{ color: '#666', fontFamily: 'monospace', fontSize: '0.75rem', flexShrink: 0, minWidth: '90px' }}>
+              {formatTime(event.time)}
+            </span>
+            <span style={{ flexShrink: 0 }}>{EVENT_ICONS[event.type]}</span>
+            <span style={{ wordBreak: 'break-word' }}>{event.message}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,269 @@
+import { useEffect, useState } from 'preact/hooks';
+import { fetchWithAuth } from '../utils/api';
+import { hasRole } from '../hooks/useAuth';
+import type { ApiTokenInfo, ApiTokenScope, ApiTokensResponse, AuthUser, Role } from '../types/api';
+
+interface Props {
+  user: AuthUser;
+}
+
+const SCOPES: Array<{ scope: ApiTokenScope; label: string; role: Role }> = [
+  { scope: 'read-status', label: 'Read status, players and events', role: 'viewer' },
+  { scope: 'start-stop', label: 'Start and stop the server', role: 'moderator' },
+  { scope: 'rcon', label: 'Run RCON commands', role: 'moderator' },
+  { scope: 'backups', label: 'List and restore backups', role: 'admin' },
+  { scope: 'plugins', label: 'Manage plugins', role: 'admin' },
+];
+
+const EXPIRY_OPTIONS: Array<{ days: number | null; label: string }> = [
+  { days: 30, label: '30 days' },
+  { days: 90, label: '90 days' },
+  { days: 365, label: '1 year' },
+  { days: null, label: 'Never' },
+];
+
+const inputStyle = {
+  padding: '6px 8px',
+  background: 'rgba(0, 0, 0, 0.3)',
+  color: '#e0e0e0',
+  border: '1px solid rgba(87, 166, 78, 0.3)',
+  borderRadius: '6px',
+  fontSize: '0.8rem',
+  boxSizing: 'border-box' as const,
+};
+
+const buttonStyle = (enabled: boolean) => ({
+  fontSize: '0.75rem',
+  fontWeight: '600',
+  padding: '6px 14px',
+  background: 'rgba(87, 166, 78, 0.15)',
+  color: '#57A64E',
+  border: '1px solid rgba(87, 166, 78, 0.3)',
+  borderRadius: '8px',
+  cursor: enabled ? 'pointer' : 'default',
+  opacity: enabled ? 1 : 0.5,
+  textTransform: 'uppercase' as const,
+  letterSpacing: '0.05em',
+  flexShrink: 0,
+});
+
+function formatDate(time: number | null, fallback: string): string {
+  return time === null ? fallback : new Date(time).toLocaleDateString();
+}
+
+/**
+ * Personal API tokens for scripts and bots, sent as "Authorization: Bearer mf_..."
+ */
+export function ApiTokens({ user }: Props) {
+  const [tokens, setTokens] = useState<ApiTokenInfo[]>([]);
+  const [name, setName] = useState('');
+  const [scopes, setScopes] = useState<ApiTokenScope[]>(['read-status']);
+  const [expiresInDays, setExpiresInDays] = useState<number | null>(90);
+  const [newToken, setNewToken] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchTokens = async () => {
+    try {
+      const response = await fetchWithAuth('/api/tokens');
+      const data = await response.json() as ApiTokensResponse;
+      if (data.error) {
+        setError(data.error);
+        return;
+      }
+      setTokens(data.tokens);
+    } catch (err) {
+      console.error('Failed to fetch API tokens:', err);
+    }
+  };
+
+  useEffect(() => {
+    fetchTokens();
+  }, []);
+
+  const toggleScope = (scope: ApiTokenScope) => {
+    setScopes(scopes.includes(scope) ? scopes.filter(s => s !== scope) : [...scopes, scope]);
+  };
+
+  const handleCreate = async () => {
+    try {
+      setBusy(true);
+      setError(null);
+      const response = await fetchWithAuth('/api/tokens', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: name.trim(), scopes, expiresInDays }),
+      });
+      const result = await response.json() as { success: boolean; token?: string; error?: string };
+      if (!result.success || !result.token) {
+        throw new Error(result.error || 'Failed to create token');
+      }
+      setNewToken(result.token);
+      setName('');
+      await fetchTokens();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create token');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRevoke = async (token: ApiTokenInfo) => {
+    if (!confirm(`Revoke "${token.name}"? Anything using it stops working right away.`)) return;
+    try {
+      setBusy(true);
+      setError(null);
+      const response = await fetchWithAuth(`/api/tokens/${token.id}`, { method: 'DELETE' });
+      const result = await response.json() as { success: boolean; error?: string };
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to revoke token');
+      }
+      await fetchTokens();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to revoke token');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const canCreate = !busy && name.trim() !== '' && scopes.length > 0;
+
+  return (
+    <div style={{
+      background: 'rgba(26, 46, 30, 0.4)',
+      backdropFilter: 'blur(10px)',
+      border: '1px solid rgba(87, 166, 78, 0.2)',
+      borderRadius: '16px',
+      padding: '32px',
+      boxShadow: '0 8px 32px rgba(0, 0, 0, 0.3)',
+    }}>
+      <div style={{ display: 'flex', alignItems: 'center', marginBottom: '24px' }}>
+        <div style={{
+          width: '48px',
+          height: '48px',
+          borderRadius: '12px',
+          background: 'linear-gradient(135deg, #8C8C8C 0%, #5E5E5E 100%)',
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'center',
+          fontSize: '1.5rem',
+          marginRight: '16px',
+          boxShadow: '0 4px 12px rgba(140, 140, 140, 0.3)',
+        }}>
+          🔑
+        </div>
+        <div>
+          <h2 style={{ margin: '0 0 4px 0', fontSize: '1.5rem', fontWeight: '700', color: '#fff' }}>
+            API Tokens
+          </h2>
+          <div style={{ color: '#888', fontSize: '0.875rem', fontWeight: '500' }}>
+            For scripts and bots, acting as {user.username}
+          </div>
+        </div>
+      </div>
+
+      {error && (
+        <div style={{ color: '#ff6b6b', fontSize: '0.8rem', marginBottom: '12px' }}>⚠️ {error}</div>
+      )}
+
+      {newToken && (
+        <div style={{
+          marginBottom: '16px',
+          padding: '12px',
+          background: 'rgba(87, 166, 78, 0.1)',
+          border: '1px solid rgba(87, 166, 78, 0.3)',
+          borderRadius: '8px',
+        }}>
+          <div style={{ color: '#e0e0e0', fontSize: '0.8rem', marginBottom: '6px' }}>
+            Copy the token now, it won't be shown again. Send it as <code>Authorization: Bearer &lt;token&gt;</code>.
+          </div>
+          <div style={{ display: 'flex', gap: '8px' }}>
+            <input readOnly value={newToken} onFocus={(e) => e.currentTarget.select()} style={{ ...inputStyle, flex: 1, minWidth: 0, fontFamily: 'monospace' }} />
+            <button onClick={() => navigator.clipboard.writeText(newToken)} style={buttonStyle(true)}>
+              Copy
+            </button>
+            <button onClick={() => setNewToken(null)} style={buttonStyle(true)}>
+              Done
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div style={{ display: 'flex', flexDirection: 'column', gap: '6px', marginBottom: '16px' }}>
+        {tokens.length === 0 && (
+          <div style={{ color: '#888', fontSize: '0.8rem' }}>No API tokens yet</div>
+        )}
+        {tokens.map(token => {
+          const expired = token.expiresAt !== null && token.expiresAt <= Date.now();
+          return (
+            <div key={token.id} style={{
+              display: 'flex',
+              alignItems: 'center',
+              gap: '12px',
+              padding: '8px 12px',
+              background: 'rgba(255, 255, 255, 0.03)',
+              border: '1px solid rgba(255, 255, 255, 0.08)',
+              borderRadius: '8px',
+              opacity: expired ? 0.6 : 1,
+            }}>
+              <div style={{ flex: 1, minWidth: 0 }}>
+                <div style={{ color: '#fff', fontWeight: '600', fontSize: '0.875rem' }}>
+                  {token.name}{expired ? ' (expired)' : ''}
+                </div>
+                <div style={{ color: '#888', fontSize: '0.75rem' }}>
+                  {token.scopes.join(', ')}
+                  {' · '}last used {formatDate(token.lastUsedAt, 'never')}
+                  {' · '}expires {formatDate(token.expiresAt, 'never')}
+                </div>
+              </div>
+              <button
+                onClick={() => handleRevoke(token)}
+                disabled={busy}
+                style={{ ...buttonStyle(!busy), color: '#ff6b6b', border: '1px solid rgba(255, 107, 107, 0.3)', background: 'rgba(255, 107, 107, 0.1)' }}
+              >
+                Revoke
+              </button>
+            </div>
+          );
+        })}
+      </div>
+
+      <div style={{ display: 'flex', flexDirection: 'column', gap: '8px' }}>
+        <div style={{ display: 'flex', gap: '8px' }}>
+          <input
+            type="text"
+            placeholder="Token name, e.g. Discord bot"
+            value={name}
+            onInput={(e) => setName((e.target as HTMLInputElement).value)}
+            style={{ ...inputStyle, flex: 1, minWidth: 0 }}
+          />
+          <select
+            value={expiresInDays === null ? '' : String(expiresInDays)}
+            onChange={(e) => {
+              const value = (e.target as HTMLSelectElement).value;
+              setExpiresInDays(value === '' ? null : parseInt(value, 10));
+            }}
+            style={inputStyle}
+          >
+            {EXPIRY_OPTIONS.map(option => (
+              <option key={option.label} value={option.days === null ? '' : String(option.days)}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+        <div style={{ display: 'flex', flexWrap: 'wrap', gap: '4px 16px' }}>
+          {SCOPES.filter(({ role }) => hasRole(user, role)).map(({ scope, label }) => (
+            <label key={scope} style={{ display: 'flex', alignItems: 'center', gap: '6px', color: '#b0b0b0', fontSize: '0.8rem', cursor: 'pointer' }}>
+              <input type="checkbox" checked={scopes.includes(scope)} onChange={() => toggleScope(scope)} />
+              {label}
+            </label>
+          ))}
+        </div>
+        <div style={{ display: 'flex', justifyContent: 'flex-end' }}>
+          <button onClick={handleCreate} disabled={!canCreate} style={buttonStyle(canCreate)}>
+            {busy ? '⏳ Creating' : '+ Create token'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,217 @@
+import { useEffect, useState } from 'preact/hooks';
+import { backendUrl, fetchWithAuth } from '../utils/api';
+import type { AuditEntry, AuditLogResponse, AuditSource } from '../types/api';
+
+const PAGE_SIZE = 100;
+
+const SOURCES: Array<{ source: AuditSource; label: string }> = [
+  { source: 'web', label: 'Dashboard' },
+  { source: 'mcp', label: 'MCP' },
+  { source: 'api-token', label: 'API token' },
+];
+
+interface Filters {
+  actor: string;
+  source: AuditSource | '';
+  action: string;
+  failuresOnly: boolean;
+}
+
+const inputStyle = {
+  padding: '6px 8px',
+  background: 'rgba(0, 0, 0, 0.3)',
+  color: '#e0e0e0',
+  border: '1px solid rgba(87, 166, 78, 0.3)',
+  borderRadius: '6px',
+  fontSize: '0.8rem',
+  boxSizing: 'border-box' as const,
+};
+
+const buttonStyle = (enabled: boolean) => ({
+  fontSize: '0.75rem',
+  fontWeight: '600',
+  padding: '6px 14px',
+  background: 'rgba(87, 166, 78, 0.15)',
+  color: '#57A64E',
+  border: '1px solid rgba(87, 166, 78, 0.3)',
+  borderRadius: '8px',
+  cursor: enabled ? 'pointer' : 'default',
+  opacity: enabled ? 1 : 0.5,
+  textTransform: 'uppercase' as const,
+  letterSpacing: '0.05em',
+  textDecoration: 'none',
+  flexShrink: 0,
+});
+
+function filterParams(filters: Filters): URLSearchParams {
+  const params = new URLSearchParams();
+  if (filters.actor.trim()) params.set('actor', filters.actor.trim());
+  if (filters.source) params.set('source', filters.source);
+  if (filters.action.trim()) params.set('action', filters.action.trim());
+  if (filters.failuresOnly) params.set('success', 'false');
+  return params;
+}
+
+function formatArgs(args: Record<string, unknown> | null): string {
+  if (!args) return '';
+  return Object.entries(args)
+    .map(([key, value]) => `${key}=${typeof value === 'string' ? value : JSON.stringify(value)}`)
+    .join(' ');
+}
+
+/**
+ * Who changed what through the dashboard, the MCP agent and API tokens. Admins only.
+ */
+export function AuditLog() {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [filters, setFilters] = useState<Filters>({ actor: '', source: '', action: '', failuresOnly: false });
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchEntries = async (until?: number) => {
+    try {
+      setLoading(true);
+      setError(null);
+      const params = filterParams(filters);
+      params.set('limit', String(PAGE_SIZE));
+      if (until !== undefined) params.set('until', String(until));
+      const response = await fetchWithAuth(`/api/audit?${params}`);
+      const data = await response.json() as AuditLogResponse;
+      if (data.error) {
+        setError(data.error);
+        return;
+      }
+      setEntries(until === undefined ? data.entries : [...entries, ...data.entries]);
+      setHasMore(data.entries.length === PAGE_SIZE);
+    } catch (err) {
+      console.error('Failed to fetch audit log:', err);
+      setError('Failed to fetch audit log');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Text filters apply on a short pause in typing
+  useEffect(() => {
+    const timeout = setTimeout(() => fetchEntries(), 300);
+    return () => clearTimeout(timeout);
+  }, [filters]);
+
+  const setFilter = <K extends keyof Filters>(key: K, value: Filters[K]) => setFilters({ ...filters, [key]: value });
+
+  const exportUrl = backendUrl(`/api/audit/export?${filterParams(filters)}`).toString();
+
+  return (
+    <div style={{
+      gridColumn: '1 / -1',
+      background: 'rgba(26, 46, 30, 0.4)',
+      backdropFilter: 'blur(10px)',
+      border: '1px solid rgba(87, 166, 78, 0.2)',
+      borderRadius: '16px',
+      padding: '32px',
+      boxShadow: '0 8px 32px rgba(0, 0, 0, 0.3)',
+    }}>
+      <div style={{ display: 'flex', alignItems: 'center', marginBottom: '24px' }}>
+        <div style={{
+          width: '48px',
+          height: '48px',
+          borderRadius: '12px',
+          background: 'linear-gradient(135deg, #5B8DD9 0%, #3A6AB8 100%)',
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'center',
+          fontSize: '1.5rem',
+          marginRight: '16px',
+          boxShadow: '0 4px 12px rgba(91, 141, 217, 0.3)',
+        }}>
+          📜
+        </div>
+        <div style={{ flex: 1 }}>
+          <h2 style={{ margin: '0 0 4px 0', fontSize: '1.5rem', fontWeight: '700', color: '#fff' }}>
+            Audit Log
+          </h2>
+          <div style={{ color: '#888', fontSize: '0.875rem', fontWeight: '500' }}>
+            Every change, who made it and from where
+          </div>
+        </div>
+        <a href={exportUrl} style={buttonStyle(true)}>
+          ⬇️ Export JSON lines
+        </a>
+      </div>
+
+      <div style={{ display: 'flex', gap: '8px', flexWrap: 'wrap', alignItems: 'center', marginBottom: '16px' }}>
+        <input
+          type="text"
+          placeholder="User"
+          value={filters.actor}
+          onInput={(e) => setFilter('actor', (e.target as HTMLInputElement).value)}
+          style={{ ...inputStyle, width: '140px' }}
+        />
+        <input
+          type="text"
+          placeholder="Action, e.g. plugin or rcon.execute"
+          value={filters.action}
+          onInput={(e) => setFilter('action', (e.target as HTMLInputElement).value)}
+          style={{ ...inputStyle, width: '240px' }}
+        />
+        <select
+          value={filters.source}
+          onChange={(e) => setFilter('source', (e.target as HTMLSelectElement).value as AuditSource | '')}
+          style={inputStyle}
+        >
+          <option value="">All sources</option>
+          {SOURCES.map(({ source, label }) => <option key={source} value={source}>{label}</option>)}
+        </select>
+        <label style={{ display: 'flex', alignItems: 'center', gap: '6px', color: '#b0b0b0', fontSize: '0.8rem', cursor: 'pointer' }}>
+          <input type="checkbox" checked={filters.failuresOnly} onChange={() => setFilter('failuresOnly', !filters.failuresOnly)} />
+          Failures only
+        </label>
+      </div>
+
+      {error && (
+        <div style={{ color: '#ff6b6b', fontSize: '0.8rem', marginBottom: '12px' }}>⚠️ {error}</div>
+      )}
+
+      <div style={{ display: 'flex', flexDirection: 'column', gap: '4px', maxHeight: '480px', overflowY: 'auto' }}>
+        {entries.length === 0 && !loading && (
+          <div style={{ color: '#888', fontSize: '0.8rem' }}>Nothing recorded</div>
+        )}
+        {entries.map(entry => (
+          <div key={entry.id} style={{
+            display: 'grid',
+            gridTemplateColumns: '150px 120px 90px 1fr',
+            gap: '12px',
+            alignItems: 'baseline',
+            padding: '6px 12px',
+            background: 'rgba(255, 255, 255, 0.03)',
+            borderLeft: `3px solid ${entry.success ? 'rgba(87, 166, 78, 0.6)' : 'rgba(255, 107, 107, 0.6)'}`,
+            borderRadius: '4px',
+            fontSize: '0.8rem',
+          }}>
+            <span style={{ color: '#888' }}>{new Date(entry.time).toLocaleString()}</span>
+            <span style={{ color: '#fff', fontWeight: '600', overflow: 'hidden', textOverflow: 'ellipsis' }}>{entry.actor}</span>
+            <span style={{ color: '#888' }}>{SOURCES.find(({ source }) => source === entry.source)?.label ?? entry.source}</span>
+            <span style={{ minWidth: 0 }}>
+              <span style={{ color: '#e0e0e0', fontFamily: 'monospace' }}>{entry.action}</span>
+              {entry.args && <span style={{ color: '#b0b0b0', fontFamily: 'monospace' }}> {formatArgs(entry.args)}</span>}
+              {entry.result && (
+                <div style={{ color: entry.success ? '#888' : '#ff6b6b', whiteSpace: 'pre-wrap', wordBreak: 'break-word' }}>
+                  {entry.result}
+                </div>
+              )}
+            </span>
+          </div>
+        ))}
+      </div>
+
+      {hasMore && (
+        <div style={{ display: 'flex', justifyContent: 'center', marginTop: '12px' }}>
+          <button onClick={() => fetchEntries(entries[entries.length - 1].time)} disabled={loading} style={buttonStyle(!loading)}>
+            {loading ? '⏳ Loading' : 'Load older'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
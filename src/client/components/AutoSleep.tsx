@@ -0,0 +1,184 @@
+import { useEffect, useState } from 'preact/hooks';
+import { fetchWithAuth } from '../utils/api';
+import type { AutoSleepSettings, AutoSleepStatus } from '../types/api';
+
+interface Props {
+  serverState: 'stopped' | 'starting' | 'running' | 'stopping';
+}
+
+const inputStyle = {
+  padding: '6px 8px',
+  background: 'rgba(0, 0, 0, 0.3)',
+  color: '#e0e0e0',
+  border: '1px solid rgba(87, 166, 78, 0.3)',
+  borderRadius: '6px',
+  fontSize: '0.8rem',
+  width: '100%',
+  boxSizing: 'border-box' as const,
+};
+
+const FIELDS: Array<{ key: 'idleMinutes' | 'graceMinutes' | 'warningSeconds'; label: string; min: number; max: number }> = [
+  { key: 'idleMinutes', label: 'Stop after minutes without players', min: 1, max: 1440 },
+  { key: 'graceMinutes', label: 'Grace period after start (minutes)', min: 0, max: 120 },
+  { key: 'warningSeconds', label: 'In-game countdown (seconds)', min: 0, max: 600 },
+];
+
+/**
+ * Stop the server once nobody has played for a while. An open dashboard doesn't keep it awake.
+ */
+export function AutoSleep({ serverState }: Props) {
+  const [status, setStatus] = useState<AutoSleepStatus | null>(null);
+  const [form, setForm] = useState<AutoSleepSettings | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchStatus = async (resetForm: boolean) => {
+    try {
+      const response = await fetchWithAuth('/api/auto-sleep');
+      const data = await response.json() as AutoSleepStatus;
+      if (data.error) {
+        setError(data.error);
+        return;
+      }
+      setStatus(data);
+      if (resetForm) {
+        const { enabled, idleMinutes, graceMinutes, warningSeconds } = data;
+        setForm({ enabled, idleMinutes, graceMinutes, warningSeconds });
+      }
+    } catch (err) {
+      console.error('Failed to fetch auto-sleep settings:', err);
+    }
+  };
+
+  useEffect(() => {
+    fetchStatus(form === null);
+    if (serverState !== 'running') {
+      return;
+    }
+    const interval = setInterval(() => fetchStatus(false), 30000);
+    return () => clearInterval(interval);
+  }, [serverState]);
+
+  const dirty = !!status && !!form && (Object.keys(form) as Array<keyof AutoSleepSettings>).some(key => form[key] !== status[key]);
+
+  const handleSave = async () => {
+    if (!form) return;
+    try {
+      setSaving(true);
+      setError(null);
+      const response = await fetchWithAuth('/api/auto-sleep', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(form),
+      });
+      const result = await response.json() as { success: boolean; autoSleep?: AutoSleepStatus; error?: string };
+      if (!result.success || !result.autoSleep) {
+        throw new Error(result.error || 'Failed to save auto-sleep settings');
+      }
+      setStatus(result.autoSleep);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save auto-sleep settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const describe = () => {
+    if (!status) return 'Loading...';
+    if (!status.enabled) return 'Off, the server stops after 20 minutes without requests';
+    if (serverState === 'running' && status.stopsAt) {
+      return `No players online, stopping at ${new Date(status.stopsAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`;
+    }
+    return `Stops after ${status.idleMinutes} minutes without players`;
+  };
+
+  return (
+    <div style={{
+      background: 'rgba(26, 46, 30, 0.4)',
+      backdropFilter: 'blur(10px)',
+      border: '1px solid rgba(87, 166, 78, 0.2)',
+      borderRadius: '16px',
+      padding: '32px',
+      boxShadow: '0 8px 32px rgba(0, 0, 0, 0.3)',
+    }}>
+      <div style={{ display: 'flex', alignItems: 'center', marginBottom: '24px' }}>
+        <div style={{
+          width: '48px',
+          height: '48px',
+          borderRadius: '12px',
+          background: 'linear-gradient(135deg, #5B9BD5 0%, #4A7BA7 100%)',
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'center',
+          fontSize: '1.5rem',
+          marginRight: '16px',
+          boxShadow: '0 4px 12px rgba(91, 155, 213, 0.3)',
+        }}>
+          💤
+        </div>
+        <div>
+          <h2 style={{ margin: '0 0 4px 0', fontSize: '1.5rem', fontWeight: '700', color: '#fff' }}>
+            Auto-Sleep
+          </h2>
+          <div style={{ color: status?.stopsAt && serverState === 'running' ? '#FFB600' : '#888', fontSize: '0.875rem', fontWeight: '500' }}>
+            {describe()}
+          </div>
+        </div>
+      </div>
+
+      {error && (
+        <div style={{ color: '#ff6b6b', fontSize: '0.8rem', marginBottom: '12px' }}>⚠️ {error}</div>
+      )}
+
+      {form && (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '12px' }}>
+          <label style={{ display: 'flex', alignItems: 'center', gap: '8px', color: '#e0e0e0', fontSize: '0.875rem', cursor: 'pointer' }}>
+            <input type="checkbox" checked={form.enabled} onChange={(e) => setForm({ ...form, enabled: (e.target as HTMLInputElement).checked })} />
+            Stop when no players are online
+          </label>
+          <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(160px, 1fr))', gap: '8px' }}>
+            {FIELDS.map(field => (
+              <label key={field.key} style={{ color: '#888', fontSize: '0.75rem', opacity: form.enabled ? 1 : 0.5 }}>
+                {field.label}
+                <input
+                  type="number"
+                  min={field.min}
+                  max={field.max}
+                  value={form[field.key]}
+                  disabled={!form.enabled}
+                  onInput={(e) => setForm({ ...form, [field.key]: parseInt((e.target as HTMLInputElement).value, 10) || 0 })}
+                  style={inputStyle}
+                />
+              </label>
+            ))}
+          </div>
+          <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: '12px' }}>
+            <span style={{ color: '#888', fontSize: '0.75rem' }}>
+              Players get a countdown in chat and joining cancels it
+            </span>
+            <button
+              onClick={handleSave}
+              disabled={!dirty || saving}
+              style={{
+                fontSize: '0.75rem',
+                fontWeight: '600',
+                padding: '6px 14px',
+                background: 'rgba(87, 166, 78, 0.15)',
+                color: '#57A64E',
+                border: '1px solid rgba(87, 166, 78, 0.3)',
+                borderRadius: '8px',
+                cursor: dirty && !saving ? 'pointer' : 'default',
+                opacity: dirty && !saving ? 1 : 0.5,
+                textTransform: 'uppercase',
+                letterSpacing: '0.05em',
+                flexShrink: 0,
+              }}
+            >
+              {saving ? '⏳ Saving' : '✓ Save'}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,249 @@
+import { useEffect, useState } from 'preact/hooks';
+import { fetchWithAuth } from '../utils/api';
+import type { BackupRetention as BackupRetentionPolicy, RetentionPreviewResponse } from '../types/api';
+
+const FIELDS: Array<{ key: 'keepLast' | 'keepDaily' | 'keepWeekly' | 'keepMonthly'; label: string; min: number }> = [
+  { key: 'keepLast', label: 'Most recent', min: 1 },
+  { key: 'keepDaily', label: 'Daily', min: 0 },
+  { key: 'keepWeekly', label: 'Weekly', min: 0 },
+  { key: 'keepMonthly', label: 'Monthly', min: 0 },
+];
+
+function formatBackupDate(ms: number): string {
+  return new Date(ms).toLocaleString(undefined, {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+/**
+ * Retention policy editor shown inside the World Backups panel
+ */
+export function BackupRetention() {
+  const [expanded, setExpanded] = useState(false);
+  const [policy, setPolicy] = useState<BackupRetentionPolicy | null>(null);
+  const [dirty, setDirty] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [preview, setPreview] = useState<RetentionPreviewResponse | null>(null);
+  const [previewing, setPreviewing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchPolicy = async () => {
+      try {
+        const response = await fetchWithAuth('/api/backups/retention');
+        const data = await response.json() as BackupRetentionPolicy & { error?: string };
+        if (data.error) {
+          setError(data.error);
+          return;
+        }
+        setPolicy(data);
+      } catch (err) {
+        console.error('Failed to fetch backup retention:', err);
+        setError('Failed to fetch backup retention');
+      }
+    };
+    fetchPolicy();
+  }, []);
+
+  const updateField = (key: keyof BackupRetentionPolicy, value: number | boolean) => {
+    if (!policy) return;
+    setPolicy({ ...policy, [key]: value });
+    setDirty(true);
+    setPreview(null);
+  };
+
+  const handlePreview = async () => {
+    if (!policy) return;
+    try {
+      setPreviewing(true);
+      setError(null);
+      const response = await fetchWithAuth('/api/backups/retention/preview', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ policy }),
+      });
+      const result = await response.json() as RetentionPreviewResponse;
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to preview retention');
+      }
+      setPreview(result);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to preview retention');
+    } finally {
+      setPreviewing(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!policy) return;
+    try {
+      setSaving(true);
+      setError(null);
+      const response = await fetchWithAuth('/api/backups/retention', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(policy),
+      });
+      const result = await response.json() as { success: boolean; retention?: BackupRetentionPolicy; error?: string };
+      if (!result.success || !result.retention) {
+        throw new Error(result.error || 'Failed to save retention policy');
+      }
+      setPolicy(result.retention);
+      setDirty(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save retention policy');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const buttonStyle = (enabled: boolean) => ({
+    fontSize: '0.75rem',
+    fontWeight: '600',
+    padding: '6px 14px',
+    background: 'rgba(87, 166, 78, 0.15)',
+    color: '#57A64E',
+    border: '1px solid rgba(87, 166, 78, 0.3)',
+    borderRadius: '8px',
+    cursor: enabled ? 'pointer' : 'default',
+    opacity: enabled ? 1 : 0.5,
+    textTransform: 'uppercase' as const,
+    letterSpacing: '0.05em',
+  });
+
+  return (
+    <div style={{
+      marginBottom: '16px',
+      padding: '12px 16px',
+      background: 'rgba(255, 255, 255, 0.03)',
+      border: '1px solid rgba(255, 255, 255, 0.1)',
+      borderRadius: '10px',
+    }}>
+      <div
+        onClick={() => setExpanded(!expanded)}
+        style={{
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'space-between',
+          cursor: 'pointer',
+          color: '#fff',
+          fontWeight: '600',
+          fontSize: '0.875rem',
+        }}
+      >
+        <span>🗂 Retention policy</span>
+        <span style={{ color: '#888', fontSize: '0.75rem' }}>
+          {policy ? (policy.enabled ? 'Enabled' : 'Keep everything') : '…'} {expanded ? '▲' : '▼'}
+        </span>
+      </div>
+
+      {expanded && policy && (
+        <div style={{ marginTop: '12px', display: 'flex', flexDirection: 'column', gap: '12px' }}>
+          {error && (
+            <div style={{
+              padding: '8px 12px',
+              background: 'rgba(255, 71, 71, 0.1)',
+              border: '1px solid rgba(255, 71, 71, 0.3)',
+              borderRadius: '8px',
+              color: '#ff6b6b',
+              fontSize: '0.8rem',
+            }}>
+              ⚠️ {error}
+            </div>
+          )}
+
+          <label style={{
+            display: 'flex',
+            alignItems: 'center',
+            gap: '8px',
+            color: '#e0e0e0',
+            fontSize: '0.8rem',
+            cursor: 'pointer',
+          }}>
+            <input
+              type="checkbox"
+              checked={policy.enabled}
+              onChange={(e) => updateField('enabled', (e.target as HTMLInputElement).checked)}
+            />
+            Delete old backups after each successful backup
+          </label>
+
+          <div style={{
+            display: 'grid',
+            gridTemplateColumns: 'repeat(4, 1fr)',
+            gap: '8px',
+          }}>
+            {FIELDS.map(field => (
+              <label key={field.key} style={{
+                display: 'flex',
+                flexDirection: 'column',
+                gap: '4px',
+                fontSize: '0.7rem',
+                color: '#888',
+                textTransform: 'uppercase',
+                letterSpacing: '0.05em',
+              }}>
+                {field.label}
+                <input
+                  type="number"
+                  min={field.min}
+                  value={policy[field.key]}
+                  disabled={!policy.enabled}
+                  onInput={(e) => updateField(field.key, Math.max(field.min, parseInt((e.target as HTMLInputElement).value, 10) || 0))}
+                  style={{
+                    padding: '6px 8px',
+                    background: 'rgba(0, 0, 0, 0.3)',
+                    color: '#e0e0e0',
+                    border: '1px solid rgba(87, 166, 78, 0.3)',
+                    borderRadius: '6px',
+                    fontSize: '0.875rem',
+                    width: '100%',
+                    boxSizing: 'border-box',
+                  }}
+                />
+              </label>
+            ))}
+          </div>
+
+          <div style={{ display: 'flex', gap: '8px', justifyContent: 'flex-end' }}>
+            <button onClick={handlePreview} disabled={previewing || !policy.enabled} style={buttonStyle(!previewing && policy.enabled)}>
+              {previewing ? '⏳ Checking' : '👁 Preview'}
+            </button>
+            <button onClick={handleSave} disabled={saving || !dirty} style={buttonStyle(!saving && dirty)}>
+              {saving ? '⏳ Saving' : '✓ Save'}
+            </button>
+          </div>
+
+          {preview && (
+            <div style={{ fontSize: '0.8rem', color: '#e0e0e0' }}>
+              {preview.delete.length === 0 ? (
+                <div style={{ color: '#57A64E' }}>No backups would be deleted ({preview.keep.length} kept).</div>
+              ) : (
+                <>
+                  <div style={{ color: '#FFB600', marginBottom: '6px' }}>
+                    {preview.delete.length} backup{preview.delete.length === 1 ? '' : 's'} would be deleted, {preview.keep.length} kept:
+                  </div>
+                  <div style={{
+                    maxHeight: '120px',
+                    overflowY: 'auto',
+                    fontFamily: 'monospace',
+                    fontSize: '0.75rem',
+                    color: '#888',
+                  }}>
+                    {preview.delete.map(b => (
+                      <div key={b.key}>✗ {formatBackupDate(b.createdAt)}</div>
+                    ))}
+                  </div>
+                </>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,448 @@
+import { useEffect, useState } from 'preact/hooks';
+import { backendUrl, fetchWithAuth } from '../utils/api';
+import { BackupRetention } from './BackupRetention';
+import { WorldTransfer } from './WorldTransfer';
+import type { BackupInfo, BackupsResponse, BackupScheduleResponse, RestoreBackupResponse, RestoreFailure } from '../types/api';
+
+interface Props {
+  serverState: 'stopped' | 'starting' | 'running' | 'stopping';
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+}
+
+const INTERVAL_OPTIONS = [
+  { minutes: 15, label: 'Every 15 minutes' },
+  { minutes: 30, label: 'Every 30 minutes' },
+  { minutes: 60, label: 'Every hour' },
+  { minutes: 120, label: 'Every 2 hours' },
+  { minutes: 360, label: 'Every 6 hours' },
+];
+
+function formatBackupDate(ms: number): string {
+  return new Date(ms).toLocaleString(undefined, {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+export function Backups({ serverState }: Props) {
+  const [backups, setBackups] = useState<BackupInfo[]>([]);
+  const [pendingRestore, setPendingRestore] = useState<string | null>(null);
+  const [restoreFailure, setRestoreFailure] = useState<RestoreFailure | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [restoringKey, setRestoringKey] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [schedule, setSchedule] = useState<BackupScheduleResponse | null>(null);
+  const [savingSchedule, setSavingSchedule] = useState(false);
+
+  const fetchSchedule = async () => {
+    try {
+      const response = await fetchWithAuth('/api/backups/schedule');
+      const data = await response.json() as BackupScheduleResponse;
+      if (!data.error) {
+        setSchedule(data);
+      }
+    } catch (err) {
+      console.error('Failed to fetch backup schedule:', err);
+    }
+  };
+
+  const updateSchedule = async (enabled: boolean, intervalMinutes: number) => {
+    try {
+      setSavingSchedule(true);
+      setError(null);
+      const response = await fetchWithAuth('/api/backups/schedule', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ enabled, intervalMinutes }),
+      });
+      const result = await response.json() as { success: boolean; schedule?: BackupScheduleResponse; error?: string };
+      if (!result.success || !result.schedule) {
+        throw new Error(result.error || 'Failed to update backup schedule');
+      }
+      setSchedule(result.schedule);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update backup schedule');
+    } finally {
+      setSavingSchedule(false);
+    }
+  };
+
+  const fetchBackups = async () => {
+    try {
+      const response = await fetchWithAuth('/api/backups');
+      const data = await response.json() as BackupsResponse;
+      if (data.error) {
+        setError(data.error);
+      } else {
+        setError(null);
+      }
+      setBackups(data.backups || []);
+      setPendingRestore(data.pendingRestore ?? null);
+      setRestoreFailure(data.restoreFailure ?? null);
+    } catch (err) {
+      console.error('Failed to fetch backups:', err);
+      setError('Failed to fetch backups');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchBackups();
+    fetchSchedule();
+    // Backups are taken on shutdown, so refresh whenever the server state changes
+    const interval = setInterval(() => {
+      fetchBackups();
+      fetchSchedule();
+    }, 60000);
+    return () => clearInterval(interval);
+  }, [serverState]);
+
+  const canRestore = serverState === 'running' || serverState === 'stopped';
+
+  const handleRestore = async (backup: BackupInfo) => {
+    if (!canRestore || restoringKey) return;
+
+    const message = serverState === 'running'
+      ? `Restore the world from ${formatBackupDate(backup.createdAt)}?\n\nThe server will be stopped (a backup of the current world is taken first), restored and started again.`
+      : `Restore the world from ${formatBackupDate(backup.createdAt)}?\n\nThe backup will be restored the next time the server starts.`;
+    if (!confirm(message)) return;
+
+    try {
+      setRestoringKey(backup.key);
+      setError(null);
+      setNotice(null);
+      const response = await fetchWithAuth(`/api/backups/${encodeURIComponent(backup.key)}/restore`, {
+        method: 'POST',
+      });
+      const result = await response.json() as RestoreBackupResponse;
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to restore backup');
+      }
+      setNotice(result.restarting
+        ? 'Restarting the server to restore the backup. This may take a few minutes.'
+        : 'The backup will be restored when the server next starts.');
+      await fetchBackups();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to restore backup');
+    } finally {
+      setRestoringKey(null);
+    }
+  };
+
+  return (
+    <div style={{
+      background: 'rgba(26, 46, 30, 0.4)',
+      backdropFilter: 'blur(10px)',
+      border: '1px solid rgba(87, 166, 78, 0.2)',
+      borderRadius: '16px',
+      padding: '32px',
+      boxShadow: '0 8px 32px rgba(0, 0, 0, 0.3)',
+      transition: 'all 0.3s ease',
+    }}
+    onMouseEnter={(e) => {
+      e.currentTarget.style.borderColor = 'rgba(87, 166, 78, 0.4)';
+      e.currentTarget.style.transform = 'translateY(-4px)';
+      e.currentTarget.style.boxShadow = '0 12px 40px rgba(0, 0, 0, 0.4)';
+    }}
+    onMouseLeave={(e) => {
+      e.currentTarget.style.borderColor = 'rgba(87, 166, 78, 0.2)';
+      e.currentTarget.style.transform = 'translateY(0)';
+      e.currentTarget.style.boxShadow = '0 8px 32px rgba(0, 0, 0, 0.3)';
+    }}
+    >
+      <div style={{
+        display: 'flex',
+        alignItems: 'center',
+        marginBottom: '24px',
+      }}>
+        <div style={{
+          width: '48px',
+          height: '48px',
+          borderRadius: '12px',
+          background: 'linear-gradient(135deg, #8B6F47 0%, #A0826D 100%)',
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'center',
+          fontSize: '1.5rem',
+          marginRight: '16px',
+          boxShadow: '0 4px 12px rgba(139, 111, 71, 0.3)',
+        }}>
+          💾
+        </div>
+        <div>
+          <h2 style={{
+            margin: '0 0 4px 0',
+            fontSize: '1.5rem',
+            fontWeight: '700',
+            color: '#fff',
+          }}>
+            World Backups
+          </h2>
+          <span style={{
+            color: '#888',
+            fontWeight: '600',
+            fontSize: '0.875rem',
+            textTransform: 'uppercase',
+            letterSpacing: '0.05em',
+          }}>
+            {loading ? 'Loading...' : `${backups.length} backup${backups.length === 1 ? '' : 's'}`}
+          </span>
+        </div>
+      </div>
+
+      {error && (
+        <div style={{
+          marginBottom: '16px',
+          padding: '12px 16px',
+          background: 'rgba(255, 71, 71, 0.1)',
+          border: '1px solid rgba(255, 71, 71, 0.3)',
+          borderRadius: '8px',
+          color: '#ff6b6b',
+          fontSize: '0.875rem',
+        }}>
+          ⚠️ {error}
+        </div>
+      )}
+
+      {notice && (
+        <div style={{
+          marginBottom: '16px',
+          padding: '12px 16px',
+          background: 'rgba(87, 166, 78, 0.1)',
+          border: '1px solid rgba(87, 166, 78, 0.3)',
+          borderRadius: '8px',
+          color: '#57A64E',
+          fontSize: '0.875rem',
+        }}>
+          {notice}
+        </div>
+      )}
+
+      {pendingRestore && (
+        <div style={{
+          marginBottom: '16px',
+          padding: '12px 16px',
+          background: 'rgba(255, 182, 0, 0.1)',
+          border: '1px solid rgba(255, 182, 0, 0.3)',
+          borderRadius: '8px',
+          color: '#FFB600',
+          fontSize: '0.875rem',
+        }}>
+          ⏳ Restore pending: {backups.find(b => b.key === pendingRestore)
+            ? formatBackupDate(backups.find(b => b.key === pendingRestore)!.createdAt)
+            : pendingRestore}
+        </div>
+      )}
+
+      {restoreFailure && (
+        <div style={{
+          marginBottom: '16px',
+          padding: '12px 16px',
+          background: 'rgba(255, 71, 71, 0.1)',
+          border: '1px solid rgba(255, 71, 71, 0.3)',
+          borderRadius: '8px',
+          color: '#ff6b6b',
+          fontSize: '0.875rem',
+        }}>
+          ⚠️ Restoring the backup from {backups.find(b => b.key === restoreFailure.key)
+            ? formatBackupDate(backups.find(b => b.key === restoreFailure.key)!.createdAt)
+            : restoreFailure.key} failed at {formatBackupDate(restoreFailure.failedAt)}: {restoreFailure.error}.
+          {restoreFailure.key === pendingRestore && ' It is tried again on the next start.'}
+        </div>
+      )}
+
+      {schedule && (
+        <div style={{
+          marginBottom: '16px',
+          padding: '12px 16px',
+          background: 'rgba(255, 255, 255, 0.03)',
+          border: '1px solid rgba(255, 255, 255, 0.1)',
+          borderRadius: '10px',
+          display: 'flex',
+          flexDirection: 'column',
+          gap: '8px',
+        }}>
+          <div style={{
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'space-between',
+            gap: '12px',
+            flexWrap: 'wrap',
+          }}>
+            <label style={{
+              display: 'flex',
+              alignItems: 'center',
+              gap: '8px',
+              color: '#fff',
+              fontWeight: '600',
+              fontSize: '0.875rem',
+              cursor: savingSchedule ? 'default' : 'pointer',
+            }}>
+              <input
+                type="checkbox"
+                checked={schedule.enabled}
+                disabled={savingSchedule}
+                onChange={(e) => updateSchedule((e.target as HTMLInputElement).checked, schedule.intervalMinutes)}
+              />
+              Automatic backups while running
+            </label>
+            <select
+              value={schedule.intervalMinutes}
+              disabled={savingSchedule || !schedule.enabled}
+              onChange={(e) => updateSchedule(schedule.enabled, parseInt((e.target as HTMLSelectElement).value, 10))}
+              style={{
+                padding: '6px 10px',
+                background: 'rgba(0, 0, 0, 0.3)',
+                color: '#e0e0e0',
+                border: '1px solid rgba(87, 166, 78, 0.3)',
+                borderRadius: '8px',
+                fontSize: '0.8rem',
+              }}
+            >
+              {!INTERVAL_OPTIONS.some(o => o.minutes === schedule.intervalMinutes) && (
+                <option value={schedule.intervalMinutes}>Every {schedule.intervalMinutes} minutes</option>
+              )}
+              {INTERVAL_OPTIONS.map(option => (
+                <option key={option.minutes} value={option.minutes}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+          <div style={{
+            color: '#888',
+            fontSize: '0.75rem',
+          }}>
+            {schedule.lastRun
+              ? (schedule.lastRun.success === null
+                ? `Scheduled backup running since ${formatBackupDate(schedule.lastRun.startedAt)}`
+                : schedule.lastRun.success
+                  ? `Last scheduled backup: ${formatBackupDate(schedule.lastRun.completedAt ?? schedule.lastRun.startedAt)} ✓`
+                  : `Last scheduled backup failed at ${formatBackupDate(schedule.lastRun.completedAt ?? schedule.lastRun.startedAt)}${schedule.lastRun.error ? `: ${schedule.lastRun.error}` : ''}`)
+              : 'No scheduled backups have run yet'}
+            {schedule.nextRunAt && ` · Next: ${formatBackupDate(schedule.nextRunAt)}`}
+          </div>
+        </div>
+      )}
+
+      <BackupRetention />
+
+      <WorldTransfer serverState={serverState} />
+
+      {!loading && backups.length === 0 ? (
+        <div style={{
+          padding: '24px',
+          textAlign: 'center',
+          color: '#888',
+          fontSize: '0.875rem',
+        }}>
+          No backups yet. A backup is taken every time the server stops.
+        </div>
+      ) : (
+        <div style={{
+          display: 'flex',
+          flexDirection: 'column',
+          gap: '8px',
+          maxHeight: '320px',
+          overflowY: 'auto',
+        }}>
+          {backups.map((backup, index) => {
+            const isRestoring = restoringKey === backup.key;
+            const isPending = pendingRestore === backup.key;
+            return (
+              <div
+                key={backup.key}
+                style={{
+                  display: 'flex',
+                  alignItems: 'center',
+                  justifyContent: 'space-between',
+                  gap: '12px',
+                  padding: '12px 16px',
+                  background: isPending ? 'rgba(255, 182, 0, 0.08)' : 'rgba(255, 255, 255, 0.03)',
+                  border: isPending ? '1px solid rgba(255, 182, 0, 0.3)' : '1px solid rgba(255, 255, 255, 0.1)',
+                  borderRadius: '10px',
+                }}
+              >
+                <div>
+                  <div style={{
+                    color: '#fff',
+                    fontWeight: '600',
+                    fontSize: '0.95rem',
+                  }}>
+                    {formatBackupDate(backup.createdAt)}
+                    {index === 0 && (
+                      <span style={{
+                        marginLeft: '8px',
+                        fontSize: '0.7rem',
+                        color: '#57A64E',
+                        textTransform: 'uppercase',
+                        letterSpacing: '0.05em',
+                      }}>
+                        Latest
+                      </span>
+                    )}
+                  </div>
+                  <div style={{
+                    color: '#888',
+                    fontSize: '0.75rem',
+                    fontFamily: 'monospace',
+                  }}>
+                    {backup.format === 'incremental' ? 'Incremental' : 'Full'} · {formatBytes(backup.size)}
+                  </div>
+                </div>
+                <div style={{ display: 'flex', gap: '6px', flexShrink: 0 }}>
+                  <a
+                    href={backendUrl(`/api/world/download?key=${encodeURIComponent(backup.key)}`).toString()}
+                    title="Download this backup"
+                    style={{
+                      fontSize: '0.75rem',
+                      fontWeight: '600',
+                      padding: '6px 10px',
+                      background: 'rgba(255, 255, 255, 0.05)',
+                      color: '#e0e0e0',
+                      border: '1px solid rgba(255, 255, 255, 0.15)',
+                      borderRadius: '8px',
+                      textDecoration: 'none',
+                    }}
+                  >
+                    ⬇
+                  </a>
+                  <button
+                    onClick={() => handleRestore(backup)}
+                    disabled={!canRestore || restoringKey !== null}
+                    title={canRestore ? 'Restore this backup' : 'Wait for the server to finish starting or stopping'}
+                    style={{
+                      fontSize: '0.75rem',
+                      fontWeight: '600',
+                      padding: '6px 14px',
+                      background: 'rgba(87, 166, 78, 0.15)',
+                      color: '#57A64E',
+                      border: '1px solid rgba(87, 166, 78, 0.3)',
+                      borderRadius: '8px',
+                      cursor: (canRestore && restoringKey === null) ? 'pointer' : 'default',
+                      opacity: (canRestore && restoringKey === null) ? 1 : 0.5,
+                      textTransform: 'uppercase',
+                      letterSpacing: '0.05em',
+                      flexShrink: 0,
+                    }}
+                  >
+                    {isRestoring ? '⏳ Restoring' : '↺ Restore'}
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,220 @@
+import { useEffect, useState } from 'preact/hooks';
+import { fetchWithAuth } from '../utils/api';
+import type { CostSummary, InstanceType } from '../types/api';
+
+interface Props {
+  serverState?: 'stopped' | 'starting' | 'running' | 'stopping';
+}
+
+const INSTANCE_TYPES: InstanceType[] = ['lite', 'basic', 'standard-1', 'standard-2', 'standard-3', 'standard-4'];
+
+const LEVEL_COLORS = {
+  none: '#57A64E',
+  ok: '#57A64E',
+  warning: '#FFB600',
+  exceeded: '#ff6b6b',
+};
+
+const inputStyle = {
+  padding: '6px 8px',
+  background: 'rgba(0, 0, 0, 0.3)',
+  color: '#e0e0e0',
+  border: '1px solid rgba(87, 166, 78, 0.3)',
+  borderRadius: '6px',
+  fontSize: '0.8rem',
+  width: '100%',
+  boxSizing: 'border-box' as const,
+};
+
+function formatDollars(value: number): string {
+  return value < 0.01 && value > 0 ? '< $0.01' : `$${value.toFixed(2)}`;
+}
+
+/**
+ * Estimated cost of this month and the monthly budget, shown inside the Session Timer panel
+ */
+export function CostBudget({ serverState }: Props) {
+  const [summary, setSummary] = useState<CostSummary | null>(null);
+  const [expanded, setExpanded] = useState(false);
+  const [limit, setLimit] = useState('');
+  const [warnAt, setWarnAt] = useState('80');
+  const [instanceType, setInstanceType] = useState<InstanceType>('standard-4');
+  const [hourlyRate, setHourlyRate] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchSummary = async () => {
+    try {
+      const response = await fetchWithAuth('/api/costs');
+      const data = await response.json() as CostSummary;
+      if (data.error) {
+        setError(data.error);
+        return;
+      }
+      setSummary(data);
+    } catch (err) {
+      console.error('Failed to fetch costs:', err);
+    }
+  };
+
+  useEffect(() => {
+    fetchSummary();
+    const interval = setInterval(fetchSummary, 60000);
+    return () => clearInterval(interval);
+  }, [serverState]);
+
+  // Fill the form when it is opened
+  useEffect(() => {
+    if (expanded && summary) {
+      setLimit(summary.budget.monthlyLimit?.toString() ?? '');
+      setWarnAt(summary.budget.warnAtPercent.toString());
+      setInstanceType(summary.costModel.instanceType);
+      setHourlyRate(summary.costModel.hourlyRate?.toString() ?? '');
+    }
+  }, [expanded]);
+
+  const post = async (path: string, body?: unknown) => {
+    const response = await fetchWithAuth(path, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body ?? {}),
+    });
+    const result = await response.json() as { success: boolean; error?: string };
+    if (!result.success) {
+      throw new Error(result.error || 'Request failed');
+    }
+  };
+
+  const handleSave = async () => {
+    try {
+      setSaving(true);
+      setError(null);
+      await post('/api/costs/budget', {
+        monthlyLimit: limit.trim() === '' ? null : parseFloat(limit),
+        warnAtPercent: parseInt(warnAt, 10),
+      });
+      await post('/api/costs/model', {
+        instanceType,
+        hourlyRate: hourlyRate.trim() === '' ? null : parseFloat(hourlyRate),
+      });
+      await fetchSummary();
+      setExpanded(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save budget');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleOverride = async () => {
+    if (!confirm('Allow starting the server for the rest of this month even though the budget is exceeded?')) return;
+    try {
+      setError(null);
+      await post('/api/costs/budget/override');
+      await fetchSummary();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to override budget');
+    }
+  };
+
+  if (!summary) {
+    return null;
+  }
+
+  const { estimate, budget, level } = summary;
+  const color = LEVEL_COLORS[level];
+  const percent = budget.monthlyLimit ? Math.min(100, (estimate.total / budget.monthlyLimit) * 100) : 0;
+
+  const buttonStyle = (enabled: boolean) => ({
+    fontSize: '0.75rem',
+    fontWeight: '600',
+    padding: '6px 14px',
+    background: 'rgba(87, 166, 78, 0.15)',
+    color: '#57A64E',
+    border: '1px solid rgba(87, 166, 78, 0.3)',
+    borderRadius: '8px',
+    cursor: enabled ? 'pointer' : 'default',
+    opacity: enabled ? 1 : 0.5,
+    textTransform: 'uppercase' as const,
+    letterSpacing: '0.05em',
+  });
+
+  return (
+    <div style={{
+      marginTop: '16px',
+      padding: '12px 16px',
+      background: 'rgba(255, 255, 255, 0.03)',
+      border: `1px solid ${level === 'warning' || level === 'exceeded' ? color : 'rgba(255, 255, 255, 0.1)'}`,
+      borderRadius: '10px',
+    }}>
+      <div style={{ display: 'flex', alignItems: 'baseline', justifyContent: 'space-between', gap: '8px' }}>
+        <span style={{ color: '#fff', fontWeight: '600', fontSize: '0.875rem' }}>💵 Estimated cost this month</span>
+        <span style={{ color, fontWeight: '700', fontSize: '1.25rem' }}>{formatDollars(estimate.total)}</span>
+      </div>
+      <div style={{ color: '#888', fontSize: '0.75rem', marginTop: '4px' }}>
+        Server {formatDollars(estimate.instance)} ({summary.usage.instanceHours.toFixed(1)}h)
+        {' · '}R2 storage {formatDollars(estimate.storage)} ({(summary.usage.storageBytes / 1024 ** 3).toFixed(2)} GB)
+        {' · '}R2 operations {formatDollars(estimate.operations)}
+      </div>
+
+      {budget.monthlyLimit !== null && (
+        <div style={{ marginTop: '10px' }}>
+          <div style={{ height: '6px', background: 'rgba(255, 255, 255, 0.1)', borderRadius: '3px', overflow: 'hidden' }}>
+            <div style={{ width: `${percent}%`, height: '100%', background: color }} />
+          </div>
+          <div style={{ color: level === 'ok' ? '#888' : color, fontSize: '0.75rem', marginTop: '4px' }}>
+            {level === 'exceeded'
+              ? summary.overridden
+                ? `Over the $${budget.monthlyLimit.toFixed(2)} budget, starts are allowed for the rest of the month`
+                : `Over the $${budget.monthlyLimit.toFixed(2)} budget, the server won't start until the budget is raised`
+              : level === 'warning'
+                ? `⚠️ ${Math.round(percent)}% of the $${budget.monthlyLimit.toFixed(2)} budget used`
+                : `${Math.round(percent)}% of the $${budget.monthlyLimit.toFixed(2)} budget`}
+          </div>
+          {summary.blocked && (
+            <button onClick={handleOverride} style={{ ...buttonStyle(true), marginTop: '8px', color: '#ff6b6b', borderColor: 'rgba(255, 107, 107, 0.3)', background: 'rgba(255, 107, 107, 0.1)' }}>
+              Allow starts this month
+            </button>
+          )}
+        </div>
+      )}
+
+      {error && <div style={{ color: '#ff6b6b', fontSize: '0.75rem', marginTop: '8px' }}>⚠️ {error}</div>}
+
+      <div
+        onClick={() => setExpanded(!expanded)}
+        style={{ color: '#888', fontSize: '0.75rem', marginTop: '10px', cursor: 'pointer', textDecoration: 'underline' }}
+      >
+        {expanded ? 'Hide budget settings' : budget.monthlyLimit === null ? 'Set a monthly budget' : 'Budget settings'}
+      </div>
+
+      {expanded && (
+        <div style={{ marginTop: '10px', display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '8px', fontSize: '0.75rem', color: '#888' }}>
+          <label>
+            Monthly budget (USD, empty for none)
+            <input type="number" min="0" step="1" value={limit} onInput={(e) => setLimit((e.target as HTMLInputElement).value)} style={inputStyle} />
+          </label>
+          <label>
+            Warn at (% of budget)
+            <input type="number" min="1" max="100" value={warnAt} onInput={(e) => setWarnAt((e.target as HTMLInputElement).value)} style={inputStyle} />
+          </label>
+          <label>
+            Instance type
+            <select value={instanceType} onChange={(e) => setInstanceType((e.target as HTMLSelectElement).value as InstanceType)} style={inputStyle}>
+              {INSTANCE_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+            </select>
+          </label>
+          <label>
+            Hourly rate (USD, empty for the list price)
+            <input type="number" min="0" step="0.01" value={hourlyRate} onInput={(e) => setHourlyRate((e.target as HTMLInputElement).value)} style={inputStyle} />
+          </label>
+          <div style={{ gridColumn: '1 / -1', display: 'flex', justifyContent: 'flex-end' }}>
+            <button onClick={handleSave} disabled={saving} style={buttonStyle(!saving)}>
+              {saving ? '⏳ Saving' : '✓ Save'}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,349 @@
+import { useEffect, useState } from 'preact/hooks';
+import { fetchWithAuth } from '../utils/api';
+import type { CatalogSource, CustomPlugin, CustomPluginsResponse } from '../types/api';
+
+interface Props {
+  serverState: 'stopped' | 'starting' | 'running' | 'stopping';
+  onPluginsChange: () => Promise<void>;
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+// Required env vars are edited as one "NAME: description" per line
+function formatRequiredEnv(requiredEnv: CustomPlugin['requiredEnv']): string {
+  return requiredEnv.map(env => `${env.name}: ${env.description}`).join('\n');
+}
+
+function parseRequiredEnv(text: string): CustomPlugin['requiredEnv'] {
+  return text
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line => line !== '')
+    .map(line => {
+      const separator = line.indexOf(':');
+      return separator === -1
+        ? { name: line, description: '' }
+        : { name: line.slice(0, separator).trim(), description: line.slice(separator + 1).trim() };
+    });
+}
+
+const inputStyle = {
+  padding: '6px 8px',
+  background: 'rgba(0, 0, 0, 0.3)',
+  color: '#e0e0e0',
+  border: '1px solid rgba(87, 166, 78, 0.3)',
+  borderRadius: '6px',
+  fontSize: '0.8rem',
+  width: '100%',
+  boxSizing: 'border-box' as const,
+};
+
+/**
+ * Upload plugin jars or install them from Modrinth/Hangar and manage their registration, shown inside the Server Plugins panel
+ */
+export function CustomPlugins({ serverState, onPluginsChange }: Props) {
+  const [expanded, setExpanded] = useState(false);
+  const [plugins, setPlugins] = useState<CustomPlugin[]>([]);
+  const [displayName, setDisplayName] = useState('');
+  const [catalogSource, setCatalogSource] = useState<CatalogSource>('modrinth');
+  const [projectId, setProjectId] = useState('');
+  const [installing, setInstalling] = useState(false);
+  const [uploading, setUploading] = useState(false);
+  const [editing, setEditing] = useState<string | null>(null);
+  const [editName, setEditName] = useState('');
+  const [editEnv, setEditEnv] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchCustomPlugins = async () => {
+    try {
+      const response = await fetchWithAuth('/api/custom-plugins');
+      const data = await response.json() as CustomPluginsResponse;
+      if (!data.error) {
+        setPlugins(data.plugins);
+      }
+    } catch (err) {
+      console.error('Failed to fetch custom plugins:', err);
+    }
+  };
+
+  useEffect(() => {
+    fetchCustomPlugins();
+  }, []);
+
+  const canEdit = serverState === 'stopped';
+
+  const handleFile = async (file: File) => {
+    if (!file.name.toLowerCase().endsWith('.jar')) {
+      setError('Choose a plugin .jar file');
+      return;
+    }
+    try {
+      setUploading(true);
+      setError(null);
+      const params = new URLSearchParams({ filename: file.name, displayName: displayName.trim() });
+      const response = await fetchWithAuth(`/api/custom-plugins?${params}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/java-archive' },
+        body: file,
+      });
+      const result = await response.json() as { success: boolean; plugin?: CustomPlugin; error?: string };
+      if (!result.success || !result.plugin) {
+        throw new Error(result.error || 'Failed to upload plugin');
+      }
+      setDisplayName('');
+      await fetchCustomPlugins();
+      await onPluginsChange();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to upload plugin');
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleInstall = async () => {
+    try {
+      setInstalling(true);
+      setError(null);
+      const response = await fetchWithAuth('/api/custom-plugins/catalog', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ source: catalogSource, projectId: projectId.trim() }),
+      });
+      const result = await response.json() as { success: boolean; plugin?: CustomPlugin; error?: string };
+      if (!result.success || !result.plugin) {
+        throw new Error(result.error || 'Failed to install plugin');
+      }
+      setProjectId('');
+      await fetchCustomPlugins();
+      await onPluginsChange();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to install plugin');
+    } finally {
+      setInstalling(false);
+    }
+  };
+
+  const startEditing = (plugin: CustomPlugin) => {
+    setEditing(plugin.filename);
+    setEditName(plugin.displayName);
+    setEditEnv(formatRequiredEnv(plugin.requiredEnv));
+  };
+
+  const handleSave = async (filename: string) => {
+    try {
+      setBusy(true);
+      setError(null);
+      const response = await fetchWithAuth(`/api/custom-plugins/${encodeURIComponent(filename)}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ displayName: editName, requiredEnv: parseRequiredEnv(editEnv) }),
+      });
+      const result = await response.json() as { success: boolean; error?: string };
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to update plugin');
+      }
+      setEditing(null);
+      await fetchCustomPlugins();
+      await onPluginsChange();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update plugin');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDelete = async (plugin: CustomPlugin) => {
+    if (!confirm(`Delete ${plugin.displayName}? The jar is removed from storage.`)) return;
+    try {
+      setBusy(true);
+      setError(null);
+      const response = await fetchWithAuth(`/api/custom-plugins/${encodeURIComponent(plugin.filename)}`, { method: 'DELETE' });
+      const result = await response.json() as { success: boolean; error?: string };
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to delete plugin');
+      }
+      await fetchCustomPlugins();
+      await onPluginsChange();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete plugin');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const buttonStyle = (enabled: boolean) => ({
+    fontSize: '0.75rem',
+    fontWeight: '600',
+    padding: '6px 14px',
+    background: 'rgba(87, 166, 78, 0.15)',
+    color: '#57A64E',
+    border: '1px solid rgba(87, 166, 78, 0.3)',
+    borderRadius: '8px',
+    cursor: enabled ? 'pointer' : 'default',
+    opacity: enabled ? 1 : 0.5,
+    textTransform: 'uppercase' as const,
+    letterSpacing: '0.05em',
+    flexShrink: 0,
+  });
+
+  return (
+    <div style={{
+      marginTop: '16px',
+      padding: '12px 16px',
+      background: 'rgba(255, 255, 255, 0.03)',
+      border: '1px solid rgba(255, 255, 255, 0.1)',
+      borderRadius: '10px',
+    }}>
+      <div
+        onClick={() => setExpanded(!expanded)}
+        style={{
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'space-between',
+          cursor: 'pointer',
+          color: '#fff',
+          fontWeight: '600',
+          fontSize: '0.875rem',
+        }}
+      >
+        <span>📦 Add your own plugins</span>
+        <span style={{ color: '#888', fontSize: '0.75rem' }}>
+          {plugins.length > 0 ? `${plugins.length} added` : ''} {expanded ? '▲' : '▼'}
+        </span>
+      </div>
+
+      {expanded && (
+        <div style={{ marginTop: '12px', display: 'flex', flexDirection: 'column', gap: '12px' }}>
+          {error && (
+            <div style={{
+              padding: '8px 12px',
+              background: 'rgba(255, 71, 71, 0.1)',
+              border: '1px solid rgba(255, 71, 71, 0.3)',
+              borderRadius: '8px',
+              color: '#ff6b6b',
+              fontSize: '0.8rem',
+              wordBreak: 'break-word',
+            }}>
+              ⚠️ {error}
+            </div>
+          )}
+
+          <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+            <input
+              value={displayName}
+              placeholder="Display name (optional)"
+              onInput={(e) => setDisplayName((e.target as HTMLInputElement).value)}
+              style={inputStyle}
+            />
+            <label style={buttonStyle(!uploading)}>
+              {uploading ? '⏳ Uploading' : '⬆ Upload .jar'}
+              <input
+                type="file"
+                accept=".jar"
+                disabled={uploading}
+                style={{ display: 'none' }}
+                onChange={(e) => {
+                  const input = e.target as HTMLInputElement;
+                  const file = input.files?.[0];
+                  input.value = '';
+                  if (file) handleFile(file);
+                }}
+              />
+            </label>
+          </div>
+
+          <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+            <select
+              value={catalogSource}
+              onChange={(e) => setCatalogSource((e.target as HTMLSelectElement).value as CatalogSource)}
+              style={{ ...inputStyle, width: 'auto' }}
+            >
+              <option value="modrinth">Modrinth</option>
+              <option value="hangar">Hangar</option>
+            </select>
+            <input
+              value={projectId}
+              placeholder={catalogSource === 'modrinth' ? 'Project ID or slug' : 'Project slug'}
+              onInput={(e) => setProjectId((e.target as HTMLInputElement).value)}
+              onKeyDown={(e) => { if (e.key === 'Enter' && projectId.trim() && !installing) handleInstall(); }}
+              style={inputStyle}
+            />
+            <button onClick={handleInstall} disabled={installing || !projectId.trim()} style={buttonStyle(!installing && !!projectId.trim())}>
+              {installing ? '⏳ Installing' : '⬇ Install'}
+            </button>
+          </div>
+
+          {plugins.map(plugin => (
+            <div key={plugin.filename} style={{
+              padding: '8px 12px',
+              background: 'rgba(0, 0, 0, 0.2)',
+              borderRadius: '8px',
+              display: 'flex',
+              flexDirection: 'column',
+              gap: '8px',
+            }}>
+              <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: '8px' }}>
+                <div style={{ minWidth: 0 }}>
+                  <div style={{ color: '#e0e0e0', fontSize: '0.875rem' }}>{plugin.displayName}</div>
+                  <div style={{ color: '#888', fontSize: '0.75rem', fontFamily: 'monospace' }}>
+                    {plugin.filename}.jar · {formatBytes(plugin.size)}
+                    {plugin.requiredEnv.length > 0 && ` · ${plugin.requiredEnv.length} env var${plugin.requiredEnv.length === 1 ? '' : 's'}`}
+                  </div>
+                  {plugin.catalog && (
+                    <div style={{ color: '#888', fontSize: '0.75rem' }} title={`Supports Minecraft ${plugin.catalog.gameVersions.join(', ')}`}>
+                      {plugin.catalog.source === 'modrinth' ? 'Modrinth' : 'Hangar'} · pinned to {plugin.catalog.versionNumber}
+                    </div>
+                  )}
+                </div>
+                <div style={{ display: 'flex', gap: '6px' }}>
+                  <button
+                    onClick={() => editing === plugin.filename ? setEditing(null) : startEditing(plugin)}
+                    disabled={busy}
+                    style={buttonStyle(!busy)}
+                  >
+                    {editing === plugin.filename ? 'Close' : 'Edit'}
+                  </button>
+                  <button
+                    onClick={() => handleDelete(plugin)}
+                    disabled={busy || !canEdit}
+                    title={canEdit ? undefined : 'Stop the server to delete plugins'}
+                    style={buttonStyle(!busy && canEdit)}
+                  >
+                    Delete
+                  </button>
+                </div>
+              </div>
+
+              {editing === plugin.filename && (
+                <div style={{ display: 'flex', flexDirection: 'column', gap: '8px' }}>
+                  <input
+                    value={editName}
+                    onInput={(e) => setEditName((e.target as HTMLInputElement).value)}
+                    style={inputStyle}
+                  />
+                  <textarea
+                    value={editEnv}
+                    rows={3}
+                    placeholder={'Required env vars, one per line:\nAPI_KEY: Key from the plugin website'}
+                    onInput={(e) => setEditEnv((e.target as HTMLTextAreaElement).value)}
+                    style={{ ...inputStyle, fontFamily: 'monospace', resize: 'vertical' }}
+                  />
+                  <div style={{ display: 'flex', justifyContent: 'flex-end' }}>
+                    <button onClick={() => handleSave(plugin.filename)} disabled={busy || !editName.trim()} style={buttonStyle(!busy && !!editName.trim())}>
+                      {busy ? '⏳ Saving' : '✓ Save'}
+                    </button>
+                  </div>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
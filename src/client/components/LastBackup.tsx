@@ -0,0 +1,228 @@
+import { useEffect, useState } from 'preact/hooks';
+import { fetchWithAuth } from '../utils/api';
+import type { BackupHistoryEntry, BackupHistoryResponse, BackupTrigger } from '../types/api';
+
+interface Props {
+  serverState: 'stopped' | 'starting' | 'running' | 'stopping';
+}
+
+const TRIGGER_LABELS: Record<BackupTrigger, string> = {
+  shutdown: 'On shutdown',
+  scheduled: 'Scheduled',
+  manual: 'Manual',
+};
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+}
+
+function formatBackupDate(ms: number): string {
+  return new Date(ms).toLocaleString(undefined, {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  return `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
+
+export function LastBackup({ serverState }: Props) {
+  const [history, setHistory] = useState<BackupHistoryEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchHistory = async () => {
+      try {
+        const response = await fetchWithAuth('/api/backups/history?limit=10');
+        const data = await response.json() as BackupHistoryResponse;
+        if (data.error) {
+          setError(data.error);
+        } else {
+          setHistory(data.history);
+          setError(null);
+        }
+      } catch (err) {
+        console.error('Failed to fetch backup history:', err);
+        setError('Failed to fetch backup history');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchHistory();
+    // Refetch every 30 seconds to pick up scheduled and shutdown backups
+    const interval = setInterval(fetchHistory, 30000);
+    return () => clearInterval(interval);
+  }, [serverState]);
+
+  const last = history[0];
+  const lastSuccess = history.find(entry => entry.success);
+  const isRunning = last?.success === null;
+  const isFailed = last?.success === false;
+
+  const accent = isFailed ? '#ff6b6b' : isRunning ? '#FFB600' : '#55FF55';
+  const borderColor = isFailed ? 'rgba(255, 71, 71, 0.2)' : isRunning ? 'rgba(255, 182, 0, 0.2)' : 'rgba(87, 166, 78, 0.2)';
+  const borderColorHover = isFailed ? 'rgba(255, 71, 71, 0.4)' : isRunning ? 'rgba(255, 182, 0, 0.4)' : 'rgba(87, 166, 78, 0.4)';
+
+  const statusLabel = loading
+    ? 'Loading'
+    : !last
+      ? 'No backups yet'
+      : isRunning
+        ? 'In progress'
+        : isFailed
+          ? 'Failed'
+          : 'Succeeded';
+
+  return (
+    <div style={{
+      background: 'rgba(26, 46, 30, 0.4)',
+      backdropFilter: 'blur(10px)',
+      border: `1px solid ${borderColor}`,
+      borderRadius: '16px',
+      padding: '32px',
+      boxShadow: '0 8px 32px rgba(0, 0, 0, 0.3)',
+      transition: 'all 0.3s ease',
+    }}
+    onMouseEnter={(e) => {
+      e.currentTarget.style.borderColor = borderColorHover;
+      e.currentTarget.style.transform = 'translateY(-4px)';
+      e.currentTarget.style.boxShadow = '0 12px 40px rgba(0, 0, 0, 0.4)';
+    }}
+    onMouseLeave={(e) => {
+      e.currentTarget.style.borderColor = borderColor;
+      e.currentTarget.style.transform = 'translateY(0)';
+      e.currentTarget.style.boxShadow = '0 8px 32px rgba(0, 0, 0, 0.3)';
+    }}
+    >
+      {/* Header */}
+      <div style={{
+        display: 'flex',
+        alignItems: 'center',
+        marginBottom: '24px',
+      }}>
+        <div style={{
+          width: '48px',
+          height: '48px',
+          borderRadius: '12px',
+          background: isFailed
+            ? 'linear-gradient(135deg, #ff6b6b 0%, #c94b4b 100%)'
+            : isRunning
+              ? 'linear-gradient(135deg, #FFB600 0%, #FFC933 100%)'
+              : 'linear-gradient(135deg, #55FF55 0%, #57A64E 100%)',
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'center',
+          fontSize: '1.5rem',
+          marginRight: '16px',
+          boxShadow: '0 4px 12px rgba(0, 0, 0, 0.3)',
+          animation: isRunning ? 'pulse 2s ease-in-out infinite' : 'none',
+        }}>
+          {isFailed ? '⚠' : isRunning ? '⏳' : '🗄'}
+        </div>
+        <div>
+          <h2 style={{
+            margin: '0 0 4px 0',
+            fontSize: '1.5rem',
+            fontWeight: '700',
+            color: '#fff',
+          }}>
+            Last Backup
+          </h2>
+          <span style={{
+            color: accent,
+            fontWeight: '600',
+            fontSize: '0.875rem',
+            textTransform: 'uppercase',
+            letterSpacing: '0.05em',
+          }}>
+            {statusLabel}
+          </span>
+        </div>
+      </div>
+
+      {error && (
+        <div style={{
+          marginBottom: '16px',
+          padding: '12px 16px',
+          background: 'rgba(255, 71, 71, 0.1)',
+          border: '1px solid rgba(255, 71, 71, 0.3)',
+          borderRadius: '8px',
+          color: '#ff6b6b',
+          fontSize: '0.875rem',
+        }}>
+          ⚠️ {error}
+        </div>
+      )}
+
+      {last && (
+        <div style={{
+          background: 'rgba(255, 255, 255, 0.03)',
+          border: `1px solid ${borderColor}`,
+          borderRadius: '12px',
+          padding: '16px 20px',
+          marginBottom: '16px',
+          display: 'flex',
+          flexDirection: 'column',
+          gap: '6px',
+          fontSize: '0.875rem',
+        }}>
+          <div style={{ color: '#fff', fontWeight: '600' }}>
+            {formatBackupDate(last.completedAt ?? last.startedAt)}
+          </div>
+          <div style={{ color: '#888', fontSize: '0.8rem' }}>
+            {TRIGGER_LABELS[last.trigger]}
+            {last.completedAt !== null && ` · took ${formatDuration(last.completedAt - last.startedAt)}`}
+            {last.size !== null && ` · ${formatBytes(last.size)}`}
+          </div>
+          {last.error && (
+            <div style={{ color: '#ff6b6b', fontSize: '0.8rem', wordBreak: 'break-word' }}>
+              {last.error}
+            </div>
+          )}
+          {isFailed && lastSuccess && (
+            <div style={{ color: '#888', fontSize: '0.8rem' }}>
+              Last successful backup: {formatBackupDate(lastSuccess.completedAt ?? lastSuccess.startedAt)}
+            </div>
+          )}
+        </div>
+      )}
+
+      {history.length > 1 && (
+        <div style={{
+          display: 'flex',
+          gap: '6px',
+          alignItems: 'center',
+          fontSize: '0.7rem',
+          color: '#888',
+          textTransform: 'uppercase',
+          letterSpacing: '0.05em',
+        }}>
+          Recent runs
+          {[...history].reverse().map(entry => (
+            <span
+              key={entry.id}
+              title={`${formatBackupDate(entry.startedAt)} · ${TRIGGER_LABELS[entry.trigger]}${entry.error ? ` · ${entry.error}` : ''}`}
+              style={{
+                width: '10px',
+                height: '10px',
+                borderRadius: '50%',
+                backgroundColor: entry.success === null ? '#FFB600' : entry.success ? '#55FF55' : '#ff6b6b',
+              }}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
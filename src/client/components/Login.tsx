@@ -1,15 +1,87 @@
 import { useState } from 'preact/hooks';
+import type { PendingInvite } from '../hooks/useAuth';
+
+type AuthResult = Promise<{ success: boolean; error?: string }>;
 
 interface LoginProps {
   passwordSet: boolean;
-  onSetup: (password: string) => Promise<{ success: boolean; error?: string }>;
-  onLogin: (password: string) => Promise<{ success: boolean; error?: string }>;
+  invite: PendingInvite | null;
+  onSetup: (username: string, password: string) => AuthResult;
+  onLogin: (username: string, password: string) => AuthResult;
+  // Second step for accounts with two-factor authentication
+  twoFactorRequired: boolean;
+  onVerifyTwoFactor: (code: string) => AuthResult;
+  onCancelTwoFactor: () => void;
+  onAcceptInvite: (username: string, password: string) => AuthResult;
+  onDismissInvite: () => void;
   loading: boolean;
 }
 
-export function Login({ passwordSet, onSetup, onLogin, loading }: LoginProps) {
+interface FieldProps {
+  label: string;
+  type: 'text' | 'password';
+  value: string;
+  onInput: (value: string) => void;
+  disabled: boolean;
+  placeholder: string;
+  autoComplete?: string;
+}
+
+function Field({ label, type, value, onInput, disabled, placeholder, autoComplete }: FieldProps) {
+  return (
+    <div style={{ marginBottom: '20px' }}>
+      <label style={{
+        display: 'block',
+        fontSize: '0.875rem',
+        fontWeight: '600',
+        color: '#b0b0b0',
+        marginBottom: '8px',
+        textTransform: 'uppercase',
+        letterSpacing: '0.05em',
+      }}>
+        {label}
+      </label>
+      <input
+        type={type}
+        value={value}
+        onInput={(e) => onInput(e.currentTarget.value)}
+        disabled={disabled}
+        placeholder={placeholder}
+        autoComplete={autoComplete ?? (type === 'text' ? 'username' : undefined)}
+        style={{
+          width: '100%',
+          padding: '14px 16px',
+          background: 'rgba(0, 0, 0, 0.3)',
+          border: '1px solid rgba(87, 166, 78, 0.3)',
+          borderRadius: '12px',
+          color: '#e0e0e0',
+          fontSize: '1rem',
+          outline: 'none',
+          transition: 'all 0.2s ease',
+          opacity: disabled ? 0.6 : 1,
+        }}
+        onFocus={(e) => {
+          if (!disabled) {
+            e.currentTarget.style.borderColor = 'rgba(87, 166, 78, 0.6)';
+            e.currentTarget.style.background = 'rgba(0, 0, 0, 0.4)';
+          }
+        }}
+        onBlur={(e) => {
+          e.currentTarget.style.borderColor = 'rgba(87, 166, 78, 0.3)';
+          e.currentTarget.style.background = 'rgba(0, 0, 0, 0.3)';
+        }}
+      />
+    </div>
+  );
+}
+
+export function Login({ passwordSet, invite, onSetup, onLogin, twoFactorRequired, onVerifyTwoFactor, onCancelTwoFactor, onAcceptInvite, onDismissInvite, loading }: LoginProps) {
+  // The first-time setup creates the owner account, invites create the other accounts
+  const mode = !passwordSet ? 'setup' : invite ? 'invite' : twoFactorRequired ? 'two-factor' : 'login';
+  const [username, setUsername] = useState('');
   const [password, setPassword] = useState('');
   const [confirmPassword, setConfirmPassword] = useState('');
+  const [code, setCode] = useState('');
   const [error, setError] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
 
@@ -17,13 +89,35 @@ export function Login({ passwordSet, onSetup, onLogin, loading }: LoginProps) {
     e.preventDefault();
     setError('');
 
+    if (mode === 'two-factor') {
+      if (!code.trim()) {
+        setError('Enter the code from your authenticator app');
+        return;
+      }
+      setIsSubmitting(true);
+      const result = await onVerifyTwoFactor(code);
+      setIsSubmitting(false);
+      setCode('');
+      if (!result.success) {
+        setError(result.error || 'Invalid code');
+      }
+      return;
+    }
+
+    // The owner account is called "owner" unless another name is picked
+    const name = username.trim() || (mode === 'setup' ? 'owner' : '');
+    if (!name) {
+      setError('Username is required');
+      return;
+    }
+
     if (!password) {
       setError('Password is required');
       return;
     }
 
-    if (!passwordSet) {
-      // Setup mode
+    if (mode !== 'login') {
+      // Setup or invite mode
       if (password.length < 8) {
         setError('Password must be at least 8 characters');
         return;
@@ -35,7 +129,7 @@ export function Login({ passwordSet, onSetup, onLogin, loading }: LoginProps) {
       }
 
       setIsSubmitting(true);
-      const result = await onSetup(password);
+      const result = mode === 'setup' ? await onSetup(name, password) : await onAcceptInvite(name, password);
       setIsSubmitting(false);
 
       if (!result.success) {
@@ -44,17 +138,18 @@ export function Login({ passwordSet, onSetup, onLogin, loading }: LoginProps) {
     } else {
       // Login mode
       setIsSubmitting(true);
-      const result = await onLogin(password);
+      const result = await onLogin(name, password);
       setIsSubmitting(false);
 
+      // Cleared either way, with 2FA on the next step only asks for the code
       if (!result.success) {
-        setError(result.error || 'Invalid password');
-        setPassword('');
+        setError(result.error || 'Invalid username or password');
       }
+      setPassword('');
     }
   };
 
-  const isDisabled = loading || isSubmitting;
+  const isDisabled = loading || isSubmitting || (mode === 'invite' && !invite?.role);
 
   return (
     <div style={{
@@ -106,110 +201,68 @@ export function Login({ passwordSet, onSetup, onLogin, loading }: LoginProps) {
             WebkitTextFillColor: 'transparent',
             backgroundClip: 'text',
           }}>
-            {passwordSet ? 'Welcome Back' : 'Setup Password'}
+            {mode === 'login' ? 'Welcome Back' : mode === 'two-factor' ? 'Two-Factor Authentication' : mode === 'invite' ? 'Join Control Panel' : 'Setup Owner Account'}
           </h1>
           <p style={{
             fontSize: '0.9rem',
             color: '#888',
             margin: 0,
           }}>
-            {passwordSet 
-              ? 'Enter your password to access the control panel'
-              : 'Create a password to secure this control panel'
+            {mode === 'login'
+              ? 'Sign in to access the control panel'
+              : mode === 'two-factor'
+                ? 'Enter the code from your authenticator app, or one of your recovery codes'
+              : mode === 'invite'
+                ? invite?.error || (invite?.role ? `You've been invited as ${invite.role === 'admin' ? 'an' : 'a'} ${invite.role}. Pick a username and password.` : 'Checking invite...')
+                : 'Create the owner account to secure this control panel'
             }
           </p>
         </div>
 
         {/* Form */}
         <form onSubmit={handleSubmit}>
-          {/* Password field */}
-          <div style={{ marginBottom: '20px' }}>
-            <label style={{
-              display: 'block',
-              fontSize: '0.875rem',
-              fontWeight: '600',
-              color: '#b0b0b0',
-              marginBottom: '8px',
-              textTransform: 'uppercase',
-              letterSpacing: '0.05em',
-            }}>
-              Password
-            </label>
-            <input
-              type="password"
-              value={password}
-              onInput={(e) => setPassword(e.currentTarget.value)}
+          {mode === 'two-factor' ? (
+            <Field
+              label="Code"
+              type="text"
+              value={code}
+              onInput={setCode}
               disabled={isDisabled}
-              placeholder="Enter password"
-              style={{
-                width: '100%',
-                padding: '14px 16px',
-                background: 'rgba(0, 0, 0, 0.3)',
-                border: '1px solid rgba(87, 166, 78, 0.3)',
-                borderRadius: '12px',
-                color: '#e0e0e0',
-                fontSize: '1rem',
-                outline: 'none',
-                transition: 'all 0.2s ease',
-                opacity: isDisabled ? 0.6 : 1,
-              }}
-              onFocus={(e) => {
-                if (!isDisabled) {
-                  e.currentTarget.style.borderColor = 'rgba(87, 166, 78, 0.6)';
-                  e.currentTarget.style.background = 'rgba(0, 0, 0, 0.4)';
-                }
-              }}
-              onBlur={(e) => {
-                e.currentTarget.style.borderColor = 'rgba(87, 166, 78, 0.3)';
-                e.currentTarget.style.background = 'rgba(0, 0, 0, 0.3)';
-              }}
+              placeholder="123456"
+              autoComplete="one-time-code"
             />
-          </div>
+          ) : (
+            <>
+              <Field
+                label="Username"
+                type="text"
+                value={username}
+                onInput={setUsername}
+                disabled={isDisabled}
+                placeholder={mode === 'setup' ? 'owner' : 'Enter username'}
+              />
 
-          {/* Confirm password field (setup mode only) */}
-          {!passwordSet && (
-            <div style={{ marginBottom: '20px' }}>
-              <label style={{
-                display: 'block',
-                fontSize: '0.875rem',
-                fontWeight: '600',
-                color: '#b0b0b0',
-                marginBottom: '8px',
-                textTransform: 'uppercase',
-                letterSpacing: '0.05em',
-              }}>
-                Confirm Password
-              </label>
-              <input
+              <Field
+                label="Password"
                 type="password"
-                value={confirmPassword}
-                onInput={(e) => setConfirmPassword(e.currentTarget.value)}
+                value={password}
+                onInput={setPassword}
                 disabled={isDisabled}
-                placeholder="Confirm password"
-                style={{
-                  width: '100%',
-                  padding: '14px 16px',
-                  background: 'rgba(0, 0, 0, 0.3)',
-                  border: '1px solid rgba(87, 166, 78, 0.3)',
-                  borderRadius: '12px',
-                  color: '#e0e0e0',
-                  fontSize: '1rem',
-                  outline: 'none',
-                  transition: 'all 0.2s ease',
-                  opacity: isDisabled ? 0.6 : 1,
-                }}
-                onFocus={(e) => {
-                  if (!isDisabled) {
-                    e.currentTarget.style.borderColor = 'rgba(87, 166, 78, 0.6)';
-                    e.currentTarget.style.background = 'rgba(0, 0, 0, 0.4)';
-                  }
-                }}
-                onBlur={(e) => {
-                  e.currentTarget.style.borderColor = 'rgba(87, 166, 78, 0.3)';
-                  e.currentTarget.style.background = 'rgba(0, 0, 0, 0.3)';
-                }}
+                placeholder="Enter password"
               />
-            </div>
+
+              {/* Confirm password field (setup and invite mode only) */}
+              {(mode === 'setup' || mode === 'invite') && (
+                <Field
+                  label="Confirm Password"
+                  type="password"
+                  value={confirmPassword}
+                  onInput={setConfirmPassword}
+                  disabled={isDisabled}
+                  placeholder="Confirm password"
+                />
+              )}
+            </>
           )}
 
           {/* Error message */}
@@ -272,16 +325,34 @@ export function Login({ passwordSet, onSetup, onLogin, loading }: LoginProps) {
             {isSubmitting ? (
               <span style={{ display: 'flex', alignItems: 'center', justifyContent: 'center', gap: '8px' }}>
                 <span style={{ animation: 'spin 1s linear infinite' }}>⏳</span>
-                {passwordSet ? 'Signing in...' : 'Setting up...'}
+                {mode === 'login' ? 'Signing in...' : mode === 'two-factor' ? 'Verifying...' : mode === 'invite' ? 'Creating account...' : 'Setting up...'}
               </span>
             ) : (
-              passwordSet ? '🔓 Sign In' : '🔒 Set Password'
+              mode === 'login' ? '🔓 Sign In' : mode === 'two-factor' ? '✅ Verify' : mode === 'invite' ? '✉️ Create Account' : '🔒 Create Owner Account'
             )}
           </button>
         </form>
 
-        {/* Password requirements (setup mode only) */}
-        {!passwordSet && (
+        {mode === 'two-factor' && (
+          <div
+            onClick={() => { setError(''); onCancelTwoFactor(); }}
+            style={{ marginTop: '16px', textAlign: 'center', color: '#888', fontSize: '0.875rem', cursor: 'pointer', textDecoration: 'underline' }}
+          >
+            Use a different account
+          </div>
+        )}
+
+        {mode === 'invite' && (
+          <div
+            onClick={onDismissInvite}
+            style={{ marginTop: '16px', textAlign: 'center', color: '#888', fontSize: '0.875rem', cursor: 'pointer', textDecoration: 'underline' }}
+          >
+            I already have an account
+          </div>
+        )}
+
+        {/* Password requirements (setup and invite mode only) */}
+        {(mode === 'setup' || mode === 'invite') && (
           <div style={{
             marginTop: '24px',
             padding: '16px',
@@ -308,7 +379,7 @@ export function Login({ passwordSet, onSetup, onLogin, loading }: LoginProps) {
             }}>
               <li>At least 8 characters long</li>
               <li>For control panel access only (not for playing Minecraft)</li>
-              <li>Share with anyone who needs control panel access</li>
+              <li>{mode === 'setup' ? 'Invite others from the Users panel, each with their own account' : 'Only for your own account, don\'t share it'}</li>
               <li>Store it securely - recovery not available</li>
             </ul>
           </div>
@@ -0,0 +1,387 @@
+import { useEffect, useState } from 'preact/hooks';
+import { fetchWithAuth } from '../utils/api';
+import type { ModerationList, ModerationState } from '../types/api';
+
+interface Props {
+  serverState: 'stopped' | 'starting' | 'running' | 'stopping';
+  players: string[];
+}
+
+type Tab = ModerationList | 'online';
+
+const TABS: Array<{ key: Tab; label: string; placeholder: string }> = [
+  { key: 'online', label: 'Online', placeholder: '' },
+  { key: 'whitelist', label: 'Whitelist', placeholder: 'Player name' },
+  { key: 'ops', label: 'Ops', placeholder: 'Player name' },
+  { key: 'banned-players', label: 'Bans', placeholder: 'Player name' },
+  { key: 'banned-ips', label: 'IP bans', placeholder: 'IPv4 address' },
+];
+
+const REMOVE_LABELS: Record<ModerationList, string> = {
+  'whitelist': 'Remove',
+  'ops': 'Deop',
+  'banned-players': 'Pardon',
+  'banned-ips': 'Pardon',
+};
+
+const ADD_LABELS: Record<ModerationList, string> = {
+  'whitelist': '+ Add',
+  'ops': '+ Op',
+  'banned-players': '⛔ Ban',
+  'banned-ips': '⛔ Ban',
+};
+
+const inputStyle = {
+  padding: '6px 8px',
+  background: 'rgba(0, 0, 0, 0.3)',
+  color: '#e0e0e0',
+  border: '1px solid rgba(87, 166, 78, 0.3)',
+  borderRadius: '6px',
+  fontSize: '0.8rem',
+  flex: 1,
+  minWidth: 0,
+};
+
+const buttonStyle = (enabled: boolean) => ({
+  fontSize: '0.75rem',
+  fontWeight: '600',
+  padding: '6px 14px',
+  background: 'rgba(87, 166, 78, 0.15)',
+  color: '#57A64E',
+  border: '1px solid rgba(87, 166, 78, 0.3)',
+  borderRadius: '8px',
+  cursor: enabled ? 'pointer' : 'default',
+  opacity: enabled ? 1 : 0.5,
+  textTransform: 'uppercase' as const,
+  letterSpacing: '0.05em',
+  flexShrink: 0,
+});
+
+function isBanList(tab: Tab): boolean {
+  return tab === 'banned-players' || tab === 'banned-ips';
+}
+
+export function Moderation({ serverState, players }: Props) {
+  const [state, setState] = useState<ModerationState | null>(null);
+  const [tab, setTab] = useState<Tab>('online');
+  const [target, setTarget] = useState('');
+  const [reason, setReason] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [output, setOutput] = useState<string | null>(null);
+
+  const isRunning = serverState === 'running';
+
+  const fetchState = async () => {
+    try {
+      const response = await fetchWithAuth('/api/moderation');
+      const data = await response.json() as ModerationState & { error?: string };
+      if (data.error) {
+        setError(data.error);
+        return;
+      }
+      setState(data);
+      setError(null);
+    } catch (err) {
+      console.error('Failed to fetch moderation state:', err);
+      setError('Failed to fetch player lists');
+    }
+  };
+
+  useEffect(() => {
+    if (isRunning) {
+      fetchState();
+    } else {
+      setState(null);
+    }
+  }, [serverState]);
+
+  // Runs a moderation request and re-reads the lists, the server writes the JSON files straight away
+  const run = async (path: string, init: RequestInit) => {
+    try {
+      setBusy(true);
+      setError(null);
+      setOutput(null);
+      const response = await fetchWithAuth(path, init);
+      const result = await response.json() as { success: boolean; output?: string; error?: string };
+      if (!result.success) {
+        throw new Error(result.error || 'Command failed');
+      }
+      if (result.output) {
+        setOutput(result.output);
+      }
+      await fetchState();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Command failed');
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleAdd = async () => {
+    if (tab === 'online' || !target.trim()) return;
+    const ok = await run(`/api/moderation/${tab}/${encodeURIComponent(target.trim())}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ reason: isBanList(tab) ? reason : undefined }),
+    });
+    if (ok) {
+      setTarget('');
+      setReason('');
+    }
+  };
+
+  const handleRemove = (list: ModerationList, value: string) =>
+    run(`/api/moderation/${list}/${encodeURIComponent(value)}`, { method: 'DELETE' });
+
+  const handleKick = (name: string) => {
+    const kickReason = prompt(`Kick ${name}? Optional reason:`);
+    if (kickReason === null) return;
+    run(`/api/players/${encodeURIComponent(name)}/kick`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ reason: kickReason }),
+    });
+  };
+
+  const handleBan = (name: string) => {
+    const banReason = prompt(`Ban ${name}? Optional reason:`);
+    if (banReason === null) return;
+    run(`/api/moderation/banned-players/${encodeURIComponent(name)}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ reason: banReason }),
+    });
+  };
+
+  const handleToggleWhitelist = (enabled: boolean) =>
+    run('/api/moderation/whitelist', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ enabled }),
+    });
+
+  const rows: Array<{ key: string; primary: string; secondary?: string }> = !state || tab === 'online'
+    ? []
+    : tab === 'whitelist'
+      ? state.whitelist.map(e => ({ key: e.name, primary: e.name }))
+      : tab === 'ops'
+        ? state.ops.map(e => ({ key: e.name, primary: e.name, secondary: `Level ${e.level}` }))
+        : tab === 'banned-players'
+          ? state.bannedPlayers.map(e => ({ key: e.name, primary: e.name, secondary: `${e.reason} · by ${e.source}` }))
+          : state.bannedIps.map(e => ({ key: e.ip, primary: e.ip, secondary: `${e.reason} · by ${e.source}` }));
+
+  const currentTab = TABS.find(t => t.key === tab)!;
+
+  return (
+    <div style={{
+      background: 'rgba(26, 46, 30, 0.4)',
+      backdropFilter: 'blur(10px)',
+      border: '1px solid rgba(87, 166, 78, 0.2)',
+      borderRadius: '16px',
+      padding: '32px',
+      boxShadow: '0 8px 32px rgba(0, 0, 0, 0.3)',
+      transition: 'all 0.3s ease',
+    }}
+    onMouseEnter={(e) => {
+      e.currentTarget.style.borderColor = 'rgba(87, 166, 78, 0.4)';
+      e.currentTarget.style.transform = 'translateY(-4px)';
+      e.currentTarget.style.boxShadow = '0 12px 40px rgba(0, 0, 0, 0.4)';
+    }}
+    onMouseLeave={(e) => {
+      e.currentTarget.style.borderColor = 'rgba(87, 166, 78, 0.2)';
+      e.currentTarget.style.transform = 'translateY(0)';
+      e.currentTarget.style.boxShadow = '0 8px 32px rgba(0, 0, 0, 0.3)';
+    }}
+    >
+      {/* Header */}
+      <div style={{
+        display: 'flex',
+        alignItems: 'center',
+        marginBottom: '24px',
+      }}>
+        <div style={{
+          width: '48px',
+          height: '48px',
+          borderRadius: '12px',
+          background: 'linear-gradient(135deg, #ff6b6b 0%, #c94b4b 100%)',
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'center',
+          fontSize: '1.5rem',
+          marginRight: '16px',
+          boxShadow: '0 4px 12px rgba(255, 71, 71, 0.3)',
+        }}>
+          🛡
+        </div>
+        <div style={{ flex: 1 }}>
+          <h2 style={{
+            margin: '0 0 4px 0',
+            fontSize: '1.5rem',
+            fontWeight: '700',
+            color: '#fff',
+          }}>
+            Moderation
+          </h2>
+          <span style={{
+            color: state?.whitelistEnabled ? '#55FF55' : '#888',
+            fontWeight: '600',
+            fontSize: '0.875rem',
+            textTransform: 'uppercase',
+            letterSpacing: '0.05em',
+          }}>
+            {!isRunning ? 'Server offline' : state ? (state.whitelistEnabled ? 'Whitelist on' : 'Whitelist off') : 'Loading...'}
+          </span>
+        </div>
+        {state && (
+          <label style={{
+            display: 'flex',
+            alignItems: 'center',
+            gap: '8px',
+            color: '#e0e0e0',
+            fontSize: '0.8rem',
+            cursor: 'pointer',
+          }}>
+            <input
+              type="checkbox"
+              checked={state.whitelistEnabled}
+              disabled={busy}
+              onChange={(e) => handleToggleWhitelist((e.target as HTMLInputElement).checked)}
+            />
+            Whitelist
+          </label>
+        )}
+      </div>
+
+      {error && (
+        <div style={{
+          marginBottom: '16px',
+          padding: '12px 16px',
+          background: 'rgba(255, 71, 71, 0.1)',
+          border: '1px solid rgba(255, 71, 71, 0.3)',
+          borderRadius: '8px',
+          color: '#ff6b6b',
+          fontSize: '0.875rem',
+        }}>
+          ⚠️ {error}
+        </div>
+      )}
+
+      {output && (
+        <div style={{
+          marginBottom: '16px',
+          padding: '8px 12px',
+          background: 'rgba(0, 0, 0, 0.3)',
+          border: '1px solid rgba(87, 166, 78, 0.2)',
+          borderRadius: '8px',
+          color: '#e0e0e0',
+          fontSize: '0.8rem',
+          fontFamily: 'monospace',
+        }}>
+          {output}
+        </div>
+      )}
+
+      {!isRunning ? (
+        <div style={{ textAlign: 'center', padding: '20px', color: '#888', fontSize: '0.875rem' }}>
+          Start the server to manage players
+        </div>
+      ) : (
+        <>
+          <div style={{ display: 'flex', gap: '6px', marginBottom: '12px', flexWrap: 'wrap' }}>
+            {TABS.map(t => (
+              <button
+                key={t.key}
+                onClick={() => { setTab(t.key); setTarget(''); setReason(''); }}
+                style={{
+                  ...buttonStyle(true),
+                  background: tab === t.key ? 'rgba(87, 166, 78, 0.35)' : 'rgba(87, 166, 78, 0.1)',
+                  color: tab === t.key ? '#fff' : '#57A64E',
+                }}
+              >
+                {t.label}
+              </button>
+            ))}
+          </div>
+
+          {tab !== 'online' && (
+            <div style={{ display: 'flex', gap: '8px', marginBottom: '12px' }}>
+              <input
+                value={target}
+                placeholder={currentTab.placeholder}
+                onInput={(e) => setTarget((e.target as HTMLInputElement).value)}
+                onKeyDown={(e) => { if (e.key === 'Enter') handleAdd(); }}
+                style={inputStyle}
+              />
+              {isBanList(tab) && (
+                <input
+                  value={reason}
+                  placeholder="Reason"
+                  onInput={(e) => setReason((e.target as HTMLInputElement).value)}
+                  style={inputStyle}
+                />
+              )}
+              <button onClick={handleAdd} disabled={busy || !target.trim()} style={buttonStyle(!busy && !!target.trim())}>
+                {ADD_LABELS[tab]}
+              </button>
+            </div>
+          )}
+
+          <div style={{ maxHeight: '260px', overflowY: 'auto', display: 'flex', flexDirection: 'column', gap: '6px' }}>
+            {tab === 'online' ? (
+              players.length === 0 ? (
+                <div style={{ color: '#888', fontSize: '0.8rem', textAlign: 'center', padding: '12px' }}>
+                  No players online
+                </div>
+              ) : players.map(player => (
+                <div key={player} style={{
+                  display: 'flex',
+                  alignItems: 'center',
+                  justifyContent: 'space-between',
+                  gap: '8px',
+                  padding: '8px 12px',
+                  background: 'rgba(255, 255, 255, 0.03)',
+                  borderRadius: '8px',
+                }}>
+                  <span style={{ color: '#e0e0e0', fontSize: '0.875rem' }}>{player}</span>
+                  <div style={{ display: 'flex', gap: '6px' }}>
+                    <button onClick={() => handleKick(player)} disabled={busy} style={buttonStyle(!busy)}>Kick</button>
+                    <button onClick={() => handleBan(player)} disabled={busy} style={buttonStyle(!busy)}>Ban</button>
+                  </div>
+                </div>
+              ))
+            ) : rows.length === 0 ? (
+              <div style={{ color: '#888', fontSize: '0.8rem', textAlign: 'center', padding: '12px' }}>
+                {state ? 'Nobody here yet' : 'Loading...'}
+              </div>
+            ) : rows.map(row => (
+              <div key={row.key} style={{
+                display: 'flex',
+                alignItems: 'center',
+                justifyContent: 'space-between',
+                gap: '8px',
+                padding: '8px 12px',
+                background: 'rgba(255, 255, 255, 0.03)',
+                borderRadius: '8px',
+              }}>
+                <div style={{ minWidth: 0 }}>
+                  <div style={{ color: '#e0e0e0', fontSize: '0.875rem' }}>{row.primary}</div>
+                  {row.secondary && (
+                    <div style={{ color: '#888', fontSize: '0.75rem', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                      {row.secondary}
+                    </div>
+                  )}
+                </div>
+                <button onClick={() => handleRemove(tab, row.primary)} disabled={busy} style={buttonStyle(!busy)}>
+                  {REMOVE_LABELS[tab]}
+                </button>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
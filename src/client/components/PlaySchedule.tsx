@@ -0,0 +1,254 @@
+import { useEffect, useState } from 'preact/hooks';
+import { fetchWithAuth } from '../utils/api';
+import type { PlayScheduleSettings, PlayScheduleStatus, PlayWindow } from '../types/api';
+
+interface Props {
+  serverState: 'stopped' | 'starting' | 'running' | 'stopping';
+}
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const inputStyle = {
+  padding: '6px 8px',
+  background: 'rgba(0, 0, 0, 0.3)',
+  color: '#e0e0e0',
+  border: '1px solid rgba(87, 166, 78, 0.3)',
+  borderRadius: '6px',
+  fontSize: '0.8rem',
+  width: '100%',
+  boxSizing: 'border-box' as const,
+};
+
+const browserTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+function formatTime(time: number): string {
+  return new Date(time).toLocaleString([], { weekday: 'short', hour: '2-digit', minute: '2-digit' });
+}
+
+/**
+ * Weekly play windows: the server starts ahead of each window, stays up during it and stops (with
+ * a backup) when it ends
+ */
+export function PlaySchedule({ serverState }: Props) {
+  const [status, setStatus] = useState<PlayScheduleStatus | null>(null);
+  const [form, setForm] = useState<PlayScheduleSettings | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchStatus = async (resetForm: boolean) => {
+    try {
+      const response = await fetchWithAuth('/api/play-schedule');
+      const data = await response.json() as PlayScheduleStatus;
+      if (data.error) {
+        setError(data.error);
+        return;
+      }
+      setStatus(data);
+      if (resetForm) {
+        const { enabled, timezone, windows, prestartMinutes } = data;
+        // A schedule that was never set up starts out in the browser's timezone
+        setForm({ enabled, timezone: windows.length === 0 ? browserTimeZone() : timezone, windows, prestartMinutes });
+      }
+    } catch (err) {
+      console.error('Failed to fetch play schedule:', err);
+    }
+  };
+
+  useEffect(() => {
+    fetchStatus(form === null);
+  }, [serverState]);
+
+  const dirty = !!status && !!form && (
+    form.enabled !== status.enabled ||
+    form.timezone !== status.timezone ||
+    form.prestartMinutes !== status.prestartMinutes ||
+    JSON.stringify(form.windows) !== JSON.stringify(status.windows)
+  );
+
+  const updateWindow = (index: number, update: Partial<PlayWindow>) => {
+    if (!form) return;
+    setForm({ ...form, windows: form.windows.map((w, i) => i === index ? { ...w, ...update } : w) });
+  };
+
+  const addWindow = () => {
+    if (!form) return;
+    const last = form.windows[form.windows.length - 1];
+    const window: PlayWindow = last ? { ...last, day: (last.day + 1) % 7 } : { day: 5, start: '19:00', end: '23:00' };
+    setForm({ ...form, windows: [...form.windows, window] });
+  };
+
+  const removeWindow = (index: number) => {
+    if (!form) return;
+    setForm({ ...form, windows: form.windows.filter((_, i) => i !== index) });
+  };
+
+  const handleSave = async () => {
+    if (!form) return;
+    try {
+      setSaving(true);
+      setError(null);
+      const response = await fetchWithAuth('/api/play-schedule', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(form),
+      });
+      const result = await response.json() as { success: boolean; playSchedule?: PlayScheduleStatus; error?: string };
+      if (!result.success || !result.playSchedule) {
+        throw new Error(result.error || 'Failed to save play schedule');
+      }
+      setStatus(result.playSchedule);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save play schedule');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const describe = () => {
+    if (!status) return 'Loading...';
+    if (!status.enabled || status.windows.length === 0) return 'Off, the server only starts on request';
+    if (status.current) return `Play time until ${formatTime(status.current.end)}`;
+    if (status.next) return `Next play time ${formatTime(status.next.start)}`;
+    return 'No upcoming play time';
+  };
+
+  const buttonStyle = (enabled: boolean) => ({
+    fontSize: '0.75rem',
+    fontWeight: '600',
+    padding: '6px 14px',
+    background: 'rgba(87, 166, 78, 0.15)',
+    color: '#57A64E',
+    border: '1px solid rgba(87, 166, 78, 0.3)',
+    borderRadius: '8px',
+    cursor: enabled ? 'pointer' : 'default',
+    opacity: enabled ? 1 : 0.5,
+    textTransform: 'uppercase' as const,
+    letterSpacing: '0.05em',
+    flexShrink: 0,
+  });
+
+  return (
+    <div style={{
+      background: 'rgba(26, 46, 30, 0.4)',
+      backdropFilter: 'blur(10px)',
+      border: '1px solid rgba(87, 166, 78, 0.2)',
+      borderRadius: '16px',
+      padding: '32px',
+      boxShadow: '0 8px 32px rgba(0, 0, 0, 0.3)',
+    }}>
+      <div style={{ display: 'flex', alignItems: 'center', marginBottom: '24px' }}>
+        <div style={{
+          width: '48px',
+          height: '48px',
+          borderRadius: '12px',
+          background: 'linear-gradient(135deg, #B07CD8 0%, #8A5BB0 100%)',
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'center',
+          fontSize: '1.5rem',
+          marginRight: '16px',
+          boxShadow: '0 4px 12px rgba(176, 124, 216, 0.3)',
+        }}>
+          📅
+        </div>
+        <div>
+          <h2 style={{ margin: '0 0 4px 0', fontSize: '1.5rem', fontWeight: '700', color: '#fff' }}>
+            Play Schedule
+          </h2>
+          <div style={{ color: status?.current ? '#57A64E' : '#888', fontSize: '0.875rem', fontWeight: '500' }}>
+            {describe()}
+          </div>
+        </div>
+      </div>
+
+      {error && (
+        <div style={{ color: '#ff6b6b', fontSize: '0.8rem', marginBottom: '12px' }}>⚠️ {error}</div>
+      )}
+
+      {form && (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '12px' }}>
+          <label style={{ display: 'flex', alignItems: 'center', gap: '8px', color: '#e0e0e0', fontSize: '0.875rem', cursor: 'pointer' }}>
+            <input type="checkbox" checked={form.enabled} onChange={(e) => setForm({ ...form, enabled: (e.target as HTMLInputElement).checked })} />
+            Start and stop the server on a weekly schedule
+          </label>
+          <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(160px, 1fr))', gap: '8px', opacity: form.enabled ? 1 : 0.5 }}>
+            <label style={{ color: '#888', fontSize: '0.75rem' }}>
+              Timezone
+              <input
+                type="text"
+                value={form.timezone}
+                disabled={!form.enabled}
+                onInput={(e) => setForm({ ...form, timezone: (e.target as HTMLInputElement).value })}
+                style={inputStyle}
+              />
+            </label>
+            <label style={{ color: '#888', fontSize: '0.75rem' }}>
+              Start early (minutes)
+              <input
+                type="number"
+                min={0}
+                max={60}
+                value={form.prestartMinutes}
+                disabled={!form.enabled}
+                onInput={(e) => setForm({ ...form, prestartMinutes: parseInt((e.target as HTMLInputElement).value, 10) || 0 })}
+                style={inputStyle}
+              />
+            </label>
+          </div>
+
+          <div style={{ display: 'flex', flexDirection: 'column', gap: '6px', opacity: form.enabled ? 1 : 0.5 }}>
+            {form.windows.length === 0 && (
+              <div style={{ color: '#888', fontSize: '0.75rem' }}>No play windows yet</div>
+            )}
+            {form.windows.map((w, index) => (
+              <div key={index} style={{ display: 'grid', gridTemplateColumns: '2fr 1fr 1fr auto', gap: '6px', alignItems: 'center' }}>
+                <select
+                  value={w.day}
+                  disabled={!form.enabled}
+                  onChange={(e) => updateWindow(index, { day: parseInt((e.target as HTMLSelectElement).value, 10) })}
+                  style={inputStyle}
+                >
+                  {WEEKDAYS.map((name, day) => <option key={day} value={day}>{name}</option>)}
+                </select>
+                <input
+                  type="time"
+                  value={w.start}
+                  disabled={!form.enabled}
+                  onInput={(e) => updateWindow(index, { start: (e.target as HTMLInputElement).value })}
+                  style={inputStyle}
+                />
+                <input
+                  type="time"
+                  value={w.end}
+                  disabled={!form.enabled}
+                  onInput={(e) => updateWindow(index, { end: (e.target as HTMLInputElement).value })}
+                  style={inputStyle}
+                />
+                <button
+                  onClick={() => removeWindow(index)}
+                  disabled={!form.enabled}
+                  title="Remove window"
+                  style={{ ...buttonStyle(form.enabled), color: '#ff6b6b', borderColor: 'rgba(255, 107, 107, 0.3)', background: 'rgba(255, 107, 107, 0.1)' }}
+                >
+                  ✕
+                </button>
+              </div>
+            ))}
+          </div>
+
+          <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: '12px' }}>
+            <button onClick={addWindow} disabled={!form.enabled || form.windows.length >= 28} style={buttonStyle(form.enabled && form.windows.length < 28)}>
+              + Add window
+            </button>
+            <button onClick={handleSave} disabled={!dirty || saving} style={buttonStyle(dirty && !saving)}>
+              {saving ? '⏳ Saving' : '✓ Save'}
+            </button>
+          </div>
+          <span style={{ color: '#888', fontSize: '0.75rem' }}>
+            Auto-sleep is paused during a window, and the server stops with a backup when it ends. An end before the start runs past midnight.
+          </span>
+        </div>
+      )}
+    </div>
+  );
+}
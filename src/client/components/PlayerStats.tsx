@@ -0,0 +1,149 @@
+import { useEffect, useState } from 'preact/hooks';
+import { fetchWithAuth } from '../utils/api';
+import type { PlayerStatsResponse } from '../types/api';
+
+interface Props {
+  serverState: 'stopped' | 'starting' | 'running' | 'stopping';
+  // Online players, the stats are refetched when someone joins or leaves
+  players: string[];
+}
+
+// Players shown on the leaderboard
+const LEADERBOARD_SIZE = 10;
+
+function formatPlaytime(ms: number): string {
+  const minutes = Math.floor(ms / 60000);
+  if (minutes < 1) return '< 1m';
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ${minutes % 60}m`;
+  return `${Math.floor(hours / 24)}d ${hours % 24}h`;
+}
+
+function formatLastSeen(time: number): string {
+  const minutes = Math.floor((Date.now() - time) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes}m ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ago`;
+  return `${Math.floor(hours / 24)}d ago`;
+}
+
+/**
+ * Playtime leaderboard and a chart of the most players online at once per day
+ */
+export function PlayerStats({ serverState, players }: Props) {
+  const [stats, setStats] = useState<PlayerStatsResponse | null>(null);
+
+  useEffect(() => {
+    const fetchStats = async () => {
+      try {
+        const response = await fetchWithAuth('/api/players/stats');
+        setStats(await response.json() as PlayerStatsResponse);
+      } catch (err) {
+        console.error('Failed to fetch player stats:', err);
+      }
+    };
+    fetchStats();
+  }, [serverState, players.join(',')]);
+
+  const leaderboard = stats?.players.slice(0, LEADERBOARD_SIZE) ?? [];
+  const peaks = stats?.dailyPeaks ?? [];
+  const maxPeak = Math.max(1, ...peaks.map(day => day.peak));
+
+  return (
+    <div style={{
+      gridColumn: '1 / -1',
+      background: 'rgba(26, 46, 30, 0.4)',
+      backdropFilter: 'blur(10px)',
+      border: '1px solid rgba(87, 166, 78, 0.2)',
+      borderRadius: '16px',
+      padding: '32px',
+      boxShadow: '0 8px 32px rgba(0, 0, 0, 0.3)',
+    }}>
+      <div style={{ display: 'flex', alignItems: 'center', marginBottom: '24px' }}>
+        <div style={{
+          width: '48px',
+          height: '48px',
+          borderRadius: '12px',
+          background: 'linear-gradient(135deg, #FFB600 0%, #D4AF37 100%)',
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'center',
+          fontSize: '1.5rem',
+          marginRight: '16px',
+          boxShadow: '0 4px 12px rgba(255, 182, 0, 0.3)',
+        }}>
+          📊
+        </div>
+        <div>
+          <h2 style={{ margin: '0 0 4px 0', fontSize: '1.5rem', fontWeight: '700', color: '#fff' }}>
+            Player Stats
+          </h2>
+          <div style={{ color: '#888', fontSize: '0.875rem', fontWeight: '500' }}>
+            {stats?.error ?? `${stats?.players.length ?? 0} players have joined`}
+          </div>
+        </div>
+      </div>
+
+      <div style={{ display: 'flex', gap: '32px', flexWrap: 'wrap' }}>
+        {/* Leaderboard */}
+        <div style={{ flex: '1 1 320px', minWidth: 0 }}>
+          <div style={{ color: '#888', fontSize: '0.75rem', textTransform: 'uppercase', letterSpacing: '0.05em', marginBottom: '8px' }}>
+            Playtime
+          </div>
+          {leaderboard.length === 0 ? (
+            <div style={{ color: '#666', fontSize: '0.875rem' }}>No one has played yet</div>
+          ) : (
+            <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '0.85rem', color: '#e0e0e0' }}>
+              <tbody>
+                {leaderboard.map((player, index) => (
+                  <tr key={player.player} style={{ borderBottom: '1px solid rgba(255, 255, 255, 0.05)' }}>
+                    <td style={{ padding: '6px 8px 6px 0', color: index < 3 ? '#FFB600' : '#888', width: '24px' }}>{index + 1}</td>
+                    <td style={{ padding: '6px 8px', fontWeight: '600' }}>
+                      {player.online && <span style={{ color: '#55FF55', marginRight: '6px' }}>●</span>}
+                      {player.player}
+                    </td>
+                    <td style={{ padding: '6px 8px', textAlign: 'right', fontFamily: 'monospace' }}>{formatPlaytime(player.playtimeMs)}</td>
+                    <td style={{ padding: '6px 0 6px 8px', textAlign: 'right', color: '#888', fontSize: '0.75rem' }}>
+                      {player.online ? 'online' : formatLastSeen(player.lastSeen)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        {/* Daily peak chart */}
+        <div style={{ flex: '1 1 320px', minWidth: 0 }}>
+          <div style={{ color: '#888', fontSize: '0.75rem', textTransform: 'uppercase', letterSpacing: '0.05em', marginBottom: '8px' }}>
+            Most players online per day (UTC)
+          </div>
+          <div style={{ display: 'flex', alignItems: 'flex-end', gap: '4px', height: '140px' }}>
+            {peaks.map(day => (
+              <div
+                key={day.day}
+                title={`${day.day}: ${day.peak} ${day.peak === 1 ? 'player' : 'players'}`}
+                style={{ flex: 1, display: 'flex', flexDirection: 'column', alignItems: 'center', justifyContent: 'flex-end', height: '100%' }}
+              >
+                <div style={{ color: '#888', fontSize: '0.65rem', marginBottom: '2px' }}>{day.peak > 0 ? day.peak : ''}</div>
+                <div style={{
+                  width: '100%',
+                  height: `${(day.peak / maxPeak) * 100}%`,
+                  minHeight: '2px',
+                  background: day.peak > 0 ? 'linear-gradient(180deg, #55FF55 0%, #57A64E 100%)' : 'rgba(255, 255, 255, 0.1)',
+                  borderRadius: '3px 3px 0 0',
+                }} />
+              </div>
+            ))}
+          </div>
+          <div style={{ display: 'flex', justifyContent: 'space-between', color: '#666', fontSize: '0.7rem', marginTop: '4px' }}>
+            <span>{peaks[0]?.day.slice(5)}</span>
+            <span>{peaks[peaks.length - 1]?.day.slice(5)}</span>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,341 @@
+import { useEffect, useState } from 'preact/hooks';
+import { fetchWithAuth } from '../utils/api';
+import type { ConfigError, DiffHunk, PluginConfigResponse, PluginConfigSaveResponse, PluginConfigsResponse } from '../types/api';
+
+interface Props {
+  serverState: 'stopped' | 'starting' | 'running' | 'stopping';
+}
+
+const inputStyle = {
+  padding: '6px 8px',
+  background: 'rgba(0, 0, 0, 0.3)',
+  color: '#e0e0e0',
+  border: '1px solid rgba(87, 166, 78, 0.3)',
+  borderRadius: '6px',
+  fontSize: '0.8rem',
+  width: '100%',
+  boxSizing: 'border-box' as const,
+};
+
+const DIFF_COLORS = {
+  context: { color: '#888', background: 'transparent', sign: ' ' },
+  added: { color: '#55FF55', background: 'rgba(85, 255, 85, 0.08)', sign: '+' },
+  removed: { color: '#ff6b6b', background: 'rgba(255, 71, 71, 0.08)', sign: '-' },
+};
+
+function DiffView({ hunks }: { hunks: DiffHunk[] }) {
+  if (hunks.length === 0) {
+    return <div style={{ color: '#888', fontSize: '0.75rem' }}>No changes</div>;
+  }
+  return (
+    <div style={{
+      maxHeight: '240px',
+      overflow: 'auto',
+      background: 'rgba(0, 0, 0, 0.3)',
+      borderRadius: '6px',
+      padding: '6px 0',
+      fontFamily: 'monospace',
+      fontSize: '0.75rem',
+    }}>
+      {hunks.map((hunk, index) => (
+        <div key={index}>
+          <div style={{ color: '#5B9BD5', padding: '2px 8px' }}>@@ -{hunk.oldStart} +{hunk.newStart} @@</div>
+          {hunk.lines.map((line, lineIndex) => (
+            <div key={lineIndex} style={{
+              color: DIFF_COLORS[line.type].color,
+              background: DIFF_COLORS[line.type].background,
+              padding: '0 8px',
+              whiteSpace: 'pre',
+            }}>
+              {DIFF_COLORS[line.type].sign} {line.text}
+            </div>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function formatErrors(errors: ConfigError[]): string {
+  return errors.map(error => error.line ? `Line ${error.line}: ${error.message}` : error.message).join('\n');
+}
+
+/**
+ * Edit the config files in the plugin folders, shown inside the Server Plugins panel
+ */
+export function PluginConfigs({ serverState }: Props) {
+  const [expanded, setExpanded] = useState(false);
+  const [folders, setFolders] = useState<PluginConfigsResponse['folders']>([]);
+  const [selected, setSelected] = useState<PluginConfigResponse | null>(null);
+  const [content, setContent] = useState('');
+  const [diff, setDiff] = useState<DiffHunk[] | null>(null);
+  const [showPrevious, setShowPrevious] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const available = serverState !== 'stopped';
+
+  const fetchConfigs = async () => {
+    try {
+      const response = await fetchWithAuth('/api/plugin-configs');
+      const data = await response.json() as PluginConfigsResponse;
+      if (data.error) {
+        setError(data.error);
+        return;
+      }
+      setFolders(data.folders);
+    } catch (err) {
+      console.error('Failed to fetch plugin configs:', err);
+    }
+  };
+
+  useEffect(() => {
+    if (expanded && available) {
+      fetchConfigs();
+    }
+    if (!available) {
+      setSelected(null);
+    }
+  }, [expanded, available]);
+
+  const openFile = async (path: string) => {
+    try {
+      setBusy(true);
+      setError(null);
+      setNotice(null);
+      setDiff(null);
+      setShowPrevious(false);
+      const response = await fetchWithAuth(`/api/plugin-configs/file?${new URLSearchParams({ path })}`);
+      const data = await response.json() as PluginConfigResponse;
+      if (data.error) {
+        throw new Error(data.error);
+      }
+      setSelected(data);
+      setContent(data.content);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to read config');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const submit = async (dryRun: boolean) => {
+    if (!selected) return;
+    try {
+      setBusy(true);
+      setError(null);
+      setNotice(null);
+      const response = await fetchWithAuth('/api/plugin-configs/file', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ path: selected.path, content, dryRun }),
+      });
+      const result = await response.json() as PluginConfigSaveResponse;
+      if (result.error) {
+        throw new Error(result.error);
+      }
+      setDiff(result.diff ?? []);
+      if (!result.valid) {
+        setError(`Not saved, fix the syntax errors first:\n${formatErrors(result.errors ?? [])}`);
+        return;
+      }
+      if (result.saved) {
+        await openFile(selected.path);
+        await fetchConfigs();
+        setDiff(result.diff ?? []);
+        setNotice('Saved. Restart the server (or use the plugin\'s reload command) to apply it.');
+      } else if (!dryRun) {
+        setNotice('No changes to save.');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save config');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRevert = async () => {
+    if (!selected?.previous) return;
+    if (!confirm(`Revert ${selected.path} to the version from ${new Date(selected.previous.savedAt).toLocaleString()}?`)) return;
+    try {
+      setBusy(true);
+      setError(null);
+      const response = await fetchWithAuth('/api/plugin-configs/revert', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ path: selected.path }),
+      });
+      const result = await response.json() as { success: boolean; error?: string };
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to revert config');
+      }
+      await openFile(selected.path);
+      setNotice('Reverted. Restart the server to apply it.');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to revert config');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const buttonStyle = (enabled: boolean) => ({
+    fontSize: '0.75rem',
+    fontWeight: '600',
+    padding: '6px 14px',
+    background: 'rgba(87, 166, 78, 0.15)',
+    color: '#57A64E',
+    border: '1px solid rgba(87, 166, 78, 0.3)',
+    borderRadius: '8px',
+    cursor: enabled ? 'pointer' : 'default',
+    opacity: enabled ? 1 : 0.5,
+    textTransform: 'uppercase' as const,
+    letterSpacing: '0.05em',
+    flexShrink: 0,
+  });
+
+  const editable = !!selected && !selected.readOnlyReason;
+  const changed = !!selected && content !== selected.content;
+
+  return (
+    <div style={{
+      marginTop: '16px',
+      padding: '12px 16px',
+      background: 'rgba(255, 255, 255, 0.03)',
+      border: '1px solid rgba(255, 255, 255, 0.1)',
+      borderRadius: '10px',
+    }}>
+      <div
+        onClick={() => setExpanded(!expanded)}
+        style={{
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'space-between',
+          cursor: 'pointer',
+          color: '#fff',
+          fontWeight: '600',
+          fontSize: '0.875rem',
+        }}
+      >
+        <span>📝 Plugin config files</span>
+        <span style={{ color: '#888', fontSize: '0.75rem' }}>{expanded ? '▲' : '▼'}</span>
+      </div>
+
+      {expanded && (
+        <div style={{ marginTop: '12px', display: 'flex', flexDirection: 'column', gap: '12px' }}>
+          {!available && (
+            <span style={{ color: '#888', fontSize: '0.8rem' }}>
+              Start the server to edit plugin configs. Plugins create their config files the first time they load.
+            </span>
+          )}
+
+          {error && (
+            <div style={{
+              padding: '8px 12px',
+              background: 'rgba(255, 71, 71, 0.1)',
+              border: '1px solid rgba(255, 71, 71, 0.3)',
+              borderRadius: '8px',
+              color: '#ff6b6b',
+              fontSize: '0.8rem',
+              whiteSpace: 'pre-wrap',
+              wordBreak: 'break-word',
+            }}>
+              ⚠️ {error}
+            </div>
+          )}
+
+          {notice && (
+            <div style={{
+              padding: '8px 12px',
+              background: 'rgba(87, 166, 78, 0.1)',
+              border: '1px solid rgba(87, 166, 78, 0.3)',
+              borderRadius: '8px',
+              color: '#57A64E',
+              fontSize: '0.8rem',
+            }}>
+              {notice}
+            </div>
+          )}
+
+          {available && (
+            <select
+              value={selected?.path ?? ''}
+              disabled={busy}
+              onChange={(e) => {
+                const path = (e.target as HTMLSelectElement).value;
+                if (path) openFile(path);
+              }}
+              style={inputStyle}
+            >
+              <option value="" disabled>{folders.length > 0 ? 'Choose a config file' : 'No plugin config files yet'}</option>
+              {folders.map(folder => (
+                <optgroup key={folder.folder} label={folder.folder}>
+                  {folder.files.map(file => (
+                    <option key={file.path} value={file.path}>
+                      {file.path.slice(folder.folder.length + 1)}{file.readOnlyReason ? ' (read only)' : ''}
+                    </option>
+                  ))}
+                </optgroup>
+              ))}
+            </select>
+          )}
+
+          {available && selected && (
+            <>
+              {selected.readOnlyReason && (
+                <span style={{ color: '#FFB600', fontSize: '0.75rem' }}>Read only: {selected.readOnlyReason}</span>
+              )}
+              {!selected.valid && (
+                <span style={{ color: '#FFB600', fontSize: '0.75rem', whiteSpace: 'pre-wrap' }}>
+                  The file on the server has syntax errors:{'\n'}{formatErrors(selected.errors)}
+                </span>
+              )}
+              <textarea
+                value={content}
+                rows={16}
+                readOnly={!editable}
+                spellcheck={false}
+                onInput={(e) => {
+                  setContent((e.target as HTMLTextAreaElement).value);
+                  setDiff(null);
+                  setNotice(null);
+                }}
+                style={{ ...inputStyle, fontFamily: 'monospace', resize: 'vertical', whiteSpace: 'pre', tabSize: 2 }}
+              />
+
+              {diff && <DiffView hunks={diff} />}
+              {showPrevious && selected.previous && <DiffView hunks={selected.previous.diff} />}
+
+              <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: '8px', flexWrap: 'wrap' }}>
+                <span style={{ color: '#888', fontSize: '0.75rem' }}>
+                  {selected.format.toUpperCase()}
+                  {selected.previous && (
+                    <>
+                      {' · '}
+                      <span style={{ cursor: 'pointer', textDecoration: 'underline' }} onClick={() => setShowPrevious(!showPrevious)}>
+                        {showPrevious ? 'Hide' : 'Show'} last change ({new Date(selected.previous.savedAt).toLocaleString()})
+                      </span>
+                    </>
+                  )}
+                </span>
+                <div style={{ display: 'flex', gap: '6px' }}>
+                  {selected.previous && (
+                    <button onClick={handleRevert} disabled={busy || !editable} style={buttonStyle(!busy && editable)}>
+                      ↶ Revert
+                    </button>
+                  )}
+                  <button onClick={() => submit(true)} disabled={busy || !editable || !changed} style={buttonStyle(!busy && editable && changed)}>
+                    Diff
+                  </button>
+                  <button onClick={() => submit(false)} disabled={busy || !editable || !changed} style={buttonStyle(!busy && editable && changed)}>
+                    {busy ? '⏳ Saving' : '✓ Save'}
+                  </button>
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,11 +1,14 @@
 import { useState } from 'preact/hooks';
 import type { Plugin } from '../types/api';
 import { fetchApi } from '../utils/api';
+import { CustomPlugins } from './CustomPlugins';
+import { PluginConfigs } from './PluginConfigs';
 
 interface Props {
   plugins: Plugin[];
   serverState: 'stopped' | 'starting' | 'running' | 'stopping';
   onPluginToggle: (filename: string, enabled: boolean) => Promise<void>;
+  onPluginsChange: () => Promise<void>;
 }
 
 const PLUGIN_INFO: Record<string, { emoji: string; description: string }> = {
@@ -16,10 +19,14 @@ const PLUGIN_INFO: Record<string, { emoji: string; description: string }> = {
   'playit-minecraft-plugin': {
     emoji: '🌐',
     description: 'playit.gg allows you to connect your private servers to public URLs so that your friends can join your games.'
+  },
+  'AuthMe-5.6.0': {
+    emoji: '🔐',
+    description: 'AuthMe makes players /register a password and /login, so nobody can join under someone else\'s name while the server runs in offline mode.'
   }
 };
 
-export function Plugins({ plugins, serverState, onPluginToggle }: Props) {
+export function Plugins({ plugins, serverState, onPluginToggle, onPluginsChange }: Props) {
   const [hoveredInfo, setHoveredInfo] = useState<string | null>(null);
   const [hoveredWarning, setHoveredWarning] = useState<string | null>(null);
   const [hoveredToggle, setHoveredToggle] = useState<string | null>(null);
@@ -605,6 +612,9 @@ export function Plugins({ plugins, serverState, onPluginToggle }: Props) {
         })}
       </div>
 
+      <CustomPlugins serverState={serverState} onPluginsChange={onPluginsChange} />
+      <PluginConfigs serverState={serverState} />
+
       {/* Status Message Modal - Terminal Style */}
       {statusModalPlugin && statusModalPlugin.status.type !== 'no message' && (() => {
         const statusIcon = getStatusIcon(statusModalPlugin.status);
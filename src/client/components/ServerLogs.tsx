@@ -0,0 +1,274 @@
+import { useEffect, useRef, useState } from 'preact/hooks';
+import { backendUrl, fetchApi, fetchWithAuth } from '../utils/api';
+import type { LogEntry, LogLevel, LogSearchResponse } from '../types/api';
+
+interface Props {
+  serverState: 'stopped' | 'starting' | 'running' | 'stopping';
+}
+
+// Entries kept in the live view
+const MAX_ENTRIES = 500;
+
+const LEVELS: LogLevel[] = ['INFO', 'WARN', 'ERROR'];
+
+const LEVEL_COLORS: Record<LogLevel, string> = {
+  TRACE: '#666',
+  DEBUG: '#888',
+  INFO: '#d4d4d4',
+  WARN: '#FFB600',
+  ERROR: '#ff6b6b',
+  FATAL: '#ff4444',
+};
+
+const inputStyle = {
+  padding: '6px 8px',
+  background: 'rgba(0, 0, 0, 0.3)',
+  color: '#e0e0e0',
+  border: '1px solid rgba(87, 166, 78, 0.3)',
+  borderRadius: '6px',
+  fontSize: '0.8rem',
+  boxSizing: 'border-box' as const,
+};
+
+function toLocalInput(time: number): string {
+  const date = new Date(time - new Date(time).getTimezoneOffset() * 60000);
+  return date.toISOString().slice(0, 16);
+}
+
+/**
+ * Live server log (latest.log) over the /ws WebSocket with level and text filters,
+ * and search over the archived logs by time range
+ */
+export function ServerLogs({ serverState }: Props) {
+  const [entries, setEntries] = useState<LogEntry[]>([]);
+  const [levels, setLevels] = useState<LogLevel[]>(['INFO', 'WARN', 'ERROR']);
+  const [text, setText] = useState('');
+  const [mode, setMode] = useState<'live' | 'search'>('live');
+  const [from, setFrom] = useState(() => toLocalInput(Date.now() - 24 * 60 * 60 * 1000));
+  const [to, setTo] = useState(() => toLocalInput(Date.now()));
+  const [searching, setSearching] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const socketRef = useRef<WebSocket | null>(null);
+  const endRef = useRef<HTMLDivElement>(null);
+
+  const filter = { levels: levels.length === LEVELS.length ? undefined : levels, text: text.trim() || undefined };
+
+  // One socket while the server runs in live mode, the filter is sent again when it changes
+  useEffect(() => {
+    if (serverState !== 'running' || mode !== 'live') {
+      return;
+    }
+    let closed = false;
+    const connect = async () => {
+      try {
+        const tokenResponse = await fetchApi('/auth/ws-token');
+        if (!tokenResponse.ok) {
+          setError('Authentication failed. Please refresh the page.');
+          return;
+        }
+        const { token } = await tokenResponse.json() as { token: string };
+        if (closed) return;
+        const url = backendUrl(`/ws?token=${encodeURIComponent(token)}`);
+        url.protocol = url.protocol === 'https:' ? 'wss:' : 'ws:';
+        const socket = new WebSocket(url);
+        socketRef.current = socket;
+        socket.onopen = () => {
+          setError(null);
+          socket.send(JSON.stringify({ type: 'logs.subscribe', filter }));
+        };
+        socket.onmessage = (event) => {
+          const data = JSON.parse(event.data as string) as { type: string; backlog?: boolean; entries?: LogEntry[]; error?: string };
+          if (data.type === 'logs.error') {
+            setError(data.error ?? 'Log stream failed');
+          } else if (data.type === 'logs' && data.entries) {
+            const incoming = data.entries;
+            setEntries(current => (data.backlog ? incoming : [...current, ...incoming]).slice(-MAX_ENTRIES));
+          }
+        };
+        socket.onclose = () => {
+          socketRef.current = null;
+        };
+      } catch (err) {
+        console.error('Failed to connect log stream:', err);
+        setError('Failed to connect to the log stream');
+      }
+    };
+    connect();
+    return () => {
+      closed = true;
+      socketRef.current?.close();
+      socketRef.current = null;
+    };
+  }, [serverState, mode]);
+
+  useEffect(() => {
+    if (mode !== 'live' || socketRef.current?.readyState !== WebSocket.OPEN) return;
+    // Debounce typing in the text filter
+    const timer = setTimeout(() => {
+      socketRef.current?.send(JSON.stringify({ type: 'logs.subscribe', filter }));
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [levels.join(','), text]);
+
+  useEffect(() => {
+    if (mode === 'live') {
+      endRef.current?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+    }
+  }, [entries]);
+
+  const toggleLevel = (level: LogLevel) => {
+    setLevels(current => current.includes(level) ? current.filter(l => l !== level) : [...current, level]);
+  };
+
+  const handleSearch = async () => {
+    try {
+      setSearching(true);
+      setError(null);
+      setNotice(null);
+      setMode('search');
+      const params = new URLSearchParams({
+        from: String(new Date(from).getTime()),
+        to: String(new Date(to).getTime()),
+        ...(filter.levels ? { levels: filter.levels.join(',') } : {}),
+        ...(filter.text ? { text: filter.text } : {}),
+      });
+      const response = await fetchWithAuth(`/api/logs/search?${params}`);
+      const result = await response.json() as LogSearchResponse;
+      if (result.error) {
+        throw new Error(result.error);
+      }
+      setEntries(result.entries);
+      setNotice(`${result.entries.length}${result.truncated ? '+' : ''} entries from ${result.files.length} log file${result.files.length === 1 ? '' : 's'}`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to search logs');
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  const backToLive = () => {
+    setEntries([]);
+    setNotice(null);
+    setMode('live');
+  };
+
+  const buttonStyle = (enabled: boolean, active = false) => ({
+    fontSize: '0.75rem',
+    fontWeight: '600',
+    padding: '6px 12px',
+    background: active ? 'rgba(87, 166, 78, 0.35)' : 'rgba(87, 166, 78, 0.15)',
+    color: '#57A64E',
+    border: '1px solid rgba(87, 166, 78, 0.3)',
+    borderRadius: '8px',
+    cursor: enabled ? 'pointer' : 'default',
+    opacity: enabled ? 1 : 0.5,
+    textTransform: 'uppercase' as const,
+    letterSpacing: '0.05em',
+    flexShrink: 0,
+  });
+
+  const running = serverState === 'running';
+
+  return (
+    <div style={{
+      display: 'flex',
+      flexDirection: 'column',
+      marginTop: '24px',
+      height: '500px',
+      background: 'rgba(26, 46, 30, 0.4)',
+      backdropFilter: 'blur(10px)',
+      border: '1px solid rgba(87, 166, 78, 0.2)',
+      borderRadius: '16px',
+      overflow: 'hidden',
+      boxShadow: '0 8px 32px rgba(0, 0, 0, 0.3)',
+    }}>
+      {/* Header */}
+      <div style={{
+        padding: '16px 20px',
+        background: 'rgba(0, 0, 0, 0.3)',
+        borderBottom: '1px solid rgba(87, 166, 78, 0.2)',
+        display: 'flex',
+        alignItems: 'center',
+        gap: '12px',
+        flexWrap: 'wrap',
+      }}>
+        <div style={{
+          width: '40px',
+          height: '40px',
+          borderRadius: '10px',
+          background: 'linear-gradient(135deg, #57A64E 0%, #6BB854 100%)',
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'center',
+          fontSize: '1.25rem',
+        }}>
+          📜
+        </div>
+        <div style={{ marginRight: 'auto' }}>
+          <div style={{ fontSize: '1.125rem', fontWeight: '700', color: '#fff', marginBottom: '2px' }}>
+            Server Log
+          </div>
+          <div style={{ fontSize: '0.75rem', color: '#888', fontFamily: 'ui-monospace, monospace' }}>
+            {mode === 'live' ? (running ? 'latest.log · live' : 'Available while the server is running') : (notice ?? 'Search')}
+          </div>
+        </div>
+
+        {LEVELS.map(level => (
+          <button key={level} onClick={() => toggleLevel(level)} style={buttonStyle(true, levels.includes(level))}>
+            {level}
+          </button>
+        ))}
+        <input
+          value={text}
+          placeholder="Filter text"
+          onInput={(e) => setText((e.target as HTMLInputElement).value)}
+          style={{ ...inputStyle, width: '160px' }}
+        />
+        <input type="datetime-local" value={from} onInput={(e) => setFrom((e.target as HTMLInputElement).value)} style={inputStyle} />
+        <input type="datetime-local" value={to} onInput={(e) => setTo((e.target as HTMLInputElement).value)} style={inputStyle} />
+        <button onClick={handleSearch} disabled={!running || searching} style={buttonStyle(running && !searching)}>
+          {searching ? '⏳ Searching' : '🔍 Search'}
+        </button>
+        {mode === 'search' && (
+          <button onClick={backToLive} style={buttonStyle(true)}>Live</button>
+        )}
+      </div>
+
+      {error && (
+        <div style={{
+          padding: '8px 20px',
+          background: 'rgba(255, 71, 71, 0.1)',
+          color: '#ff6b6b',
+          fontSize: '0.8rem',
+        }}>
+          ⚠️ {error}
+        </div>
+      )}
+
+      {/* Entries */}
+      <div style={{
+        flex: 1,
+        overflowY: 'auto',
+        padding: '12px 20px',
+        fontFamily: 'ui-monospace, "Cascadia Code", "Source Code Pro", Menlo, Consolas, "DejaVu Sans Mono", monospace',
+        fontSize: '12px',
+        lineHeight: '1.5',
+        background: 'rgba(0, 0, 0, 0.2)',
+      }}>
+        {entries.length === 0 && (
+          <div style={{ color: '#888' }}>{running ? 'No log entries match the filter' : 'Start the server to see its log'}</div>
+        )}
+        {entries.map((entry, index) => (
+          <div key={index} style={{ color: LEVEL_COLORS[entry.level], whiteSpace: 'pre-wrap', wordBreak: 'break-word' }}>
+            <span style={{ color: '#666' }}>{new Date(entry.time).toLocaleString()} </span>
+            <span style={{ color: '#5B9BD5' }}>[{entry.thread}/{entry.level}]</span>
+            {entry.source && <span style={{ color: '#57A64E' }}> [{entry.source}]</span>}
+            {' '}{entry.message}
+          </div>
+        ))}
+        <div ref={endRef} />
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
 import { useEffect, useState, useRef } from 'preact/hooks';
 import { fetchApi } from '../utils/api';
+import { CostBudget } from './CostBudget';
 
 interface Props {
   serverState?: 'stopped' | 'starting' | 'running' | 'stopping';
@@ -376,6 +377,9 @@ export function SessionTimer({ serverState }: Props) {
           </div>
         </div>
       )}
+
+      {/* Cost estimate and monthly budget */}
+      <CostBudget serverState={serverState} />
     </div>
   );
 }
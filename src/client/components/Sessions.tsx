@@ -0,0 +1,248 @@
+import { useEffect, useState } from 'preact/hooks';
+import { fetchWithAuth } from '../utils/api';
+import type { SessionInfo, SessionsResponse } from '../types/api';
+
+interface Props {
+  // Called once this browser was signed out too
+  onSignedOut: () => void;
+}
+
+const inputStyle = {
+  padding: '6px 8px',
+  background: 'rgba(0, 0, 0, 0.3)',
+  color: '#e0e0e0',
+  border: '1px solid rgba(87, 166, 78, 0.3)',
+  borderRadius: '6px',
+  fontSize: '0.8rem',
+  boxSizing: 'border-box' as const,
+};
+
+const buttonStyle = (enabled: boolean) => ({
+  fontSize: '0.75rem',
+  fontWeight: '600',
+  padding: '6px 14px',
+  background: 'rgba(87, 166, 78, 0.15)',
+  color: '#57A64E',
+  border: '1px solid rgba(87, 166, 78, 0.3)',
+  borderRadius: '8px',
+  cursor: enabled ? 'pointer' : 'default',
+  opacity: enabled ? 1 : 0.5,
+  textTransform: 'uppercase' as const,
+  letterSpacing: '0.05em',
+  flexShrink: 0,
+});
+
+const dangerButtonStyle = (enabled: boolean) => ({
+  ...buttonStyle(enabled),
+  color: '#ff6b6b',
+  border: '1px solid rgba(255, 107, 107, 0.3)',
+  background: 'rgba(255, 107, 107, 0.1)',
+});
+
+// "Firefox on Windows" from a user agent, good enough to tell your devices apart
+function describeUserAgent(userAgent: string | null): string {
+  if (!userAgent) return 'Unknown device';
+  const browser = /Edg\//.test(userAgent) ? 'Edge'
+    : /OPR\//.test(userAgent) ? 'Opera'
+    : /Firefox\//.test(userAgent) ? 'Firefox'
+    : /Chrome\//.test(userAgent) ? 'Chrome'
+    : /Safari\//.test(userAgent) ? 'Safari'
+    : null;
+  const os = /iPhone|iPad/.test(userAgent) ? 'iOS'
+    : /Android/.test(userAgent) ? 'Android'
+    : /Windows/.test(userAgent) ? 'Windows'
+    : /Mac OS X/.test(userAgent) ? 'macOS'
+    : /Linux/.test(userAgent) ? 'Linux'
+    : null;
+  if (!browser) return userAgent.length > 60 ? `${userAgent.slice(0, 60)}…` : userAgent;
+  return os ? `${browser} on ${os}` : browser;
+}
+
+/**
+ * Where the signed-in account is signed in, with sign-out per device and everywhere, and changing
+ * its password.
+ */
+export function Sessions({ onSignedOut }: Props) {
+  const [sessions, setSessions] = useState<SessionInfo[]>([]);
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const fetchSessions = async () => {
+    try {
+      const response = await fetchWithAuth('/auth/sessions');
+      const data = await response.json() as SessionsResponse;
+      if (data.error) {
+        setError(data.error);
+        return;
+      }
+      setSessions(data.sessions);
+    } catch (err) {
+      console.error('Failed to fetch sessions:', err);
+    }
+  };
+
+  useEffect(() => {
+    fetchSessions();
+  }, []);
+
+  const request = async <T,>(path: string, method: string, body?: unknown): Promise<T | null> => {
+    try {
+      setBusy(true);
+      setError(null);
+      setMessage(null);
+      const response = await fetchWithAuth(path, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+      const result = await response.json() as T & { success?: boolean; error?: string };
+      if (!response.ok || result.error || result.success === false) {
+        throw new Error(result.error || 'Request failed');
+      }
+      return result;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Request failed');
+      return null;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRevoke = async (session: SessionInfo) => {
+    if (!confirm(`Sign out ${describeUserAgent(session.userAgent)}?`)) return;
+    if (await request(`/auth/sessions/${session.id}`, 'DELETE')) {
+      await fetchSessions();
+    }
+  };
+
+  const handleRevokeAll = async () => {
+    if (!confirm('Sign out everywhere, this browser included?')) return;
+    if (await request('/auth/sessions/revoke-all', 'POST')) {
+      onSignedOut();
+    }
+  };
+
+  const handleChangePassword = async () => {
+    const result = await request<{ signedOut: number }>('/auth/password', 'POST', { currentPassword, newPassword });
+    if (result) {
+      setCurrentPassword('');
+      setNewPassword('');
+      setMessage(result.signedOut > 0
+        ? `Password changed, ${result.signedOut} other sign-in${result.signedOut !== 1 ? 's were' : ' was'} signed out`
+        : 'Password changed');
+      await fetchSessions();
+    }
+  };
+
+  const canChangePassword = !busy && currentPassword !== '' && newPassword !== '';
+
+  return (
+    <div style={{
+      gridColumn: '1 / -1',
+      background: 'rgba(26, 46, 30, 0.4)',
+      backdropFilter: 'blur(10px)',
+      border: '1px solid rgba(87, 166, 78, 0.2)',
+      borderRadius: '16px',
+      padding: '32px',
+      boxShadow: '0 8px 32px rgba(0, 0, 0, 0.3)',
+    }}>
+      <div style={{ display: 'flex', alignItems: 'center', marginBottom: '24px' }}>
+        <div style={{
+          width: '48px',
+          height: '48px',
+          borderRadius: '12px',
+          background: 'linear-gradient(135deg, #55FF55 0%, #57A64E 100%)',
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'center',
+          fontSize: '1.5rem',
+          marginRight: '16px',
+          boxShadow: '0 4px 12px rgba(85, 255, 85, 0.3)',
+        }}>
+          💻
+        </div>
+        <div style={{ flex: 1 }}>
+          <h2 style={{ margin: '0 0 4px 0', fontSize: '1.5rem', fontWeight: '700', color: '#fff' }}>
+            Signed-in Devices
+          </h2>
+          <div style={{ color: '#888', fontSize: '0.875rem', fontWeight: '500' }}>
+            {sessions.length} active sign-in{sessions.length !== 1 ? 's' : ''}
+          </div>
+        </div>
+        <button onClick={handleRevokeAll} disabled={busy} style={dangerButtonStyle(!busy)}>
+          Sign out everywhere
+        </button>
+      </div>
+
+      {error && (
+        <div style={{ color: '#ff6b6b', fontSize: '0.8rem', marginBottom: '12px' }}>⚠️ {error}</div>
+      )}
+      {message && (
+        <div style={{ color: '#57A64E', fontSize: '0.8rem', marginBottom: '12px' }}>✓ {message}</div>
+      )}
+
+      <div style={{ display: 'flex', flexDirection: 'column', gap: '8px', marginBottom: '24px' }}>
+        {sessions.map(session => (
+          <div key={session.id} style={{
+            display: 'flex',
+            alignItems: 'center',
+            gap: '12px',
+            padding: '10px 12px',
+            background: 'rgba(255, 255, 255, 0.03)',
+            border: '1px solid rgba(87, 166, 78, 0.15)',
+            borderRadius: '8px',
+          }}>
+            <div style={{ flex: 1, minWidth: 0 }}>
+              <div style={{ color: '#fff', fontSize: '0.875rem', fontWeight: '600' }} title={session.userAgent ?? undefined}>
+                {describeUserAgent(session.userAgent)}
+                {session.current && <span style={{ color: '#57A64E', fontWeight: '500' }}> · this browser</span>}
+              </div>
+              <div style={{ color: '#888', fontSize: '0.75rem' }}>
+                {session.ip ?? 'Unknown IP'}
+                {' · '}last seen {new Date(session.lastSeenAt).toLocaleString()}
+                {' · '}signed in {new Date(session.createdAt).toLocaleDateString()}
+                {session.twoFactor && ' · with 2FA'}
+              </div>
+            </div>
+            {!session.current && (
+              <button onClick={() => handleRevoke(session)} disabled={busy} style={dangerButtonStyle(!busy)}>
+                Sign out
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div style={{ color: '#e0e0e0', fontSize: '0.875rem', fontWeight: '600', marginBottom: '8px' }}>
+        Change password
+      </div>
+      <div style={{ display: 'flex', gap: '8px', flexWrap: 'wrap' }}>
+        <input
+          type="password"
+          autoComplete="current-password"
+          placeholder="Current password"
+          value={currentPassword}
+          onInput={(e) => setCurrentPassword((e.target as HTMLInputElement).value)}
+          style={{ ...inputStyle, flex: 1, minWidth: '160px' }}
+        />
+        <input
+          type="password"
+          autoComplete="new-password"
+          placeholder="New password (at least 8 characters)"
+          value={newPassword}
+          onInput={(e) => setNewPassword((e.target as HTMLInputElement).value)}
+          style={{ ...inputStyle, flex: 1, minWidth: '160px' }}
+        />
+        <button onClick={handleChangePassword} disabled={!canChangePassword} style={buttonStyle(canChangePassword)}>
+          Change
+        </button>
+      </div>
+      <div style={{ color: '#888', fontSize: '0.75rem', marginTop: '6px' }}>
+        Your other sign-ins are signed out, this one stays signed in.
+      </div>
+    </div>
+  );
+}
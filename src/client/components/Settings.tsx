@@ -0,0 +1,311 @@
+import { useEffect, useState } from 'preact/hooks';
+import { fetchWithAuth } from '../utils/api';
+import type { Difficulty, GameMode, ServerSettings, ServerSettingsUpdateResponse } from '../types/api';
+
+interface Props {
+  serverState: 'stopped' | 'starting' | 'running' | 'stopping';
+}
+
+type NumberSetting = 'viewDistance' | 'simulationDistance' | 'spawnProtection' | 'maxPlayers';
+
+const NUMBER_FIELDS: Array<{ key: NumberSetting; label: string; min: number; max: number }> = [
+  { key: 'viewDistance', label: 'View distance', min: 3, max: 32 },
+  { key: 'simulationDistance', label: 'Simulation distance', min: 3, max: 32 },
+  { key: 'spawnProtection', label: 'Spawn protection', min: 0, max: 64 },
+  { key: 'maxPlayers', label: 'Max players', min: 1, max: 1000 },
+];
+
+const GAME_MODES: GameMode[] = ['survival', 'creative', 'adventure', 'spectator'];
+const DIFFICULTIES: Difficulty[] = ['peaceful', 'easy', 'normal', 'hard'];
+
+// Applied to a running server over RCON, everything else needs a restart
+const LIVE_SETTINGS: Array<keyof ServerSettings> = ['difficulty', 'whitelist'];
+
+const inputStyle = {
+  padding: '6px 8px',
+  background: 'rgba(0, 0, 0, 0.3)',
+  color: '#e0e0e0',
+  border: '1px solid rgba(87, 166, 78, 0.3)',
+  borderRadius: '6px',
+  fontSize: '0.8rem',
+  width: '100%',
+  boxSizing: 'border-box' as const,
+};
+
+const labelStyle = {
+  display: 'flex',
+  flexDirection: 'column' as const,
+  gap: '4px',
+  fontSize: '0.7rem',
+  color: '#888',
+  textTransform: 'uppercase' as const,
+  letterSpacing: '0.05em',
+};
+
+const checkboxLabelStyle = {
+  display: 'flex',
+  alignItems: 'center',
+  gap: '8px',
+  color: '#e0e0e0',
+  fontSize: '0.8rem',
+  cursor: 'pointer',
+};
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+function liveLabel(key: keyof ServerSettings): string {
+  return LIVE_SETTINGS.includes(key) ? ' (live)' : '';
+}
+
+export function Settings({ serverState }: Props) {
+  const [settings, setSettings] = useState<ServerSettings | null>(null);
+  const [dirty, setDirty] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  useEffect(() => {
+    // Don't discard unsaved edits when the server state changes
+    if (dirty) return;
+    const fetchSettings = async () => {
+      try {
+        const response = await fetchWithAuth('/api/settings');
+        const data = await response.json() as ServerSettings & { error?: string };
+        if (data.error) {
+          setError(data.error);
+          return;
+        }
+        setSettings(data);
+      } catch (err) {
+        console.error('Failed to fetch server settings:', err);
+        setError('Failed to fetch server settings');
+      }
+    };
+    fetchSettings();
+  }, [serverState]);
+
+  const updateField = <K extends keyof ServerSettings>(key: K, value: ServerSettings[K]) => {
+    if (!settings) return;
+    setSettings({ ...settings, [key]: value });
+    setDirty(true);
+    setNotice(null);
+  };
+
+  const handleSave = async () => {
+    if (!settings) return;
+    try {
+      setSaving(true);
+      setError(null);
+      setNotice(null);
+      const response = await fetchWithAuth('/api/settings', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(settings),
+      });
+      const result = await response.json() as ServerSettingsUpdateResponse;
+      if (!result.success || !result.settings) {
+        throw new Error(result.error || 'Failed to save settings');
+      }
+      setSettings(result.settings);
+      setDirty(false);
+      if (result.restartRequired) {
+        setNotice('Saved. Some changes take effect the next time the server starts.');
+      } else if (result.applied && result.applied.length > 0) {
+        setNotice('Saved and applied to the running server.');
+      } else {
+        setNotice('Saved.');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const canSave = dirty && !saving && serverState !== 'starting' && serverState !== 'stopping';
+
+  return (
+    <div style={{
+      background: 'rgba(26, 46, 30, 0.4)',
+      backdropFilter: 'blur(10px)',
+      border: '1px solid rgba(87, 166, 78, 0.2)',
+      borderRadius: '16px',
+      padding: '32px',
+      boxShadow: '0 8px 32px rgba(0, 0, 0, 0.3)',
+      transition: 'all 0.3s ease',
+    }}
+    onMouseEnter={(e) => {
+      e.currentTarget.style.borderColor = 'rgba(87, 166, 78, 0.4)';
+      e.currentTarget.style.transform = 'translateY(-4px)';
+      e.currentTarget.style.boxShadow = '0 12px 40px rgba(0, 0, 0, 0.4)';
+    }}
+    onMouseLeave={(e) => {
+      e.currentTarget.style.borderColor = 'rgba(87, 166, 78, 0.2)';
+      e.currentTarget.style.transform = 'translateY(0)';
+      e.currentTarget.style.boxShadow = '0 8px 32px rgba(0, 0, 0, 0.3)';
+    }}
+    >
+      {/* Header */}
+      <div style={{
+        display: 'flex',
+        alignItems: 'center',
+        marginBottom: '24px',
+      }}>
+        <div style={{
+          width: '48px',
+          height: '48px',
+          borderRadius: '12px',
+          background: 'linear-gradient(135deg, #55FF55 0%, #57A64E 100%)',
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'center',
+          fontSize: '1.5rem',
+          marginRight: '16px',
+          boxShadow: '0 4px 12px rgba(85, 255, 85, 0.3)',
+        }}>
+          ⚙
+        </div>
+        <div>
+          <h2 style={{
+            margin: '0 0 4px 0',
+            fontSize: '1.5rem',
+            fontWeight: '700',
+            color: '#fff',
+          }}>
+            Server Settings
+          </h2>
+          <span style={{
+            color: dirty ? '#FFB600' : '#888',
+            fontWeight: '600',
+            fontSize: '0.875rem',
+            textTransform: 'uppercase',
+            letterSpacing: '0.05em',
+          }}>
+            {settings ? (dirty ? 'Unsaved changes' : 'server.properties') : 'Loading...'}
+          </span>
+        </div>
+      </div>
+
+      {error && (
+        <div style={{
+          marginBottom: '16px',
+          padding: '12px 16px',
+          background: 'rgba(255, 71, 71, 0.1)',
+          border: '1px solid rgba(255, 71, 71, 0.3)',
+          borderRadius: '8px',
+          color: '#ff6b6b',
+          fontSize: '0.875rem',
+          wordBreak: 'break-word',
+        }}>
+          ⚠️ {error}
+        </div>
+      )}
+
+      {notice && (
+        <div style={{
+          marginBottom: '16px',
+          padding: '12px 16px',
+          background: 'rgba(87, 166, 78, 0.1)',
+          border: '1px solid rgba(87, 166, 78, 0.3)',
+          borderRadius: '8px',
+          color: '#57A64E',
+          fontSize: '0.875rem',
+        }}>
+          {notice}
+        </div>
+      )}
+
+      {settings && (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '12px' }}>
+          <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '8px' }}>
+            <label style={labelStyle}>
+              Difficulty{liveLabel('difficulty')}
+              <select value={settings.difficulty} onChange={(e) => updateField('difficulty', (e.target as HTMLSelectElement).value as Difficulty)} style={inputStyle}>
+                {DIFFICULTIES.map(difficulty => <option key={difficulty} value={difficulty}>{capitalize(difficulty)}</option>)}
+              </select>
+            </label>
+            <label style={labelStyle}>
+              Game mode
+              <select value={settings.gameMode} onChange={(e) => updateField('gameMode', (e.target as HTMLSelectElement).value as GameMode)} style={inputStyle}>
+                {GAME_MODES.map(mode => <option key={mode} value={mode}>{capitalize(mode)}</option>)}
+              </select>
+            </label>
+            {NUMBER_FIELDS.map(field => (
+              <label key={field.key} style={labelStyle}>
+                {field.label}
+                <input
+                  type="number"
+                  min={field.min}
+                  max={field.max}
+                  value={settings[field.key]}
+                  onInput={(e) => updateField(field.key, Math.min(field.max, Math.max(field.min, parseInt((e.target as HTMLInputElement).value, 10) || field.min)))}
+                  style={inputStyle}
+                />
+              </label>
+            ))}
+          </div>
+
+          <label style={labelStyle}>
+            Message of the day
+            <input
+              type="text"
+              maxLength={256}
+              value={settings.motd}
+              onInput={(e) => updateField('motd', (e.target as HTMLInputElement).value)}
+              style={inputStyle}
+            />
+          </label>
+
+          <div style={{ display: 'flex', gap: '24px', flexWrap: 'wrap' }}>
+            <label style={checkboxLabelStyle}>
+              <input type="checkbox" checked={settings.pvp} onChange={(e) => updateField('pvp', (e.target as HTMLInputElement).checked)} />
+              PvP
+            </label>
+            <label style={checkboxLabelStyle}>
+              <input type="checkbox" checked={settings.whitelist} onChange={(e) => updateField('whitelist', (e.target as HTMLInputElement).checked)} />
+              Whitelist{liveLabel('whitelist')}
+            </label>
+            <label style={checkboxLabelStyle}>
+              <input type="checkbox" checked={settings.onlineMode} onChange={(e) => updateField('onlineMode', (e.target as HTMLInputElement).checked)} />
+              Online mode
+            </label>
+          </div>
+
+          <span style={{ color: '#888', fontSize: '0.75rem' }}>
+            {settings.onlineMode
+              ? 'Players need a Minecraft account, Mojang verifies who they are.'
+              : 'Offline mode: anyone can join under any name. Use the whitelist or the AuthMe plugin if the server is public.'}
+          </span>
+
+          <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: '12px' }}>
+            <span style={{ color: '#888', fontSize: '0.75rem' }}>
+              Difficulty and game mode are saved with the selected world
+            </span>
+            <button
+              onClick={handleSave}
+              disabled={!canSave}
+              style={{
+                fontSize: '0.75rem',
+                fontWeight: '600',
+                padding: '6px 14px',
+                background: 'rgba(87, 166, 78, 0.15)',
+                color: '#57A64E',
+                border: '1px solid rgba(87, 166, 78, 0.3)',
+                borderRadius: '8px',
+                cursor: canSave ? 'pointer' : 'default',
+                opacity: canSave ? 1 : 0.5,
+                textTransform: 'uppercase',
+                letterSpacing: '0.05em',
+                flexShrink: 0,
+              }}
+            >
+              {saving ? '⏳ Saving' : '✓ Save'}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,291 @@
+import { useEffect, useMemo, useState } from 'preact/hooks';
+import { fetchWithAuth } from '../utils/api';
+import { encodeQrCode } from '../utils/qr-code';
+import type { TwoFactorSetup, TwoFactorStatus } from '../types/api';
+
+interface Props {
+  // The current sign-in passed 2FA
+  verified: boolean;
+  // Called when that may have changed
+  onChange: () => void;
+}
+
+const inputStyle = {
+  padding: '6px 8px',
+  background: 'rgba(0, 0, 0, 0.3)',
+  color: '#e0e0e0',
+  border: '1px solid rgba(87, 166, 78, 0.3)',
+  borderRadius: '6px',
+  fontSize: '0.8rem',
+  boxSizing: 'border-box' as const,
+};
+
+const buttonStyle = (enabled: boolean) => ({
+  fontSize: '0.75rem',
+  fontWeight: '600',
+  padding: '6px 14px',
+  background: 'rgba(87, 166, 78, 0.15)',
+  color: '#57A64E',
+  border: '1px solid rgba(87, 166, 78, 0.3)',
+  borderRadius: '8px',
+  cursor: enabled ? 'pointer' : 'default',
+  opacity: enabled ? 1 : 0.5,
+  textTransform: 'uppercase' as const,
+  letterSpacing: '0.05em',
+  flexShrink: 0,
+});
+
+const dangerButtonStyle = (enabled: boolean) => ({
+  ...buttonStyle(enabled),
+  color: '#ff6b6b',
+  border: '1px solid rgba(255, 107, 107, 0.3)',
+  background: 'rgba(255, 107, 107, 0.1)',
+});
+
+// Drawn in the browser, the secret in the URI isn't sent anywhere
+function QrCode({ text }: { text: string }) {
+  const modules = useMemo(() => encodeQrCode(text), [text]);
+  const quietZone = 4;
+  const size = modules.length + quietZone * 2;
+  const path = modules
+    .flatMap((row, y) => row.map((dark, x) => dark ? `M${x + quietZone},${y + quietZone}h1v1h-1z` : ''))
+    .join('');
+  return (
+    <svg viewBox={`0 0 ${size} ${size}`} width="180" height="180" shapeRendering="crispEdges" style={{ background: '#fff', borderRadius: '8px', flexShrink: 0 }}>
+      <path d={path} fill="#000" />
+    </svg>
+  );
+}
+
+/**
+ * Two-factor authentication of the signed-in account with an authenticator app. The terminal and
+ * browser need a sign-in that passed it.
+ */
+export function TwoFactor({ verified, onChange }: Props) {
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchStatus = async () => {
+    try {
+      const response = await fetchWithAuth('/auth/2fa');
+      const data = await response.json() as TwoFactorStatus;
+      if (data.error) {
+        setError(data.error);
+        return;
+      }
+      setStatus(data);
+    } catch (err) {
+      console.error('Failed to fetch 2FA status:', err);
+    }
+  };
+
+  useEffect(() => {
+    fetchStatus();
+  }, []);
+
+  const request = async <T,>(path: string, body?: unknown): Promise<T | null> => {
+    try {
+      setBusy(true);
+      setError(null);
+      const response = await fetchWithAuth(path, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body ?? {}),
+      });
+      const result = await response.json() as T & { error?: string };
+      if (!response.ok || result.error) {
+        throw new Error(result.error || 'Request failed');
+      }
+      return result;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Request failed');
+      return null;
+    } finally {
+      setBusy(false);
+      setCode('');
+    }
+  };
+
+  const handleStart = async () => {
+    const result = await request<TwoFactorSetup>('/auth/2fa/setup');
+    if (result) {
+      setSetup(result);
+    }
+  };
+
+  const handleEnable = async () => {
+    const result = await request<{ recoveryCodes: string[] }>('/auth/2fa/enable', { code });
+    if (result) {
+      setSetup(null);
+      setRecoveryCodes(result.recoveryCodes);
+      await fetchStatus();
+      onChange();
+    }
+  };
+
+  const handleRegenerate = async () => {
+    const result = await request<{ recoveryCodes: string[] }>('/auth/2fa/recovery-codes', { code });
+    if (result) {
+      setRecoveryCodes(result.recoveryCodes);
+      await fetchStatus();
+    }
+  };
+
+  const handleDisable = async () => {
+    if (!confirm('Turn off two-factor authentication? Your password alone will be enough to sign in, and the terminal and browser can\'t be opened.')) return;
+    const result = await request<{ success: boolean }>('/auth/2fa/disable', { code });
+    if (result) {
+      setRecoveryCodes(null);
+      await fetchStatus();
+      onChange();
+    }
+  };
+
+  const hasCode = !busy && code.trim() !== '';
+  const codeInput = (placeholder: string) => (
+    <input
+      type="text"
+      autoComplete="one-time-code"
+      placeholder={placeholder}
+      value={code}
+      onInput={(e) => setCode((e.target as HTMLInputElement).value)}
+      style={{ ...inputStyle, flex: 1, minWidth: 0 }}
+    />
+  );
+
+  return (
+    <div style={{
+      background: 'rgba(26, 46, 30, 0.4)',
+      backdropFilter: 'blur(10px)',
+      border: '1px solid rgba(87, 166, 78, 0.2)',
+      borderRadius: '16px',
+      padding: '32px',
+      boxShadow: '0 8px 32px rgba(0, 0, 0, 0.3)',
+    }}>
+      <div style={{ display: 'flex', alignItems: 'center', marginBottom: '24px' }}>
+        <div style={{
+          width: '48px',
+          height: '48px',
+          borderRadius: '12px',
+          background: 'linear-gradient(135deg, #55FF55 0%, #57A64E 100%)',
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'center',
+          fontSize: '1.5rem',
+          marginRight: '16px',
+          boxShadow: '0 4px 12px rgba(85, 255, 85, 0.3)',
+        }}>
+          🛡️
+        </div>
+        <div>
+          <h2 style={{ margin: '0 0 4px 0', fontSize: '1.5rem', fontWeight: '700', color: '#fff' }}>
+            Two-Factor Authentication
+          </h2>
+          <div style={{ color: '#888', fontSize: '0.875rem', fontWeight: '500' }}>
+            {status === null
+              ? 'Loading...'
+              : status.enabled
+                ? `On, ${status.recoveryCodesLeft} recovery code${status.recoveryCodesLeft !== 1 ? 's' : ''} left`
+                : 'Off, the terminal and browser need it'}
+          </div>
+        </div>
+      </div>
+
+      {error && (
+        <div style={{ color: '#ff6b6b', fontSize: '0.8rem', marginBottom: '12px' }}>⚠️ {error}</div>
+      )}
+
+      {status?.enabled && !verified && (
+        <div style={{ color: '#FFB600', fontSize: '0.8rem', marginBottom: '12px' }}>
+          This sign-in didn't use a code. Sign out and in again to open the terminal or browser.
+        </div>
+      )}
+
+      {recoveryCodes && (
+        <div style={{
+          marginBottom: '16px',
+          padding: '12px',
+          background: 'rgba(87, 166, 78, 0.1)',
+          border: '1px solid rgba(87, 166, 78, 0.3)',
+          borderRadius: '8px',
+        }}>
+          <div style={{ color: '#e0e0e0', fontSize: '0.8rem', marginBottom: '8px' }}>
+            Keep these recovery codes somewhere safe. Each one signs you in once without the app, and they won't be shown again.
+          </div>
+          <div style={{ display: 'grid', gridTemplateColumns: 'repeat(2, 1fr)', gap: '4px', fontFamily: 'monospace', color: '#fff', fontSize: '0.875rem', marginBottom: '8px' }}>
+            {recoveryCodes.map(recoveryCode => <span key={recoveryCode}>{recoveryCode}</span>)}
+          </div>
+          <div style={{ display: 'flex', gap: '8px', justifyContent: 'flex-end' }}>
+            <button onClick={() => navigator.clipboard.writeText(recoveryCodes.join('\n'))} style={buttonStyle(true)}>
+              Copy
+            </button>
+            <button onClick={() => setRecoveryCodes(null)} style={buttonStyle(true)}>
+              Done
+            </button>
+          </div>
+        </div>
+      )}
+
+      {status && !status.enabled && !setup && (
+        <div style={{ display: 'flex', alignItems: 'center', gap: '12px' }}>
+          <span style={{ flex: 1, color: '#b0b0b0', fontSize: '0.8rem' }}>
+            Ask for a code from an authenticator app when signing in, so a leaked password isn't enough.
+          </span>
+          <button onClick={handleStart} disabled={busy} style={buttonStyle(!busy)}>
+            Turn on
+          </button>
+        </div>
+      )}
+
+      {setup && (
+        <div style={{ display: 'flex', gap: '16px', flexWrap: 'wrap' }}>
+          <QrCode text={setup.uri} />
+          <div style={{ flex: 1, minWidth: '200px', display: 'flex', flexDirection: 'column', gap: '8px' }}>
+            <div style={{ color: '#e0e0e0', fontSize: '0.8rem' }}>
+              Scan the code with your authenticator app, or enter this key:
+            </div>
+            <code style={{ color: '#fff', fontSize: '0.8rem', wordBreak: 'break-all' }}>
+              {setup.secret.match(/.{1,4}/g)?.join(' ')}
+            </code>
+            <div style={{ color: '#e0e0e0', fontSize: '0.8rem' }}>
+              Then enter the code it shows:
+            </div>
+            <div style={{ display: 'flex', gap: '8px' }}>
+              {codeInput('123456')}
+              <button onClick={handleEnable} disabled={!hasCode} style={buttonStyle(hasCode)}>
+                Confirm
+              </button>
+            </div>
+            <div
+              onClick={() => setSetup(null)}
+              style={{ color: '#888', fontSize: '0.75rem', cursor: 'pointer', textDecoration: 'underline' }}
+            >
+              Cancel
+            </div>
+          </div>
+        </div>
+      )}
+
+      {status?.enabled && (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '8px' }}>
+          <div style={{ color: '#b0b0b0', fontSize: '0.8rem' }}>
+            To change anything, enter a code from your app or a recovery code:
+          </div>
+          <div style={{ display: 'flex', gap: '8px', flexWrap: 'wrap' }}>
+            {codeInput('Code')}
+            <button onClick={handleRegenerate} disabled={!hasCode} style={buttonStyle(hasCode)}>
+              New recovery codes
+            </button>
+            <button onClick={handleDisable} disabled={!hasCode} style={dangerButtonStyle(hasCode)}>
+              Turn off
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
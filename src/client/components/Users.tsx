@@ -0,0 +1,254 @@
+import { useEffect, useState } from 'preact/hooks';
+import { fetchWithAuth } from '../utils/api';
+import type { AssignableRole, AuthUser, InviteInfo, UserInfo, UsersResponse } from '../types/api';
+
+interface Props {
+  currentUser: AuthUser;
+}
+
+const ASSIGNABLE_ROLES: Array<{ role: AssignableRole; description: string }> = [
+  { role: 'viewer', description: 'Sees the dashboard' },
+  { role: 'moderator', description: 'Also starts and stops the server, runs commands and moderates players' },
+  { role: 'admin', description: 'Also changes plugins, version, worlds, backups and settings, and opens the terminal' },
+];
+
+const inputStyle = {
+  padding: '6px 8px',
+  background: 'rgba(0, 0, 0, 0.3)',
+  color: '#e0e0e0',
+  border: '1px solid rgba(87, 166, 78, 0.3)',
+  borderRadius: '6px',
+  fontSize: '0.8rem',
+};
+
+const buttonStyle = (enabled: boolean) => ({
+  fontSize: '0.75rem',
+  fontWeight: '600',
+  padding: '6px 14px',
+  background: 'rgba(87, 166, 78, 0.15)',
+  color: '#57A64E',
+  border: '1px solid rgba(87, 166, 78, 0.3)',
+  borderRadius: '8px',
+  cursor: enabled ? 'pointer' : 'default',
+  opacity: enabled ? 1 : 0.5,
+  textTransform: 'uppercase' as const,
+  letterSpacing: '0.05em',
+  flexShrink: 0,
+});
+
+const dangerButtonStyle = (enabled: boolean) => ({
+  ...buttonStyle(enabled),
+  color: '#ff6b6b',
+  border: '1px solid rgba(255, 107, 107, 0.3)',
+  background: 'rgba(255, 107, 107, 0.1)',
+});
+
+function inviteLink(code: string): string {
+  return `${window.location.origin}/?invite=${encodeURIComponent(code)}`;
+}
+
+/**
+ * Dashboard accounts and invites, only shown to the owner
+ */
+export function Users({ currentUser }: Props) {
+  const [users, setUsers] = useState<UserInfo[]>([]);
+  const [invites, setInvites] = useState<InviteInfo[]>([]);
+  const [inviteRole, setInviteRole] = useState<AssignableRole>('viewer');
+  const [newInvite, setNewInvite] = useState<{ link: string; role: AssignableRole } | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchUsers = async () => {
+    try {
+      const response = await fetchWithAuth('/api/users');
+      const data = await response.json() as UsersResponse;
+      if (data.error) {
+        setError(data.error);
+        return;
+      }
+      setUsers(data.users);
+      setInvites(data.invites);
+    } catch (err) {
+      console.error('Failed to fetch users:', err);
+    }
+  };
+
+  useEffect(() => {
+    fetchUsers();
+  }, []);
+
+  const request = async (path: string, init: RequestInit) => {
+    try {
+      setBusy(true);
+      setError(null);
+      const response = await fetchWithAuth(path, init);
+      const result = await response.json() as { success: boolean; error?: string; code?: string; invite?: InviteInfo };
+      if (!result.success) {
+        throw new Error(result.error || 'Request failed');
+      }
+      await fetchUsers();
+      return result;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Request failed');
+      return null;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleInvite = async () => {
+    const result = await request('/api/users/invites', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ role: inviteRole }),
+    });
+    if (result?.code) {
+      setNewInvite({ link: inviteLink(result.code), role: inviteRole });
+    }
+  };
+
+  const handleRoleChange = (user: UserInfo, role: AssignableRole) => request(`/api/users/${user.id}/role`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ role }),
+  });
+
+  const handleDelete = async (user: UserInfo) => {
+    if (!confirm(`Delete the account of ${user.username}? They are signed out right away.`)) return;
+    await request(`/api/users/${user.id}`, { method: 'DELETE' });
+  };
+
+  const handleRevoke = (invite: InviteInfo) => request(`/api/users/invites/${invite.id}`, { method: 'DELETE' });
+
+  return (
+    <div style={{
+      gridColumn: '1 / -1',
+      background: 'rgba(26, 46, 30, 0.4)',
+      backdropFilter: 'blur(10px)',
+      border: '1px solid rgba(87, 166, 78, 0.2)',
+      borderRadius: '16px',
+      padding: '32px',
+      boxShadow: '0 8px 32px rgba(0, 0, 0, 0.3)',
+    }}>
+      <div style={{ display: 'flex', alignItems: 'center', marginBottom: '24px' }}>
+        <div style={{
+          width: '48px',
+          height: '48px',
+          borderRadius: '12px',
+          background: 'linear-gradient(135deg, #FFB600 0%, #D98E00 100%)',
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'center',
+          fontSize: '1.5rem',
+          marginRight: '16px',
+          boxShadow: '0 4px 12px rgba(255, 182, 0, 0.3)',
+        }}>
+          👥
+        </div>
+        <div>
+          <h2 style={{ margin: '0 0 4px 0', fontSize: '1.5rem', fontWeight: '700', color: '#fff' }}>
+            Users
+          </h2>
+          <div style={{ color: '#888', fontSize: '0.875rem', fontWeight: '500' }}>
+            {users.length} account{users.length !== 1 ? 's' : ''}, {invites.length} open invite{invites.length !== 1 ? 's' : ''}
+          </div>
+        </div>
+      </div>
+
+      {error && (
+        <div style={{ color: '#ff6b6b', fontSize: '0.8rem', marginBottom: '12px' }}>⚠️ {error}</div>
+      )}
+
+      <div style={{ display: 'flex', flexDirection: 'column', gap: '6px', marginBottom: '20px' }}>
+        {users.map(user => (
+          <div key={user.id} style={{
+            display: 'flex',
+            alignItems: 'center',
+            gap: '12px',
+            padding: '8px 12px',
+            background: 'rgba(255, 255, 255, 0.03)',
+            border: '1px solid rgba(255, 255, 255, 0.08)',
+            borderRadius: '8px',
+          }}>
+            <div style={{ flex: 1, minWidth: 0 }}>
+              <div style={{ color: '#fff', fontWeight: '600', fontSize: '0.875rem' }}>
+                {user.username}{user.id === currentUser.id ? ' (you)' : ''}
+              </div>
+              <div style={{ color: '#888', fontSize: '0.75rem' }}>
+                Since {new Date(user.createdAt).toLocaleDateString()}{user.invitedBy ? `, invited by ${user.invitedBy}` : ''}
+              </div>
+            </div>
+            {user.role === 'owner' ? (
+              <span style={{ color: '#FFB600', fontSize: '0.75rem', fontWeight: '600', textTransform: 'uppercase', letterSpacing: '0.05em' }}>Owner</span>
+            ) : (
+              <>
+                <select
+                  value={user.role}
+                  disabled={busy}
+                  onChange={(e) => handleRoleChange(user, (e.target as HTMLSelectElement).value as AssignableRole)}
+                  style={inputStyle}
+                >
+                  {ASSIGNABLE_ROLES.map(({ role }) => <option key={role} value={role}>{role}</option>)}
+                </select>
+                <button onClick={() => handleDelete(user)} disabled={busy} style={dangerButtonStyle(!busy)}>
+                  Delete
+                </button>
+              </>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div style={{ display: 'flex', alignItems: 'center', gap: '8px', flexWrap: 'wrap' }}>
+        <span style={{ color: '#e0e0e0', fontSize: '0.875rem' }}>Invite someone as</span>
+        <select value={inviteRole} onChange={(e) => setInviteRole((e.target as HTMLSelectElement).value as AssignableRole)} style={inputStyle}>
+          {ASSIGNABLE_ROLES.map(({ role }) => <option key={role} value={role}>{role}</option>)}
+        </select>
+        <button onClick={handleInvite} disabled={busy} style={buttonStyle(!busy)}>
+          ✉️ Create invite link
+        </button>
+      </div>
+      <div style={{ color: '#888', fontSize: '0.75rem', marginTop: '6px' }}>
+        {ASSIGNABLE_ROLES.find(({ role }) => role === inviteRole)?.description}
+      </div>
+
+      {newInvite && (
+        <div style={{
+          marginTop: '12px',
+          padding: '12px',
+          background: 'rgba(87, 166, 78, 0.1)',
+          border: '1px solid rgba(87, 166, 78, 0.3)',
+          borderRadius: '8px',
+        }}>
+          <div style={{ color: '#e0e0e0', fontSize: '0.8rem', marginBottom: '6px' }}>
+            Send this link to the new {newInvite.role}. It works once, for 7 days, and won't be shown again.
+          </div>
+          <div style={{ display: 'flex', gap: '8px' }}>
+            <input readOnly value={newInvite.link} onFocus={(e) => e.currentTarget.select()} style={{ ...inputStyle, flex: 1, minWidth: 0 }} />
+            <button onClick={() => navigator.clipboard.writeText(newInvite.link)} style={buttonStyle(true)}>
+              Copy
+            </button>
+          </div>
+        </div>
+      )}
+
+      {invites.length > 0 && (
+        <div style={{ marginTop: '20px' }}>
+          <div style={{ color: '#888', fontSize: '0.75rem', fontWeight: '600', textTransform: 'uppercase', letterSpacing: '0.05em', marginBottom: '6px' }}>
+            Open invites
+          </div>
+          {invites.map(invite => (
+            <div key={invite.id} style={{ display: 'flex', alignItems: 'center', gap: '12px', padding: '4px 0', fontSize: '0.8rem', color: '#b0b0b0' }}>
+              <span style={{ flex: 1 }}>
+                {invite.role}, created {new Date(invite.createdAt).toLocaleDateString()}{invite.createdBy ? ` by ${invite.createdBy}` : ''}, expires {new Date(invite.expiresAt).toLocaleDateString()}
+              </span>
+              <button onClick={() => handleRevoke(invite)} disabled={busy} style={dangerButtonStyle(!busy)}>
+                Revoke
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,385 @@
+import { useEffect, useState } from 'preact/hooks';
+import { fetchWithAuth } from '../utils/api';
+import type { Difficulty, GameMode, SupportedVersion, WorldProfile, WorldsResponse } from '../types/api';
+
+interface Props {
+  serverState: 'stopped' | 'starting' | 'running' | 'stopping';
+  supportedVersions: SupportedVersion[];
+  currentVersion: string;
+  onWorldChange: () => Promise<void>;
+}
+
+const GAME_MODES: GameMode[] = ['survival', 'creative', 'adventure', 'spectator'];
+const DIFFICULTIES: Difficulty[] = ['peaceful', 'easy', 'normal', 'hard'];
+
+const inputStyle = {
+  padding: '6px 8px',
+  background: 'rgba(0, 0, 0, 0.3)',
+  color: '#e0e0e0',
+  border: '1px solid rgba(87, 166, 78, 0.3)',
+  borderRadius: '6px',
+  fontSize: '0.8rem',
+  width: '100%',
+  boxSizing: 'border-box' as const,
+};
+
+const labelStyle = {
+  display: 'flex',
+  flexDirection: 'column' as const,
+  gap: '4px',
+  fontSize: '0.7rem',
+  color: '#888',
+  textTransform: 'uppercase' as const,
+  letterSpacing: '0.05em',
+};
+
+const buttonStyle = (enabled: boolean) => ({
+  fontSize: '0.75rem',
+  fontWeight: '600',
+  padding: '6px 14px',
+  background: 'rgba(87, 166, 78, 0.15)',
+  color: '#57A64E',
+  border: '1px solid rgba(87, 166, 78, 0.3)',
+  borderRadius: '8px',
+  cursor: enabled ? 'pointer' : 'default',
+  opacity: enabled ? 1 : 0.5,
+  textTransform: 'uppercase' as const,
+  letterSpacing: '0.05em',
+  flexShrink: 0,
+});
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+export function WorldSwitcher({ serverState, supportedVersions, currentVersion, onWorldChange }: Props) {
+  const [data, setData] = useState<WorldsResponse | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [showArchived, setShowArchived] = useState(false);
+  const [creating, setCreating] = useState(false);
+  const [draft, setDraft] = useState({ name: '', levelName: 'world', seed: '', gameMode: 'survival' as GameMode, difficulty: 'easy' as Difficulty, version: '' });
+
+  const fetchWorlds = async () => {
+    try {
+      const response = await fetchWithAuth('/api/worlds');
+      const result = await response.json() as WorldsResponse;
+      if (result.error) {
+        setError(result.error);
+        return;
+      }
+      setData(result);
+    } catch (err) {
+      console.error('Failed to fetch worlds:', err);
+      setError('Failed to fetch worlds');
+    }
+  };
+
+  useEffect(() => {
+    fetchWorlds();
+  }, [serverState]);
+
+  const canSwitch = (serverState === 'running' || serverState === 'stopped') && busyId === null;
+
+  const handleSelect = async (world: WorldProfile) => {
+    if (!canSwitch || world.id === data?.selectedWorldId) return;
+    const message = serverState === 'running'
+      ? `Switch to "${world.name}"?\n\nThe server will be stopped (backing up the current world) and started with "${world.name}".`
+      : `Switch to "${world.name}"?\n\nIt will be loaded the next time the server starts.`;
+    if (!confirm(message)) return;
+
+    try {
+      setBusyId(world.id);
+      setError(null);
+      setNotice(null);
+      const response = await fetchWithAuth(`/api/worlds/${encodeURIComponent(world.id)}/select`, { method: 'POST' });
+      const result = await response.json() as { success: boolean; restarting?: boolean; error?: string };
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to switch world');
+      }
+      setNotice(result.restarting
+        ? `Restarting the server with "${world.name}". This may take a few minutes.`
+        : `"${world.name}" will be loaded when the server next starts.`);
+      await fetchWorlds();
+      await onWorldChange();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to switch world');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleArchive = async (world: WorldProfile, archived: boolean) => {
+    try {
+      setBusyId(world.id);
+      setError(null);
+      const response = await fetchWithAuth(`/api/worlds/${encodeURIComponent(world.id)}/archive`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ archived }),
+      });
+      const result = await response.json() as { success: boolean; error?: string };
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to archive world');
+      }
+      await fetchWorlds();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to archive world');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleCreate = async () => {
+    if (!draft.name.trim()) return;
+    try {
+      setBusyId('new');
+      setError(null);
+      const response = await fetchWithAuth('/api/worlds', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...draft, version: draft.version || currentVersion }),
+      });
+      const result = await response.json() as { success: boolean; world?: WorldProfile; error?: string };
+      if (!result.success || !result.world) {
+        throw new Error(result.error || 'Failed to create world');
+      }
+      setCreating(false);
+      setDraft({ name: '', levelName: 'world', seed: '', gameMode: 'survival', difficulty: 'easy', version: '' });
+      await fetchWorlds();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create world');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const worlds = (data?.worlds ?? []).filter(w => showArchived ? w.archivedAt !== null : w.archivedAt === null);
+  const archivedCount = (data?.worlds ?? []).filter(w => w.archivedAt !== null).length;
+  const selected = data?.worlds.find(w => w.id === data.selectedWorldId);
+
+  return (
+    <div style={{
+      background: 'rgba(26, 46, 30, 0.4)',
+      backdropFilter: 'blur(10px)',
+      border: '1px solid rgba(87, 166, 78, 0.2)',
+      borderRadius: '16px',
+      padding: '32px',
+      boxShadow: '0 8px 32px rgba(0, 0, 0, 0.3)',
+      transition: 'all 0.3s ease',
+    }}
+    onMouseEnter={(e) => {
+      e.currentTarget.style.borderColor = 'rgba(87, 166, 78, 0.4)';
+      e.currentTarget.style.transform = 'translateY(-4px)';
+      e.currentTarget.style.boxShadow = '0 12px 40px rgba(0, 0, 0, 0.4)';
+    }}
+    onMouseLeave={(e) => {
+      e.currentTarget.style.borderColor = 'rgba(87, 166, 78, 0.2)';
+      e.currentTarget.style.transform = 'translateY(0)';
+      e.currentTarget.style.boxShadow = '0 8px 32px rgba(0, 0, 0, 0.3)';
+    }}
+    >
+      <div style={{
+        display: 'flex',
+        alignItems: 'center',
+        marginBottom: '24px',
+      }}>
+        <div style={{
+          width: '48px',
+          height: '48px',
+          borderRadius: '12px',
+          background: 'linear-gradient(135deg, #55FF55 0%, #57A64E 100%)',
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'center',
+          fontSize: '1.5rem',
+          marginRight: '16px',
+          boxShadow: '0 4px 12px rgba(85, 255, 85, 0.3)',
+        }}>
+          🗺
+        </div>
+        <div>
+          <h2 style={{
+            margin: '0 0 4px 0',
+            fontSize: '1.5rem',
+            fontWeight: '700',
+            color: '#fff',
+          }}>
+            Worlds
+          </h2>
+          <span style={{
+            color: '#888',
+            fontWeight: '600',
+            fontSize: '0.875rem',
+            textTransform: 'uppercase',
+            letterSpacing: '0.05em',
+          }}>
+            {selected ? `Selected: ${selected.name}` : 'Loading...'}
+          </span>
+        </div>
+      </div>
+
+      {error && (
+        <div style={{
+          marginBottom: '16px',
+          padding: '12px 16px',
+          background: 'rgba(255, 71, 71, 0.1)',
+          border: '1px solid rgba(255, 71, 71, 0.3)',
+          borderRadius: '8px',
+          color: '#ff6b6b',
+          fontSize: '0.875rem',
+        }}>
+          ⚠️ {error}
+        </div>
+      )}
+
+      {notice && (
+        <div style={{
+          marginBottom: '16px',
+          padding: '12px 16px',
+          background: 'rgba(87, 166, 78, 0.1)',
+          border: '1px solid rgba(87, 166, 78, 0.3)',
+          borderRadius: '8px',
+          color: '#57A64E',
+          fontSize: '0.875rem',
+        }}>
+          {notice}
+        </div>
+      )}
+
+      <div style={{
+        display: 'flex',
+        flexDirection: 'column',
+        gap: '8px',
+        maxHeight: '280px',
+        overflowY: 'auto',
+        marginBottom: '16px',
+      }}>
+        {worlds.map(world => {
+          const isSelected = world.id === data?.selectedWorldId;
+          const isRunning = world.id === data?.activeWorldId && serverState !== 'stopped';
+          return (
+            <div
+              key={world.id}
+              style={{
+                display: 'flex',
+                alignItems: 'center',
+                justifyContent: 'space-between',
+                gap: '12px',
+                padding: '12px 16px',
+                background: isSelected ? 'rgba(87, 166, 78, 0.15)' : 'rgba(255, 255, 255, 0.03)',
+                border: isSelected ? '2px solid rgba(87, 166, 78, 0.5)' : '1px solid rgba(255, 255, 255, 0.1)',
+                borderRadius: '10px',
+              }}
+            >
+              <div>
+                <div style={{ color: '#fff', fontWeight: '600', fontSize: '0.95rem' }}>
+                  {world.name}
+                  {isRunning && (
+                    <span style={{
+                      marginLeft: '8px',
+                      fontSize: '0.7rem',
+                      color: '#55FF55',
+                      textTransform: 'uppercase',
+                      letterSpacing: '0.05em',
+                    }}>
+                      Running
+                    </span>
+                  )}
+                </div>
+                <div style={{ color: '#888', fontSize: '0.75rem', fontFamily: 'monospace' }}>
+                  {capitalize(world.gameMode)} · {capitalize(world.difficulty)} · {world.version}
+                  {world.seed && ` · seed ${world.seed}`}
+                </div>
+              </div>
+              <div style={{ display: 'flex', gap: '6px' }}>
+                {world.archivedAt === null ? (
+                  <>
+                    {!isSelected && (
+                      <button onClick={() => handleArchive(world, true)} disabled={busyId !== null} style={buttonStyle(busyId === null)} title="Archive this world (its backups are kept)">
+                        🗄
+                      </button>
+                    )}
+                    <button onClick={() => handleSelect(world)} disabled={!canSwitch || isSelected} style={buttonStyle(canSwitch && !isSelected)}>
+                      {busyId === world.id ? '⏳' : isSelected ? '✓ Selected' : '⇄ Switch'}
+                    </button>
+                  </>
+                ) : (
+                  <button onClick={() => handleArchive(world, false)} disabled={busyId !== null} style={buttonStyle(busyId === null)}>
+                    ↺ Unarchive
+                  </button>
+                )}
+              </div>
+            </div>
+          );
+        })}
+        {showArchived && worlds.length === 0 && (
+          <div style={{ color: '#888', fontSize: '0.8rem', textAlign: 'center', padding: '12px' }}>
+            No archived worlds
+          </div>
+        )}
+      </div>
+
+      {creating ? (
+        <div style={{
+          padding: '12px 16px',
+          background: 'rgba(255, 255, 255, 0.03)',
+          border: '1px solid rgba(255, 255, 255, 0.1)',
+          borderRadius: '10px',
+          display: 'grid',
+          gridTemplateColumns: '1fr 1fr',
+          gap: '8px',
+        }}>
+          <label style={labelStyle}>
+            Name
+            <input value={draft.name} onInput={(e) => setDraft({ ...draft, name: (e.target as HTMLInputElement).value })} placeholder="Creative builds" style={inputStyle} />
+          </label>
+          <label style={labelStyle}>
+            Level name
+            <input value={draft.levelName} onInput={(e) => setDraft({ ...draft, levelName: (e.target as HTMLInputElement).value })} style={inputStyle} />
+          </label>
+          <label style={labelStyle}>
+            Seed
+            <input value={draft.seed} onInput={(e) => setDraft({ ...draft, seed: (e.target as HTMLInputElement).value })} placeholder="Random" style={inputStyle} />
+          </label>
+          <label style={labelStyle}>
+            Version
+            <select value={draft.version || currentVersion} onChange={(e) => setDraft({ ...draft, version: (e.target as HTMLSelectElement).value })} style={inputStyle}>
+              {supportedVersions.map(sv => (
+                <option key={sv.version} value={sv.version}>{sv.version}</option>
+              ))}
+            </select>
+          </label>
+          <label style={labelStyle}>
+            Game mode
+            <select value={draft.gameMode} onChange={(e) => setDraft({ ...draft, gameMode: (e.target as HTMLSelectElement).value as GameMode })} style={inputStyle}>
+              {GAME_MODES.map(mode => <option key={mode} value={mode}>{capitalize(mode)}</option>)}
+            </select>
+          </label>
+          <label style={labelStyle}>
+            Difficulty
+            <select value={draft.difficulty} onChange={(e) => setDraft({ ...draft, difficulty: (e.target as HTMLSelectElement).value as Difficulty })} style={inputStyle}>
+              {DIFFICULTIES.map(difficulty => <option key={difficulty} value={difficulty}>{capitalize(difficulty)}</option>)}
+            </select>
+          </label>
+          <div style={{ gridColumn: '1 / -1', display: 'flex', gap: '8px', justifyContent: 'flex-end' }}>
+            <button onClick={() => setCreating(false)} style={buttonStyle(true)}>Cancel</button>
+            <button onClick={handleCreate} disabled={busyId !== null || !draft.name.trim()} style={buttonStyle(busyId === null && !!draft.name.trim())}>
+              {busyId === 'new' ? '⏳ Creating' : '✓ Create'}
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div style={{ display: 'flex', gap: '8px', justifyContent: 'space-between' }}>
+          <button onClick={() => setShowArchived(!showArchived)} style={buttonStyle(true)}>
+            {showArchived ? '← Active worlds' : `🗄 Archived (${archivedCount})`}
+          </button>
+          <button onClick={() => setCreating(true)} style={buttonStyle(true)}>
+            + New world
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,219 @@
+import { useEffect, useState } from 'preact/hooks';
+import { backendUrl, fetchWithAuth } from '../utils/api';
+import type { PendingWorldImport, WorldImportResponse } from '../types/api';
+
+interface Props {
+  serverState: 'stopped' | 'starting' | 'running' | 'stopping';
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+}
+
+const ACCEPTED_EXTENSIONS = ['.zip', '.tar.gz', '.tgz'];
+
+/**
+ * Download the latest backup or import a world archive, shown inside the World Backups panel
+ */
+export function WorldTransfer({ serverState }: Props) {
+  const [expanded, setExpanded] = useState(false);
+  const [pendingImport, setPendingImport] = useState<PendingWorldImport | null>(null);
+  const [uploading, setUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const fetchPendingImport = async () => {
+    try {
+      const response = await fetchWithAuth('/api/world/import');
+      const data = await response.json() as { import: PendingWorldImport | null; error?: string };
+      if (!data.error) {
+        setPendingImport(data.import);
+      }
+    } catch (err) {
+      console.error('Failed to fetch world import:', err);
+    }
+  };
+
+  useEffect(() => {
+    fetchPendingImport();
+  }, [serverState]);
+
+  const canImport = (serverState === 'running' || serverState === 'stopped') && !uploading;
+
+  const handleFile = async (file: File) => {
+    if (!ACCEPTED_EXTENSIONS.some(ext => file.name.toLowerCase().endsWith(ext))) {
+      setError('Choose a .zip or .tar.gz world archive');
+      return;
+    }
+    const message = serverState === 'running'
+      ? `Import "${file.name}" as the server world?\n\nThe server will be stopped (a backup of the current world is taken first) and started with the imported world.`
+      : `Import "${file.name}" as the server world?\n\nThe world will be replaced the next time the server starts. The current world stays in your backups.`;
+    if (!confirm(message)) return;
+
+    try {
+      setUploading(true);
+      setError(null);
+      setNotice(null);
+      const response = await fetchWithAuth(`/api/world/import?filename=${encodeURIComponent(file.name)}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/octet-stream' },
+        body: file,
+      });
+      const result = await response.json() as WorldImportResponse;
+      if (!result.success || !result.import) {
+        throw new Error(result.error || 'Failed to import world');
+      }
+      setPendingImport(result.import);
+      setNotice(result.restarting
+        ? 'Restarting the server with the imported world. This may take a few minutes.'
+        : 'The world will be imported when the server next starts.');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to import world');
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleCancel = async () => {
+    try {
+      setError(null);
+      const response = await fetchWithAuth('/api/world/import', { method: 'DELETE' });
+      const result = await response.json() as { success: boolean; error?: string };
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to cancel import');
+      }
+      setPendingImport(null);
+      setNotice(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to cancel import');
+    }
+  };
+
+  const buttonStyle = (enabled: boolean) => ({
+    fontSize: '0.75rem',
+    fontWeight: '600',
+    padding: '6px 14px',
+    background: 'rgba(87, 166, 78, 0.15)',
+    color: '#57A64E',
+    border: '1px solid rgba(87, 166, 78, 0.3)',
+    borderRadius: '8px',
+    cursor: enabled ? 'pointer' : 'default',
+    opacity: enabled ? 1 : 0.5,
+    textTransform: 'uppercase' as const,
+    letterSpacing: '0.05em',
+    textDecoration: 'none',
+  });
+
+  return (
+    <div style={{
+      marginBottom: '16px',
+      padding: '12px 16px',
+      background: 'rgba(255, 255, 255, 0.03)',
+      border: '1px solid rgba(255, 255, 255, 0.1)',
+      borderRadius: '10px',
+    }}>
+      <div
+        onClick={() => setExpanded(!expanded)}
+        style={{
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'space-between',
+          cursor: 'pointer',
+          color: '#fff',
+          fontWeight: '600',
+          fontSize: '0.875rem',
+        }}
+      >
+        <span>🌍 Download / import world</span>
+        <span style={{ color: '#888', fontSize: '0.75rem' }}>
+          {pendingImport ? 'Import pending' : ''} {expanded ? '▲' : '▼'}
+        </span>
+      </div>
+
+      {expanded && (
+        <div style={{ marginTop: '12px', display: 'flex', flexDirection: 'column', gap: '12px' }}>
+          {error && (
+            <div style={{
+              padding: '8px 12px',
+              background: 'rgba(255, 71, 71, 0.1)',
+              border: '1px solid rgba(255, 71, 71, 0.3)',
+              borderRadius: '8px',
+              color: '#ff6b6b',
+              fontSize: '0.8rem',
+            }}>
+              ⚠️ {error}
+            </div>
+          )}
+
+          {notice && (
+            <div style={{
+              padding: '8px 12px',
+              background: 'rgba(87, 166, 78, 0.1)',
+              border: '1px solid rgba(87, 166, 78, 0.3)',
+              borderRadius: '8px',
+              color: '#57A64E',
+              fontSize: '0.8rem',
+            }}>
+              {notice}
+            </div>
+          )}
+
+          <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: '12px' }}>
+            <span style={{ color: '#888', fontSize: '0.8rem' }}>
+              Take the latest backup home for single-player
+            </span>
+            <a href={backendUrl('/api/world/download').toString()} style={buttonStyle(true)}>
+              ⬇ Download
+            </a>
+          </div>
+
+          <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: '12px' }}>
+            <span style={{ color: '#888', fontSize: '0.8rem' }}>
+              Upload a .zip or .tar.gz containing a world (with level.dat)
+            </span>
+            <label style={buttonStyle(canImport)}>
+              {uploading ? '⏳ Uploading' : '⬆ Import'}
+              <input
+                type="file"
+                accept={ACCEPTED_EXTENSIONS.join(',')}
+                disabled={!canImport}
+                style={{ display: 'none' }}
+                onChange={(e) => {
+                  const input = e.target as HTMLInputElement;
+                  const file = input.files?.[0];
+                  input.value = '';
+                  if (file) handleFile(file);
+                }}
+              />
+            </label>
+          </div>
+
+          {pendingImport && (
+            <div style={{
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'space-between',
+              gap: '12px',
+              padding: '8px 12px',
+              background: 'rgba(255, 182, 0, 0.08)',
+              border: '1px solid rgba(255, 182, 0, 0.3)',
+              borderRadius: '8px',
+              fontSize: '0.8rem',
+              color: '#FFB600',
+            }}>
+              <span>
+                {pendingImport.filename} ({formatBytes(pendingImport.size)}) will replace the world on next start
+              </span>
+              <button onClick={handleCancel} disabled={serverState === 'starting'} style={buttonStyle(serverState !== 'starting')}>
+                ✗ Cancel
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
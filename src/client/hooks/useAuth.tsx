@@ -1,29 +1,71 @@
 import { useState, useEffect, useCallback } from 'preact/hooks';
 import { fetchApi } from '../utils/api';
+import type { AssignableRole, AuthUser, Role } from '../types/api';
+
+const ROLES: Role[] = ['viewer', 'moderator', 'admin', 'owner'];
+
+/**
+ * Whether a user's role includes everything `minimum` may do
+ */
+export function hasRole(user: AuthUser | null, minimum: Role): boolean {
+  return !!user && ROLES.indexOf(user.role) >= ROLES.indexOf(minimum);
+}
+
+export interface PendingInvite {
+  code: string;
+  role: AssignableRole | null;
+  error: string | null;
+}
 
 interface AuthState {
   passwordSet: boolean;
   authenticated: boolean;
+  user: AuthUser | null;
+  // The sign-in passed two-factor authentication, which the terminal and browser need
+  twoFactorVerified: boolean;
   loading: boolean;
   error: string | null;
 }
 
+type AuthResult = { success: boolean; error?: string };
+
+// Invite links are /?invite=<code>
+function inviteCodeFromUrl(): string | null {
+  return new URLSearchParams(window.location.search).get('invite');
+}
+
+function clearInviteFromUrl() {
+  const url = new URL(window.location.href);
+  url.searchParams.delete('invite');
+  window.history.replaceState(null, '', url.toString());
+}
+
 export function useAuth() {
   const [state, setState] = useState<AuthState>({
     passwordSet: true,
     authenticated: false,
+    user: null,
+    twoFactorVerified: false,
     loading: true,
     error: null,
   });
+  // Set between the password and the code of an account with 2FA
+  const [twoFactorChallenge, setTwoFactorChallenge] = useState<string | null>(null);
+  const [invite, setInvite] = useState<PendingInvite | null>(() => {
+    const code = inviteCodeFromUrl();
+    return code ? { code, role: null, error: null } : null;
+  });
 
   const checkStatus = useCallback(async () => {
     try {
       setState(prev => ({ ...prev, loading: true, error: null }));
       const response = await fetchApi('/auth/status');
-      const data = await response.json() as { passwordSet: boolean; authenticated: boolean };
+      const data = await response.json() as { passwordSet: boolean; authenticated: boolean; user: AuthUser | null; twoFactorVerified?: boolean };
       setState({
         passwordSet: data.passwordSet,
         authenticated: data.authenticated,
+        user: data.user ?? null,
+        twoFactorVerified: data.twoFactorVerified ?? false,
         loading: false,
         error: null,
       });
@@ -32,64 +74,108 @@ export function useAuth() {
       setState({
         passwordSet: false,
         authenticated: false,
+        user: null,
+        twoFactorVerified: false,
         loading: false,
         error: error instanceof Error ? error.message : 'Failed to check auth status',
       });
     }
   }, []);
 
-  const setup = useCallback(async (password: string): Promise<{ success: boolean; error?: string }> => {
+  const checkInvite = useCallback(async (code: string) => {
     try {
-      setState(prev => ({ ...prev, loading: true, error: null }));
-      const response = await fetchApi('/auth/setup', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ password }),
-      });
-      
-      const data = await response.json() as { success?: boolean; error?: string };
-      
-      if (!response.ok) {
-        setState(prev => ({ ...prev, loading: false, error: data.error || 'Setup failed' }));
-        return { success: false, error: data.error || 'Setup failed' };
-      }
-      
-      // Success - check status to update state
-      await checkStatus();
-      return { success: true };
+      const response = await fetchApi(`/auth/invite?code=${encodeURIComponent(code)}`);
+      const data = await response.json() as { role?: AssignableRole; error?: string };
+      setInvite({ code, role: data.role ?? null, error: response.ok ? null : data.error || 'Invalid invite' });
     } catch (error) {
-      const errorMsg = error instanceof Error ? error.message : 'Setup failed';
-      setState(prev => ({ ...prev, loading: false, error: errorMsg }));
-      return { success: false, error: errorMsg };
+      setInvite({ code, role: null, error: error instanceof Error ? error.message : 'Failed to check invite' });
     }
-  }, [checkStatus]);
+  }, []);
 
-  const login = useCallback(async (password: string): Promise<{ success: boolean; error?: string }> => {
+  const post = useCallback(async (
+    path: string,
+    body: unknown,
+    fallbackError: string,
+    // Return true when the response is handled and the status doesn't need to be checked
+    onData?: (data: Record<string, unknown>) => boolean
+  ): Promise<AuthResult> => {
     try {
       setState(prev => ({ ...prev, loading: true, error: null }));
-      const response = await fetchApi('/auth/login', {
+      const response = await fetchApi(path, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ password }),
+        body: JSON.stringify(body),
       });
-      
+
       const data = await response.json() as { success?: boolean; error?: string };
-      
+
       if (!response.ok) {
-        setState(prev => ({ ...prev, loading: false, error: data.error || 'Login failed' }));
-        return { success: false, error: data.error || 'Login failed' };
+        setState(prev => ({ ...prev, loading: false, error: data.error || fallbackError }));
+        return { success: false, error: data.error || fallbackError };
       }
-      
+
+      if (onData?.(data)) {
+        setState(prev => ({ ...prev, loading: false }));
+        return { success: true };
+      }
+
       // Success - check status to update state
       await checkStatus();
       return { success: true };
     } catch (error) {
-      const errorMsg = error instanceof Error ? error.message : 'Login failed';
+      const errorMsg = error instanceof Error ? error.message : fallbackError;
       setState(prev => ({ ...prev, loading: false, error: errorMsg }));
       return { success: false, error: errorMsg };
     }
   }, [checkStatus]);
 
+  const setup = useCallback(
+    (username: string, password: string) => post('/auth/setup', { username, password }, 'Setup failed'),
+    [post]
+  );
+
+  // With 2FA on the password only gets a challenge, verifyTwoFactor() finishes signing in
+  const login = useCallback(
+    (username: string, password: string) => post('/auth/login', { username, password }, 'Login failed', (data) => {
+      if (data.twoFactorRequired && typeof data.challenge === 'string') {
+        setTwoFactorChallenge(data.challenge);
+        return true;
+      }
+      return false;
+    }),
+    [post]
+  );
+
+  const verifyTwoFactor = useCallback(async (code: string): Promise<AuthResult> => {
+    if (!twoFactorChallenge) {
+      return { success: false, error: 'Enter your password first' };
+    }
+    const result = await post('/auth/login/2fa', { challenge: twoFactorChallenge, code }, 'Invalid code');
+    if (result.success) {
+      setTwoFactorChallenge(null);
+    }
+    return result;
+  }, [twoFactorChallenge, post]);
+
+  const cancelTwoFactor = useCallback(() => setTwoFactorChallenge(null), []);
+
+  const acceptInvite = useCallback(async (username: string, password: string) => {
+    if (!invite) {
+      return { success: false, error: 'No invite' };
+    }
+    const result = await post('/auth/accept-invite', { code: invite.code, username, password }, 'Failed to create account');
+    if (result.success) {
+      clearInviteFromUrl();
+      setInvite(null);
+    }
+    return result;
+  }, [invite, post]);
+
+  const dismissInvite = useCallback(() => {
+    clearInviteFromUrl();
+    setInvite(null);
+  }, []);
+
   const logout = useCallback(async () => {
     try {
       setState(prev => ({ ...prev, loading: true, error: null }));
@@ -97,6 +183,8 @@ export function useAuth() {
       setState({
         passwordSet: true, // Password is still set, just logged out
         authenticated: false,
+        user: null,
+        twoFactorVerified: false,
         loading: false,
         error: null,
       });
@@ -108,17 +196,27 @@ export function useAuth() {
 
   useEffect(() => {
     checkStatus();
+    if (invite) {
+      checkInvite(invite.code);
+    }
   }, [checkStatus]);
 
   return {
     passwordSet: state.passwordSet,
     authenticated: state.authenticated,
+    user: state.user,
+    twoFactorVerified: state.twoFactorVerified,
+    twoFactorRequired: twoFactorChallenge !== null,
     loading: state.loading,
     error: state.error,
+    invite,
     setup,
     login,
+    verifyTwoFactor,
+    cancelTwoFactor,
+    acceptInvite,
+    dismissInvite,
     logout,
     checkStatus,
   };
 }
-
@@ -91,6 +91,15 @@ export function useServerData(isAuthenticated: boolean) {
             const statusResponse = await fetchWithAuth(`/api/status`);
             const statusData: ServerStatus = await statusResponse.json();
             setStatus(statusData);
+
+            if (statusData.budgetExceeded) {
+              // Not started, the budget has to be raised or overridden first
+              setServerState('stopped');
+              setStartupStep(null);
+              setError(statusData.error ?? 'Monthly budget exceeded');
+              shouldFetchFullData.current = false;
+              return;
+            }
             
             if (statusData.online) {
               setServerState('running');
@@ -203,6 +212,17 @@ export function useServerData(isAuthenticated: boolean) {
     }
   }, [poll]);
 
+  // Refetch the player list on its own, e.g. when the activity feed sees a player join or leave
+  const fetchPlayers = useCallback(async () => {
+    try {
+      const response = await fetchWithAuth('/api/players');
+      const data: PlayerResponse = await response.json();
+      setPlayers(data.players || []);
+    } catch (err) {
+      console.error('Failed to fetch players:', err);
+    }
+  }, []);
+
   const fetchPlugins = useCallback(async () => {
     try {
       const response = await fetchWithAuth('/api/plugins');
@@ -311,8 +331,10 @@ export function useServerData(isAuthenticated: boolean) {
     startServer,
     stopServer,
     refresh,
+    fetchPlayers,
     fetchPlugins,
     togglePlugin,
     updateVersion,
+    fetchVersion,
   };
 }
\ No newline at end of file
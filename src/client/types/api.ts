@@ -2,6 +2,8 @@ export interface ServerStatus {
   online: boolean;
   playerCount?: number;
   maxPlayers?: number;
+  // Set when the server wasn't started because this month's budget is exceeded
+  budgetExceeded?: boolean;
   error?: string;
 }
 
@@ -69,4 +71,453 @@ export interface VersionResponse {
   supported: SupportedVersion[];
   canChange: boolean;
   error?: string;
-}
\ No newline at end of file
+}
+
+export interface BackupInfo {
+  key: string;
+  dirName: string;
+  format: 'tarball' | 'incremental';
+  createdAt: number;
+  size: number;
+}
+
+// Why the pending restore didn't happen on the last start
+export interface RestoreFailure {
+  key: string;
+  error: string;
+  failedAt: number;
+}
+
+export interface BackupsResponse {
+  backups: BackupInfo[];
+  pendingRestore: string | null;
+  restoreFailure: RestoreFailure | null;
+  error?: string;
+}
+
+export interface RestoreBackupResponse {
+  success: boolean;
+  restarting?: boolean;
+  error?: string;
+}
+
+export type BackupTrigger = 'shutdown' | 'scheduled' | 'manual';
+
+export interface BackupHistoryEntry {
+  id: number;
+  startedAt: number;
+  completedAt: number | null;
+  trigger: BackupTrigger;
+  success: boolean | null;
+  key: string | null;
+  size: number | null;
+  error: string | null;
+}
+
+export interface BackupHistoryResponse {
+  history: BackupHistoryEntry[];
+  error?: string;
+}
+
+export type GameMode = 'survival' | 'creative' | 'adventure' | 'spectator';
+export type Difficulty = 'peaceful' | 'easy' | 'normal' | 'hard';
+
+export interface WorldProfile {
+  id: string;
+  name: string;
+  levelName: string;
+  seed: string;
+  gameMode: GameMode;
+  difficulty: Difficulty;
+  version: string;
+  createdAt: number;
+  archivedAt: number | null;
+}
+
+export interface WorldsResponse {
+  worlds: WorldProfile[];
+  selectedWorldId: string;
+  activeWorldId: string;
+  error?: string;
+}
+
+export interface ServerSettings {
+  difficulty: Difficulty;
+  gameMode: GameMode;
+  pvp: boolean;
+  viewDistance: number;
+  simulationDistance: number;
+  spawnProtection: number;
+  whitelist: boolean;
+  maxPlayers: number;
+  motd: string;
+  onlineMode: boolean;
+}
+
+export interface ServerSettingsUpdateResponse {
+  success: boolean;
+  settings?: ServerSettings;
+  // Settings applied to the running server over RCON
+  applied?: Array<keyof ServerSettings>;
+  restartRequired?: boolean;
+  error?: string;
+}
+
+export interface WhitelistEntry {
+  uuid: string;
+  name: string;
+}
+
+export interface OpEntry {
+  uuid: string;
+  name: string;
+  level: number;
+  bypassesPlayerLimit: boolean;
+}
+
+export interface BanEntry {
+  created: string;
+  source: string;
+  expires: string;
+  reason: string;
+}
+
+export interface BannedPlayer extends BanEntry {
+  uuid: string;
+  name: string;
+}
+
+export interface BannedIp extends BanEntry {
+  ip: string;
+}
+
+export interface ModerationState {
+  whitelistEnabled: boolean;
+  whitelist: WhitelistEntry[];
+  ops: OpEntry[];
+  bannedPlayers: BannedPlayer[];
+  bannedIps: BannedIp[];
+}
+
+export type ModerationList = 'whitelist' | 'ops' | 'banned-players' | 'banned-ips';
+
+export interface CustomPlugin {
+  filename: string;
+  displayName: string;
+  requiredEnv: Array<{ name: string; description: string }>;
+  size: number;
+  uploadedAt: number;
+  catalog?: CatalogPin;
+}
+
+export type CatalogSource = 'modrinth' | 'hangar';
+
+export interface CatalogPin {
+  source: CatalogSource;
+  projectId: string;
+  versionId: string;
+  versionNumber: string;
+  gameVersions: string[];
+  pinnedAt: number;
+}
+
+export interface CustomPluginsResponse {
+  plugins: CustomPlugin[];
+  error?: string;
+}
+
+export type ConfigFormat = 'yaml' | 'properties' | 'json';
+
+export interface ConfigError {
+  message: string;
+  line: number | null;
+}
+
+export interface DiffHunk {
+  oldStart: number;
+  newStart: number;
+  lines: Array<{ type: 'context' | 'added' | 'removed'; text: string }>;
+}
+
+export interface PluginConfigFile {
+  path: string;
+  format: ConfigFormat;
+  size: number;
+  modified: number;
+  readOnlyReason: string | null;
+  hasPrevious: boolean;
+}
+
+export interface PluginConfigsResponse {
+  folders: Array<{ folder: string; files: PluginConfigFile[] }>;
+  truncated: boolean;
+  error?: string;
+}
+
+export interface PluginConfigResponse {
+  path: string;
+  format: ConfigFormat;
+  content: string;
+  valid: boolean;
+  parsed: unknown;
+  errors: ConfigError[];
+  readOnlyReason: string | null;
+  previous: { savedAt: number; diff: DiffHunk[] } | null;
+  error?: string;
+}
+
+export interface PluginConfigSaveResponse {
+  success: boolean;
+  saved?: boolean;
+  valid?: boolean;
+  errors?: ConfigError[];
+  diff?: DiffHunk[];
+  error?: string;
+}
+
+export type LogLevel = 'TRACE' | 'DEBUG' | 'INFO' | 'WARN' | 'ERROR' | 'FATAL';
+
+export interface LogEntry {
+  time: string;
+  thread: string;
+  level: LogLevel;
+  source: string | null;
+  message: string;
+}
+
+export interface LogSearchResponse {
+  entries: LogEntry[];
+  truncated: boolean;
+  files: string[];
+  error?: string;
+}
+
+export type ServerEventType = 'join' | 'leave' | 'chat' | 'death' | 'advancement' | 'server_start' | 'server_stop';
+
+export interface ServerEvent {
+  id: number;
+  time: number;
+  type: ServerEventType;
+  player: string | null;
+  message: string;
+  detail: string | null;
+}
+
+export interface ServerEventsResponse {
+  events: ServerEvent[];
+  error?: string;
+}
+
+export interface PlayerStat {
+  player: string;
+  playtimeMs: number;
+  sessions: number;
+  lastSeen: number;
+  online: boolean;
+}
+
+export interface PlayerStatsResponse {
+  players: PlayerStat[];
+  // Oldest first, days are UTC
+  dailyPeaks: Array<{ day: string; peak: number }>;
+  error?: string;
+}
+
+export interface AutoSleepSettings {
+  enabled: boolean;
+  idleMinutes: number;
+  graceMinutes: number;
+  warningSeconds: number;
+}
+
+export interface AutoSleepStatus extends AutoSleepSettings {
+  // Set while no players are online
+  idleSince: number | null;
+  stopsAt: number | null;
+  error?: string;
+}
+
+export interface PlayWindow {
+  // 0 = Sunday
+  day: number;
+  // HH:MM, an end at or before the start is on the next day
+  start: string;
+  end: string;
+}
+
+export interface PlayScheduleSettings {
+  enabled: boolean;
+  timezone: string;
+  windows: PlayWindow[];
+  prestartMinutes: number;
+}
+
+export interface PlayScheduleStatus extends PlayScheduleSettings {
+  // Epoch milliseconds
+  current: { start: number; end: number } | null;
+  next: { start: number; end: number } | null;
+  error?: string;
+}
+
+export type InstanceType = 'lite' | 'basic' | 'standard-1' | 'standard-2' | 'standard-3' | 'standard-4';
+
+export interface CostModel {
+  instanceType: InstanceType;
+  hourlyRate: number | null;
+  r2StoragePerGbMonth: number;
+  r2ClassAPerMillion: number;
+  r2ClassBPerMillion: number;
+  r2FreeStorageGb: number;
+  r2FreeClassA: number;
+  r2FreeClassB: number;
+}
+
+export interface Budget {
+  monthlyLimit: number | null;
+  warnAtPercent: number;
+}
+
+export interface CostSummary {
+  month: string;
+  usage: { instanceHours: number; storageBytes: number; classAOperations: number; classBOperations: number };
+  estimate: { instance: number; storage: number; operations: number; total: number };
+  costModel: CostModel;
+  budget: Budget;
+  level: 'none' | 'ok' | 'warning' | 'exceeded';
+  overridden: boolean;
+  blocked: boolean;
+  storageMeasuredAt: number | null;
+  error?: string;
+}
+
+export interface PendingWorldImport {
+  key: string;
+  filename: string;
+  format: 'zip' | 'tar.gz';
+  size: number;
+  levelDatPath: string;
+  uploadedAt: number;
+}
+
+export interface WorldImportResponse {
+  success: boolean;
+  import?: PendingWorldImport;
+  restarting?: boolean;
+  error?: string;
+}
+
+export interface BackupScheduleResponse {
+  enabled: boolean;
+  intervalMinutes: number;
+  nextRunAt: number | null;
+  lastRun: BackupHistoryEntry | null;
+  error?: string;
+}
+
+export interface BackupRetention {
+  enabled: boolean;
+  keepLast: number;
+  keepDaily: number;
+  keepWeekly: number;
+  keepMonthly: number;
+}
+
+export type RetentionReason = 'last' | 'daily' | 'weekly' | 'monthly' | 'protected';
+
+export interface RetentionPreviewResponse {
+  success: boolean;
+  keep: Array<BackupInfo & { reasons: RetentionReason[] }>;
+  delete: BackupInfo[];
+  dryRun?: boolean;
+  error?: string;
+}
+
+export type Role = 'viewer' | 'moderator' | 'admin' | 'owner';
+
+export type AssignableRole = Exclude<Role, 'owner'>;
+
+export interface AuthUser {
+  id: number;
+  username: string;
+  role: Role;
+}
+
+export interface UserInfo extends AuthUser {
+  createdAt: number;
+  invitedBy: string | null;
+}
+
+export interface InviteInfo {
+  id: number;
+  role: AssignableRole;
+  createdBy: string | null;
+  createdAt: number;
+  expiresAt: number;
+}
+
+export interface UsersResponse {
+  users: UserInfo[];
+  invites: InviteInfo[];
+  error?: string;
+}
+
+export type ApiTokenScope = 'read-status' | 'start-stop' | 'rcon' | 'backups' | 'plugins';
+
+export interface ApiTokenInfo {
+  id: number;
+  name: string;
+  scopes: ApiTokenScope[];
+  createdAt: number;
+  expiresAt: number | null;
+  lastUsedAt: number | null;
+}
+
+export interface ApiTokensResponse {
+  tokens: ApiTokenInfo[];
+  error?: string;
+}
+
+export type AuditSource = 'web' | 'mcp' | 'api-token';
+
+export interface AuditEntry {
+  id: number;
+  time: number;
+  actor: string;
+  source: AuditSource;
+  action: string;
+  args: Record<string, unknown> | null;
+  success: boolean;
+  result: string | null;
+}
+
+export interface AuditLogResponse {
+  entries: AuditEntry[];
+  error?: string;
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  recoveryCodesLeft: number;
+  error?: string;
+}
+
+export interface TwoFactorSetup {
+  secret: string;
+  uri: string;
+}
+
+export interface SessionInfo {
+  id: number;
+  createdAt: number;
+  lastSeenAt: number;
+  expiresAt: number;
+  userAgent: string | null;
+  ip: string | null;
+  twoFactor: boolean;
+  current: boolean;
+}
+
+export interface SessionsResponse {
+  sessions: SessionInfo[];
+  error?: string;
+}
@@ -3,6 +3,26 @@ import { worker } from "../alchemy.run";
 import { DurableObject } from 'cloudflare:workers';
 import type { Response as CloudflareResponse } from '@cloudflare/workers-types'
 import { Rcon } from "./lib/rcon";
+import { BackupRetentionSchema, BackupScheduleSchema, CHUNK_PREFIX, DEFAULT_BACKUP_RETENTION, DEFAULT_BACKUP_SCHEDULE, chunkKey, parseBackupKey, planBackupRetention, RestoreResultSchema, type BackupInfo, type BackupManifest, type BackupHistoryEntry, type BackupRetention, type BackupSchedule, type BackupTrigger, type RestoreFailure, type RestoreResult, type RetentionPlan } from "./lib/backups";
+import { IMPORT_PREFIX, findLevelDatInTarGz, incrementalBackupTarStream, listZipEntries, selectLevelDat, worldArchiveFormat, type PendingWorldImport, type WorldArchiveFormat } from "./lib/world-archive";
+import { CreateWorldSchema, DEFAULT_WORLD_ID, WorldProfileSchema, defaultWorldProfile, worldBackupPrefix, worldIdFromName, type CreateWorld, type WorldProfile } from "./lib/worlds";
+import { BannedIpSchema, BannedPlayerSchema, MODERATION_FILES, OpEntrySchema, WhitelistEntrySchema, kickCommand, moderationCommand, parseModerationFile, type ModerationList, type ModerationState } from "./lib/moderation";
+import { CustomPluginSchema, CustomPluginUpdateSchema, MAX_CUSTOM_PLUGIN_SIZE, customPluginFilename, customPluginKey, isPluginJar, type CustomPlugin, type CustomPluginUpdate } from "./lib/custom-plugins";
+import { CATALOG_SOURCES, catalogPluginFilename, downloadCatalogPlugin, resolveCatalogPlugin, resolveCatalogRepins, type CatalogFetch, type CatalogSource, type ResolvedPlugin } from "./lib/plugin-catalog";
+import { fixtureCatalogFetch, useCatalogFixture } from "./lib/plugin-catalog-fixture";
+import { MAX_CONFIG_SIZE, PLUGINS_DIR, configFormat, diffLines, isConfigPath, parseConfig, readOnlyReason, type ConfigError, type ConfigFormat, type DiffHunk, type PluginConfigFile, type PluginConfigFolder } from "./lib/plugin-config";
+import { combinePluginStatuses, evaluateStatusProviders, pluginLoadFailureProviders, type PluginStatus, type StatusProvider, type StatusSources } from "./lib/plugin-status";
+import { LATEST_LOG_PATH, LOG_DIR, LogFilterSchema, LogSearchSchema, archivedLogDay, matchesLogFilter, parseLogLines, startOfDay, type LogEntry, type LogFilter, type LogSearch } from "./lib/server-log";
+import { EVENT_RETENTION_DAYS, ServerEventQuerySchema, eventFromLogEntry, type NewServerEvent, type ServerEvent, type ServerEventQuery } from "./lib/server-events";
+import { AutoSleepSchema, DEFAULT_AUTO_SLEEP, countdownAnnouncement, formatCountdown, secondsToNextCheck, type AutoSleep } from "./lib/auto-sleep";
+import { DEFAULT_PLAY_SCHEDULE, PlayScheduleSchema, currentAndNextWindow, type PlaySchedule, type WindowOccurrence } from "./lib/play-schedule";
+import { BudgetSchema, CostModelSchema, DEFAULT_BUDGET, DEFAULT_COST_MODEL, budgetLevel, estimateCost, monthKey, r2OperationClass, type Budget, type BudgetLevel, type CostEstimate, type CostModel, type MonthlyUsage, type R2OperationClass } from "./lib/costs";
+import { DEFAULT_PEAK_DAYS, dailyPeaks, type PlayerSession, type PlayerStats } from "./lib/player-stats";
+import { AssignableRoleSchema, INVITE_TTL_MS, OWNER_USERNAME, PasswordSchema, RoleSchema, SESSION_TTL_MS, UsernameSchema, roleAtLeast, type AssignableRole, type AuthUser, type InviteInfo, type Role, type SessionInfo, type UserInfo } from "./lib/users";
+import { API_TOKEN_PREFIX, CreateApiTokenSchema, SCOPE_ROLES, type ApiTokenInfo, type ApiTokenScope, type CreateApiToken } from "./lib/api-tokens";
+import { FAILED_2FA_LOCKOUT_MS, MAX_FAILED_2FA_ATTEMPTS, RECOVERY_CODE_COUNT, SecondFactorCodeSchema, base32Encode, generateRecoveryCode, normalizeRecoveryCode, provisioningUri, verifyTotp, type TwoFactorStatus } from "./lib/totp";
+import { AUDIT_SOURCE_HEADER, AuditQuerySchema, AuditSourceSchema, MAX_AUDIT_ARG_LENGTH, sanitizeAuditArgs, truncateAuditResult, type AuditEntry, type AuditQuery, type AuditSource, type NewAuditEntry } from "./lib/audit-log";
+import { DEFAULT_SERVER_SETTINGS, ServerSettingsSchema, liveSettingCommand, serverSettingsEnv, type ServerSetting, type ServerSettings } from "./lib/server-settings";
 import { array, string } from "zod";
 
 type Env = typeof worker.Env;
@@ -18,20 +38,21 @@ interface CloudflareTCPSocket {
 }
 
 const StringArraySchema = array(string());
-const DYNMAP_PLUGIN_FILENAME = 'Dynmap-3.7-beta-11-spigot';
 
-// Plugin status types
-type PluginStatus = 
-  | { type: "no message" }
-  | { type: "information"; message: string }
-  | { type: "warning"; message: string }
-  | { type: "alert"; message: string };
+// Partial updates leave out fields that are undefined rather than resetting them
+function definedFields<T extends object>(update: T): Partial<T> {
+  return Object.fromEntries(Object.entries(update).filter(([, value]) => value !== undefined)) as Partial<T>;
+}
+const DYNMAP_PLUGIN_FILENAME = 'Dynmap-3.7-beta-11-spigot';
+const PLAYIT_PLUGIN_FILENAME = 'playit-minecraft-plugin';
+const AUTHME_PLUGIN_FILENAME = 'AuthMe-5.6.0';
 
 // Plugin specifications with required environment variables
 const PLUGIN_SPECS = [
   {
     filename: 'Dynmap-3.7-beta-11-spigot',
     displayName: 'DynMap',
+    pluginName: 'dynmap',
     requiredEnv: [] as Array<{ name: string; description: string }>,
     getStatus: async (container: MinecraftContainer): Promise<PluginStatus> => {
       const status = await container.getStatus();
@@ -41,10 +62,42 @@ const PLUGIN_SPECS = [
       }
       return { type: "information", message: "Map rendering is active" };
     },
+    statusProviders: [
+      {
+        kind: 'rcon',
+        command: 'dynmap stats',
+        evaluate: (output: string): PluginStatus => {
+          // "Triggered update queue size: 1234 + 0"
+          const queue = /queue size:\s*(\d+)(?:\s*\+\s*(\d+))?/i.exec(output);
+          if (!queue) {
+            return { type: "no message" };
+          }
+          const depth = parseInt(queue[1], 10) + parseInt(queue[2] ?? '0', 10);
+          return depth > 10000
+            ? { type: "warning", message: `${depth} map tiles are waiting to render, the map will lag behind the world for a while` }
+            : { type: "information", message: `${depth} map tiles queued` };
+        },
+      },
+      {
+        kind: 'log',
+        pattern: /^.*(?:\[dynmap\].*(?:S3|bucket|storage).*(?:error|exception|fail)|software\.amazon\.awssdk\S*Exception).*$/gim,
+        level: 'alert',
+        message: (matches: RegExpMatchArray[]) => `Dynmap can't save map tiles to R2 (${matches.length} error${matches.length === 1 ? '' : 's'} since start). Last: ${matches[matches.length - 1][0].trim().slice(0, 200)}`,
+      },
+      {
+        kind: 'config',
+        path: '/data/plugins/dynmap/configuration.txt',
+        evaluate: (content: string | null): PluginStatus =>
+          content === null || /^storage:\s*\n\s+type:\s*aws_s3\b/m.test(content)
+            ? { type: "no message" }
+            : { type: "warning", message: "Dynmap is not storing the map in R2 (no R2 credentials?), map tiles are lost when the container stops" },
+      },
+    ] as StatusProvider[],
   },
   {
     filename: 'playit-minecraft-plugin',
     displayName: 'playit.gg',
+    pluginName: 'playit-gg',
     requiredEnv: [] as Array<{ name: string; description: string }>,
     getStatus: async (container: MinecraftContainer): Promise<PluginStatus> => {
 
@@ -99,6 +152,38 @@ const PLUGIN_SPECS = [
       }
     },
   },
+  {
+    filename: 'AuthMe-5.6.0',
+    displayName: 'AuthMe',
+    pluginName: 'AuthMe',
+    requiredEnv: [
+      { name: 'AUTHME_MIN_PASSWORD_LENGTH', description: 'Minimum password length for /register, e.g. 8' },
+    ] as Array<{ name: string; description: string }>,
+    getStatus: async (container: MinecraftContainer): Promise<PluginStatus> => {
+      const status = await container.getStatus();
+      // we can't talk to the container if it's not running
+      if(status !== 'running') {
+        return { type: "no message" };
+      }
+      const { onlineMode } = await container.getServerSettings();
+      if(onlineMode) {
+        return { type: "information", message: "Online mode is on, so Mojang already verifies players and AuthMe is not needed" };
+      }
+      return { type: "information", message: "Players must /register once and /login each time they join" };
+    },
+    statusProviders: [
+      {
+        kind: 'config',
+        path: '/data/plugins/AuthMe/config.yml',
+        evaluate: (content: string | null): PluginStatus => {
+          const minLength = content && /^\s*minPasswordLength:\s*(\d+)/m.exec(content);
+          return minLength && parseInt(minLength[1], 10) < 6
+            ? { type: "warning", message: `The minimum password length is ${minLength[1]}, short passwords are easy to guess` }
+            : { type: "no message" };
+        },
+      },
+    ] as StatusProvider[],
+  },
 ] as const;
 
 export class MinecraftContainer extends Container {
@@ -107,7 +192,8 @@ export class MinecraftContainer extends Container {
     private _isPasswordSet: boolean = false;
     // Port the container listens on (default: 8083 - file server)
     defaultPort = 8083;
-    // Time before container sleeps due to inactivity (default: 30s)
+    // Time before container sleeps due to inactivity (default: 30s). Only used while the
+    // player-based auto-sleep is turned off, see onActivityExpired().
     sleepAfter = "20m";
     
     // Environment variables passed to the container
@@ -120,9 +206,23 @@ export class MinecraftContainer extends Container {
         // Minecraft server configuration
         TYPE: "PAPER",
         VERSION: "1.21.8", // Default version, will be updated from state on start
+        // World profile settings, updated from the selected world profile on start
+        LEVEL: "world",
+        SEED: "",
+        MODE: "survival",
+        DIFFICULTY: "easy",
+        // Gameplay settings, updated from the saved server settings on start
+        PVP: "true",
+        VIEW_DISTANCE: "10",
+        SIMULATION_DISTANCE: "10",
+        SPAWN_PROTECTION: "16",
+        ENABLE_WHITELIST: "false",
+        MAX_PLAYERS: "20",
+        MOTD: "A Minecraft Server",
+        // Updated from the onlineMode server setting on start
+        ONLINE_MODE: "false",
         EULA: "TRUE",
         SERVER_HOST: "0.0.0.0",
-        ONLINE_MODE: "false",
         ENABLE_RCON: "true",
         // Hardcoded password is safe since we're running on a private tailnet
         RCON_PASSWORD: "minecraft",
@@ -142,6 +242,13 @@ export class MinecraftContainer extends Container {
         // Bucket for world data backups (uses same bucket as Dynmap by default)
         DATA_BUCKET_NAME: (this.env as Env).DATA_BUCKET_NAME || (this.env as Env).DYNMAP_BUCKET_NAME,
         OPTIONAL_PLUGINS: this.pluginFilenamesToEnable.join(" "), // space separated for consumption by bash script start-with-services.sh
+        // The enabled plugins that were uploaded, start-with-services.sh downloads them from the data bucket
+        CUSTOM_PLUGINS: "",
+        // When set, start-with-services.sh restores this backup key instead of the latest backup
+        RESTORE_BACKUP_KEY: "",
+        IMPORT_WORLD_KEY: "",
+        // R2 key prefix of the selected world's backups, empty for the default world
+        BACKUP_PREFIX: "",
     };
     
   
@@ -170,6 +277,110 @@ export class MinecraftContainer extends Container {
             stopped_at INTEGER,
             duration_ms INTEGER
           );
+          CREATE TABLE IF NOT EXISTS backups (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            started_at INTEGER NOT NULL,
+            completed_at INTEGER,
+            trigger TEXT NOT NULL,
+            success INTEGER,
+            backup_key TEXT,
+            size INTEGER,
+            error TEXT
+          );
+          CREATE TABLE IF NOT EXISTS plugin_config_versions (
+            path TEXT PRIMARY KEY,
+            content TEXT NOT NULL,
+            saved_at INTEGER NOT NULL
+          );
+          CREATE TABLE IF NOT EXISTS server_events (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            time INTEGER NOT NULL,
+            type TEXT NOT NULL,
+            player TEXT,
+            message TEXT NOT NULL,
+            detail TEXT
+          );
+          CREATE INDEX IF NOT EXISTS server_events_time ON server_events (time);
+          CREATE TABLE IF NOT EXISTS player_sessions (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            player TEXT NOT NULL,
+            joined_at INTEGER NOT NULL,
+            left_at INTEGER
+          );
+          CREATE INDEX IF NOT EXISTS player_sessions_joined_at ON player_sessions (joined_at);
+          CREATE TABLE IF NOT EXISTS r2_operations (
+            month TEXT NOT NULL,
+            op_class TEXT NOT NULL,
+            count INTEGER NOT NULL,
+            PRIMARY KEY (month, op_class)
+          );
+          CREATE TABLE IF NOT EXISTS users (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            username TEXT NOT NULL UNIQUE COLLATE NOCASE,
+            role TEXT NOT NULL,
+            salt TEXT NOT NULL,
+            password_hash TEXT NOT NULL,
+            created_at INTEGER NOT NULL,
+            invited_by INTEGER
+          );
+          CREATE TABLE IF NOT EXISTS invites (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            code_hash TEXT NOT NULL UNIQUE,
+            role TEXT NOT NULL,
+            created_by INTEGER NOT NULL,
+            created_at INTEGER NOT NULL,
+            expires_at INTEGER NOT NULL
+          );
+          CREATE TABLE IF NOT EXISTS api_tokens (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            user_id INTEGER NOT NULL,
+            name TEXT NOT NULL,
+            token_hash TEXT NOT NULL UNIQUE,
+            scopes TEXT NOT NULL,
+            created_at INTEGER NOT NULL,
+            expires_at INTEGER,
+            last_used_at INTEGER
+          );
+          -- TOTP second factor per account, enabled_at is NULL until the first code confirmed the enrolment
+          CREATE TABLE IF NOT EXISTS two_factor (
+            user_id INTEGER PRIMARY KEY,
+            secret TEXT NOT NULL,
+            enabled_at INTEGER,
+            last_step INTEGER,
+            recovery_codes TEXT NOT NULL DEFAULT '[]',
+            failed_attempts INTEGER NOT NULL DEFAULT 0,
+            last_failed_at INTEGER
+          );
+          -- Signed-in browsers, keyed by the nonce their auth cookie carries. A cookie without a row is signed out.
+          CREATE TABLE IF NOT EXISTS sessions (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            nonce TEXT NOT NULL UNIQUE,
+            user_id INTEGER NOT NULL,
+            created_at INTEGER NOT NULL,
+            last_seen_at INTEGER NOT NULL,
+            expires_at INTEGER NOT NULL,
+            user_agent TEXT,
+            ip TEXT,
+            two_factor INTEGER NOT NULL DEFAULT 0
+          );
+          CREATE INDEX IF NOT EXISTS sessions_user_id ON sessions (user_id);
+          -- Append-only, rows are never updated or deleted (not even by a password reset)
+          CREATE TABLE IF NOT EXISTS audit_log (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            time INTEGER NOT NULL,
+            actor TEXT NOT NULL,
+            source TEXT NOT NULL,
+            action TEXT NOT NULL,
+            args TEXT,
+            success INTEGER NOT NULL,
+            result TEXT
+          );
+          CREATE INDEX IF NOT EXISTS audit_log_time ON audit_log (time);
+          -- The single password of earlier versions becomes the owner account
+          INSERT INTO users (username, role, salt, password_hash, created_at)
+            SELECT '${OWNER_USERNAME}', 'owner', salt, password_hash, created_at FROM auth
+            WHERE password_hash IS NOT NULL AND NOT EXISTS (SELECT 1 FROM users);
+          UPDATE auth SET salt = NULL, password_hash = NULL WHERE EXISTS (SELECT 1 FROM users);
         `);
       }
       return this.ctx.storage.sql;
@@ -308,9 +519,29 @@ export class MinecraftContainer extends Container {
       }
     }
 
+    // Built-in specs followed by uploaded plugins, which only get the load failure check
+    private getPluginSpecs(): Array<{
+      filename: string;
+      displayName: string;
+      // The name in the plugin's plugin.yml, used to find it in the server log
+      pluginName?: string;
+      requiredEnv: ReadonlyArray<{ name: string; description: string }>;
+      getStatus?: (container: MinecraftContainer) => Promise<PluginStatus>;
+      statusProviders?: ReadonlyArray<StatusProvider>;
+    }> {
+      return [
+        ...PLUGIN_SPECS,
+        ...this.getCustomPlugins().map(plugin => ({
+          filename: plugin.filename,
+          displayName: plugin.displayName,
+          requiredEnv: plugin.requiredEnv,
+        })),
+      ];
+    }
+
     // Get required env vars for a plugin from specs
     private getRequiredEnvForPlugin(filename: string): Array<{ name: string; description: string }> {
-      const spec = PLUGIN_SPECS.find(s => s.filename === filename);
+      const spec = this.getPluginSpecs().find(s => s.filename === filename);
       return spec ? [...spec.requiredEnv] : [];
     }
 
@@ -359,12 +590,18 @@ export class MinecraftContainer extends Container {
         throw new Error("Server must be stopped to change version");
       }
 
+      // Every enabled plugin from Modrinth/Hangar needs a build for the new version
+      await this.ensureCatalogPluginsSupport(version, this.pluginFilenamesToEnable);
+
       // Update version in state
       try {
         this._sql.exec(
           `UPDATE state SET json_data = jsonb_patch(json_data, jsonb(?)) WHERE id = 1`,
           JSON.stringify({ serverVersion: version })
         );
+        // The version belongs to the selected world profile
+        const selectedWorldId = this.getSelectedWorldId();
+        this.saveWorlds(this.getStoredWorlds(version).map(w => w.id === selectedWorldId ? { ...w, version } : w));
         console.error(`Server version updated to ${version}`);
         return { success: true, version };
       } catch (error) {
@@ -385,6 +622,10 @@ export class MinecraftContainer extends Container {
     
     override async stop() {
       console.error("stopppppp");
+      // No more scheduled backups, stop() takes its own
+      this.deleteSchedules('runScheduledBackup');
+      this.deleteSchedules('watchServerLog');
+      this.deleteSchedules('checkPlayerPresence');
       
       // Check if container is actually running before attempting backup
       const currentStatus = await this.getStatus();
@@ -393,11 +634,13 @@ export class MinecraftContainer extends Container {
       // Only attempt backup if container is running
       let backupSuccess = false;
       if (currentStatus === 'running') {
+        // Read how a requested restore went while /status/restore.json is still there
+        await this.checkRestoreResult();
         
         // Perform backup before shutdown
         try {
           console.error("Triggering backup before container shutdown...");
-          const backupResult = await this.performBackup();
+          const backupResult = await this.performBackup({ trigger: 'shutdown' });
           if (backupResult.success) {
             backupSuccess = true;
             console.error("Pre-shutdown backup completed successfully:", backupResult.backups);
@@ -408,6 +651,7 @@ export class MinecraftContainer extends Container {
           console.error("Error during pre-shutdown backup (continuing with shutdown):", error);
         }
         
+        this.recordServerStop();
         this.recordSessionStop();
         // don't set stopping until after the backup is taken or it prevents rcon.
         this.stopping = true;
@@ -426,6 +670,7 @@ export class MinecraftContainer extends Container {
         console.error("Container already stopped, skipping backup and shutdown");
       } else {
         // Container is starting or in an unknown state, try to stop it
+        this.recordServerStop();
         this.recordSessionStop();
         this.stopping = true;
         console.error("Container in state:", currentStatus, "attempting to stop");
@@ -440,6 +685,10 @@ export class MinecraftContainer extends Container {
 
     // Optional lifecycle hooks
     override async start() {
+      // Only fresh starts count against the budget, not restarting a container that is still running
+      if (await this.getStatus() === 'stopped') {
+        await this.requireWithinBudget();
+      }
       this.stopping = false
       console.error("Container start triggered");
       this._initializeSql();
@@ -447,6 +696,11 @@ export class MinecraftContainer extends Container {
       if(newOptionalPlugins !== this.envVars.OPTIONAL_PLUGINS) {
         this.envVars.OPTIONAL_PLUGINS = this.pluginFilenamesToEnable.join(" ");
       }
+      const customFilenames = this.getCustomPlugins().map(p => p.filename);
+      const newCustomPlugins = this.pluginFilenamesToEnable.filter(p => customFilenames.includes(p)).join(" ");
+      if(newCustomPlugins !== this.envVars.CUSTOM_PLUGINS) {
+        this.envVars.CUSTOM_PLUGINS = newCustomPlugins;
+      }
       
       console.error("Getting all configured plugin env");
       // Inject configured plugin environment variables (only mutate envVars here!)
@@ -475,6 +729,42 @@ export class MinecraftContainer extends Container {
       // PAPER_VERSION is not used in our envVars but we can set it for consistency
       // The itzg image uses VERSION env var
 
+      // Apply the selected world profile. It stays the active world (the one backups are written to)
+      // until the next start, even if another world is selected in the meantime.
+      const world = this.getSelectedWorld();
+      this.setActiveWorldId(world.id);
+      // Gameplay settings (difficulty and game mode come from the world profile)
+      const worldEnv = {
+        LEVEL: world.levelName,
+        SEED: world.seed,
+        BACKUP_PREFIX: worldBackupPrefix(world.id),
+        ...serverSettingsEnv(this.getStoredServerSettings()),
+      };
+      for (const [key, value] of Object.entries(worldEnv)) {
+        if (this.envVars[key as keyof typeof worldEnv] !== value) {
+          this.envVars[key as keyof typeof worldEnv] = value;
+          console.error(`Updated ${key} to`, value);
+        }
+      }
+
+      // Restore a specific backup instead of the latest one if a restore was requested
+      const pendingRestore = this.getPendingRestore();
+      if (this.envVars.RESTORE_BACKUP_KEY !== (pendingRestore ?? "")) {
+        this.envVars.RESTORE_BACKUP_KEY = pendingRestore ?? "";
+        console.error("Updated RESTORE_BACKUP_KEY to", this.envVars.RESTORE_BACKUP_KEY);
+      }
+      if (pendingRestore) {
+        // Tried again, how this attempt goes is shown instead of the previous failure
+        this.setRestoreFailure(null);
+      }
+
+      // Replace the world with an uploaded archive after the restore
+      const pendingImport = this.getPendingImport();
+      if (this.envVars.IMPORT_WORLD_KEY !== (pendingImport?.key ?? "")) {
+        this.envVars.IMPORT_WORLD_KEY = pendingImport?.key ?? "";
+        console.error("Updated IMPORT_WORLD_KEY to", this.envVars.IMPORT_WORLD_KEY);
+      }
+
       console.error("Getting status");
       if(await this.getStatus() !== 'stopped') {
         // wait up to 3 mins for the server to start
@@ -519,7 +809,19 @@ export class MinecraftContainer extends Container {
     override onStart() {
       console.error("Container successfully started");
       this.recordSessionStart();
-      this.ctx.waitUntil(this.initRcon().then(rcon => rcon?.send("dynmap fullrender world")));
+      // The restore only happens once the container runs, checkRestoreResult() forgets the pending
+      // restore once the start script reports it restored, so later starts use the latest backup again
+      if (this.envVars.RESTORE_BACKUP_KEY) {
+        this.ctx.waitUntil(this.checkRestoreResult());
+      }
+      // Same for IMPORT_WORLD_KEY, the file server deletes the archive once it has been imported
+      if (this.envVars.IMPORT_WORLD_KEY) {
+        this.setPendingImport(null);
+      }
+      this.ctx.waitUntil(this.scheduleNextBackup());
+      this.ctx.waitUntil(this.watchServerLog());
+      this.ctx.waitUntil(this.checkPlayerPresence());
+      this.ctx.waitUntil(this.initRcon().then(rcon => rcon?.send(`dynmap fullrender ${this.envVars.LEVEL}`)));
     }
   
   // =====================
@@ -563,7 +865,8 @@ export class MinecraftContainer extends Container {
   }
 
   // Async because it's easier to consume as RPC if fn is async
-  public async setupPassword({ password }: { password: string }): Promise<{ created: boolean; symKey?: string }>{
+  public async setupPassword({ username = OWNER_USERNAME, password }: { username?: string; password: string }): Promise<{ created: boolean; symKey?: string; user?: AuthUser }>{
+    const ownerName = UsernameSchema.parse(username);
     const run = async () => {
       console.error("setupPassword: Starting, isPasswordSet =", this._isPasswordSet);
       
@@ -590,14 +893,20 @@ export class MinecraftContainer extends Container {
         }
 
         console.error("setupPassword: No existing password, inserting new auth record");
+        // The password belongs to the owner account, the auth row only holds the key
         const insertResult = this._sql.exec(
-          'INSERT INTO auth (id, salt, password_hash, sym_key, created_at) VALUES (1, ?, ?, ?, ?);',
-          saltB64, hash, symKeyB64, Date.now()
+          'INSERT INTO auth (id, salt, password_hash, sym_key, created_at) VALUES (1, NULL, NULL, ?, ?);',
+          symKeyB64, Date.now()
         );
         console.error("setupPassword: Insert result, rowsWritten =", insertResult.rowsWritten);
+        this._sql.exec('DELETE FROM users;');
+        const owner = this._sql.exec(
+          `INSERT INTO users (username, role, salt, password_hash, created_at) VALUES (?, 'owner', ?, ?, ?) RETURNING id;`,
+          ownerName, saltB64, hash, Date.now()
+        ).one();
 
         this._isPasswordSet = true;
-        return { created: true, symKey: symKeyB64 } as const;
+        return { created: true, symKey: symKeyB64, user: { id: owner.id as number, username: ownerName, role: 'owner' } } as const;
       });
       
       console.error("setupPassword: Transaction complete, result =", result);
@@ -737,17 +1046,25 @@ export class MinecraftContainer extends Container {
     }
   }
 
+  // Salt of the hash verifyPassword() derives for usernames that don't exist
+  private static readonly DUMMY_PASSWORD_SALT = 'bWluZWZsYXJlLWR1bW15';
+
   // Async because it's easier to consume as RPC if fn is async
-  public async verifyPassword({ password }: { password: string }): Promise<{ ok: boolean }>{
+  public async verifyPassword({ username = OWNER_USERNAME, password }: { username?: string; password: string }): Promise<{ ok: boolean; user?: AuthUser }>{
     try {
-      const row = this._sql.exec('SELECT salt, password_hash FROM auth LIMIT 1;').one();
+      const row = this._sql.exec('SELECT id, username, role, salt, password_hash FROM users WHERE username = ?;', username.trim()).toArray()[0];
       if (!row) {
+        // Hash anyway, so unknown usernames take as long to refuse as wrong passwords
+        await this.derivePasswordHash(password, MinecraftContainer.DUMMY_PASSWORD_SALT);
         return { ok: false };
       }
       const salt = (row.salt as string) ?? '';
       const storedHash = (row.password_hash as string) ?? '';
       const derived = await this.derivePasswordHash(password, salt);
-      return { ok: this.timingSafeEqualAscii(derived, storedHash) };
+      if (!this.timingSafeEqualAscii(derived, storedHash)) {
+        return { ok: false };
+      }
+      return { ok: true, user: { id: row.id as number, username: row.username as string, role: row.role as Role } };
     } catch (_) {
       return { ok: false };
     }
@@ -779,11 +1096,603 @@ export class MinecraftContainer extends Container {
     console.error("clearAuth: Clearing auth table");
     this.ctx.storage.transactionSync(() => {
       this._sql.exec('DELETE FROM auth;');
+      this._sql.exec('DELETE FROM users;');
+      this._sql.exec('DELETE FROM invites;');
+      this._sql.exec('DELETE FROM api_tokens;');
+      this._sql.exec('DELETE FROM two_factor;');
+      this._sql.exec('DELETE FROM sessions;');
       this._isPasswordSet = false;
     });
     console.error("clearAuth: Complete, isPasswordSet =", this._isPasswordSet);
   }
 
+  // =====================
+  // Users and invites
+  // =====================
+
+  private async hashSecret(secret: string): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(secret));
+    return this.base64urlEncode(digest);
+  }
+
+  // Async because it's easier to consume as RPC if fn is async
+  public async getAuthUser(id: number): Promise<AuthUser | null> {
+    const row = this._sql.exec('SELECT id, username, role FROM users WHERE id = ?;', id).toArray()[0];
+    return row ? { id: row.id as number, username: row.username as string, role: row.role as Role } : null;
+  }
+
+  /**
+   * All accounts, oldest first, and the invites that haven't been used or expired yet
+   */
+  public async listUsers(): Promise<{ users: UserInfo[]; invites: InviteInfo[] }> {
+    const users = this._sql.exec(`
+      SELECT u.id, u.username, u.role, u.created_at, inviter.username as invited_by
+      FROM users u LEFT JOIN users inviter ON inviter.id = u.invited_by
+      ORDER BY u.id
+    `).toArray().map(row => ({
+      id: row.id as number,
+      username: row.username as string,
+      role: row.role as Role,
+      createdAt: row.created_at as number,
+      invitedBy: row.invited_by as string | null,
+    }));
+    const invites = this._sql.exec(`
+      SELECT i.id, i.role, u.username as created_by, i.created_at, i.expires_at
+      FROM invites i LEFT JOIN users u ON u.id = i.created_by
+      WHERE i.expires_at > ?
+      ORDER BY i.created_at DESC
+    `, Date.now()).toArray().map(row => ({
+      id: row.id as number,
+      role: row.role as AssignableRole,
+      createdBy: row.created_by as string | null,
+      createdAt: row.created_at as number,
+      expiresAt: row.expires_at as number,
+    }));
+    return { users, invites };
+  }
+
+  /**
+   * Create a single-use invite for a new account with the given role. Only a hash of the code is
+   * stored, so the code can't be shown again.
+   */
+  public async createInvite({ role, createdBy }: { role: AssignableRole; createdBy: number }): Promise<{ code: string; invite: InviteInfo }> {
+    const parsedRole = AssignableRoleSchema.parse(role);
+    const code = this.base64urlEncode(this.generateRandomBytes(24));
+    const codeHash = await this.hashSecret(code);
+    const now = Date.now();
+    this._sql.exec('DELETE FROM invites WHERE expires_at <= ?;', now);
+    const row = this._sql.exec(
+      'INSERT INTO invites (code_hash, role, created_by, created_at, expires_at) VALUES (?, ?, ?, ?, ?) RETURNING id;',
+      codeHash, parsedRole, createdBy, now, now + INVITE_TTL_MS
+    ).one();
+    const creator = await this.getAuthUser(createdBy);
+    return {
+      code,
+      invite: { id: row.id as number, role: parsedRole, createdBy: creator?.username ?? null, createdAt: now, expiresAt: now + INVITE_TTL_MS },
+    };
+  }
+
+  public async revokeInvite(id: number): Promise<{ success: boolean }> {
+    const result = this._sql.exec('DELETE FROM invites WHERE id = ?;', id);
+    return { success: result.rowsWritten > 0 };
+  }
+
+  /**
+   * The role an invite code grants, null if it is unknown, used or expired
+   */
+  public async getInvite(code: string): Promise<{ role: AssignableRole; expiresAt: number } | null> {
+    const row = this._sql.exec(
+      'SELECT role, expires_at FROM invites WHERE code_hash = ? AND expires_at > ?;',
+      await this.hashSecret(code), Date.now()
+    ).toArray()[0];
+    return row ? { role: row.role as AssignableRole, expiresAt: row.expires_at as number } : null;
+  }
+
+  /**
+   * Create the account an invite is for. The invite can't be used again.
+   */
+  public async acceptInvite({ code, username, password }: { code: string; username: string; password: string }): Promise<AuthUser> {
+    const name = UsernameSchema.parse(username);
+    PasswordSchema.parse(password);
+    const codeHash = await this.hashSecret(code);
+    const salt = this.base64urlEncode(this.generateRandomBytes(16));
+    const hash = await this.derivePasswordHash(password, salt);
+
+    return this.ctx.storage.transactionSync(() => {
+      const invite = this._sql.exec(
+        'SELECT id, role, created_by FROM invites WHERE code_hash = ? AND expires_at > ?;',
+        codeHash, Date.now()
+      ).toArray()[0];
+      if (!invite) {
+        throw new Error("This invite is invalid or has expired");
+      }
+      if (this._sql.exec('SELECT 1 FROM users WHERE username = ?;', name).toArray().length > 0) {
+        throw new Error("That username is taken");
+      }
+      const user = this._sql.exec(
+        'INSERT INTO users (username, role, salt, password_hash, created_at, invited_by) VALUES (?, ?, ?, ?, ?, ?) RETURNING id;',
+        name, invite.role, salt, hash, Date.now(), invite.created_by
+      ).one();
+      this._sql.exec('DELETE FROM invites WHERE id = ?;', invite.id);
+      return { id: user.id as number, username: name, role: invite.role as Role };
+    });
+  }
+
+  private requireNonOwner(id: number): AuthUser {
+    const row = this._sql.exec('SELECT id, username, role FROM users WHERE id = ?;', id).toArray()[0];
+    if (!row) {
+      throw new Error("User not found");
+    }
+    if (row.role === 'owner') {
+      throw new Error("The owner account can't be changed");
+    }
+    return { id: row.id as number, username: row.username as string, role: row.role as Role };
+  }
+
+  public async setUserRole(id: number, role: AssignableRole): Promise<AuthUser> {
+    const user = this.requireNonOwner(id);
+    const parsedRole = AssignableRoleSchema.parse(role);
+    this._sql.exec('UPDATE users SET role = ? WHERE id = ?;', parsedRole, id);
+    // Open WebSockets were allowed with the old role (RCON keeps it in its attachment), they have to reconnect
+    const sessions = this._sql.exec('SELECT nonce FROM sessions WHERE user_id = ?;', id).toArray();
+    this.closeSessionWebSockets(sessions.map(row => row.nonce as string));
+    return { ...user, role: parsedRole };
+  }
+
+  /**
+   * Delete an account. Its sign-ins, API tokens and open WebSockets stop working right away, except
+   * for dashboard reads the worker may still answer from its auth cache for up to 30 seconds.
+   */
+  public async deleteUser(id: number): Promise<{ success: boolean }> {
+    this.requireNonOwner(id);
+    this.ctx.storage.transactionSync(() => {
+      this._sql.exec('DELETE FROM users WHERE id = ?;', id);
+      this._sql.exec('DELETE FROM api_tokens WHERE user_id = ?;', id);
+      this._sql.exec('DELETE FROM two_factor WHERE user_id = ?;', id);
+      const signedOut = this._sql.exec('DELETE FROM sessions WHERE user_id = ? RETURNING nonce;', id).toArray();
+      this.closeSessionWebSockets(signedOut.map(row => row.nonce as string));
+    });
+    return { success: true };
+  }
+
+  // =====================
+  // API tokens
+  // =====================
+
+  // Only recorded once a minute, not on every request
+  private static readonly TOKEN_LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+  private apiTokenFromRow(row: Record<string, SqlStorageValue>): ApiTokenInfo {
+    return {
+      id: row.id as number,
+      name: row.name as string,
+      scopes: JSON.parse(row.scopes as string) as ApiTokenScope[],
+      createdAt: row.created_at as number,
+      expiresAt: row.expires_at as number | null,
+      lastUsedAt: row.last_used_at as number | null,
+    };
+  }
+
+  /**
+   * The API tokens of a user, newest first, including expired ones
+   */
+  public async listApiTokens(userId: number): Promise<ApiTokenInfo[]> {
+    return this._sql.exec(
+      'SELECT id, name, scopes, created_at, expires_at, last_used_at FROM api_tokens WHERE user_id = ? ORDER BY created_at DESC;',
+      userId
+    ).toArray().map(row => this.apiTokenFromRow(row));
+  }
+
+  /**
+   * Create an API token for a user. Only a hash is stored, the token itself is only returned here.
+   * Scopes need a role that can use them.
+   */
+  public async createApiToken(userId: number, options: CreateApiToken): Promise<{ token: string; info: ApiTokenInfo }> {
+    const { name, scopes, expiresInDays } = CreateApiTokenSchema.parse(options);
+    const user = await this.getAuthUser(userId);
+    if (!user) {
+      throw new Error("User not found");
+    }
+    const forbidden = scopes.filter(scope => !roleAtLeast(user.role, SCOPE_ROLES[scope]));
+    if (forbidden.length > 0) {
+      throw new Error(`A ${user.role} can't create tokens with ${forbidden.join(', ')}`);
+    }
+
+    const token = API_TOKEN_PREFIX + this.base64urlEncode(this.generateRandomBytes(32));
+    const now = Date.now();
+    const expiresAt = expiresInDays === null ? null : now + expiresInDays * 24 * 60 * 60 * 1000;
+    const uniqueScopes = [...new Set(scopes)];
+    const row = this._sql.exec(
+      'INSERT INTO api_tokens (user_id, name, token_hash, scopes, created_at, expires_at) VALUES (?, ?, ?, ?, ?, ?) RETURNING id;',
+      userId, name, await this.hashSecret(token), JSON.stringify(uniqueScopes), now, expiresAt
+    ).one();
+    return { token, info: { id: row.id as number, name, scopes: uniqueScopes, createdAt: now, expiresAt, lastUsedAt: null } };
+  }
+
+  /**
+   * Revoke one of a user's API tokens. Changes and admin routes refuse it right away, reads a viewer
+   * could make within the 30 seconds the worker caches tokens.
+   */
+  public async revokeApiToken(userId: number, id: number): Promise<{ success: boolean }> {
+    const result = this._sql.exec('DELETE FROM api_tokens WHERE id = ? AND user_id = ?;', id, userId);
+    return { success: result.rowsWritten > 0 };
+  }
+
+  /**
+   * The user and scopes of an unexpired API token, null if it is unknown. Records when it was used.
+   */
+  public async authenticateApiToken(token: string): Promise<{ user: AuthUser; tokenId: number; tokenName: string; scopes: ApiTokenScope[] } | null> {
+    if (!token.startsWith(API_TOKEN_PREFIX)) {
+      return null;
+    }
+    const now = Date.now();
+    const row = this._sql.exec(`
+      SELECT t.id, t.name, t.scopes, t.last_used_at, u.id as user_id, u.username, u.role
+      FROM api_tokens t JOIN users u ON u.id = t.user_id
+      WHERE t.token_hash = ? AND (t.expires_at IS NULL OR t.expires_at > ?)
+    `, await this.hashSecret(token), now).toArray()[0];
+    if (!row) {
+      return null;
+    }
+    if (row.last_used_at === null || now - (row.last_used_at as number) >= MinecraftContainer.TOKEN_LAST_USED_RESOLUTION_MS) {
+      this._sql.exec('UPDATE api_tokens SET last_used_at = ? WHERE id = ?;', now, row.id);
+    }
+    return {
+      user: { id: row.user_id as number, username: row.username as string, role: row.role as Role },
+      tokenId: row.id as number,
+      tokenName: row.name as string,
+      scopes: JSON.parse(row.scopes as string) as ApiTokenScope[],
+    };
+  }
+
+  // =====================
+  // Sessions
+  // =====================
+
+  // Only recorded once a minute, not on every request
+  private static readonly SESSION_LAST_SEEN_RESOLUTION_MS = 60 * 1000;
+  private static readonly MAX_USER_AGENT_LENGTH = 300;
+
+  /**
+   * Record a sign-in, its auth cookie carries the nonce. Cleans up expired sessions.
+   */
+  public async createSession({ nonce, userId, twoFactor, userAgent, ip }: { nonce: string; userId: number; twoFactor: boolean; userAgent: string | null; ip: string | null }): Promise<void> {
+    const now = Date.now();
+    this.ctx.storage.transactionSync(() => {
+      this._sql.exec('DELETE FROM sessions WHERE expires_at <= ?;', now);
+      this._sql.exec(
+        'INSERT INTO sessions (nonce, user_id, created_at, last_seen_at, expires_at, user_agent, ip, two_factor) VALUES (?, ?, ?, ?, ?, ?, ?, ?);',
+        nonce, userId, now, now, now + SESSION_TTL_MS,
+        userAgent?.slice(0, MinecraftContainer.MAX_USER_AGENT_LENGTH) ?? null, ip, twoFactor ? 1 : 0
+      );
+    });
+  }
+
+  /**
+   * The user of an unexpired session and whether it passed 2FA, null if it was signed out or the
+   * user deleted. Records when and from where it was seen.
+   */
+  public async authenticateSession(nonce: string, seen: { userAgent: string | null; ip: string | null }): Promise<{ user: AuthUser; twoFactor: boolean } | null> {
+    const now = Date.now();
+    const row = this._sql.exec(`
+      SELECT s.id, s.last_seen_at, s.two_factor, u.id as user_id, u.username, u.role
+      FROM sessions s JOIN users u ON u.id = s.user_id
+      WHERE s.nonce = ? AND s.expires_at > ?
+    `, nonce, now).toArray()[0];
+    if (!row) {
+      return null;
+    }
+    if (now - (row.last_seen_at as number) >= MinecraftContainer.SESSION_LAST_SEEN_RESOLUTION_MS) {
+      this._sql.exec(
+        'UPDATE sessions SET last_seen_at = ?, user_agent = COALESCE(?, user_agent), ip = COALESCE(?, ip) WHERE id = ?;',
+        now, seen.userAgent?.slice(0, MinecraftContainer.MAX_USER_AGENT_LENGTH) ?? null, seen.ip, row.id
+      );
+    }
+    return {
+      user: { id: row.user_id as number, username: row.username as string, role: row.role as Role },
+      twoFactor: row.two_factor === 1,
+    };
+  }
+
+  /**
+   * The unexpired sessions of a user, most recently seen first
+   */
+  public async listSessions(userId: number, currentNonce: string | null): Promise<SessionInfo[]> {
+    return this._sql.exec(
+      'SELECT id, nonce, created_at, last_seen_at, expires_at, user_agent, ip, two_factor FROM sessions WHERE user_id = ? AND expires_at > ? ORDER BY last_seen_at DESC;',
+      userId, Date.now()
+    ).toArray().map(row => ({
+      id: row.id as number,
+      createdAt: row.created_at as number,
+      lastSeenAt: row.last_seen_at as number,
+      expiresAt: row.expires_at as number,
+      userAgent: row.user_agent as string | null,
+      ip: row.ip as string | null,
+      twoFactor: row.two_factor === 1,
+      current: row.nonce === currentNonce,
+    }));
+  }
+
+  /**
+   * Count a session as having passed 2FA, once 2FA was turned on with a code in it
+   */
+  public async setSessionTwoFactor(nonce: string): Promise<void> {
+    this._sql.exec('UPDATE sessions SET two_factor = 1 WHERE nonce = ?;', nonce);
+  }
+
+  /**
+   * Sign out one of a user's sessions and close its WebSockets. Only reads a viewer could make may
+   * still pass, for the 30 seconds the worker caches sessions.
+   */
+  public async revokeSession(userId: number, id: number): Promise<{ success: boolean }> {
+    const revoked = this._sql.exec('DELETE FROM sessions WHERE id = ? AND user_id = ? RETURNING nonce;', id, userId).toArray();
+    this.closeSessionWebSockets(revoked.map(row => row.nonce as string));
+    return { success: revoked.length > 0 };
+  }
+
+  /**
+   * Sign out the session with the nonce, when its user signs out
+   */
+  public async endSession(nonce: string): Promise<void> {
+    this._sql.exec('DELETE FROM sessions WHERE nonce = ?;', nonce);
+    this.closeSessionWebSockets([nonce]);
+  }
+
+  /**
+   * Sign out all of a user's sessions, except the one with the nonce when given
+   */
+  public async revokeAllSessions(userId: number, exceptNonce: string | null = null): Promise<{ revoked: number }> {
+    const revoked = this._sql.exec('DELETE FROM sessions WHERE user_id = ? AND nonce != ? RETURNING nonce;', userId, exceptNonce ?? '').toArray();
+    this.closeSessionWebSockets(revoked.map(row => row.nonce as string));
+    return { revoked: revoked.length };
+  }
+
+  // Close the terminal, browser and RCON WebSockets that were opened with any of these sessions
+  private closeSessionWebSockets(nonces: string[]): void {
+    if (nonces.length === 0) {
+      return;
+    }
+    for (const ws of this.ctx.getWebSockets()) {
+      const attachment = ws.deserializeAttachment() as { sessionNonce?: string | null } | null;
+      if (attachment?.sessionNonce && nonces.includes(attachment.sessionNonce)) {
+        ws.close(1008, "Signed out");
+      }
+    }
+    for (const socket of this.proxiedWebSockets) {
+      if (socket.sessionNonce && nonces.includes(socket.sessionNonce)) {
+        socket.close(1008, "Signed out");
+      }
+    }
+  }
+
+  /**
+   * Change a user's password, the current one has to be right. Signs out the user's other
+   * sessions, the one with the nonce stays signed in.
+   */
+  public async changePassword(userId: number, { currentPassword, newPassword }: { currentPassword: string; newPassword: string }, keepNonce: string | null): Promise<{ signedOut: number }> {
+    const row = this._sql.exec('SELECT salt, password_hash FROM users WHERE id = ?;', userId).toArray()[0];
+    if (!row) {
+      throw new Error("User not found");
+    }
+    const derived = await this.derivePasswordHash(currentPassword, row.salt as string);
+    if (!this.timingSafeEqualAscii(derived, row.password_hash as string)) {
+      throw new Error("The current password is wrong");
+    }
+    const password = PasswordSchema.parse(newPassword);
+    const salt = this.base64urlEncode(this.generateRandomBytes(16));
+    const hash = await this.derivePasswordHash(password, salt);
+
+    return this.ctx.storage.transactionSync(() => {
+      this._sql.exec('UPDATE users SET salt = ?, password_hash = ? WHERE id = ?;', salt, hash, userId);
+      const signedOut = this._sql.exec('DELETE FROM sessions WHERE user_id = ? AND nonce != ? RETURNING nonce;', userId, keepNonce ?? '').toArray();
+      this.closeSessionWebSockets(signedOut.map(row => row.nonce as string));
+      return { signedOut: signedOut.length };
+    });
+  }
+
+  // =====================
+  // Two-factor authentication
+  // =====================
+
+  // Recovery codes are stored as hashes, the codes themselves are only returned when generated
+  private async newRecoveryCodes(): Promise<{ codes: string[]; hashes: string[] }> {
+    const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => generateRecoveryCode());
+    const hashes = await Promise.all(codes.map(code => this.hashSecret(normalizeRecoveryCode(code))));
+    return { codes, hashes };
+  }
+
+  // Async because it's easier to consume as RPC if fn is async
+  public async getTwoFactorStatus(userId: number): Promise<TwoFactorStatus> {
+    const row = this._sql.exec('SELECT recovery_codes FROM two_factor WHERE user_id = ? AND enabled_at IS NOT NULL;', userId).toArray()[0];
+    return {
+      enabled: !!row,
+      recoveryCodesLeft: row ? (JSON.parse(row.recovery_codes as string) as string[]).length : 0,
+    };
+  }
+
+  /**
+   * Start turning on 2FA: a new secret and the URI for the QR code. It only takes effect once
+   * enableTwoFactor() got a code for it, starting over replaces an unconfirmed secret.
+   */
+  public async startTwoFactorEnrolment(userId: number): Promise<{ secret: string; uri: string }> {
+    const user = await this.getAuthUser(userId);
+    if (!user) {
+      throw new Error("User not found");
+    }
+    if ((await this.getTwoFactorStatus(userId)).enabled) {
+      throw new Error("Two-factor authentication is already on");
+    }
+    const secret = base32Encode(this.generateRandomBytes(20));
+    this._sql.exec(
+      `INSERT INTO two_factor (user_id, secret) VALUES (?, ?)
+       ON CONFLICT (user_id) DO UPDATE SET secret = excluded.secret, last_step = NULL, failed_attempts = 0, last_failed_at = NULL;`,
+      userId, secret
+    );
+    return { secret, uri: provisioningUri(secret, user.username) };
+  }
+
+  /**
+   * Finish the enrolment with a code from the app. Returns the recovery codes, they aren't shown again.
+   */
+  public async enableTwoFactor(userId: number, code: string): Promise<{ recoveryCodes: string[] }> {
+    const row = this._sql.exec('SELECT secret, enabled_at FROM two_factor WHERE user_id = ?;', userId).toArray()[0];
+    if (!row || row.enabled_at !== null) {
+      throw new Error(row ? "Two-factor authentication is already on" : "Start the setup first");
+    }
+    const step = await verifyTotp(row.secret as string, SecondFactorCodeSchema.parse(code), Date.now(), null);
+    if (step === null) {
+      throw new Error("That code isn't right, check the time on your device");
+    }
+    const { codes, hashes } = await this.newRecoveryCodes();
+    this._sql.exec(
+      'UPDATE two_factor SET enabled_at = ?, last_step = ?, recovery_codes = ? WHERE user_id = ?;',
+      Date.now(), step, JSON.stringify(hashes), userId
+    );
+    return { recoveryCodes: codes };
+  }
+
+  /**
+   * Check a code from the app or an unused recovery code (which is used up). Codes can't be used
+   * twice, and too many wrong ones in a row lock the account's second step for a few minutes.
+   */
+  public async verifySecondFactor(userId: number, code: string): Promise<{ ok: boolean; error?: string }> {
+    const row = this._sql.exec(
+      'SELECT secret, last_step, recovery_codes, failed_attempts, last_failed_at FROM two_factor WHERE user_id = ? AND enabled_at IS NOT NULL;',
+      userId
+    ).toArray()[0];
+    if (!row) {
+      return { ok: false, error: "Two-factor authentication isn't on" };
+    }
+    const now = Date.now();
+    const lockoutOver = row.last_failed_at === null || now - (row.last_failed_at as number) >= FAILED_2FA_LOCKOUT_MS;
+    if ((row.failed_attempts as number) >= MAX_FAILED_2FA_ATTEMPTS && !lockoutOver) {
+      return { ok: false, error: "Too many wrong codes, try again in a few minutes" };
+    }
+
+    const parsed = SecondFactorCodeSchema.safeParse(code);
+    let ok = false;
+    if (parsed.success && /^\d+$/.test(parsed.data)) {
+      const step = await verifyTotp(row.secret as string, parsed.data, now, row.last_step as number | null);
+      if (step !== null) {
+        this._sql.exec('UPDATE two_factor SET last_step = ? WHERE user_id = ?;', step, userId);
+        ok = true;
+      }
+    } else if (parsed.success) {
+      const hash = await this.hashSecret(normalizeRecoveryCode(parsed.data));
+      const hashes = JSON.parse(row.recovery_codes as string) as string[];
+      if (hashes.includes(hash)) {
+        this._sql.exec('UPDATE two_factor SET recovery_codes = ? WHERE user_id = ?;', JSON.stringify(hashes.filter(h => h !== hash)), userId);
+        ok = true;
+      }
+    }
+
+    if (ok) {
+      this._sql.exec('UPDATE two_factor SET failed_attempts = 0, last_failed_at = NULL WHERE user_id = ?;', userId);
+      return { ok: true };
+    }
+    this._sql.exec(
+      'UPDATE two_factor SET failed_attempts = ?, last_failed_at = ? WHERE user_id = ?;',
+      lockoutOver ? 1 : (row.failed_attempts as number) + 1, now, userId
+    );
+    return { ok: false, error: "Invalid code" };
+  }
+
+  /**
+   * Turn off 2FA, confirmed with a current code or a recovery code
+   */
+  public async disableTwoFactor(userId: number, code: string): Promise<{ success: boolean }> {
+    const check = await this.verifySecondFactor(userId, code);
+    if (!check.ok) {
+      throw new Error(check.error);
+    }
+    this._sql.exec('DELETE FROM two_factor WHERE user_id = ?;', userId);
+    return { success: true };
+  }
+
+  /**
+   * Replace the recovery codes, confirmed with a current code or a recovery code
+   */
+  public async regenerateRecoveryCodes(userId: number, code: string): Promise<{ recoveryCodes: string[] }> {
+    const check = await this.verifySecondFactor(userId, code);
+    if (!check.ok) {
+      throw new Error(check.error);
+    }
+    const { codes, hashes } = await this.newRecoveryCodes();
+    this._sql.exec('UPDATE two_factor SET recovery_codes = ? WHERE user_id = ?;', JSON.stringify(hashes), userId);
+    return { recoveryCodes: codes };
+  }
+
+  // =====================
+  // Audit log
+  // =====================
+
+  private auditEntryFromRow(row: Record<string, SqlStorageValue>): AuditEntry {
+    return {
+      id: row.id as number,
+      time: row.time as number,
+      actor: row.actor as string,
+      source: row.source as AuditSource,
+      action: row.action as string,
+      args: row.args === null ? null : JSON.parse(row.args as string),
+      success: row.success === 1,
+      result: row.result as string | null,
+    };
+  }
+
+  /**
+   * Append an entry to the audit log. Secrets in the arguments are redacted, long values shortened.
+   */
+  public async recordAudit(entry: NewAuditEntry): Promise<void> {
+    this._sql.exec(
+      'INSERT INTO audit_log (time, actor, source, action, args, success, result) VALUES (?, ?, ?, ?, ?, ?, ?);',
+      Date.now(),
+      entry.actor,
+      entry.source,
+      entry.action,
+      entry.args && Object.keys(entry.args).length > 0 ? JSON.stringify(sanitizeAuditArgs(entry.args)) : null,
+      entry.success ? 1 : 0,
+      truncateAuditResult(entry.result)
+    );
+  }
+
+  /**
+   * Audit log entries, newest first
+   */
+  public async getAuditLog(query: AuditQuery = {}): Promise<AuditEntry[]> {
+    const { actor, source, action, success, since, until, limit } = AuditQuerySchema.parse(query);
+    const conditions: string[] = [];
+    const params: Array<string | number> = [];
+    if (actor) {
+      conditions.push('actor = ? COLLATE NOCASE');
+      params.push(actor);
+    }
+    if (source) {
+      conditions.push('source = ?');
+      params.push(source);
+    }
+    if (action) {
+      conditions.push('substr(action, 1, ?) = ?');
+      params.push(action.length, action);
+    }
+    if (success !== undefined) {
+      conditions.push('success = ?');
+      params.push(success ? 1 : 0);
+    }
+    if (since !== undefined) {
+      conditions.push('time > ?');
+      params.push(since);
+    }
+    if (until !== undefined) {
+      conditions.push('time < ?');
+      params.push(until);
+    }
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    return this._sql.exec(
+      `SELECT * FROM audit_log ${where} ORDER BY time DESC, id DESC LIMIT ?`,
+      ...params, limit
+    ).toArray().map(row => this.auditEntryFromRow(row));
+  }
+
   // =====================
   // Session tracking methods
   // =====================
@@ -914,6 +1823,11 @@ export class MinecraftContainer extends Container {
 
     override onStop() {
       console.error("Container successfully shut down");
+      // The start script stops the container when the restore fails, possibly before its result was read
+      const pendingRestore = this.getPendingRestore();
+      if (pendingRestore && this.envVars.RESTORE_BACKUP_KEY === pendingRestore && !this.getRestoreFailure()) {
+        this.setRestoreFailure({ key: pendingRestore, error: "The server stopped before the backup was restored", failedAt: Date.now() });
+      }
       this.ctx.waitUntil(this.disconnectRcon());
       this.ctx.waitUntil(this.disconnectHTTPProxy());
     }
@@ -923,8 +1837,57 @@ export class MinecraftContainer extends Container {
     }
 
     
-    // Handle HTTP requests to this container
-    override async fetch(request: Request): Promise<Response> {
+    // Terminal and browser WebSockets passed through to the container, by the session they were opened with
+    private proxiedWebSockets = new Set<{ sessionNonce: string | null; close: (code: number, reason: string) => void }>();
+
+    /**
+     * Pass a terminal or browser WebSocket through to the container, through this object rather than
+     * straight to the port so it can be closed when the session it was opened with is signed out
+     */
+    private async proxyWebSocket(request: Request): Promise<Response> {
+      const response = await super.fetch(request);
+      const upstream = response.webSocket;
+      if (!upstream) {
+        return response;
+      }
+      const [client, server] = Object.values(new WebSocketPair());
+      upstream.accept();
+      server.accept();
+
+      const socket = {
+        sessionNonce: request.headers.get('X-Mineflare-Session'),
+        close: (code: number, reason: string) => {
+          this.proxiedWebSockets.delete(socket);
+          // 1005 and 1006 only report that no code was sent, they can't be sent on
+          const sendable = code === 1005 || code === 1006 ? 1000 : code;
+          for (const ws of [server, upstream]) {
+            try {
+              ws.close(sendable, reason);
+            } catch {
+              // Already closed
+            }
+          }
+        },
+      };
+      this.proxiedWebSockets.add(socket);
+      server.addEventListener('message', event => upstream.send(event.data));
+      upstream.addEventListener('message', event => server.send(event.data));
+      server.addEventListener('close', event => socket.close(event.code, event.reason));
+      upstream.addEventListener('close', event => socket.close(event.code, event.reason));
+      server.addEventListener('error', () => socket.close(1011, "WebSocket error"));
+      upstream.addEventListener('error', () => socket.close(1011, "WebSocket error"));
+
+      // ttyd and websockify pick a subprotocol, the browser needs to see it
+      const protocol = response.headers.get('Sec-WebSocket-Protocol');
+      return new Response(null, {
+        status: 101,
+        webSocket: client,
+        headers: protocol ? { 'Sec-WebSocket-Protocol': protocol } : undefined,
+      });
+    }
+
+    // Handle HTTP requests to this container
+    override async fetch(request: Request): Promise<Response> {
       try {
         const url = new URL(request.url);
         console.error("Fetching container", url.pathname);
@@ -935,7 +1898,7 @@ export class MinecraftContainer extends Container {
           // Route to noVNC websockify on port 6080
           console.error('browser websocket: noVNC on port 6080');
           const newRequest = new Request('http://localhost:6080/', request);
-          return super.fetch(switchPort(newRequest, 6080));
+          return await this.proxyWebSocket(switchPort(newRequest, 6080));
         }
         
         if (url.pathname.startsWith('/src/terminal/')) {
@@ -953,7 +1916,7 @@ export class MinecraftContainer extends Container {
           } else {
             console.error('terminal websocket: claude');
           }
-          return super.fetch(switchPort(request, port));
+          return await this.proxyWebSocket(switchPort(request, port));
         }
         if (url.pathname.startsWith('/ws')) {
           console.error('websocket')
@@ -966,6 +1929,14 @@ export class MinecraftContainer extends Container {
           // When the Durable Object receives a message during Hibernation, it will run the `constructor` to be re-initialized
           console.error('accept websocket');
           this.ctx.acceptWebSocket(server);
+          // The worker checked the token and passes the user along, the role decides whether RCON commands are allowed
+          server.serializeAttachment({
+            role: RoleSchema.catch('viewer').parse(request.headers.get('X-Mineflare-Role')),
+            username: request.headers.get('X-Mineflare-User') ?? 'anonymous',
+            source: AuditSourceSchema.catch('web').parse(request.headers.get(AUDIT_SOURCE_HEADER)),
+            // Closed when the session is signed out
+            sessionNonce: request.headers.get('X-Mineflare-Session'),
+          });
 
           return new Response(null, {
             status: 101,
@@ -1009,6 +1980,18 @@ export class MinecraftContainer extends Container {
           });
         }
         
+        if (url.pathname === "/world/download" && request.method === "GET") {
+          return await this.handleWorldDownload(url);
+        }
+
+        if (url.pathname === "/world/import" && request.method === "POST") {
+          return await this.handleWorldImport(request, url);
+        }
+
+        if (url.pathname === "/plugins/custom" && request.method === "POST") {
+          return await this.handleCustomPluginUpload(request, url);
+        }
+
         if (url.pathname === "/rcon/players") {
           const players = await this.getRconPlayers();
           return new Response(JSON.stringify({ players }), {
@@ -1272,7 +2255,7 @@ export class MinecraftContainer extends Container {
     }
 
     public async listAllPlugins() {
-      return PLUGIN_SPECS.map(spec => ({
+      return this.getPluginSpecs().map(spec => ({
         displayName: spec.displayName,
         filename: spec.filename,
         requiredEnv: [...spec.requiredEnv], // Clone to mutable array
@@ -1281,6 +2264,10 @@ export class MinecraftContainer extends Container {
 
     // Async because it's easier to consume as RPC if fn is async
     public async enablePlugin({ filename, env }: { filename: string; env?: Record<string, string> }) {
+      if (!this.getPluginSpecs().some(s => s.filename === filename)) {
+        throw new Error(`Unknown plugin: ${filename}`);
+      }
+      await this.ensureCatalogPluginsSupport((await this.getServerVersion()).version, [filename]);
       // If env provided, persist it first
       if (env) {
         this.setConfiguredPluginEnv(filename, env);
@@ -1326,16 +2313,29 @@ export class MinecraftContainer extends Container {
       const enabledPlugins = this.envVars.OPTIONAL_PLUGINS.split(" ");
       const desiredPlugins = await this.pluginFilenamesToEnable;
       const allPlugins = await this.listAllPlugins();
+      const isRunning = await this.getStatus() === 'running';
+      const sources = this.statusSources();
       
       // Resolve all plugin statuses in parallel
       const pluginsWithStatus = await Promise.all(
         allPlugins.map(async (plugin) => {
-          const spec = PLUGIN_SPECS.find(s => s.filename === plugin.filename);
+          const spec = this.getPluginSpecs().find(s => s.filename === plugin.filename);
           
           // Only check status for plugins that are currently enabled in envVars
           const isCurrentlyEnabled = enabledPlugins.includes(plugin.filename);
-          const status = (spec?.getStatus && isCurrentlyEnabled)
-            ? await spec.getStatus(this).catch(() => ({ type: "no message" as const }))
+          const status = isCurrentlyEnabled
+            ? combinePluginStatuses(await Promise.all([
+                spec?.getStatus
+                  ? spec.getStatus(this).catch(() => ({ type: "no message" as const }))
+                  : Promise.resolve({ type: "no message" as const }),
+                // Providers read the server's files and RCON, which only exist while it runs
+                isRunning
+                  ? evaluateStatusProviders([
+                      ...pluginLoadFailureProviders(plugin.filename, spec?.pluginName),
+                      ...(spec?.statusProviders ?? []),
+                    ], sources)
+                  : Promise.resolve({ type: "no message" as const }),
+              ]))
             : { type: "no message" as const };
           
           const state: 'ENABLED' | 'DISABLED_WILL_ENABLE_AFTER_RESTART' | 'ENABLED_WILL_DISABLE_AFTER_RESTART' | 'DISABLED' = 
@@ -1354,23 +2354,152 @@ export class MinecraftContainer extends Container {
         })
       );
       
+      // Anyone with the playit.gg address can join as any player (including ops) in offline mode
+      const { onlineMode } = this.getStoredServerSettings();
+      if (!onlineMode && desiredPlugins.includes(PLAYIT_PLUGIN_FILENAME) && !desiredPlugins.includes(AUTHME_PLUGIN_FILENAME)) {
+        const warning: PluginStatus = {
+          type: "warning",
+          message: "The server is public through playit.gg but runs in offline mode, so anyone can join as any player. Turn on online mode in Server Settings or enable AuthMe.",
+        };
+        return pluginsWithStatus.map(plugin =>
+          plugin.filename === AUTHME_PLUGIN_FILENAME || (plugin.filename === PLAYIT_PLUGIN_FILENAME && plugin.status.type === "no message")
+            ? { ...plugin, status: warning }
+            : plugin
+        );
+      }
+
       return pluginsWithStatus;
     }
 
-    async broadcast(message: ArrayBuffer | string) {
+    // Sources for the plugin status providers, each read at most once per getPluginState
+    private statusSources(): StatusSources {
+      let log: Promise<string> | null = null;
+      const rcon = new Map<string, Promise<string | null>>();
+      const files = new Map<string, Promise<string | null>>();
+      return {
+        log: () => log ??= this.getFileContents(LATEST_LOG_PATH).then(content => content ?? ''),
+        rcon: (command) => {
+          if (!rcon.has(command)) {
+            rcon.set(command, this.executeRconCommand(command).then(result => result.success ? result.output : null));
+          }
+          return rcon.get(command)!;
+        },
+        file: (path) => {
+          if (!files.has(path)) {
+            files.set(path, this.getFileContents(path));
+          }
+          return files.get(path)!;
+        },
+      };
+    }
+
+    /**
+     * Send a message to the connected sockets. With a topic only to the sockets that subscribed to
+     * it, the Terminal's socket only expects RCON output.
+     */
+    async broadcast(message: ArrayBuffer | string, topic?: 'events') {
       for (const ws of this.ctx.getWebSockets()) {
-        ws.send(message);
+        if (topic && !(ws.deserializeAttachment() as Record<string, unknown> | null)?.[topic]) {
+          continue;
+        }
+        try {
+          ws.send(message);
+        } catch (error) {
+          console.error("Failed to send to a socket:", error);
+        }
+      }
+    }
+
+    private backupInProgress: Promise<{
+      success: boolean;
+      backups: Array<{ path: string; size: number }>;
+      error?: string;
+    }> | null = null;
+
+    /**
+     * Perform a backup of world data to R2.
+     * Only one backup runs at a time (scheduled and shutdown backups share the save-off window),
+     * a caller arriving while one is running gets that backup's result.
+     */
+    public async performBackup({ trigger }: { trigger: BackupTrigger } = { trigger: 'manual' }): Promise<{ 
+      success: boolean; 
+      backups: Array<{ path: string; size: number }>;
+      error?: string;
+    }> {
+      if (this.backupInProgress) {
+        console.error("Backup already in progress, waiting for it to finish");
+        return await this.backupInProgress;
+      }
+      const historyId = this.recordBackupStart(trigger);
+      this.backupInProgress = this.runBackup().then(result => {
+        this.recordBackupEnd(historyId, result);
+        if (result.success) {
+          this.ctx.waitUntil(this.applyBackupRetention());
+        }
+        return result;
+      }).finally(() => {
+        this.backupInProgress = null;
+      });
+      return await this.backupInProgress;
+    }
+
+    private recordBackupStart(trigger: BackupTrigger): number {
+      const row = this._sql.exec(
+        `INSERT INTO backups (started_at, trigger) VALUES (?, ?) RETURNING id`,
+        Date.now(),
+        trigger
+      ).one();
+      return row.id as number;
+    }
+
+    private recordBackupEnd(id: number, result: { success: boolean; backups: Array<{ path: string; size: number }>; error?: string }): void {
+      try {
+        const backup = result.backups[0];
+        this._sql.exec(
+          `UPDATE backups SET completed_at = ?, success = ?, backup_key = ?, size = ?, error = ? WHERE id = ?`,
+          Date.now(),
+          result.success ? 1 : 0,
+          backup?.path ?? null,
+          backup?.size ?? null,
+          result.error ?? (result.success ? null : "Backup did not complete"),
+          id
+        );
+      } catch (error) {
+        console.error("Failed to record backup result:", error);
       }
     }
 
+    private toBackupHistoryEntry(row: Record<string, SqlStorageValue>): BackupHistoryEntry {
+      return {
+        id: row.id as number,
+        startedAt: row.started_at as number,
+        completedAt: (row.completed_at as number | null) ?? null,
+        trigger: row.trigger as BackupTrigger,
+        success: row.success === null ? null : row.success === 1,
+        key: (row.backup_key as string | null) ?? null,
+        size: (row.size as number | null) ?? null,
+        error: (row.error as string | null) ?? null,
+      };
+    }
+
     /**
-     * Perform a backup of world data to R2
+     * Backup runs, newest first.
+     */
+    public async getBackupHistory({ limit = 50, trigger }: { limit?: number; trigger?: BackupTrigger } = {}): Promise<BackupHistoryEntry[]> {
+      const rows = trigger
+        ? this._sql.exec(`SELECT * FROM backups WHERE trigger = ? ORDER BY id DESC LIMIT ?`, trigger, limit).toArray()
+        : this._sql.exec(`SELECT * FROM backups ORDER BY id DESC LIMIT ?`, limit).toArray();
+      return rows.map(row => this.toBackupHistoryEntry(row));
+    }
+
+    /**
+     * Backup world data to R2
      * This will:
      * 1. Save and disable world saving via RCON
      * 2. Backup world directories to R2
      * 3. Re-enable world saving
      */
-    public async performBackup(): Promise<{ 
+    private async runBackup(): Promise<{ 
       success: boolean; 
       backups: Array<{ path: string; size: number }>;
       error?: string;
@@ -1410,18 +2539,21 @@ export class MinecraftContainer extends Container {
           const POLL_INTERVAL_MS = 2000;
           const POLL_TIMEOUT_MS = 10 * 60 * 1000; // 10 minutes per job
 
+          const errors: string[] = [];
           const runOne = async (worldDir: string): Promise<{ path: string; size: number } | null> => {
             console.error(`Backing up ${worldDir} (background)...`);
             const backupId = this.generateBackupId();
+            const prefix = worldBackupPrefix(this.getActiveWorldId());
 
             // Trigger start
             const startResp = await this.containerFetch(
-              `http://localhost:8083${worldDir}?backup=true&backup_id=${backupId}`,
+              `http://localhost:8083${worldDir}?backup=true&backup_id=${backupId}&format=incremental&prefix=${encodeURIComponent(prefix)}`,
               8083
             );
             if (!startResp.ok) {
               const errorText = await startResp.text();
               console.error(`Failed to start backup ${worldDir}: ${startResp.status} ${errorText}`);
+              errors.push(`Failed to start backup of ${worldDir}: ${startResp.status} ${errorText}`);
               return null;
             }
 
@@ -1429,6 +2561,7 @@ export class MinecraftContainer extends Container {
             while (true) {
               if (Date.now() > deadline) {
                 console.error(`Backup timed out for ${worldDir}`);
+                errors.push(`Backup of ${worldDir} timed out`);
                 return null;
               }
               const statusResp = await this.containerFetch(
@@ -1450,6 +2583,7 @@ export class MinecraftContainer extends Container {
               }
               if (status.status === 'failed') {
                 console.error(`Failed to backup ${worldDir}: ${status.error || 'unknown error'}`);
+                errors.push(status.error || `Failed to backup ${worldDir}`);
                 return null;
               }
               await new Promise(r => setTimeout(r, POLL_INTERVAL_MS));
@@ -1461,13 +2595,14 @@ export class MinecraftContainer extends Container {
           const backupResults: Array<{ path: string; size: number }> = [];
           for (const s of settlements) {
             if (s.status === 'fulfilled' && s.value) backupResults.push(s.value);
+            if (s.status === 'rejected') errors.push(String(s.reason));
           }
 
           const allSucceeded = backupResults.length === worldDirs.length;
           console.error(allSucceeded 
             ? "All backups completed successfully" 
             : `Partial backup: ${backupResults.length}/${worldDirs.length} succeeded`);
-          return { success: allSucceeded, backups: backupResults };
+          return { success: allSucceeded, backups: backupResults, ...(errors.length > 0 ? { error: errors.join("; ") } : {}) };
 
         } finally {
           // Step 5: Always re-enable auto-saving, even if backup failed
@@ -1497,18 +2632,2105 @@ export class MinecraftContainer extends Container {
       }
     }
 
-    async webSocketMessage(ws: WebSocket, message: ArrayBuffer | string) {
-      // Upon receiving a message from the client, reply with the same message,
-      // but will prefix the message with "[Durable Object]: " and return the number of connections.
-      if(!this.rcon && !(await this.initRcon())) {
-        ws.send("Message delivery failed: Server is offline");
+    // =====================
+    // Scheduled backups
+    // =====================
+
+    private getStoredBackupSchedule(): BackupSchedule {
+      try {
+        const result = this._sql.exec(
+          `SELECT json(COALESCE(jsonb_extract(json_data, '$.backupSchedule'), jsonb(?))) as backupSchedule FROM state WHERE id = 1;`,
+          JSON.stringify(DEFAULT_BACKUP_SCHEDULE)
+        ).one();
+        if (!result) {
+          return DEFAULT_BACKUP_SCHEDULE;
+        }
+        return BackupScheduleSchema.parse(JSON.parse(result.backupSchedule as string));
+      } catch (error) {
+        console.error("Failed to get backup schedule:", error);
+        return DEFAULT_BACKUP_SCHEDULE;
+      }
+    }
+
+    /**
+     * Get the periodic backup schedule, the next run time (only while running) and the last run's outcome
+     */
+    public async getBackupSchedule(): Promise<BackupSchedule & { nextRunAt: number | null; lastRun: BackupHistoryEntry | null }> {
+      const schedule = this.getStoredBackupSchedule();
+      const pending = await this.listSchedules('runScheduledBackup');
+      const nextRunAt = pending.length > 0 ? Math.min(...pending.map(p => p.time)) * 1000 : null;
+      const [lastRun] = await this.getBackupHistory({ limit: 1, trigger: 'scheduled' });
+      return { ...schedule, nextRunAt, lastRun: lastRun ?? null };
+    }
+
+    /**
+     * Update the periodic backup schedule. Takes effect immediately if the server is running.
+     */
+    public async setBackupSchedule(schedule: { enabled: boolean; intervalMinutes: number }): Promise<BackupSchedule & { nextRunAt: number | null; lastRun: BackupHistoryEntry | null }> {
+      const parsed = BackupScheduleSchema.parse(schedule);
+      this._sql.exec(
+        `UPDATE state SET json_data = jsonb_patch(json_data, jsonb(?)) WHERE id = 1`,
+        JSON.stringify({ backupSchedule: parsed })
+      );
+      await this.scheduleNextBackup();
+      return await this.getBackupSchedule();
+    }
+
+    // (Re)arm the alarm for the next scheduled backup, only while the server is running
+    private async scheduleNextBackup(): Promise<void> {
+      this.deleteSchedules('runScheduledBackup');
+      const schedule = this.getStoredBackupSchedule();
+      // Checked directly rather than via getStatus() because onStart() runs before the state settles
+      if (!schedule.enabled || !this._container?.running || this.stopping) {
         return;
       }
-      
-      const messageString = message instanceof ArrayBuffer ? new TextDecoder().decode(message) : message;
+      await this.schedule(schedule.intervalMinutes * 60, 'runScheduledBackup');
+      console.error(`Next scheduled backup in ${schedule.intervalMinutes} minutes`);
+    }
+
+    // Alarm callback (see Container.schedule), must stay a method on this class
+    async runScheduledBackup(): Promise<void> {
+      if (await this.getStatus() !== 'running') {
+        console.error("Skipping scheduled backup, server is not running");
+        return;
+      }
+      // Arm the next run first so a slow or failing backup doesn't stop the schedule
+      await this.scheduleNextBackup();
+
+      console.error("Running scheduled backup...");
+      const result = await this.performBackup({ trigger: 'scheduled' });
+      console.error(result.success ? "Scheduled backup completed" : "Scheduled backup failed:", result.error ?? result.backups);
+    }
+
+    // =====================
+    // Backup retention
+    // =====================
+
+    /**
+     * Get the backup retention policy.
+     */
+    public async getBackupRetention(): Promise<BackupRetention> {
+      try {
+        const result = this._sql.exec(
+          `SELECT json(COALESCE(jsonb_extract(json_data, '$.backupRetention'), jsonb(?))) as backupRetention FROM state WHERE id = 1;`,
+          JSON.stringify(DEFAULT_BACKUP_RETENTION)
+        ).one();
+        if (!result) {
+          return DEFAULT_BACKUP_RETENTION;
+        }
+        return BackupRetentionSchema.parse(JSON.parse(result.backupRetention as string));
+      } catch (error) {
+        console.error("Failed to get backup retention:", error);
+        return DEFAULT_BACKUP_RETENTION;
+      }
+    }
+
+    /**
+     * Update the backup retention policy. It is enforced after the next successful backup.
+     */
+    public async setBackupRetention(policy: BackupRetention): Promise<BackupRetention> {
+      const parsed = BackupRetentionSchema.parse(policy);
+      this._sql.exec(
+        `UPDATE state SET json_data = jsonb_patch(json_data, jsonb(?)) WHERE id = 1`,
+        JSON.stringify({ backupRetention: parsed })
+      );
+      return parsed;
+    }
+
+    /**
+     * Work out which backups a retention policy (the saved one by default) would delete.
+     * With dryRun false the backups are deleted from the data bucket.
+     */
+    public async pruneBackups({ dryRun, policy, worldId }: { dryRun: boolean; policy?: BackupRetention; worldId?: string }): Promise<RetentionPlan & { dryRun: boolean }> {
+      const effectivePolicy = policy ? BackupRetentionSchema.parse(policy) : await this.getBackupRetention();
+      const { backups, pendingRestore } = await this.listBackups({ worldId });
+      const plan = planBackupRetention(backups, effectivePolicy, pendingRestore ? [pendingRestore] : []);
+      if (!dryRun && plan.delete.length > 0) {
+        const keys = plan.delete.map(b => b.key);
+        // Incremental backups also own a base tarball
+        for (const backup of plan.delete.filter(b => b.format === 'incremental')) {
+          const manifest = await this.readBackupManifest(backup.key);
+          if (manifest) {
+            keys.push(manifest.base.key);
+          }
+        }
+        await this.deleteFromDataBucket(keys);
+        console.error(`Pruned ${plan.delete.length} backups:`, keys);
+        if (plan.delete.some(b => b.format === 'incremental')) {
+          await this.collectUnreferencedChunks();
+        }
+      }
+      return { ...plan, dryRun };
+    }
+
+    private async readBackupManifest(key: string): Promise<BackupManifest | null> {
+      const object = await (this.env as Env).DATA_BUCKET.get(key);
+      if (!object) {
+        return null;
+      }
+      return await object.json<BackupManifest>();
+    }
+
+    private async deleteFromDataBucket(keys: string[]): Promise<void> {
+      // R2 deletes at most 1000 keys per call
+      for (let i = 0; i < keys.length; i += 1000) {
+        await (this.env as Env).DATA_BUCKET.delete(keys.slice(i, i + 1000));
+      }
+    }
+
+    /**
+     * Delete content-addressed files no remaining incremental backup of any world refers to.
+     * Chunks uploaded in the last day are left alone since a backup in progress may be about to reference them.
+     */
+    private async collectUnreferencedChunks(): Promise<void> {
+      const remaining: BackupInfo[] = [];
+      for (const world of this.getStoredWorlds()) {
+        const { backups } = await this.listBackups({ worldId: world.id });
+        remaining.push(...backups.filter(b => b.format === 'incremental'));
+      }
+      const referenced = new Set<string>();
+      for (const backup of remaining) {
+        const manifest = await this.readBackupManifest(backup.key);
+        if (!manifest) {
+          continue;
+        }
+        for (const file of manifest.files) {
+          referenced.add(chunkKey(file.sha256));
+        }
+      }
+
+      const bucket = (this.env as Env).DATA_BUCKET;
+      const cutoff = Date.now() - 24 * 60 * 60 * 1000;
+      const unreferenced: string[] = [];
+      let cursor: string | undefined = undefined;
+      do {
+        const page: R2Objects = await bucket.list({ prefix: CHUNK_PREFIX, cursor });
+        for (const object of page.objects) {
+          if (!referenced.has(object.key) && object.uploaded.getTime() < cutoff) {
+            unreferenced.push(object.key);
+          }
+        }
+        cursor = page.truncated ? page.cursor : undefined;
+      } while (cursor);
+
+      if (unreferenced.length > 0) {
+        await this.deleteFromDataBucket(unreferenced);
+        console.error(`Deleted ${unreferenced.length} unreferenced backup chunks`);
+      }
+    }
+
+    private async applyBackupRetention(): Promise<void> {
+      try {
+        const policy = await this.getBackupRetention();
+        if (!policy.enabled) {
+          return;
+        }
+        await this.pruneBackups({ dryRun: false, policy, worldId: this.getActiveWorldId() });
+      } catch (error) {
+        console.error("Failed to apply backup retention:", error);
+      }
+    }
+
+    // Backup key to restore on the next start instead of the latest backup
+    private getPendingRestore(): string | null {
+      try {
+        const result = this._sql.exec(
+          `SELECT json_data->>'$.pendingRestore' as pendingRestore FROM state WHERE id = 1;`
+        ).one();
+        return (result?.pendingRestore as string | null) ?? null;
+      } catch (error) {
+        console.error("Failed to get pending restore:", error);
+        return null;
+      }
+    }
+
+    private setPendingRestore(key: string | null): void {
+      // JSON merge patch semantics: null removes the key
+      this._sql.exec(
+        `UPDATE state SET json_data = jsonb_patch(json_data, jsonb(?)) WHERE id = 1`,
+        JSON.stringify({ pendingRestore: key })
+      );
+    }
+
+    // Why the requested restore didn't happen
+    private getRestoreFailure(): RestoreFailure | null {
+      try {
+        const result = this._sql.exec(
+          `SELECT json(jsonb_extract(json_data, '$.restoreFailure')) as restoreFailure FROM state WHERE id = 1;`
+        ).one();
+        return result?.restoreFailure ? JSON.parse(result.restoreFailure as string) as RestoreFailure : null;
+      } catch (error) {
+        console.error("Failed to get restore failure:", error);
+        return null;
+      }
+    }
+
+    private setRestoreFailure(failure: RestoreFailure | null): void {
+      if (failure) {
+        this._sql.exec(
+          `UPDATE state SET json_data = jsonb_set(json_data, '$.restoreFailure', jsonb(?)) WHERE id = 1`,
+          JSON.stringify(failure)
+        );
+      } else {
+        this._sql.exec(
+          `UPDATE state SET json_data = jsonb_remove(json_data, '$.restoreFailure') WHERE id = 1`
+        );
+      }
+    }
+
+    private static readonly RESTORE_CHECK_INTERVAL_S = 10;
+
+    // Alarm callback (see Container.schedule), reads the result start-with-services.sh writes for the
+    // pending restore until there is one. Only a restored backup stops being pending, a failed restore
+    // is tried again on the next start. Must stay a method on this class.
+    async checkRestoreResult(): Promise<void> {
+      this.deleteSchedules('checkRestoreResult');
+      const key = this.getPendingRestore();
+      if (!key || !this._container?.running) {
+        return;
+      }
+      let result: RestoreResult | null = null;
+      try {
+        const content = await this.getFileContents("/status/restore.json");
+        result = content ? RestoreResultSchema.parse(JSON.parse(content)) : null;
+      } catch (error) {
+        console.error("Failed to read the restore result:", error);
+      }
+      if (!result || result.key !== key) {
+        await this.schedule(MinecraftContainer.RESTORE_CHECK_INTERVAL_S, 'checkRestoreResult');
+        return;
+      }
+      if (result.success) {
+        console.error(`Restored ${key}`);
+        this.setPendingRestore(null);
+        this.setRestoreFailure(null);
+      } else {
+        console.error(`Failed to restore ${key}:`, result.error);
+        this.setRestoreFailure({ key, error: result.error ?? "The backup was not restored", failedAt: Date.now() });
+      }
+    }
+
+    /**
+     * List the /data backups of a world (the selected world by default) in the data bucket, newest first,
+     * with the pending restore and why the last attempt at it failed.
+     * Reads R2 directly so it works when the container is stopped.
+     */
+    public async listBackups({ worldId }: { worldId?: string } = {}): Promise<{ backups: BackupInfo[]; pendingRestore: string | null; restoreFailure: RestoreFailure | null }> {
+      const bucket = (this.env as Env).DATA_BUCKET;
+      const prefix = `${worldBackupPrefix(worldId ?? this.getSelectedWorldId())}backups/`;
+      const backups: BackupInfo[] = [];
+      let cursor: string | undefined = undefined;
+      do {
+        const page: R2Objects = await bucket.list({ prefix, cursor });
+        for (const object of page.objects) {
+          const parsed = parseBackupKey(object.key);
+          // Only whole-/data backups can be restored by start-with-services.sh
+          if (parsed && parsed.dirName === 'data') {
+            backups.push({ ...parsed, size: object.size });
+          }
+        }
+        cursor = page.truncated ? page.cursor : undefined;
+      } while (cursor);
+
+      // Incremental backups are listed by their manifest, the size of the backed up /data is recorded in
+      // the backup history, or for backups it doesn't have in the manifest itself
+      const recordedSizes = new Map(this._sql.exec(
+        `SELECT backup_key, size FROM backups WHERE success = 1 AND backup_key IS NOT NULL AND size IS NOT NULL`
+      ).toArray().map(row => [row.backup_key as string, row.size as number]));
+      await Promise.all(backups.filter(backup => backup.format === 'incremental').map(async backup => {
+        const recorded = recordedSizes.get(backup.key);
+        if (recorded !== undefined) {
+          backup.size = recorded;
+          return;
+        }
+        try {
+          const manifest = await (await bucket.get(backup.key))?.json<BackupManifest>();
+          if (manifest) {
+            backup.size = manifest.total_size;
+          }
+        } catch (error) {
+          console.error(`Failed to read the size of ${backup.key}:`, error);
+        }
+      }));
+
+      backups.sort((a, b) => b.createdAt - a.createdAt);
+      return { backups, pendingRestore: this.getPendingRestore(), restoreFailure: this.getRestoreFailure() };
+    }
+
+    /**
+     * Restore /data from a specific backup.
+     * The restore itself is done by start-with-services.sh (via the file server's restore mode) on the
+     * next start, so a running server is stopped - which takes a safety backup first - and started again.
+     * A stopped server restores the backup the next time it is started.
+     */
+    public async restoreBackup({ key }: { key: string }): Promise<{ success: boolean; restarting: boolean }> {
+      const parsed = parseBackupKey(key);
+      if (!parsed || parsed.dirName !== 'data') {
+        throw new Error(`Invalid backup key: ${key}`);
+      }
+      // start-with-services.sh only restores backups of the world it is starting
+      if (!key.startsWith(`${worldBackupPrefix(this.getSelectedWorldId())}backups/`)) {
+        throw new Error("Backup belongs to a different world, switch to that world first");
+      }
+      const object = await (this.env as Env).DATA_BUCKET.head(key);
+      if (!object) {
+        throw new Error(`Backup not found: ${key}`);
+      }
+
+      const status = await this.getStatus();
+      if (status === 'starting' || status === 'stopping') {
+        throw new Error(`Cannot restore while the server is ${status}`);
+      }
+
+      this.setPendingRestore(key);
+      this.setRestoreFailure(null);
+      console.error(`Restore of ${key} scheduled for next start`);
+      if (status === 'stopped') {
+        return { success: true, restarting: false };
+      }
+
+      // Stopping includes a backup and can take minutes, don't hold up the caller
+      this.ctx.waitUntil(this.restartForRestore());
+      return { success: true, restarting: true };
+    }
+
+    private async restartForRestore(): Promise<void> {
+      try {
+        console.error("Stopping server to restore backup...");
+        await this.stop();
+        const deadline = Date.now() + 5 * 60 * 1000;
+        while (await this.getStatus() !== 'stopped') {
+          if (Date.now() > deadline) {
+            throw new Error("Server did not stop in time");
+          }
+          await new Promise(resolve => setTimeout(resolve, 1000));
+        }
+        console.error("Starting server to restore backup...");
+        await this.start();
+      } catch (error) {
+        console.error("Failed to restart server for restore:", error);
+      }
+    }
+
+    // =====================
+    // World profiles
+    // =====================
+
+    // Profiles live in state.worlds; before any profile is created the current world is the default profile
+    private getStoredWorlds(currentVersion?: string): WorldProfile[] {
+      try {
+        const result = this._sql.exec(
+          `SELECT json(COALESCE(jsonb_extract(json_data, '$.worlds'), jsonb('[]'))) as worlds, json_data->>'$.serverVersion' as version FROM state WHERE id = 1;`
+        ).one();
+        const worlds = array(WorldProfileSchema).parse(JSON.parse(result.worlds as string));
+        if (worlds.length > 0) {
+          return worlds;
+        }
+        return [defaultWorldProfile(currentVersion ?? (result.version as string | null) ?? "1.21.8")];
+      } catch (error) {
+        console.error("Failed to get world profiles:", error);
+        return [defaultWorldProfile(currentVersion ?? "1.21.8")];
+      }
+    }
+
+    private saveWorlds(worlds: WorldProfile[]): void {
+      this._sql.exec(
+        `UPDATE state SET json_data = jsonb_set(json_data, '$.worlds', jsonb(?)) WHERE id = 1`,
+        JSON.stringify(worlds)
+      );
+    }
+
+    private getSelectedWorldId(): string {
+      try {
+        const result = this._sql.exec(
+          `SELECT json_data->>'$.selectedWorldId' as selectedWorldId FROM state WHERE id = 1;`
+        ).one();
+        return (result?.selectedWorldId as string | null) ?? DEFAULT_WORLD_ID;
+      } catch (error) {
+        console.error("Failed to get selected world:", error);
+        return DEFAULT_WORLD_ID;
+      }
+    }
+
+    private getSelectedWorld(): WorldProfile {
+      const worlds = this.getStoredWorlds();
+      const selectedWorldId = this.getSelectedWorldId();
+      return worlds.find(w => w.id === selectedWorldId) ?? worlds[0];
+    }
+
+    // The world the container was last started with, backups of the running server belong to it
+    private getActiveWorldId(): string {
+      try {
+        const result = this._sql.exec(
+          `SELECT json_data->>'$.activeWorldId' as activeWorldId FROM state WHERE id = 1;`
+        ).one();
+        return (result?.activeWorldId as string | null) ?? this.getSelectedWorldId();
+      } catch (error) {
+        console.error("Failed to get active world:", error);
+        return this.getSelectedWorldId();
+      }
+    }
+
+    private setActiveWorldId(worldId: string): void {
+      this._sql.exec(
+        `UPDATE state SET json_data = jsonb_patch(json_data, jsonb(?)) WHERE id = 1`,
+        JSON.stringify({ activeWorldId: worldId })
+      );
+    }
+
+    /**
+     * List the world profiles.
+     */
+    public async listWorlds(): Promise<{ worlds: WorldProfile[]; selectedWorldId: string; activeWorldId: string }> {
+      return {
+        worlds: this.getStoredWorlds(),
+        selectedWorldId: this.getSelectedWorld().id,
+        activeWorldId: this.getActiveWorldId(),
+      };
+    }
+
+    /**
+     * Create a world profile. The world is generated (with its seed) the first time it is started.
+     */
+    public async createWorld(input: CreateWorld): Promise<WorldProfile> {
+      const parsed = CreateWorldSchema.parse(input);
+      const version = parsed.version ?? (await this.getServerVersion()).version;
+      if (!MinecraftContainer.SUPPORTED_VERSIONS.includes(version as any)) {
+        throw new Error(`Unsupported version: ${version}. Supported versions: ${MinecraftContainer.SUPPORTED_VERSIONS.join(", ")}`);
+      }
+      const worlds = this.getStoredWorlds();
+      const world: WorldProfile = {
+        id: worldIdFromName(parsed.name, worlds.map(w => w.id)),
+        name: parsed.name,
+        levelName: parsed.levelName,
+        seed: parsed.seed,
+        gameMode: parsed.gameMode,
+        difficulty: parsed.difficulty,
+        version,
+        createdAt: Date.now(),
+        archivedAt: null,
+      };
+      this.saveWorlds([...worlds, world]);
+      console.error(`Created world profile ${world.id}`);
+      return world;
+    }
+
+    /**
+     * Select the world to run. A running server is stopped (backing up the current world) and
+     * started again with the selected world's latest backup; a stopped server uses it on the next start.
+     */
+    public async selectWorld({ id }: { id: string }): Promise<{ success: boolean; restarting: boolean }> {
+      const world = this.getStoredWorlds().find(w => w.id === id);
+      if (!world) {
+        throw new Error(`World not found: ${id}`);
+      }
+      if (world.archivedAt !== null) {
+        throw new Error("Restore the world from the archive before switching to it");
+      }
+      const status = await this.getStatus();
+      if (status === 'starting' || status === 'stopping') {
+        throw new Error(`Cannot switch worlds while the server is ${status}`);
+      }
+      if (id === this.getSelectedWorldId()) {
+        return { success: true, restarting: false };
+      }
+      await this.ensureCatalogPluginsSupport(world.version, this.pluginFilenamesToEnable);
+
+      // A pending restore refers to a backup of the previous world
+      this.setPendingRestore(null);
+      this.setRestoreFailure(null);
+      this._sql.exec(
+        `UPDATE state SET json_data = jsonb_patch(json_data, jsonb(?)) WHERE id = 1`,
+        JSON.stringify({ selectedWorldId: id, serverVersion: world.version })
+      );
+      console.error(`Selected world ${id}`);
+      if (status === 'stopped') {
+        return { success: true, restarting: false };
+      }
+
+      // Stopping includes a backup and can take minutes, don't hold up the caller
+      this.ctx.waitUntil(this.restartForRestore());
+      return { success: true, restarting: true };
+    }
+
+    /**
+     * Archive a world (hide it from the switcher, its backups are kept) or bring it back.
+     */
+    public async archiveWorld({ id, archived }: { id: string; archived: boolean }): Promise<WorldProfile> {
+      const worlds = this.getStoredWorlds();
+      const world = worlds.find(w => w.id === id);
+      if (!world) {
+        throw new Error(`World not found: ${id}`);
+      }
+      const isRunningWorld = id === this.getActiveWorldId() && await this.getStatus() !== 'stopped';
+      if (archived && (id === this.getSelectedWorldId() || isRunningWorld)) {
+        throw new Error("Switch to another world before archiving this one");
+      }
+      const updated: WorldProfile = { ...world, archivedAt: archived ? Date.now() : null };
+      this.saveWorlds(worlds.map(w => w.id === id ? updated : w));
+      return updated;
+    }
+
+    // =====================
+    // Server settings
+    // =====================
+
+    private getStoredServerSettings(): ServerSettings {
+      const world = this.getSelectedWorld();
+      const worldSettings = { difficulty: world.difficulty, gameMode: world.gameMode };
+      try {
+        const result = this._sql.exec(
+          `SELECT json(COALESCE(jsonb_extract(json_data, '$.serverSettings'), jsonb('{}'))) as serverSettings FROM state WHERE id = 1;`
+        ).one();
+        const stored = JSON.parse(result.serverSettings as string);
+        return ServerSettingsSchema.parse({ ...DEFAULT_SERVER_SETTINGS, ...stored, ...worldSettings });
+      } catch (error) {
+        console.error("Failed to get server settings:", error);
+        return { ...DEFAULT_SERVER_SETTINGS, ...worldSettings };
+      }
+    }
+
+    /**
+     * Get the gameplay settings (server.properties) of the selected world. Works when container is stopped.
+     */
+    public async getServerSettings(): Promise<ServerSettings> {
+      return this.getStoredServerSettings();
+    }
+
+    /**
+     * Update gameplay settings. Difficulty and game mode are saved on the selected world profile.
+     * If the server is running that world, difficulty and whitelist are applied over RCON straight away;
+     * the other changes take effect on the next start.
+     */
+    public async setServerSettings(update: Partial<ServerSettings>): Promise<{ settings: ServerSettings; applied: ServerSetting[]; restartRequired: boolean }> {
+      const current = this.getStoredServerSettings();
+      const settings = ServerSettingsSchema.parse({ ...current, ...update });
+      const changed = (Object.keys(settings) as ServerSetting[]).filter(key => settings[key] !== current[key]);
+      if (changed.length === 0) {
+        return { settings, applied: [], restartRequired: false };
+      }
+
+      const { difficulty, gameMode, ...shared } = settings;
+      const worlds = this.getStoredWorlds();
+      const selectedWorldId = this.getSelectedWorld().id;
+      this.saveWorlds(worlds.map(w => w.id === selectedWorldId ? { ...w, difficulty, gameMode } : w));
+      this._sql.exec(
+        `UPDATE state SET json_data = jsonb_set(json_data, '$.serverSettings', jsonb(?)) WHERE id = 1`,
+        JSON.stringify(shared)
+      );
+
+      // Settings of another world apply when it is started
+      if (await this.getStatus() !== 'running' || selectedWorldId !== this.getActiveWorldId()) {
+        return { settings, applied: [], restartRequired: false };
+      }
+
+      const applied: ServerSetting[] = [];
+      for (const key of changed) {
+        const command = liveSettingCommand(key, settings[key]);
+        if (!command) {
+          continue;
+        }
+        const result = await this.executeRconCommand(command);
+        if (result.success) {
+          applied.push(key);
+        } else {
+          console.error(`Failed to apply ${key} over RCON:`, result.error);
+        }
+      }
+      return { settings, applied, restartRequired: applied.length < changed.length };
+    }
+
+    // =====================
+    // Moderation
+    // =====================
+
+    /**
+     * Read the whitelist, ops and ban lists from the server's JSON files. Requires the server to be running.
+     */
+    public async getModerationState(): Promise<ModerationState> {
+      if (await this.getStatus() !== 'running') {
+        throw new Error("The server must be running to read the player lists");
+      }
+      const [whitelist, ops, bannedPlayers, bannedIps] = await Promise.all([
+        this.getFileContents(MODERATION_FILES.whitelist),
+        this.getFileContents(MODERATION_FILES.ops),
+        this.getFileContents(MODERATION_FILES.bannedPlayers),
+        this.getFileContents(MODERATION_FILES.bannedIps),
+      ]);
+      return {
+        whitelistEnabled: this.getStoredServerSettings().whitelist,
+        whitelist: parseModerationFile(WhitelistEntrySchema, whitelist),
+        ops: parseModerationFile(OpEntrySchema, ops),
+        bannedPlayers: parseModerationFile(BannedPlayerSchema, bannedPlayers),
+        bannedIps: parseModerationFile(BannedIpSchema, bannedIps),
+      };
+    }
+
+    /**
+     * Add a player (or an IP for banned-ips) to a list or remove it, via RCON.
+     * The reason is only used when banning.
+     */
+    public async updateModerationList({ list, operation, target, reason }: { list: ModerationList; operation: 'add' | 'remove'; target: string; reason?: string }): Promise<{ success: boolean; output: string; command: string; error?: string }> {
+      return await this.executeRconCommand(moderationCommand(list, operation, target, reason));
+    }
+
+    /**
+     * Kick an online player with an optional reason
+     */
+    public async kickPlayer({ name, reason }: { name: string; reason?: string }): Promise<{ success: boolean; output: string; command: string; error?: string }> {
+      return await this.executeRconCommand(kickCommand(name, reason));
+    }
+
+    // =====================
+    // Uploaded plugins
+    // =====================
+
+    // Throws rather than returning an empty list when the stored list is unreadable, callers save the
+    // list they read and would lose every registered plugin
+    private getCustomPlugins(): CustomPlugin[] {
+      try {
+        const result = this._sql.exec(
+          `SELECT json(COALESCE(jsonb_extract(json_data, '$.customPlugins'), jsonb('[]'))) as customPlugins FROM state WHERE id = 1;`
+        ).one();
+        return array(CustomPluginSchema).parse(JSON.parse(result.customPlugins as string));
+      } catch (error) {
+        console.error("Failed to get custom plugins:", error);
+        throw new Error("Failed to read the registered custom plugins");
+      }
+    }
+
+    private saveCustomPlugins(plugins: CustomPlugin[]): void {
+      this._sql.exec(
+        `UPDATE state SET json_data = jsonb_set(json_data, '$.customPlugins', jsonb(?)) WHERE id = 1`,
+        JSON.stringify(plugins)
+      );
+    }
+
+    // Plugin env vars are passed to the container as-is, they must not replace the ones we set
+    // (envVars also holds the plugin env injected on start, those names are fine)
+    private validateCustomPluginEnv(requiredEnv: CustomPlugin['requiredEnv']): void {
+      const pluginEnvNames = this.getPluginSpecs().flatMap(spec => spec.requiredEnv.map(e => e.name));
+      const reserved = requiredEnv.filter(({ name }) => Object.hasOwn(this.envVars, name) && !pluginEnvNames.includes(name));
+      if (reserved.length > 0) {
+        throw new Error(`Reserved environment variable names: ${reserved.map(e => e.name).join(", ")}`);
+      }
+    }
+
+    /**
+     * List the uploaded plugins.
+     */
+    public async listCustomPlugins(): Promise<CustomPlugin[]> {
+      return this.getCustomPlugins();
+    }
+
+    /**
+     * Store an uploaded plugin jar in the data bucket and register it (or replace the jar of a registered plugin).
+     * ?filename= is the jar's name, ?displayName= defaults to it.
+     */
+    private async handleCustomPluginUpload(request: Request, url: URL): Promise<Response> {
+      const filename = customPluginFilename(url.searchParams.get("filename") || "");
+      if (!filename) {
+        return this.jsonError("Plugins must be .jar files named with letters, numbers, '.', '-' and '_'", 400);
+      }
+      if (PLUGIN_SPECS.some(spec => spec.filename === filename)) {
+        return this.jsonError(`${filename} is a built-in plugin`, 409);
+      }
+      const contentLength = parseInt(request.headers.get("Content-Length") || "0", 10);
+      if (!request.body || !contentLength) {
+        return this.jsonError("Missing upload body or Content-Length", 411);
+      }
+      if (contentLength > MAX_CUSTOM_PLUGIN_SIZE) {
+        return this.jsonError(`Plugins can be at most ${MAX_CUSTOM_PLUGIN_SIZE / (1024 * 1024)} MB`, 413);
+      }
+
+      const jar = new Uint8Array(await request.arrayBuffer());
+      let entries: string[] = [];
+      try {
+        entries = await listZipEntries(async (offset, length) => jar.subarray(offset, offset + length), jar.length);
+      } catch (error) {
+        console.error("Failed to read plugin jar:", error);
+      }
+      if (!isPluginJar(entries)) {
+        return this.jsonError("Not a Bukkit/Paper plugin (no plugin.yml or paper-plugin.yml in the jar)", 400);
+      }
+
+      const plugins = this.getCustomPlugins();
+      const existing = plugins.find(p => p.filename === filename);
+      const parsed = CustomPluginSchema.safeParse({
+        filename,
+        displayName: url.searchParams.get("displayName")?.trim() || existing?.displayName || filename,
+        requiredEnv: existing?.requiredEnv ?? [],
+        size: jar.length,
+        uploadedAt: Date.now(),
+      });
+      if (!parsed.success) {
+        const issue = parsed.error.issues[0];
+        return this.jsonError(`Invalid ${issue.path.join(".")}: ${issue.message}`, 400);
+      }
+      const plugin = parsed.data;
+
+      await (this.env as Env).DATA_BUCKET.put(customPluginKey(filename), jar);
+      this.saveCustomPlugins(existing
+        ? plugins.map(p => p.filename === filename ? plugin : p)
+        : [...plugins, plugin]);
+      console.error(`Custom plugin ${filename} uploaded (${(jar.length / 1024).toFixed(1)} KB)`);
+
+      return new Response(JSON.stringify({ success: true, plugin }), {
+        headers: { "Content-Type": "application/json" }
+      });
+    }
+
+    /**
+     * Change an uploaded plugin's display name or required environment variables
+     */
+    public async updateCustomPlugin({ filename, update }: { filename: string; update: CustomPluginUpdate }): Promise<CustomPlugin> {
+      const parsed = CustomPluginUpdateSchema.parse(update);
+      if (parsed.requiredEnv) {
+        this.validateCustomPluginEnv(parsed.requiredEnv);
+      }
+      const plugins = this.getCustomPlugins();
+      const existing = plugins.find(p => p.filename === filename);
+      if (!existing) {
+        throw new Error(`Custom plugin not found: ${filename}`);
+      }
+      const plugin: CustomPlugin = { ...existing, ...parsed };
+      this.saveCustomPlugins(plugins.map(p => p.filename === filename ? plugin : p));
+      return plugin;
+    }
+
+    /**
+     * Delete an uploaded plugin. It has to be disabled (and out of the running server) first.
+     */
+    public async deleteCustomPlugin({ filename }: { filename: string }): Promise<{ success: boolean }> {
+      const plugins = this.getCustomPlugins();
+      if (!plugins.some(p => p.filename === filename)) {
+        throw new Error(`Custom plugin not found: ${filename}`);
+      }
+      const inUse = this.pluginFilenamesToEnable.includes(filename)
+        || (await this.getStatus() !== 'stopped' && this.envVars.OPTIONAL_PLUGINS.split(" ").includes(filename));
+      if (inUse) {
+        throw new Error("Disable the plugin (and restart the server if it is running) before deleting it");
+      }
+      await (this.env as Env).DATA_BUCKET.delete(customPluginKey(filename));
+      this.saveCustomPlugins(plugins.filter(p => p.filename !== filename));
+      this._sql.exec(
+        `UPDATE state SET json_data = jsonb_remove(json_data, '$.pluginEnv."' || ? || '"') WHERE id = 1`,
+        filename
+      );
+      return { success: true };
+    }
+
+    // =====================
+    // Catalog plugins (Modrinth / Hangar)
+    // =====================
+
+    private get catalogFetch(): CatalogFetch {
+      return useCatalogFixture() ? fixtureCatalogFetch : (url, init) => fetch(url, init);
+    }
+
+    // Download a resolved build and check that it is a plugin, without storing anything yet
+    private async downloadCatalogJar(resolved: ResolvedPlugin): Promise<Uint8Array> {
+      const filename = catalogPluginFilename(resolved.source, resolved.slug);
+      if (PLUGIN_SPECS.some(spec => spec.filename === filename)) {
+        throw new Error(`${filename} is a built-in plugin`);
+      }
+      const jar = await downloadCatalogPlugin(resolved, MAX_CUSTOM_PLUGIN_SIZE, this.catalogFetch);
+      let entries: string[] = [];
+      try {
+        entries = await listZipEntries(async (offset, length) => jar.subarray(offset, offset + length), jar.length);
+      } catch (error) {
+        console.error("Failed to read plugin jar:", error);
+      }
+      if (!isPluginJar(entries)) {
+        throw new Error(`${resolved.title} ${resolved.versionNumber} is not a Bukkit/Paper plugin`);
+      }
+      return jar;
+    }
+
+    // Store downloaded builds in the data bucket and register them with their pinned versions in one go
+    private async storeCatalogPlugins(downloads: { resolved: ResolvedPlugin; jar: Uint8Array }[]): Promise<CustomPlugin[]> {
+      let plugins = this.getCustomPlugins();
+      const stored = downloads.map(({ resolved, jar }) => {
+        const filename = catalogPluginFilename(resolved.source, resolved.slug);
+        const existing = plugins.find(p => p.filename === filename);
+        return CustomPluginSchema.parse({
+          filename,
+          displayName: existing?.displayName ?? resolved.title.slice(0, 64),
+          requiredEnv: existing?.requiredEnv ?? [],
+          size: jar.length,
+          uploadedAt: Date.now(),
+          catalog: {
+            source: resolved.source,
+            projectId: resolved.projectId,
+            versionId: resolved.versionId,
+            versionNumber: resolved.versionNumber,
+            gameVersions: resolved.gameVersions,
+            pinnedAt: Date.now(),
+          },
+        } satisfies CustomPlugin);
+      });
+      await Promise.all(downloads.map(({ jar }, i) => (this.env as Env).DATA_BUCKET.put(customPluginKey(stored[i].filename), jar)));
+
+      for (const plugin of stored) {
+        plugins = plugins.some(p => p.filename === plugin.filename)
+          ? plugins.map(p => p.filename === plugin.filename ? plugin : p)
+          : [...plugins, plugin];
+      }
+      this.saveCustomPlugins(plugins);
+      for (const plugin of stored) {
+        console.error(`Pinned ${plugin.filename} to ${plugin.catalog!.source} version ${plugin.catalog!.versionNumber}`);
+      }
+      return stored;
+    }
+
+    /**
+     * Make sure the given catalog plugins have a build for a Minecraft version. Plugins whose pinned build
+     * doesn't support it are re-pinned to a compatible build; if any has none, nothing changes and this throws.
+     */
+    private async ensureCatalogPluginsSupport(gameVersion: string, filenames: string[]): Promise<void> {
+      const builds = await resolveCatalogRepins(
+        this.getCustomPlugins().filter(p => filenames.includes(p.filename)),
+        gameVersion,
+        this.catalogFetch
+      );
+      if (builds.length === 0) {
+        return;
+      }
+      // Every build is downloaded and checked before any pin changes
+      const downloads = await Promise.all(builds.map(async resolved => ({ resolved, jar: await this.downloadCatalogJar(resolved) })));
+      await this.storeCatalogPlugins(downloads);
+    }
+
+    /**
+     * Install (or update) a plugin from Modrinth or Hangar by project ID or slug, pinned to the newest build
+     * that supports the configured server version. Enable it like any other plugin.
+     */
+    public async installCatalogPlugin({ source, projectId }: { source: CatalogSource; projectId: string }): Promise<CustomPlugin> {
+      if (!CATALOG_SOURCES.includes(source)) {
+        throw new Error(`Unknown plugin catalog: ${source}`);
+      }
+      if (!/^[A-Za-z0-9_./-]{1,100}$/.test(projectId) || projectId.includes('..')) {
+        throw new Error(`Invalid project ID: ${projectId}`);
+      }
+      const { version } = await this.getServerVersion();
+      const resolved = await resolveCatalogPlugin({ source, projectId, gameVersion: version }, this.catalogFetch);
+      if (!resolved) {
+        throw new Error(`${projectId} has no ${source} build for Minecraft ${version}`);
+      }
+      const [plugin] = await this.storeCatalogPlugins([{ resolved, jar: await this.downloadCatalogJar(resolved) }]);
+      return plugin;
+    }
+
+    // =====================
+    // Server log
+    // =====================
+
+    private static readonly LOG_POLL_INTERVAL_MS = 2000;
+    private static readonly LOG_WATCH_INTERVAL_S = 5 * 60;
+    // How much of the end of latest.log is read for the recent entries
+    private static readonly LOG_BACKLOG_BYTES = 64 * 1024;
+
+    // Read position in latest.log for the log stream. It is saved with the session it belongs to so
+    // that after the Durable Object wakes up the stream continues where it left off and no server
+    // events are missed.
+    private logTail: { offset: number; last?: LogEntry } | null = null;
+    private logStreamRunning = false;
+
+    private getSavedLogTail(): { sessionId: number; offset: number; last?: LogEntry } | null {
+      const row = this._sql.exec(`SELECT json_data->>'$.logTail' as logTail FROM state WHERE id = 1;`).toArray()[0];
+      return row?.logTail ? JSON.parse(row.logTail as string) : null;
+    }
+
+    private saveLogTail(tail: { sessionId: number; offset: number; last?: LogEntry } | null): void {
+      this._sql.exec(
+        `UPDATE state SET json_data = jsonb_patch(json_data, jsonb(?)) WHERE id = 1`,
+        JSON.stringify({ logTail: tail })
+      );
+    }
+
+    private currentSessionId(): number | null {
+      const row = this._sql.exec(`SELECT id FROM container_sessions WHERE stopped_at IS NULL ORDER BY id DESC LIMIT 1`).toArray()[0];
+      return (row?.id as number | undefined) ?? null;
+    }
+
+    private async readLatestLog(offset: number): Promise<{ bytes: Uint8Array; start: number; size: number } | null> {
+      // Straight to the file server's port, containerFetch would renew the activity timeout and the
+      // log stream would keep the server from ever going to sleep
+      const port = this._container?.getTcpPort(8083);
+      if (!port) {
+        return null;
+      }
+      const response = await port.fetch(`http://localhost:8083${LATEST_LOG_PATH}?offset=${offset}`);
+      if (!response.ok) {
+        return null;
+      }
+      return {
+        bytes: new Uint8Array(await response.arrayBuffer()),
+        start: parseInt(response.headers.get('X-Range-Start') ?? '0', 10),
+        size: parseInt(response.headers.get('X-File-Size') ?? '0', 10),
+      };
+    }
+
+    // Parse the end of latest.log, assuming it is from today unless that puts it in the future
+    private parseLogTail(text: string, previous?: LogEntry): LogEntry[] {
+      if (previous) {
+        return parseLogLines(text, startOfDay(Date.parse(previous.time)), previous);
+      }
+      const today = startOfDay(Date.now());
+      const entries = parseLogLines(text, today);
+      return entries.length > 0 && Date.parse(entries[0].time) > Date.now() + 5 * 60 * 1000
+        ? parseLogLines(text, today - 24 * 60 * 60 * 1000)
+        : entries;
+    }
+
+    private logSubscribers(): Array<{ ws: WebSocket; filter: LogFilter }> {
+      return this.ctx.getWebSockets().flatMap(ws => {
+        const attachment = ws.deserializeAttachment() as { logFilter?: LogFilter } | null;
+        return attachment?.logFilter ? [{ ws, filter: attachment.logFilter }] : [];
+      });
+    }
+
+    /**
+     * The most recent entries of the current server log, newest last. Requires the container to be running.
+     */
+    public async getRecentLogEntries({ limit = 200, ...filter }: LogFilter & { limit?: number } = {}): Promise<LogEntry[]> {
+      if (await this.getStatus() === 'stopped') {
+        throw new Error("The server is not running");
+      }
+      const parsedFilter = LogFilterSchema.parse(filter);
+      const tail = await this.readLatestLog(-MinecraftContainer.LOG_BACKLOG_BYTES);
+      if (!tail) {
+        return [];
+      }
+      let text = new TextDecoder().decode(tail.bytes);
+      if (tail.start > 0) {
+        // Starts mid-line
+        text = text.slice(text.indexOf('\n') + 1);
+      }
+      return this.parseLogTail(text)
+        .filter(entry => matchesLogFilter(entry, parsedFilter))
+        .slice(-Math.min(Math.max(limit, 1), 1000));
+    }
+
+    private async subscribeToLogs(ws: WebSocket, filterInput: unknown): Promise<void> {
+      const filter = LogFilterSchema.parse(filterInput ?? {});
+      ws.serializeAttachment({ ...(ws.deserializeAttachment() ?? {}), logFilter: filter });
+      const entries = await this.getRecentLogEntries(filter).catch(() => []);
+      ws.send(JSON.stringify({ type: 'logs', backlog: true, entries }));
+      this.ensureLogStream();
+    }
+
+    private ensureLogStream() {
+      if (this.logStreamRunning) {
+        return;
+      }
+      this.logStreamRunning = true;
+      this.ctx.waitUntil(this.runLogStream().finally(() => {
+        this.logStreamRunning = false;
+      }));
+    }
+
+    // Poll latest.log while the server runs, pushing new entries to the subscribed sockets and
+    // recording the server events in them
+    private async runLogStream(): Promise<void> {
+      while (this._container?.running && await this.getStatus() !== 'stopped') {
+        try {
+          await this.pollLatestLog();
+        } catch (error) {
+          console.error("Failed to read the server log:", error);
+        }
+        await new Promise(resolve => setTimeout(resolve, MinecraftContainer.LOG_POLL_INTERVAL_MS));
+      }
+      this.logTail = null;
+    }
+
+    // Alarm callback (see Container.schedule), restarts the log stream if the Durable Object was
+    // restarted while the server runs. Must stay a method on this class.
+    async watchServerLog(): Promise<void> {
+      if (!this._container?.running || this.stopping) {
+        return;
+      }
+      this.ensureLogStream();
+      this.deleteSchedules('watchServerLog');
+      await this.schedule(MinecraftContainer.LOG_WATCH_INTERVAL_S, 'watchServerLog');
+    }
+
+    private async pollLatestLog(): Promise<void> {
+      const sessionId = this.currentSessionId();
+      if (sessionId === null) {
+        return;
+      }
+      // Without a read position (first poll of this Durable Object) the saved one is used if it is
+      // from this session, otherwise the log of the new run is read from the start. Subscribers got
+      // the recent entries when they subscribed, so entries read to catch up are not sent to them.
+      const catchingUp = !this.logTail;
+      if (!this.logTail) {
+        const saved = this.getSavedLogTail();
+        this.logTail = saved?.sessionId === sessionId ? { offset: saved.offset, last: saved.last } : { offset: 0 };
+      }
+      const chunk = await this.readLatestLog(this.logTail.offset);
+      if (!chunk) {
+        return;
+      }
+      if (chunk.start !== this.logTail.offset) {
+        // latest.log was rotated (server restarted), the previous entry belongs to the old file
+        this.logTail = { offset: chunk.start };
+      }
+      // Only read up to the last complete line, the rest is read again next time
+      const end = chunk.bytes.lastIndexOf(0x0a) + 1;
+      if (end === 0) {
+        return;
+      }
+      const entries = this.parseLogTail(new TextDecoder().decode(chunk.bytes.subarray(0, end)), this.logTail.last);
+      this.logTail = { offset: chunk.start + end, last: entries[entries.length - 1] ?? this.logTail.last };
+      this.saveLogTail({ sessionId, ...this.logTail });
+
+      this.recordLogEvents(entries);
+      if (catchingUp) {
+        return;
+      }
+      for (const { ws, filter } of this.logSubscribers()) {
+        const matching = entries.filter(entry => matchesLogFilter(entry, filter));
+        if (matching.length > 0) {
+          try {
+            ws.send(JSON.stringify({ type: 'logs', entries: matching }));
+          } catch (error) {
+            console.error("Failed to send log entries:", error);
+          }
+        }
+      }
+    }
+
+    private async readArchivedLog(name: string): Promise<string | null> {
+      const response = await this.containerFetch(`http://localhost:8083${LOG_DIR}/${name}`, 8083);
+      if (!response.ok || !response.body) {
+        return null;
+      }
+      return await new Response(response.body.pipeThrough(new DecompressionStream('gzip'))).text();
+    }
+
+    /**
+     * Search the archived logs (logs/*.log.gz) and the current log for entries in a time range.
+     * Archives are picked by the date in their name. Requires the container to be running.
+     */
+    public async searchLogs(input: LogSearch): Promise<{ entries: LogEntry[]; truncated: boolean; files: string[] }> {
+      const { from, to, limit, ...filter } = LogSearchSchema.parse(input);
+      if (await this.getStatus() === 'stopped') {
+        throw new Error("Start the server to search its logs");
+      }
+      const response = await this.containerFetch(`http://localhost:8083${LOG_DIR}?list_files=true`, 8083);
+      const listing = response.ok ? await response.json() as { files: Array<{ path: string }> } : { files: [] };
+      const dayMs = 24 * 60 * 60 * 1000;
+
+      // Oldest first; a log can run past midnight so include the day before the range
+      const archives = listing.files
+        .map(file => ({ name: file.path, day: archivedLogDay(file.path) }))
+        .filter((file): file is { name: string; day: number } => file.day !== null && file.day >= startOfDay(from) - dayMs && file.day <= to)
+        .sort((a, b) => a.day - b.day || a.name.localeCompare(b.name, undefined, { numeric: true }));
+
+      const sessionStart = this._sql.exec(`SELECT started_at FROM container_sessions ORDER BY id DESC LIMIT 1`).toArray()[0]?.started_at as number | undefined;
+      const sources: Array<{ name: string; read: () => Promise<LogEntry[]> }> = archives.map(file => ({
+        name: file.name,
+        read: async () => parseLogLines(await this.readArchivedLog(file.name) ?? '', file.day),
+      }));
+      if (sessionStart === undefined || to >= sessionStart) {
+        sources.push({
+          name: 'latest.log',
+          read: async () => parseLogLines(await this.getFileContents(LATEST_LOG_PATH) ?? '', startOfDay(sessionStart ?? Date.now())),
+        });
+      }
+
+      const entries: LogEntry[] = [];
+      for (const source of sources) {
+        for (const entry of await source.read()) {
+          const time = Date.parse(entry.time);
+          if (time < from || time > to || !matchesLogFilter(entry, filter)) {
+            continue;
+          }
+          if (entries.length >= limit) {
+            return { entries, truncated: true, files: sources.map(s => s.name) };
+          }
+          entries.push(entry);
+        }
+      }
+      return { entries, truncated: false, files: sources.map(s => s.name) };
+    }
+
+    // =====================
+    // Server events
+    // =====================
+
+    private static readonly EVENT_BACKLOG_SIZE = 50;
+
+    private rowToServerEvent(row: Record<string, unknown>): ServerEvent {
+      return {
+        id: row.id as number,
+        time: row.time as number,
+        type: row.type as ServerEvent['type'],
+        player: (row.player as string | null) ?? null,
+        message: row.message as string,
+        detail: (row.detail as string | null) ?? null,
+      };
+    }
+
+    // Derive server events from new log entries. Entries from before the current session are from
+    // the previous run's latest.log, read before the server rotated it.
+    private recordLogEvents(entries: LogEntry[]): void {
+      const sessionStart = this._sql.exec(`SELECT started_at FROM container_sessions WHERE stopped_at IS NULL ORDER BY id DESC LIMIT 1`).toArray()[0]?.started_at as number | undefined;
+      for (const entry of entries) {
+        const event = eventFromLogEntry(entry);
+        if (event && (sessionStart === undefined || event.time >= sessionStart - 60 * 1000)) {
+          this.recordServerEvent(event);
+        }
+      }
+    }
+
+    /**
+     * Store a server event and push it to the sockets subscribed to events. A server_stop right
+     * after another one is skipped: stop() records it and the log may have it too.
+     */
+    private recordServerEvent(event: NewServerEvent): void {
+      try {
+        if (event.type === 'server_stop') {
+          const last = this._sql.exec(`SELECT type FROM server_events WHERE type IN ('server_start', 'server_stop') ORDER BY id DESC LIMIT 1`).toArray()[0];
+          if (last?.type === 'server_stop') {
+            return;
+          }
+        }
+        const row = this._sql.exec(
+          `INSERT INTO server_events (time, type, player, message, detail) VALUES (?, ?, ?, ?, ?) RETURNING *`,
+          event.time, event.type, event.player, event.message, event.detail
+        ).one();
+        this._sql.exec(`DELETE FROM server_events WHERE time < ?`, Date.now() - EVENT_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+        this.trackPlayerSession(event);
+        this.ctx.waitUntil(this.broadcast(JSON.stringify({ type: 'event', event: this.rowToServerEvent(row) }), 'events'));
+      } catch (error) {
+        console.error("Failed to record server event:", error);
+      }
+    }
+
+    /**
+     * Server events of the last days (see EVENT_RETENTION_DAYS), newest first.
+     * Works while the server is stopped.
+     */
+    public async getServerEvents(query: ServerEventQuery = {}): Promise<ServerEvent[]> {
+      const { types, player, since, until, limit } = ServerEventQuerySchema.parse(query);
+      const conditions: string[] = [];
+      const params: Array<string | number> = [];
+      if (types && types.length > 0) {
+        conditions.push(`type IN (${types.map(() => '?').join(', ')})`);
+        params.push(...types);
+      }
+      if (player) {
+        conditions.push('player = ? COLLATE NOCASE');
+        params.push(player);
+      }
+      if (since !== undefined) {
+        conditions.push('time > ?');
+        params.push(since);
+      }
+      if (until !== undefined) {
+        conditions.push('time < ?');
+        params.push(until);
+      }
+      const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+      return this._sql.exec(
+        `SELECT * FROM server_events ${where} ORDER BY time DESC, id DESC LIMIT ?`,
+        ...params, limit
+      ).toArray().map(row => this.rowToServerEvent(row));
+    }
+
+    // The server is killed once the shutdown backup is done, so "Stopping server" rarely makes it to the log
+    private recordServerStop(): void {
+      this.recordServerEvent({ time: Date.now(), type: 'server_stop', player: null, message: 'Server stopped', detail: null });
+    }
+
+    private async subscribeToEvents(ws: WebSocket): Promise<void> {
+      ws.serializeAttachment({ ...(ws.deserializeAttachment() ?? {}), events: true });
+      const events = await this.getServerEvents({ limit: MinecraftContainer.EVENT_BACKLOG_SIZE });
+      ws.send(JSON.stringify({ type: 'events', backlog: true, events }));
+      this.ensureLogStream();
+    }
+
+    // =====================
+    // Player sessions
+    // =====================
+
+    // Keep player_sessions in step with the server events. Unlike the events, sessions are never
+    // deleted so playtime adds up over the server's lifetime.
+    private trackPlayerSession(event: NewServerEvent): void {
+      switch (event.type) {
+        case 'join':
+          // A join without a leave (e.g. the log was missed) ends the earlier session here
+          this._sql.exec(`UPDATE player_sessions SET left_at = ? WHERE player = ? AND left_at IS NULL`, event.time, event.player);
+          this._sql.exec(`INSERT INTO player_sessions (player, joined_at) VALUES (?, ?)`, event.player, event.time);
+          break;
+        case 'leave':
+          this._sql.exec(`UPDATE player_sessions SET left_at = MAX(joined_at, ?) WHERE player = ? AND left_at IS NULL`, event.time, event.player);
+          break;
+        case 'server_stop':
+          this._sql.exec(`UPDATE player_sessions SET left_at = MAX(joined_at, ?) WHERE left_at IS NULL`, event.time);
+          break;
+        case 'server_start':
+          // Still open after a crash, end them at the last thing the previous run logged
+          this._sql.exec(`
+            UPDATE player_sessions
+            SET left_at = MAX(joined_at, COALESCE((SELECT MAX(time) FROM server_events WHERE time < ? AND type != 'server_start'), joined_at))
+            WHERE left_at IS NULL
+          `, event.time);
+          break;
+      }
+    }
+
+    /**
+     * Playtime, session count and last seen per player (most playtime first) and the most players
+     * online at once on each of the last `days` days. Works while the server is stopped.
+     */
+    public async getPlayerStats({ days = DEFAULT_PEAK_DAYS }: { days?: number } = {}): Promise<PlayerStats> {
+      const now = Date.now();
+      const peakDays = Math.min(Math.max(Math.floor(days), 1), 90);
+      const players = this._sql.exec(`
+        SELECT
+          player,
+          SUM(COALESCE(left_at, ?) - joined_at) as playtime_ms,
+          COUNT(*) as sessions,
+          MAX(COALESCE(left_at, ?)) as last_seen,
+          MAX(left_at IS NULL) as online
+        FROM player_sessions
+        GROUP BY player
+        ORDER BY playtime_ms DESC, last_seen DESC
+      `, now, now).toArray().map(row => ({
+        player: row.player as string,
+        playtimeMs: row.playtime_ms as number,
+        sessions: row.sessions as number,
+        lastSeen: row.last_seen as number,
+        online: row.online === 1,
+      }));
+
+      const from = startOfDay(now) - (peakDays - 1) * 24 * 60 * 60 * 1000;
+      const sessions: PlayerSession[] = this._sql.exec(
+        `SELECT player, joined_at, left_at FROM player_sessions WHERE left_at IS NULL OR left_at >= ?`,
+        from
+      ).toArray().map(row => ({
+        player: row.player as string,
+        joinedAt: row.joined_at as number,
+        leftAt: (row.left_at as number | null) ?? null,
+      }));
+      return { players, dailyPeaks: dailyPeaks(sessions, peakDays, now) };
+    }
+
+    // =====================
+    // Costs and budget
+    // =====================
+
+    // Listing the buckets to measure storage costs operations too, measureR2Storage() runs this often
+    private static readonly R2_STORAGE_MEASURE_INTERVAL_S = 6 * 60 * 60;
+
+    private measuringR2Storage = false;
+
+    private getStoredCostModel(): CostModel {
+      const row = this._sql.exec(`SELECT json_data->>'$.costModel' as costModel FROM state WHERE id = 1;`).toArray()[0];
+      return row?.costModel ? CostModelSchema.parse(JSON.parse(row.costModel as string)) : DEFAULT_COST_MODEL;
+    }
+
+    private getStoredBudget(): Budget {
+      const row = this._sql.exec(`SELECT json_data->>'$.budget' as budget FROM state WHERE id = 1;`).toArray()[0];
+      return row?.budget ? BudgetSchema.parse(JSON.parse(row.budget as string)) : DEFAULT_BUDGET;
+    }
+
+    // Count R2 operations made through the S3 proxy (fetchFromR2) and by the storage measurement
+    private countR2Operations(opClass: R2OperationClass | null, count = 1): void {
+      if (!opClass) {
+        return;
+      }
+      try {
+        this._sql.exec(`
+          INSERT INTO r2_operations (month, op_class, count) VALUES (?, ?, ?)
+          ON CONFLICT (month, op_class) DO UPDATE SET count = count + excluded.count
+        `, monthKey(Date.now()), opClass, count);
+      } catch (error) {
+        console.error("Failed to count R2 operations:", error);
+      }
+    }
+
+    // Bytes stored in both buckets as last measured by measureR2Storage()
+    private getStoredR2Storage(): { bytes: number; measuredAt: number } | null {
+      const row = this._sql.exec(`SELECT json_data->>'$.r2Storage' as r2Storage FROM state WHERE id = 1;`).toArray()[0];
+      return row?.r2Storage ? JSON.parse(row.r2Storage as string) as { bytes: number; measuredAt: number } : null;
+    }
+
+    // Alarm callback (see Container.schedule), measures the bytes stored in both buckets. That lists
+    // every object, which takes a while for big buckets, so the cost summary and the budget check
+    // before a start use the last measurement instead. Must stay a method on this class.
+    async measureR2Storage(): Promise<void> {
+      if (this.measuringR2Storage) {
+        return;
+      }
+      this.measuringR2Storage = true;
+      this.deleteSchedules('measureR2Storage');
+      try {
+        let bytes = 0;
+        for (const bucket of [(this.env as Env).DATA_BUCKET, (this.env as Env).DYNMAP_BUCKET]) {
+          let cursor: string | undefined;
+          do {
+            const list = await bucket.list({ limit: 1000, ...(cursor ? { cursor } : {}) });
+            this.countR2Operations('A');
+            bytes += list.objects.reduce((total, object) => total + object.size, 0);
+            cursor = list.truncated ? list.cursor : undefined;
+          } while (cursor);
+        }
+        this._sql.exec(
+          `UPDATE state SET json_data = jsonb_patch(json_data, jsonb(?)) WHERE id = 1`,
+          JSON.stringify({ r2Storage: { bytes, measuredAt: Date.now() } })
+        );
+      } catch (error) {
+        console.error("Failed to measure R2 storage:", error);
+      } finally {
+        this.measuringR2Storage = false;
+        await this.schedule(MinecraftContainer.R2_STORAGE_MEASURE_INTERVAL_S, 'measureR2Storage');
+      }
+    }
+
+    /**
+     * Estimated cost of this calendar month (UTC) so far and how it compares to the monthly budget.
+     * blocked is true when starting the server is refused (budget exceeded and not overridden this month).
+     */
+    public async getCostSummary(): Promise<{
+      month: string;
+      usage: MonthlyUsage;
+      estimate: CostEstimate;
+      costModel: CostModel;
+      budget: Budget;
+      level: BudgetLevel;
+      overridden: boolean;
+      blocked: boolean;
+      storageMeasuredAt: number | null;
+    }> {
+      const month = monthKey(Date.now());
+      const costModel = this.getStoredCostModel();
+      const budget = this.getStoredBudget();
+      const operations = Object.fromEntries(
+        this._sql.exec(`SELECT op_class, count FROM r2_operations WHERE month = ?`, month).toArray()
+          .map(row => [row.op_class as string, row.count as number])
+      );
+      const storage = this.getStoredR2Storage();
+      // The alarm keeps the measurement current, this starts it the first time or if the alarm was lost
+      if (!storage || Date.now() - storage.measuredAt > 2 * MinecraftContainer.R2_STORAGE_MEASURE_INTERVAL_S * 1000) {
+        this.ctx.waitUntil(this.measureR2Storage());
+      }
+      const usage: MonthlyUsage = {
+        instanceHours: (await this.getUsageStats()).thisMonth,
+        storageBytes: storage?.bytes ?? 0,
+        classAOperations: operations.A ?? 0,
+        classBOperations: operations.B ?? 0,
+      };
+      const estimate = estimateCost(costModel, usage);
+      const level = budgetLevel(budget, estimate.total);
+      const overrideRow = this._sql.exec(`SELECT json_data->>'$.budgetOverrideMonth' as month FROM state WHERE id = 1;`).toArray()[0];
+      const overridden = overrideRow?.month === month;
+      return {
+        month,
+        usage,
+        estimate,
+        costModel,
+        budget,
+        level,
+        overridden,
+        blocked: level === 'exceeded' && !overridden,
+        storageMeasuredAt: storage?.measuredAt ?? null,
+      };
+    }
+
+    /**
+     * Update the rates used for the cost estimate
+     */
+    public async setCostModel(model: Partial<CostModel>): Promise<CostModel> {
+      const parsed = CostModelSchema.parse({ ...this.getStoredCostModel(), ...definedFields(model) });
+      this._sql.exec(
+        `UPDATE state SET json_data = jsonb_patch(json_data, jsonb(?)) WHERE id = 1`,
+        JSON.stringify({ costModel: parsed })
+      );
+      return parsed;
+    }
+
+    /**
+     * Update the monthly budget, a monthlyLimit of null removes it
+     */
+    public async setBudget(budget: Partial<Budget>): Promise<Budget> {
+      const parsed = BudgetSchema.parse({ ...this.getStoredBudget(), ...definedFields(budget) });
+      this._sql.exec(
+        `UPDATE state SET json_data = jsonb_patch(json_data, jsonb(?)) WHERE id = 1`,
+        JSON.stringify({ budget: parsed })
+      );
+      return parsed;
+    }
+
+    /**
+     * Allow starting the server for the rest of this calendar month even though the budget is exceeded
+     */
+    public async overrideBudget(): Promise<{ success: boolean; month: string }> {
+      const month = monthKey(Date.now());
+      this._sql.exec(
+        `UPDATE state SET json_data = jsonb_patch(json_data, jsonb(?)) WHERE id = 1`,
+        JSON.stringify({ budgetOverrideMonth: month })
+      );
+      return { success: true, month };
+    }
+
+    // Refuse to start a stopped server once this month's estimate is over budget
+    private async requireWithinBudget(): Promise<void> {
+      const summary = await this.getCostSummary();
+      if (summary.blocked) {
+        throw new Error(
+          `This month's estimated cost ($${summary.estimate.total.toFixed(2)}) is over the $${summary.budget.monthlyLimit!.toFixed(2)} budget. ` +
+          `Raise the budget or allow starts for the rest of the month.`
+        );
+      }
+    }
+
+    // =====================
+    // Auto-sleep
+    // =====================
+
+    private static readonly PRESENCE_CHECK_INTERVAL_S = 60;
+
+    // Since when no players have been online, in memory only: if the Durable Object restarts the
+    // idle period starts over, which errs on the side of keeping the server up
+    private idleSince: number | null = null;
+
+    private getStoredAutoSleep(): AutoSleep {
+      const row = this._sql.exec(`SELECT json_data->>'$.autoSleep' as autoSleep FROM state WHERE id = 1;`).toArray()[0];
+      return row?.autoSleep ? AutoSleepSchema.parse(JSON.parse(row.autoSleep as string)) : DEFAULT_AUTO_SLEEP;
+    }
+
+    /**
+     * The auto-sleep settings, and while the server is idle when it will stop
+     */
+    public async getAutoSleep(): Promise<AutoSleep & { idleSince: number | null; stopsAt: number | null }> {
+      const settings = this.getStoredAutoSleep();
+      const idle = settings.enabled ? this.idleSince : null;
+      return { ...settings, idleSince: idle, stopsAt: idle === null ? null : idle + settings.idleMinutes * 60 * 1000 };
+    }
+
+    /**
+     * Update the auto-sleep settings. Takes effect immediately if the server is running.
+     */
+    public async setAutoSleep(update: Partial<AutoSleep>): Promise<AutoSleep & { idleSince: number | null; stopsAt: number | null }> {
+      const parsed = AutoSleepSchema.parse({ ...this.getStoredAutoSleep(), ...definedFields(update) });
+      this._sql.exec(
+        `UPDATE state SET json_data = jsonb_patch(json_data, jsonb(?)) WHERE id = 1`,
+        JSON.stringify({ autoSleep: parsed })
+      );
+      await this.checkPlayerPresence();
+      return await this.getAutoSleep();
+    }
+
+    // Requests to the container renew the activity timeout, with player-based auto-sleep on they
+    // are ignored and checkPlayerPresence() decides when to stop
+    override async onActivityExpired(): Promise<void> {
+      if (this.getStoredAutoSleep().enabled || !this._container?.running || this.inPlayWindow(Date.now())) {
+        return;
+      }
+      console.error("No activity for", this.sleepAfter, "stopping the server");
+      await this.stop();
+    }
+
+    private async sayInGame(message: string): Promise<void> {
+      const result = await this.executeRconCommand(`say ${message}`);
+      if (!result.success) {
+        console.error("Failed to announce in game:", result.error);
+      }
+    }
+
+    // Alarm callback (see Container.schedule), counts the players online and stops the server once
+    // there have been none for idleMinutes. Must stay a method on this class.
+    async checkPlayerPresence(): Promise<void> {
+      this.deleteSchedules('checkPlayerPresence');
+      const settings = this.getStoredAutoSleep();
+      if (!settings.enabled || !this._container?.running || this.stopping) {
+        this.idleSince = null;
+        return;
+      }
+      const interval = MinecraftContainer.PRESENCE_CHECK_INTERVAL_S;
+      const now = Date.now();
+
+      // The play schedule keeps the server up for the whole window, empty or not
+      if (this.inPlayWindow(now)) {
+        this.idleSince = null;
+        await this.schedule(interval, 'checkPlayerPresence');
+        return;
+      }
+
+      const session = await this.getCurrentSession();
+      const graceEnd = (session?.startedAt ?? now) + settings.graceMinutes * 60 * 1000;
+      if (now < graceEnd) {
+        this.idleSince = null;
+        await this.schedule(Math.min(interval, Math.ceil((graceEnd - now) / 1000)), 'checkPlayerPresence');
+        return;
+      }
+
+      // A server that doesn't answer RCON counts as empty, so a hung server still goes to sleep
+      const status = await this.getRconStatus();
+      const players = status.playerCount ?? (status.online ? null : 0);
+      if (players !== null && players > 0) {
+        if (this.idleSince !== null && now - this.idleSince >= (settings.idleMinutes * 60 - settings.warningSeconds) * 1000) {
+          await this.sayInGame("Welcome back, the server will keep running");
+        }
+        this.idleSince = null;
+      } else if (players === 0) {
+        this.idleSince ??= now;
+      }
+
+      let next = interval;
+      if (this.idleSince !== null) {
+        const remaining = Math.ceil((this.idleSince + settings.idleMinutes * 60 * 1000 - now) / 1000);
+        if (remaining <= 0) {
+          console.error(`No players online for ${settings.idleMinutes} minutes, stopping the server`);
+          await this.sayInGame("No players online, stopping the server");
+          this.idleSince = null;
+          this.ctx.waitUntil(this.stop());
+          return;
+        }
+        if (remaining <= settings.warningSeconds) {
+          await this.sayInGame(`No players online, the server stops in ${formatCountdown(countdownAnnouncement(remaining, settings.warningSeconds))}. Join to keep it running.`);
+        }
+        next = secondsToNextCheck(remaining, settings.warningSeconds, interval);
+      }
+      await this.schedule(next, 'checkPlayerPresence');
+    }
+
+    // =====================
+    // Play schedule
+    // =====================
+
+    private getStoredPlaySchedule(): PlaySchedule {
+      const row = this._sql.exec(`SELECT json_data->>'$.playSchedule' as playSchedule FROM state WHERE id = 1;`).toArray()[0];
+      return row?.playSchedule ? PlayScheduleSchema.parse(JSON.parse(row.playSchedule as string)) : DEFAULT_PLAY_SCHEDULE;
+    }
+
+    // End of the window the schedule started (or kept) the server for, null when the server isn't
+    // running because of the schedule. Only then does the end of a window stop it.
+    private getPlayScheduleActiveUntil(): number | null {
+      const row = this._sql.exec(`SELECT json_data->>'$.playScheduleActiveUntil' as activeUntil FROM state WHERE id = 1;`).toArray()[0];
+      return typeof row?.activeUntil === 'number' ? row.activeUntil : null;
+    }
+
+    private setPlayScheduleActiveUntil(activeUntil: number | null): void {
+      this._sql.exec(
+        `UPDATE state SET json_data = jsonb_patch(json_data, jsonb(?)) WHERE id = 1`,
+        JSON.stringify({ playScheduleActiveUntil: activeUntil })
+      );
+    }
+
+    /**
+     * The play schedule, with the window happening now and the next one
+     */
+    public async getPlaySchedule(): Promise<PlaySchedule & { current: WindowOccurrence | null; next: WindowOccurrence | null }> {
+      const schedule = this.getStoredPlaySchedule();
+      return { ...schedule, ...currentAndNextWindow(schedule, Date.now()) };
+    }
+
+    /**
+     * Update the play schedule. A server that is running when its window is removed keeps running
+     * and goes to sleep as usual.
+     */
+    public async setPlaySchedule(update: Partial<PlaySchedule>): Promise<PlaySchedule & { current: WindowOccurrence | null; next: WindowOccurrence | null }> {
+      const parsed = PlayScheduleSchema.parse({ ...this.getStoredPlaySchedule(), ...definedFields(update) });
+      this._sql.exec(
+        `UPDATE state SET json_data = jsonb_patch(json_data, jsonb(?)) WHERE id = 1`,
+        JSON.stringify({ playSchedule: parsed })
+      );
+      if (!this.inPlayWindow(Date.now())) {
+        this.setPlayScheduleActiveUntil(null);
+      }
+      await this.runPlaySchedule();
+      return await this.getPlaySchedule();
+    }
+
+    // Whether a window is happening, or starts within the pre-start time
+    private inPlayWindow(now: number): boolean {
+      const schedule = this.getStoredPlaySchedule();
+      const { current, next } = currentAndNextWindow(schedule, now);
+      return current !== null || (next !== null && now >= next.start - schedule.prestartMinutes * 60 * 1000);
+    }
+
+    // Alarm callback (see Container.schedule), starts the server ahead of a window and stops it when
+    // the window is over, then waits for the next of those moments. Must stay a method on this class.
+    async runPlaySchedule(): Promise<void> {
+      this.deleteSchedules('runPlaySchedule');
+      const schedule = this.getStoredPlaySchedule();
+      const now = Date.now();
+      const { current, next } = currentAndNextWindow(schedule, now);
+      const prestartAt = next ? next.start - schedule.prestartMinutes * 60 * 1000 : null;
+
+      if (current || (next && prestartAt !== null && now >= prestartAt)) {
+        this.setPlayScheduleActiveUntil(current?.end ?? next!.end);
+        if (await this.getStatus() === 'stopped') {
+          console.error("Starting the server for a scheduled play window");
+          try {
+            await this.start();
+          } catch (error) {
+            // E.g. over budget, the next window tries again
+            console.error("Failed to start the server for a scheduled play window:", error);
+          }
+        }
+      } else if (this.getPlayScheduleActiveUntil() !== null) {
+        this.setPlayScheduleActiveUntil(null);
+        const status = await this.getStatus();
+        if (status === 'running' || status === 'starting') {
+          console.error("Scheduled play window is over, stopping the server");
+          await this.sayInGame("The scheduled play time is over, stopping the server");
+          // stop() takes a backup first
+          this.ctx.waitUntil(this.stop());
+        }
+      }
+
+      const wakeUps = [current?.end, prestartAt, next?.start].filter((time): time is number => time != null && time > now);
+      if (wakeUps.length > 0) {
+        await this.schedule(new Date(Math.min(...wakeUps)), 'runPlaySchedule');
+      }
+    }
+
+    // =====================
+    // Plugin config editor
+    // =====================
+
+    // The config files are only reachable through the file server while the container runs
+    private async requirePluginConfigAccess(): Promise<void> {
+      if (await this.getStatus() === 'stopped') {
+        throw new Error("Start the server to edit plugin configs");
+      }
+    }
+
+    private pluginConfigFormat(path: string): ConfigFormat {
+      const format = isConfigPath(path) ? configFormat(path) : null;
+      if (!format) {
+        throw new Error(`Not an editable plugin config: ${path}`);
+      }
+      return format;
+    }
+
+    private getPreviousPluginConfig(path: string): { content: string; savedAt: number } | null {
+      const row = this._sql.exec(
+        `SELECT content, saved_at FROM plugin_config_versions WHERE path = ?`, path
+      ).toArray()[0];
+      return row ? { content: row.content as string, savedAt: row.saved_at as number } : null;
+    }
+
+    private async writePluginConfig(path: string, content: string): Promise<void> {
+      const response = await this.containerFetch(new Request(`http://localhost:8083${PLUGINS_DIR}/${path}`, {
+        method: 'PUT',
+        body: content,
+      }), 8083);
+      if (!response.ok) {
+        const result = await response.json().catch(() => null) as { error?: string } | null;
+        throw new Error(result?.error ?? `Failed to write ${path}: ${response.status}`);
+      }
+    }
+
+    /**
+     * List the config files (YAML, .properties and JSON) in the plugin folders. Requires the container to be running.
+     */
+    public async listPluginConfigs(): Promise<{ folders: PluginConfigFolder[]; truncated: boolean }> {
+      await this.requirePluginConfigAccess();
+      const response = await this.containerFetch(`http://localhost:8083${PLUGINS_DIR}?list_files=true`, 8083);
+      if (response.status === 404) {
+        return { folders: [], truncated: false };
+      }
+      if (!response.ok) {
+        throw new Error(`Failed to list plugin configs: ${response.status}`);
+      }
+      const listing = await response.json() as { files: Array<{ path: string; size: number; modified: number }>; truncated: boolean };
+      const withPrevious = new Set(
+        this._sql.exec(`SELECT path FROM plugin_config_versions`).toArray().map(row => row.path as string)
+      );
+
+      const folders = new Map<string, PluginConfigFile[]>();
+      for (const file of listing.files) {
+        const format = isConfigPath(file.path) ? configFormat(file.path) : null;
+        if (!format || file.size > MAX_CONFIG_SIZE) {
+          continue;
+        }
+        const folder = file.path.split('/')[0];
+        folders.set(folder, [...(folders.get(folder) ?? []), {
+          path: file.path,
+          format,
+          size: file.size,
+          modified: file.modified,
+          readOnlyReason: readOnlyReason(file.path),
+          hasPrevious: withPrevious.has(file.path),
+        }]);
+      }
+      return {
+        folders: [...folders.entries()].map(([folder, files]) => ({ folder, files })),
+        truncated: listing.truncated,
+      };
+    }
+
+    /**
+     * Read a plugin config with its parsed structure (or syntax errors) and when the previous version was replaced
+     */
+    public async getPluginConfig({ path }: { path: string }): Promise<{
+      path: string;
+      format: ConfigFormat;
+      content: string;
+      valid: boolean;
+      parsed: unknown;
+      errors: ConfigError[];
+      readOnlyReason: string | null;
+      previous: { savedAt: number; diff: DiffHunk[] } | null;
+    }> {
+      const format = this.pluginConfigFormat(path);
+      await this.requirePluginConfigAccess();
+      const content = await this.getFileContents(`${PLUGINS_DIR}/${path}`);
+      if (content === null) {
+        throw new Error(`Config file not found: ${path}`);
+      }
+      const { valid, parsed, errors } = parseConfig(format, content);
+      const previous = this.getPreviousPluginConfig(path);
+      return {
+        path,
+        format,
+        content,
+        valid,
+        parsed,
+        errors,
+        readOnlyReason: readOnlyReason(path),
+        previous: previous ? { savedAt: previous.savedAt, diff: diffLines(previous.content, content) } : null,
+      };
+    }
+
+    /**
+     * Replace a plugin config. The content is syntax-checked first and nothing is written if it has errors;
+     * the replaced content is kept for revertPluginConfig. With dryRun only the check and diff are returned.
+     * Plugins read their config when the server starts, so changes need a restart (or the plugin's reload command).
+     */
+    public async savePluginConfig({ path, content, dryRun = false }: { path: string; content: string; dryRun?: boolean }): Promise<{
+      saved: boolean;
+      valid: boolean;
+      errors: ConfigError[];
+      diff: DiffHunk[];
+    }> {
+      const format = this.pluginConfigFormat(path);
+      await this.requirePluginConfigAccess();
+      const reason = readOnlyReason(path);
+      if (reason) {
+        throw new Error(`${path} can't be edited: ${reason}`);
+      }
+      if (typeof content !== 'string' || content.length > MAX_CONFIG_SIZE) {
+        throw new Error(`Config content must be text of at most ${MAX_CONFIG_SIZE / 1024} KB`);
+      }
+      const current = await this.getFileContents(`${PLUGINS_DIR}/${path}`);
+      if (current === null) {
+        throw new Error(`Config file not found: ${path}`);
+      }
+      const { valid, errors } = parseConfig(format, content);
+      const diff = diffLines(current, content);
+      if (!valid || dryRun || diff.length === 0) {
+        return { saved: false, valid, errors, diff };
+      }
+
+      await this.writePluginConfig(path, content);
+      this._sql.exec(
+        `INSERT OR REPLACE INTO plugin_config_versions (path, content, saved_at) VALUES (?, ?, ?)`,
+        path, current, Date.now()
+      );
+      console.error(`Saved plugin config ${path}`);
+      return { saved: true, valid, errors, diff };
+    }
+
+    /**
+     * Put back the version a plugin config had before its last save. Reverting again restores the saved version.
+     */
+    public async revertPluginConfig({ path }: { path: string }): Promise<{ success: boolean; diff: DiffHunk[] }> {
+      this.pluginConfigFormat(path);
+      await this.requirePluginConfigAccess();
+      const previous = this.getPreviousPluginConfig(path);
+      if (!previous) {
+        throw new Error(`No previous version of ${path}`);
+      }
+      const current = await this.getFileContents(`${PLUGINS_DIR}/${path}`);
+      await this.writePluginConfig(path, previous.content);
+      if (current === null) {
+        this._sql.exec(`DELETE FROM plugin_config_versions WHERE path = ?`, path);
+      } else {
+        this._sql.exec(
+          `INSERT OR REPLACE INTO plugin_config_versions (path, content, saved_at) VALUES (?, ?, ?)`,
+          path, current, Date.now()
+        );
+      }
+      console.error(`Reverted plugin config ${path}`);
+      return { success: true, diff: diffLines(current ?? '', previous.content) };
+    }
+
+    // =====================
+    // World download and import
+    // =====================
+
+    private jsonError(error: string, status: number): Response {
+      return new Response(JSON.stringify({ success: false, error }), {
+        status,
+        headers: { "Content-Type": "application/json" }
+      });
+    }
+
+    /**
+     * Stream a /data backup (the latest one unless ?key= is given) as a download.
+     * Full backups are streamed straight from R2; incremental backups are assembled into an
+     * uncompressed tar from their base tarball and content-addressed files. Works when container is stopped.
+     */
+    private async handleWorldDownload(url: URL): Promise<Response> {
+      const bucket = (this.env as Env).DATA_BUCKET;
+      const key = url.searchParams.get("key") || (await this.listBackups()).backups[0]?.key;
+      if (!key) {
+        return this.jsonError("No backups available to download", 404);
+      }
+      const parsed = parseBackupKey(key);
+      if (!parsed || parsed.dirName !== 'data') {
+        return this.jsonError(`Invalid backup key: ${key}`, 400);
+      }
+      const stamp = new Date(parsed.createdAt).toISOString().slice(0, 16).replace(/[-:]/g, "").replace("T", "-");
+
+      if (parsed.format === 'tarball') {
+        const object = await bucket.get(key);
+        if (!object) {
+          return this.jsonError(`Backup not found: ${key}`, 404);
+        }
+        return new Response(object.body as unknown as ReadableStream, {
+          headers: {
+            "Content-Type": "application/gzip",
+            "Content-Length": object.size.toString(),
+            "Content-Disposition": `attachment; filename="mineflare-world-${stamp}.tar.gz"`,
+          }
+        });
+      }
+
+      const manifest = await this.readBackupManifest(key);
+      if (!manifest) {
+        return this.jsonError(`Backup not found: ${key}`, 404);
+      }
+      const body = incrementalBackupTarStream(
+        manifest,
+        async (objectKey) => (await bucket.get(objectKey))?.body as unknown as ReadableStream ?? null,
+        chunkKey
+      );
+      return new Response(body, {
+        headers: {
+          "Content-Type": "application/x-tar",
+          "Content-Disposition": `attachment; filename="mineflare-world-${stamp}.tar"`,
+        }
+      });
+    }
+
+    /**
+     * Accept a world archive upload (?filename=world.zip|.tar.gz), store it in the data bucket and
+     * check it contains a level.dat. The world is swapped in by start-with-services.sh on the next
+     * start, so a running server is restarted (taking a backup of the current world first).
+     */
+    private async handleWorldImport(request: Request, url: URL): Promise<Response> {
+      const filename = (url.searchParams.get("filename") || "").split(/[\\/]/).pop() || "";
+      const format = worldArchiveFormat(filename);
+      if (!format) {
+        return this.jsonError("World archives must be .zip, .tar.gz or .tgz files", 400);
+      }
+      const contentLength = parseInt(request.headers.get("Content-Length") || "0", 10);
+      if (!request.body || !contentLength) {
+        return this.jsonError("Missing upload body or Content-Length", 411);
+      }
+      const status = await this.getStatus();
+      if (status === 'starting' || status === 'stopping') {
+        return this.jsonError(`Cannot import a world while the server is ${status}`, 409);
+      }
+
+      const bucket = (this.env as Env).DATA_BUCKET;
+      const safeName = filename.replace(/[^A-Za-z0-9._-]/g, "_");
+      const key = `${IMPORT_PREFIX}${Date.now()}_${safeName}`;
+
+      // Use multipart upload for files larger than 50MB, same as the S3 PUT path
+      const MULTIPART_THRESHOLD = 50 * 1024 * 1024;
+      if (contentLength > MULTIPART_THRESHOLD) {
+        const uploadResponse = await this.handleLargeUpload(bucket, key, request.body, contentLength, null);
+        if (!uploadResponse.ok) {
+          return this.jsonError(await uploadResponse.text(), uploadResponse.status);
+        }
+      } else {
+        await bucket.put(key, request.body as unknown as ReadableStream);
+      }
+      console.error(`World archive uploaded to ${key} (${(contentLength / (1024 * 1024)).toFixed(2)} MB)`);
+
+      let levelDatPath: string | null = null;
+      try {
+        levelDatPath = await this.findLevelDatInArchive(key, format, contentLength);
+      } catch (error) {
+        console.error("Failed to read world archive:", error);
+      }
+      if (!levelDatPath) {
+        await bucket.delete(key);
+        return this.jsonError("The archive does not contain a Minecraft world (no level.dat found)", 400);
+      }
+
+      const previous = this.getPendingImport();
+      if (previous && previous.key !== key) {
+        await bucket.delete(previous.key);
+      }
+      const pendingImport: PendingWorldImport = {
+        key,
+        filename,
+        format,
+        size: contentLength,
+        levelDatPath,
+        uploadedAt: Date.now(),
+      };
+      this.setPendingImport(pendingImport);
+      console.error(`World import of ${key} (level.dat at ${levelDatPath}) scheduled for next start`);
+
+      const restarting = status === 'running';
+      if (restarting) {
+        // Stopping includes a backup and can take minutes, don't hold up the upload
+        this.ctx.waitUntil(this.restartForRestore());
+      }
+      return new Response(JSON.stringify({ success: true, import: pendingImport, restarting }), {
+        headers: { "Content-Type": "application/json" }
+      });
+    }
+
+    private async findLevelDatInArchive(key: string, format: WorldArchiveFormat, size: number): Promise<string | null> {
+      const bucket = (this.env as Env).DATA_BUCKET;
+      if (format === 'zip') {
+        const names = await listZipEntries(async (offset, length) => {
+          const object = await bucket.get(key, { range: { offset, length } });
+          if (!object) {
+            throw new Error(`Archive not found: ${key}`);
+          }
+          return new Uint8Array(await object.arrayBuffer());
+        }, size);
+        return selectLevelDat(names);
+      }
+      const object = await bucket.get(key);
+      if (!object) {
+        throw new Error(`Archive not found: ${key}`);
+      }
+      return await findLevelDatInTarGz(object.body as unknown as ReadableStream);
+    }
+
+    // World archive to import on the next start
+    private getPendingImport(): PendingWorldImport | null {
+      try {
+        const result = this._sql.exec(
+          `SELECT json(jsonb_extract(json_data, '$.pendingImport')) as pendingImport FROM state WHERE id = 1;`
+        ).one();
+        return result?.pendingImport ? JSON.parse(result.pendingImport as string) as PendingWorldImport : null;
+      } catch (error) {
+        console.error("Failed to get pending import:", error);
+        return null;
+      }
+    }
+
+    private setPendingImport(pendingImport: PendingWorldImport | null): void {
+      // jsonb_set rather than a merge patch so the whole object is replaced
+      if (pendingImport) {
+        this._sql.exec(
+          `UPDATE state SET json_data = jsonb_set(json_data, '$.pendingImport', jsonb(?)) WHERE id = 1`,
+          JSON.stringify(pendingImport)
+        );
+      } else {
+        this._sql.exec(
+          `UPDATE state SET json_data = jsonb_remove(json_data, '$.pendingImport') WHERE id = 1`
+        );
+      }
+    }
+
+    /**
+     * Get the world archive waiting to be imported on the next start, if any.
+     */
+    public async getWorldImport(): Promise<PendingWorldImport | null> {
+      return this.getPendingImport();
+    }
+
+    /**
+     * Cancel a pending world import and delete the uploaded archive.
+     */
+    public async cancelWorldImport(): Promise<{ success: boolean }> {
+      const pendingImport = this.getPendingImport();
+      if (!pendingImport) {
+        return { success: true };
+      }
+      const status = await this.getStatus();
+      if (status === 'starting') {
+        throw new Error("Cannot cancel the import while the server is starting");
+      }
+      this.setPendingImport(null);
+      await (this.env as Env).DATA_BUCKET.delete(pendingImport.key);
+      return { success: true };
+    }
+
+    async webSocketMessage(ws: WebSocket, message: ArrayBuffer | string) {
+      const messageString = message instanceof ArrayBuffer ? new TextDecoder().decode(message) : message;
+
+      // Log stream and event control messages are JSON ({ type: "logs.subscribe", filter: { levels?, text? } },
+      // { type: "logs.unsubscribe" }, { type: "events.subscribe" } or { type: "events.unsubscribe" }),
+      // anything else is an RCON command
+      const control = messageString.startsWith('{') ? (() => {
+        try {
+          return JSON.parse(messageString) as { type?: string; filter?: unknown };
+        } catch {
+          return null;
+        }
+      })() : null;
+      if (control?.type === 'logs.subscribe') {
+        try {
+          await this.subscribeToLogs(ws, control.filter);
+        } catch (error) {
+          ws.send(JSON.stringify({ type: 'logs.error', error: error instanceof Error ? error.message : 'Failed to subscribe to logs' }));
+        }
+        return;
+      }
+      if (control?.type === 'logs.unsubscribe') {
+        ws.serializeAttachment({ ...(ws.deserializeAttachment() ?? {}), logFilter: undefined });
+        return;
+      }
+      if (control?.type === 'events.subscribe') {
+        try {
+          await this.subscribeToEvents(ws);
+        } catch (error) {
+          ws.send(JSON.stringify({ type: 'events.error', error: error instanceof Error ? error.message : 'Failed to subscribe to events' }));
+        }
+        return;
+      }
+      if (control?.type === 'events.unsubscribe') {
+        ws.serializeAttachment({ ...(ws.deserializeAttachment() ?? {}), events: undefined });
+        return;
+      }
+
+      const attachment = ws.deserializeAttachment() as { role?: Role; username?: string; source?: AuditSource } | null;
+      const role = attachment?.role ?? 'viewer';
+      const audit = (success: boolean, result: string) => this.recordAudit({
+        actor: attachment?.username ?? 'anonymous',
+        source: attachment?.source ?? 'web',
+        action: 'rcon.execute',
+        args: { command: messageString },
+        success,
+        // Output of commands like list or help isn't worth keeping in full
+        result: truncateAuditResult(result, MAX_AUDIT_ARG_LENGTH),
+      });
+      if (!roleAtLeast(role, 'moderator')) {
+        await audit(false, "Viewers can't run commands");
+        ws.send("Message delivery failed: Viewers can't run commands");
+        return;
+      }
+
+      // Upon receiving a message from the client, reply with the same message,
+      // but will prefix the message with "[Durable Object]: " and return the number of connections.
+      if(!this.rcon && !(await this.initRcon())) {
+        await audit(false, "Server is offline");
+        ws.send("Message delivery failed: Server is offline");
+        return;
+      }
+
       // const [command, ...args] = messageString.split(" ");
       
       const response = await this.rcon!.then(rcon => rcon.send(messageString));
+      await audit(true, response);
 
       ws.send(response);
     }
@@ -1560,6 +4782,7 @@ export class MinecraftContainer extends Container {
       }
       
       if(pathname === "/") {
+        this.countR2Operations(r2OperationClass(request.method, true));
         // it's a list request get the query params
         // prefix - Filter objects by prefix
         // delimiter - Group keys (typically /)
@@ -1633,6 +4856,7 @@ export class MinecraftContainer extends Container {
         });
       }
       const pathWithoutLeadingSlash = pathname.startsWith('/') ? pathname.slice(1) : pathname;
+      this.countR2Operations(r2OperationClass(request.method, false));
       switch(request.method) {
         case "POST": {
           // AWS S3 CreateMultipartUpload: POST /key?uploads
@@ -0,0 +1,67 @@
+import { z } from "zod";
+import type { AuthUser, Role } from "./users";
+
+// Personal API tokens for scripts and bots, sent as "Authorization: Bearer mf_...". A token acts as
+// the account that created it, limited to its scopes: a request needs both the role and the scope.
+
+export const API_TOKEN_SCOPES = ['read-status', 'start-stop', 'rcon', 'backups', 'plugins'] as const;
+
+export type ApiTokenScope = typeof API_TOKEN_SCOPES[number];
+
+// The least role that can create a token with the scope
+export const SCOPE_ROLES: Record<ApiTokenScope, Role> = {
+  'read-status': 'viewer',
+  'start-stop': 'moderator',
+  'rcon': 'moderator',
+  'backups': 'admin',
+  'plugins': 'admin',
+};
+
+export const API_TOKEN_PREFIX = 'mf_';
+
+// Who the MCP agent (src/agent.ts) acts as when its calls carry the agent secret: not a row in the
+// users table but an admin that is limited to the scopes its tools need, like a token. Usernames
+// can't contain spaces, so no account can be mistaken for it in the audit log.
+export const MCP_AGENT_USER: AuthUser = { id: 0, username: 'MCP agent', role: 'admin' };
+
+export const MCP_AGENT_SCOPES: ApiTokenScope[] = ['read-status', 'start-stop', 'rcon', 'backups', 'plugins'];
+
+export const MAX_API_TOKEN_DAYS = 365;
+
+export const CreateApiTokenSchema = z.object({
+  name: z.string().trim().min(1, "Name the token").max(64),
+  scopes: z.array(z.enum(API_TOKEN_SCOPES)).min(1, "Pick at least one scope"),
+  // null for a token that doesn't expire
+  expiresInDays: z.number().int().min(1).max(MAX_API_TOKEN_DAYS).nullable().default(90),
+});
+
+export type CreateApiToken = z.input<typeof CreateApiTokenSchema>;
+
+export interface ApiTokenInfo {
+  id: number;
+  name: string;
+  scopes: ApiTokenScope[];
+  createdAt: number;
+  expiresAt: number | null;
+  lastUsedAt: number | null;
+}
+
+// The scope a route needs, first match wins. Paths are the full request paths.
+const ROUTE_SCOPES: Array<{ method?: string; path: RegExp; scope: ApiTokenScope }> = [
+  { method: 'POST', path: /^\/api\/shutdown$/, scope: 'start-stop' },
+  { method: 'POST', path: /^\/api\/rcon\/execute$/, scope: 'rcon' },
+  { path: /^\/api\/backups(\/|$)/, scope: 'backups' },
+  { path: /^\/api\/(plugins|custom-plugins|plugin-configs)(\/|$)/, scope: 'plugins' },
+  { method: 'POST', path: /^\/api\/play-schedule$/, scope: 'start-stop' },
+  { method: 'GET', path: /^\/api\/(status|players|players\/stats|info|getState|startup-status|session\/[^/]+|events|logs\/recent|dynmap-url|play-schedule)$/, scope: 'read-status' },
+];
+
+/**
+ * The scope an API token needs for a route, null for routes tokens can't use (everything else,
+ * including managing tokens and accounts)
+ */
+export function requiredScope(method: string, pathname: string): ApiTokenScope | null {
+  const upperMethod = method.toUpperCase();
+  const rule = ROUTE_SCOPES.find(rule => (!rule.method || rule.method === upperMethod) && rule.path.test(pathname));
+  return rule?.scope ?? null;
+}
@@ -0,0 +1,165 @@
+import { z } from "zod";
+
+// Append-only record of administrative actions: who did what, from where, with which arguments and
+// how it went. Entries are never changed or deleted.
+
+export const AUDIT_SOURCES = ['web', 'mcp', 'api-token'] as const;
+
+export type AuditSource = typeof AUDIT_SOURCES[number];
+
+export const AuditSourceSchema = z.enum(AUDIT_SOURCES);
+
+// Set by the worker on WebSockets it forwards to the container, from how they were authenticated
+export const AUDIT_SOURCE_HEADER = 'X-Mineflare-Source';
+
+// Sent by the MCP agent on its calls to the API with the secret both workers are bound to
+// (MCP_AGENT_SECRET). When it matches, the auth check lets the request through as MCP_AGENT_USER
+// (./api-tokens.ts) and it is audited as coming from MCP.
+export const MCP_AGENT_HEADER = 'X-Mineflare-Agent';
+
+// JSON, arrays and objects aren't spelled out recursively since that is too deep for the RPC types
+export type AuditValue = string | number | boolean | null | object;
+
+export type AuditArgs = { [key: string]: AuditValue };
+
+export interface AuditEntry {
+  id: number;
+  time: number;
+  // Username, "anonymous" for requests that failed to authenticate
+  actor: string;
+  source: AuditSource;
+  action: string;
+  args: AuditArgs | null;
+  success: boolean;
+  // The error, or a short summary of the outcome
+  result: string | null;
+}
+
+export type NewAuditEntry = Omit<AuditEntry, 'id' | 'time'>;
+
+export const MAX_AUDIT_EXPORT = 100_000;
+
+export const AuditQuerySchema = z.object({
+  actor: z.string().optional(),
+  source: AuditSourceSchema.optional(),
+  // Prefix, "plugin" matches plugin.toggle and plugin-config.save
+  action: z.string().optional(),
+  success: z.boolean().optional(),
+  since: z.number().optional(),
+  until: z.number().optional(),
+  limit: z.number().int().min(1).max(MAX_AUDIT_EXPORT).default(100),
+});
+
+export type AuditQuery = z.input<typeof AuditQuerySchema>;
+
+// The action of each audited route, null for POSTs that don't change anything. Named groups become
+// arguments. The /auth routes record their entries themselves, see auditActionFor().
+const AUDIT_ROUTES: Array<{ method: string; path: RegExp; action: string | null }> = [
+  { method: 'POST', path: /^\/api\/shutdown$/, action: 'server.stop' },
+  { method: 'POST', path: /^\/api\/rcon\/execute$/, action: 'rcon.execute' },
+  { method: 'POST', path: /^\/api\/version$/, action: 'server.version' },
+  { method: 'POST', path: /^\/api\/settings$/, action: 'server.settings' },
+  { method: 'POST', path: /^\/api\/browser\/navigate$/, action: 'browser.navigate' },
+  { method: 'POST', path: /^\/api\/plugins\/(?<filename>[^/]+)$/, action: 'plugin.toggle' },
+  { method: 'POST', path: /^\/api\/custom-plugins$/, action: 'custom-plugin.upload' },
+  { method: 'POST', path: /^\/api\/custom-plugins\/catalog$/, action: 'custom-plugin.install' },
+  { method: 'POST', path: /^\/api\/custom-plugins\/(?<filename>[^/]+)$/, action: 'custom-plugin.update' },
+  { method: 'DELETE', path: /^\/api\/custom-plugins\/(?<filename>[^/]+)$/, action: 'custom-plugin.delete' },
+  { method: 'POST', path: /^\/api\/plugin-configs\/file$/, action: 'plugin-config.save' },
+  { method: 'POST', path: /^\/api\/plugin-configs\/revert$/, action: 'plugin-config.revert' },
+  { method: 'POST', path: /^\/api\/backups\/retention\/preview$/, action: null },
+  { method: 'POST', path: /^\/api\/backups\/schedule$/, action: 'backup.schedule' },
+  { method: 'POST', path: /^\/api\/backups\/retention$/, action: 'backup.retention' },
+  { method: 'POST', path: /^\/api\/backups\/(?<key>.+)\/restore$/, action: 'backup.restore' },
+  { method: 'POST', path: /^\/api\/worlds$/, action: 'world.create' },
+  { method: 'POST', path: /^\/api\/worlds\/(?<id>[^/]+)\/select$/, action: 'world.select' },
+  { method: 'POST', path: /^\/api\/worlds\/(?<id>[^/]+)\/archive$/, action: 'world.archive' },
+  { method: 'POST', path: /^\/api\/world\/import$/, action: 'world.import' },
+  { method: 'DELETE', path: /^\/api\/world\/import$/, action: 'world.import-cancel' },
+  { method: 'POST', path: /^\/api\/moderation\/whitelist$/, action: 'moderation.whitelist' },
+  { method: 'POST', path: /^\/api\/moderation\/(?<list>[^/]+)\/(?<target>[^/]+)$/, action: 'moderation.add' },
+  { method: 'DELETE', path: /^\/api\/moderation\/(?<list>[^/]+)\/(?<target>[^/]+)$/, action: 'moderation.remove' },
+  { method: 'POST', path: /^\/api\/players\/(?<player>[^/]+)\/kick$/, action: 'player.kick' },
+  { method: 'POST', path: /^\/api\/auto-sleep$/, action: 'auto-sleep.update' },
+  { method: 'POST', path: /^\/api\/play-schedule$/, action: 'play-schedule.update' },
+  { method: 'POST', path: /^\/api\/costs\/model$/, action: 'costs.model' },
+  { method: 'POST', path: /^\/api\/costs\/budget$/, action: 'costs.budget' },
+  { method: 'POST', path: /^\/api\/costs\/budget\/override$/, action: 'costs.budget-override' },
+  { method: 'POST', path: /^\/api\/users\/invites$/, action: 'user.invite' },
+  { method: 'DELETE', path: /^\/api\/users\/invites\/(?<id>[^/]+)$/, action: 'user.invite-revoke' },
+  { method: 'POST', path: /^\/api\/users\/(?<id>[^/]+)\/role$/, action: 'user.role' },
+  { method: 'DELETE', path: /^\/api\/users\/(?<id>[^/]+)$/, action: 'user.delete' },
+  { method: 'POST', path: /^\/api\/tokens$/, action: 'token.create' },
+  { method: 'DELETE', path: /^\/api\/tokens\/(?<id>[^/]+)$/, action: 'token.revoke' },
+  { method: 'POST', path: /^\/auth\/setup$/, action: 'account.setup' },
+  { method: 'POST', path: /^\/auth\/login$/, action: 'account.login' },
+  { method: 'POST', path: /^\/auth\/login\/2fa$/, action: 'account.login-2fa' },
+  { method: 'POST', path: /^\/auth\/accept-invite$/, action: 'account.accept-invite' },
+  { method: 'POST', path: /^\/auth\/logout$/, action: 'account.logout' },
+  { method: 'POST', path: /^\/auth\/password$/, action: 'account.password' },
+  { method: 'POST', path: /^\/auth\/2fa\/setup$/, action: null },
+  { method: 'POST', path: /^\/auth\/2fa\/enable$/, action: 'account.2fa-enable' },
+  { method: 'POST', path: /^\/auth\/2fa\/disable$/, action: 'account.2fa-disable' },
+  { method: 'POST', path: /^\/auth\/2fa\/recovery-codes$/, action: 'account.2fa-recovery-codes' },
+  { method: 'DELETE', path: /^\/auth\/sessions\/(?<id>[^/]+)$/, action: 'account.session-revoke' },
+  { method: 'POST', path: /^\/auth\/sessions\/revoke-all$/, action: 'account.sign-out-everywhere' },
+];
+
+/**
+ * The audited action of a request and the arguments taken from its path, null if it isn't audited.
+ * Every change through /api and /auth is, unlisted ones as "METHOD /path".
+ */
+export function auditActionFor(method: string, pathname: string): { action: string; pathArgs: Record<string, string> } | null {
+  const upperMethod = method.toUpperCase();
+  if (upperMethod === 'GET' || upperMethod === 'HEAD' || upperMethod === 'OPTIONS' || !/^\/(api|auth)\//.test(pathname)) {
+    return null;
+  }
+  for (const route of AUDIT_ROUTES) {
+    const match = route.method === upperMethod ? route.path.exec(pathname) : null;
+    if (match) {
+      if (route.action === null) {
+        return null;
+      }
+      const pathArgs = Object.fromEntries(Object.entries(match.groups ?? {}).map(([key, value]) => [key, decodeURIComponent(value)]));
+      return { action: route.action, pathArgs };
+    }
+  }
+  return { action: `${upperMethod} ${pathname}`, pathArgs: {} };
+}
+
+const SECRET_KEY = /password|secret|token|code|challenge/i;
+// Also the length RCON output is stored with, command output is rarely worth more
+export const MAX_AUDIT_ARG_LENGTH = 200;
+
+/**
+ * Arguments as they are stored: secrets redacted and long strings (like a whole config file)
+ * replaced by their length
+ */
+export function sanitizeAuditArgs(args: AuditArgs): AuditArgs {
+  const sanitize = (key: string, value: AuditValue): AuditValue => {
+    if (SECRET_KEY.test(key)) {
+      return '[redacted]';
+    }
+    if (typeof value === 'string' && value.length > MAX_AUDIT_ARG_LENGTH) {
+      return `[${value.length} characters]`;
+    }
+    if (Array.isArray(value)) {
+      return value.map(item => sanitize('', item as AuditValue));
+    }
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, sanitize(k, v as AuditValue)]));
+    }
+    return value;
+  };
+  return sanitize('', args) as AuditArgs;
+}
+
+/**
+ * Shorten a result for storage
+ */
+export function truncateAuditResult(result: string | null | undefined, maxLength = 500): string | null {
+  if (!result) {
+    return null;
+  }
+  return result.length > maxLength ? `${result.slice(0, maxLength)}…` : result;
+}
@@ -0,0 +1,56 @@
+import { z } from "zod";
+
+// Auto-sleep based on who is playing: the server stops once nobody has been online for a while,
+// with an in-game countdown first. Requests to the container (an open dashboard) don't count.
+
+export const AutoSleepSchema = z.object({
+  enabled: z.boolean(),
+  // Stop after this many minutes in a row without players
+  idleMinutes: z.number().int().min(1).max(24 * 60),
+  // Players aren't counted this long after the server started, it may still be loading the world
+  graceMinutes: z.number().int().min(0).max(120),
+  // Length of the in-game countdown before stopping, 0 for none
+  warningSeconds: z.number().int().min(0).max(600),
+});
+
+export type AutoSleep = z.infer<typeof AutoSleepSchema>;
+
+// Opt-in, until it is turned on the server sleeps after sleepAfter without requests as before
+export const DEFAULT_AUTO_SLEEP: AutoSleep = {
+  enabled: false,
+  idleMinutes: 20,
+  graceMinutes: 10,
+  warningSeconds: 60,
+};
+
+// Seconds before stopping at which the countdown is announced, besides its start
+const COUNTDOWN_MARKS = [300, 120, 60, 30, 10];
+
+function countdownMarks(warningSeconds: number): number[] {
+  return [warningSeconds, ...COUNTDOWN_MARKS.filter(mark => mark < warningSeconds), 0];
+}
+
+/**
+ * Seconds until the next check: the next countdown announcement, the stop itself, or at most
+ * `interval` while the stop is further away
+ */
+export function secondsToNextCheck(remaining: number, warningSeconds: number, interval: number): number {
+  const next = countdownMarks(warningSeconds).find(mark => mark < remaining) ?? 0;
+  return Math.max(1, Math.min(interval, remaining - next));
+}
+
+/**
+ * The time left to announce: checks run a little late, so "58 seconds" is announced as the 60
+ * second mark it was scheduled for
+ */
+export function countdownAnnouncement(remaining: number, warningSeconds: number): number {
+  return countdownMarks(warningSeconds).find(mark => mark >= remaining && mark - remaining <= 5) ?? remaining;
+}
+
+export function formatCountdown(seconds: number): string {
+  if (seconds >= 60 && seconds % 60 === 0) {
+    const minutes = seconds / 60;
+    return `${minutes} minute${minutes === 1 ? '' : 's'}`;
+  }
+  return `${seconds} second${seconds === 1 ? '' : 's'}`;
+}
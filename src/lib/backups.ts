@@ -0,0 +1,193 @@
+import { z } from "zod";
+
+// Backup object keys are written by docker_src/file-server.ts as
+// backups/<reverseEpochSec>_<YYYYMMDDHH>_<dir>.tar.gz (full) or
+// backups/<reverseEpochSec>_<YYYYMMDDHH>_<dir>.manifest.json (incremental),
+// prefixed with worlds/<id>/ for every world profile except the default one (see ./worlds.ts)
+// The reverse epoch is relative to this fixed "max epoch" (must match the file server).
+const MAX_EPOCH_SECONDS = Math.floor(new Date('2125-01-01T00:00:00Z').getTime() / 1000);
+
+const BACKUP_KEY_REGEX = /^(?:worlds\/[a-z0-9-]+\/)?backups\/(\d+)_(\d{10})_([A-Za-z0-9_-]+)\.(tar\.gz|manifest\.json)$/;
+
+// Content-addressed files referenced by incremental backup manifests
+export const CHUNK_PREFIX = 'chunks/sha256/';
+
+export type BackupFormat = 'tarball' | 'incremental';
+
+export interface BackupInfo {
+  key: string;
+  dirName: string;
+  format: BackupFormat;
+  createdAt: number; // epoch ms
+  // Of what was backed up, for incremental backups the total of the files the manifest lists
+  size: number;
+}
+
+// Incremental backup manifest, see docker_src/file-server.ts
+export interface BackupManifest {
+  version: 1;
+  directory: string;
+  created_at: string;
+  base: { key: string; size: number };
+  files: Array<{ path: string; sha256: string; size: number }>;
+  total_size: number;
+}
+
+export function chunkKey(sha256: string): string {
+  return `${CHUNK_PREFIX}${sha256.slice(0, 2)}/${sha256}`;
+}
+
+/**
+ * Parse a backup object key into its creation time, directory name and format.
+ * Returns null for anything that isn't a backup written by the file server.
+ */
+export function parseBackupKey(key: string): { key: string; dirName: string; format: BackupFormat; createdAt: number } | null {
+  if (key.includes('..')) {
+    return null;
+  }
+  const match = BACKUP_KEY_REGEX.exec(key);
+  if (!match) {
+    return null;
+  }
+  const reverseEpochSeconds = parseInt(match[1], 10);
+  if (!Number.isFinite(reverseEpochSeconds)) {
+    return null;
+  }
+  return {
+    key,
+    dirName: match[3],
+    format: match[4] === 'manifest.json' ? 'incremental' : 'tarball',
+    createdAt: (MAX_EPOCH_SECONDS - reverseEpochSeconds) * 1000,
+  };
+}
+
+export const BackupScheduleSchema = z.object({
+  enabled: z.boolean(),
+  // Minimum keeps the save-off window and R2 writes reasonable
+  intervalMinutes: z.number().int().min(5).max(24 * 60),
+});
+
+export type BackupSchedule = z.infer<typeof BackupScheduleSchema>;
+
+export const DEFAULT_BACKUP_SCHEDULE: BackupSchedule = {
+  enabled: true,
+  intervalMinutes: 30,
+};
+
+export type BackupTrigger = 'shutdown' | 'scheduled' | 'manual';
+
+// A row of the backups history table; completedAt and success are null while the backup is running
+export interface BackupHistoryEntry {
+  id: number;
+  startedAt: number;
+  completedAt: number | null;
+  trigger: BackupTrigger;
+  success: boolean | null;
+  key: string | null;
+  size: number | null;
+  error: string | null;
+}
+
+// Written by docker_src/start-with-services.sh to /status/restore.json when the start restored a
+// backup requested from the dashboard, or failed to
+export const RestoreResultSchema = z.object({
+  key: z.string(),
+  success: z.boolean(),
+  error: z.string().optional(),
+});
+
+export type RestoreResult = z.infer<typeof RestoreResultSchema>;
+
+// Why the requested restore didn't happen, shown in the Backups panel until it is tried again
+export interface RestoreFailure {
+  key: string;
+  error: string;
+  failedAt: number;
+}
+
+export const BackupRetentionSchema = z.object({
+  enabled: z.boolean(),
+  // Most recent backups to keep regardless of age
+  keepLast: z.number().int().min(1).max(1000),
+  // Grandfather-father-son buckets: newest backup of each of the most recent N days / weeks / months
+  keepDaily: z.number().int().min(0).max(365),
+  keepWeekly: z.number().int().min(0).max(260),
+  keepMonthly: z.number().int().min(0).max(120),
+});
+
+export type BackupRetention = z.infer<typeof BackupRetentionSchema>;
+
+export const DEFAULT_BACKUP_RETENTION: BackupRetention = {
+  enabled: true,
+  keepLast: 12,
+  keepDaily: 7,
+  keepWeekly: 4,
+  keepMonthly: 12,
+};
+
+export type RetentionReason = 'last' | 'daily' | 'weekly' | 'monthly' | 'protected';
+
+export interface RetentionPlan {
+  keep: Array<BackupInfo & { reasons: RetentionReason[] }>;
+  delete: BackupInfo[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function dayBucket(ms: number): string {
+  return new Date(ms).toISOString().slice(0, 10);
+}
+
+function weekBucket(ms: number): string {
+  // 1970-01-01 was a Thursday, shift by 3 days so weeks start on Monday
+  return String(Math.floor((Math.floor(ms / DAY_MS) + 3) / 7));
+}
+
+function monthBucket(ms: number): string {
+  return new Date(ms).toISOString().slice(0, 7);
+}
+
+/**
+ * Decide which backups a retention policy keeps, a disabled policy keeps them all.
+ * The newest backup and any protected keys (e.g. a pending restore) are always kept.
+ */
+export function planBackupRetention(backups: BackupInfo[], policy: BackupRetention, protectedKeys: string[] = []): RetentionPlan {
+  const sorted = [...backups].sort((a, b) => b.createdAt - a.createdAt);
+  if (!policy.enabled) {
+    return { keep: sorted.map(b => ({ ...b, reasons: [] })), delete: [] };
+  }
+  const reasons = new Map<string, RetentionReason[]>();
+  const addReason = (key: string, reason: RetentionReason) => {
+    reasons.set(key, [...(reasons.get(key) ?? []), reason]);
+  };
+
+  sorted.slice(0, Math.max(1, policy.keepLast)).forEach(b => addReason(b.key, 'last'));
+
+  const keepNewestPerBucket = (count: number, bucketOf: (ms: number) => string, reason: RetentionReason) => {
+    const seen = new Set<string>();
+    for (const backup of sorted) {
+      if (seen.size >= count) {
+        break;
+      }
+      const bucket = bucketOf(backup.createdAt);
+      if (!seen.has(bucket)) {
+        seen.add(bucket);
+        addReason(backup.key, reason);
+      }
+    }
+  };
+  keepNewestPerBucket(policy.keepDaily, dayBucket, 'daily');
+  keepNewestPerBucket(policy.keepWeekly, weekBucket, 'weekly');
+  keepNewestPerBucket(policy.keepMonthly, monthBucket, 'monthly');
+
+  for (const key of protectedKeys) {
+    if (sorted.some(b => b.key === key)) {
+      addReason(key, 'protected');
+    }
+  }
+
+  return {
+    keep: sorted.filter(b => reasons.has(b.key)).map(b => ({ ...b, reasons: reasons.get(b.key)! })),
+    delete: sorted.filter(b => !reasons.has(b.key)),
+  };
+}
@@ -0,0 +1,120 @@
+import { z } from "zod";
+
+// Estimated Cloudflare costs of running the server: container runtime by instance type, R2 storage
+// (world backups, plugins and Dynmap tiles) and R2 operations. The rates are Cloudflare's list
+// prices and can be overridden, the result is an estimate for the current calendar month (UTC).
+
+// Resources of the container instance types
+export const INSTANCE_TYPES = {
+  'lite': { vcpu: 1 / 16, memoryGib: 0.25, diskGb: 2 },
+  'basic': { vcpu: 1 / 4, memoryGib: 1, diskGb: 4 },
+  'standard-1': { vcpu: 1 / 2, memoryGib: 4, diskGb: 8 },
+  'standard-2': { vcpu: 1, memoryGib: 6, diskGb: 12 },
+  'standard-3': { vcpu: 2, memoryGib: 8, diskGb: 16 },
+  'standard-4': { vcpu: 4, memoryGib: 12, diskGb: 20 },
+} as const;
+
+export type InstanceType = keyof typeof INSTANCE_TYPES;
+
+// Container prices per second of provisioned vCPU, GiB of memory and GB of disk
+const VCPU_SECOND = 0.00002;
+const MEMORY_GIB_SECOND = 0.0000025;
+const DISK_GB_SECOND = 0.00000007;
+
+export function instanceHourlyRate(type: InstanceType): number {
+  const { vcpu, memoryGib, diskGb } = INSTANCE_TYPES[type];
+  return (vcpu * VCPU_SECOND + memoryGib * MEMORY_GIB_SECOND + diskGb * DISK_GB_SECOND) * 3600;
+}
+
+export const CostModelSchema = z.object({
+  // The instance type in alchemy.run.ts
+  instanceType: z.enum(Object.keys(INSTANCE_TYPES) as [InstanceType, ...InstanceType[]]).default('standard-4'),
+  // USD per hour the container runs, null to use the rate of the instance type
+  hourlyRate: z.number().min(0).nullable().default(null),
+  r2StoragePerGbMonth: z.number().min(0).default(0.015),
+  // Writes and lists
+  r2ClassAPerMillion: z.number().min(0).default(4.5),
+  // Reads
+  r2ClassBPerMillion: z.number().min(0).default(0.36),
+  // R2's monthly free allowance
+  r2FreeStorageGb: z.number().min(0).default(10),
+  r2FreeClassA: z.number().min(0).default(1_000_000),
+  r2FreeClassB: z.number().min(0).default(10_000_000),
+});
+
+export type CostModel = z.infer<typeof CostModelSchema>;
+
+export const DEFAULT_COST_MODEL: CostModel = CostModelSchema.parse({});
+
+export const BudgetSchema = z.object({
+  // USD per calendar month, null for no budget
+  monthlyLimit: z.number().positive().nullable().default(null),
+  // Warn once the estimate reaches this share of the budget
+  warnAtPercent: z.number().int().min(1).max(100).default(80),
+});
+
+export type Budget = z.infer<typeof BudgetSchema>;
+
+export const DEFAULT_BUDGET: Budget = BudgetSchema.parse({});
+
+export interface MonthlyUsage {
+  instanceHours: number;
+  storageBytes: number;
+  classAOperations: number;
+  classBOperations: number;
+}
+
+// USD
+export interface CostEstimate {
+  instance: number;
+  storage: number;
+  operations: number;
+  total: number;
+}
+
+export type BudgetLevel = 'none' | 'ok' | 'warning' | 'exceeded';
+
+export type R2OperationClass = 'A' | 'B';
+
+export function estimateCost(model: CostModel, usage: MonthlyUsage): CostEstimate {
+  const instance = usage.instanceHours * (model.hourlyRate ?? instanceHourlyRate(model.instanceType));
+  const storageGb = usage.storageBytes / 1024 ** 3;
+  const storage = Math.max(0, storageGb - model.r2FreeStorageGb) * model.r2StoragePerGbMonth;
+  const operations =
+    Math.max(0, usage.classAOperations - model.r2FreeClassA) / 1_000_000 * model.r2ClassAPerMillion +
+    Math.max(0, usage.classBOperations - model.r2FreeClassB) / 1_000_000 * model.r2ClassBPerMillion;
+  return { instance, storage, operations, total: instance + storage + operations };
+}
+
+export function budgetLevel(budget: Budget, total: number): BudgetLevel {
+  if (budget.monthlyLimit === null) {
+    return 'none';
+  }
+  if (total >= budget.monthlyLimit) {
+    return 'exceeded';
+  }
+  return total >= budget.monthlyLimit * budget.warnAtPercent / 100 ? 'warning' : 'ok';
+}
+
+/**
+ * The R2 operation class of an S3 API request, null for free operations (deletes)
+ */
+export function r2OperationClass(method: string, isList: boolean): R2OperationClass | null {
+  switch (method.toUpperCase()) {
+    case 'GET':
+      return isList ? 'A' : 'B';
+    case 'HEAD':
+      return 'B';
+    case 'DELETE':
+      return null;
+    default:
+      return 'A';
+  }
+}
+
+/**
+ * YYYY-MM of the calendar month (UTC) a time falls in
+ */
+export function monthKey(time: number): string {
+  return new Date(time).toISOString().slice(0, 7);
+}
@@ -0,0 +1,56 @@
+import { z } from "zod";
+import { CatalogPinSchema } from "./plugin-catalog";
+
+// Uploaded plugin jars are stored in the data bucket under this prefix as <filename>.jar and
+// downloaded by start-with-services.sh (do_optional_plugins) when enabled
+export const CUSTOM_PLUGIN_PREFIX = 'plugins/custom/';
+
+// Jars are checked in memory before they are stored, plugins are rarely more than a few MB
+export const MAX_CUSTOM_PLUGIN_SIZE = 50 * 1024 * 1024;
+
+// Same shape as the names of the built-in optional plugins, without the .jar extension
+const CUSTOM_PLUGIN_FILENAME_REGEX = /^[A-Za-z0-9][A-Za-z0-9._-]{0,63}$/;
+
+export const RequiredEnvSchema = z.object({
+  name: z.string().regex(/^[A-Z][A-Z0-9_]{0,63}$/, "Environment variable names must be UPPER_SNAKE_CASE"),
+  description: z.string().max(200),
+});
+
+export const CustomPluginSchema = z.object({
+  filename: z.string().regex(CUSTOM_PLUGIN_FILENAME_REGEX),
+  displayName: z.string().trim().min(1).max(64),
+  requiredEnv: z.array(RequiredEnvSchema).max(20),
+  size: z.number(),
+  uploadedAt: z.number(),
+  // Set for plugins installed from Modrinth or Hangar (see ./plugin-catalog.ts)
+  catalog: CatalogPinSchema.optional(),
+});
+
+export type CustomPlugin = z.infer<typeof CustomPluginSchema>;
+
+export const CustomPluginUpdateSchema = CustomPluginSchema.pick({ displayName: true, requiredEnv: true }).partial();
+
+export type CustomPluginUpdate = z.infer<typeof CustomPluginUpdateSchema>;
+
+export function customPluginKey(filename: string): string {
+  return `${CUSTOM_PLUGIN_PREFIX}${filename}.jar`;
+}
+
+/**
+ * Plugin filename (the name used in OPTIONAL_PLUGINS) for an uploaded jar, or null if the name can't be used
+ */
+export function customPluginFilename(uploadName: string): string | null {
+  const base = uploadName.split(/[\\/]/).pop() ?? '';
+  if (!base.toLowerCase().endsWith('.jar')) {
+    return null;
+  }
+  const filename = base.slice(0, -'.jar'.length).replace(/[^A-Za-z0-9._-]/g, '_');
+  return CUSTOM_PLUGIN_FILENAME_REGEX.test(filename) ? filename : null;
+}
+
+/**
+ * Bukkit/Spigot plugins have plugin.yml at the root of the jar, Paper-only plugins paper-plugin.yml
+ */
+export function isPluginJar(entries: string[]): boolean {
+  return entries.includes('plugin.yml') || entries.includes('paper-plugin.yml');
+}
@@ -0,0 +1,116 @@
+import { z } from "zod";
+
+// Player lists the server keeps in /data. They are read back from the files and changed only
+// through RCON commands so the running server's in-memory copy stays authoritative.
+export const WhitelistEntrySchema = z.object({
+  uuid: z.string(),
+  name: z.string(),
+});
+
+export const OpEntrySchema = z.object({
+  uuid: z.string(),
+  name: z.string(),
+  level: z.number(),
+  bypassesPlayerLimit: z.boolean(),
+});
+
+const BanFieldsSchema = z.object({
+  created: z.string(),
+  source: z.string(),
+  expires: z.string(),
+  reason: z.string(),
+});
+
+export const BannedPlayerSchema = BanFieldsSchema.extend({
+  uuid: z.string(),
+  name: z.string(),
+});
+
+export const BannedIpSchema = BanFieldsSchema.extend({
+  ip: z.string(),
+});
+
+export type WhitelistEntry = z.infer<typeof WhitelistEntrySchema>;
+export type OpEntry = z.infer<typeof OpEntrySchema>;
+export type BannedPlayer = z.infer<typeof BannedPlayerSchema>;
+export type BannedIp = z.infer<typeof BannedIpSchema>;
+
+export interface ModerationState {
+  whitelistEnabled: boolean;
+  whitelist: WhitelistEntry[];
+  ops: OpEntry[];
+  bannedPlayers: BannedPlayer[];
+  bannedIps: BannedIp[];
+}
+
+export const MODERATION_FILES = {
+  whitelist: '/data/whitelist.json',
+  ops: '/data/ops.json',
+  bannedPlayers: '/data/banned-players.json',
+  bannedIps: '/data/banned-ips.json',
+} as const;
+
+// The RCON commands that add to and remove from each list
+export const MODERATION_LISTS = {
+  'whitelist': { add: 'whitelist add', remove: 'whitelist remove', target: 'name' },
+  'ops': { add: 'op', remove: 'deop', target: 'name' },
+  'banned-players': { add: 'ban', remove: 'pardon', target: 'name' },
+  'banned-ips': { add: 'ban-ip', remove: 'pardon-ip', target: 'ip' },
+} as const;
+
+export type ModerationList = keyof typeof MODERATION_LISTS;
+
+// Offline mode accepts more than Mojang's 3-16 word characters, but anything outside this set
+// could smuggle extra arguments into the command
+const PLAYER_NAME_REGEX = /^[A-Za-z0-9_.-]{1,16}$/;
+const IPV4_REGEX = /^(25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)(\.(25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)){3}$/;
+
+export function isModerationList(list: string): list is ModerationList {
+  return Object.hasOwn(MODERATION_LISTS, list);
+}
+
+function validateTarget(kind: 'name' | 'ip', target: string): string {
+  const trimmed = target.trim();
+  if (kind === 'ip' ? !IPV4_REGEX.test(trimmed) : !PLAYER_NAME_REGEX.test(trimmed)) {
+    throw new Error(kind === 'ip' ? `Invalid IPv4 address: ${target}` : `Invalid player name: ${target}`);
+  }
+  return trimmed;
+}
+
+// Reasons become the rest of the command line, so they must stay on one line
+function sanitizeReason(reason?: string): string {
+  return (reason ?? '').replace(/[\r\n]+/g, ' ').trim().slice(0, 200);
+}
+
+/**
+ * Build the RCON command that adds a player (or IP) to a list or removes it. Reasons are only used for bans.
+ */
+export function moderationCommand(list: ModerationList, operation: 'add' | 'remove', target: string, reason?: string): string {
+  const spec = MODERATION_LISTS[list];
+  const command = `${spec[operation]} ${validateTarget(spec.target, target)}`;
+  const sanitizedReason = sanitizeReason(reason);
+  if (operation === 'add' && (list === 'banned-players' || list === 'banned-ips') && sanitizedReason) {
+    return `${command} ${sanitizedReason}`;
+  }
+  return command;
+}
+
+export function kickCommand(name: string, reason?: string): string {
+  const sanitizedReason = sanitizeReason(reason);
+  return `kick ${validateTarget('name', name)}${sanitizedReason ? ` ${sanitizedReason}` : ''}`;
+}
+
+/**
+ * Parse one of the server's JSON list files, a missing or unreadable file is an empty list
+ */
+export function parseModerationFile<T>(schema: z.ZodType<T>, contents: string | null): T[] {
+  if (!contents) {
+    return [];
+  }
+  try {
+    return z.array(schema).parse(JSON.parse(contents));
+  } catch (error) {
+    console.error("Failed to parse moderation file:", error);
+    return [];
+  }
+}
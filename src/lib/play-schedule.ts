@@ -0,0 +1,129 @@
+import { z } from "zod";
+
+// Weekly play windows: the server is started a little ahead of each window, doesn't go to sleep
+// during it and is stopped (with a backup) when it ends. Times are wall-clock times in the
+// schedule's timezone, so a window stays at "Friday 19:00" across daylight saving changes.
+
+export const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'] as const;
+
+const TIME_REGEX = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+function isTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export const PlayWindowSchema = z.object({
+  // 0 = Sunday, like Date.getDay()
+  day: z.number().int().min(0).max(6),
+  // HH:MM, an end at or before the start is on the next day
+  start: z.string().regex(TIME_REGEX, "Times are HH:MM"),
+  end: z.string().regex(TIME_REGEX, "Times are HH:MM"),
+});
+
+export type PlayWindow = z.infer<typeof PlayWindowSchema>;
+
+export const PlayScheduleSchema = z.object({
+  enabled: z.boolean(),
+  // IANA timezone, e.g. Europe/London
+  timezone: z.string().refine(isTimeZone, "Unknown timezone"),
+  windows: z.array(PlayWindowSchema).max(28),
+  // Start the server this long before a window so it is ready when people arrive
+  prestartMinutes: z.number().int().min(0).max(60),
+});
+
+export type PlaySchedule = z.infer<typeof PlayScheduleSchema>;
+
+export const DEFAULT_PLAY_SCHEDULE: PlaySchedule = {
+  enabled: false,
+  timezone: 'UTC',
+  windows: [],
+  prestartMinutes: 10,
+};
+
+// One window on one date, epoch milliseconds
+export interface WindowOccurrence {
+  start: number;
+  end: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function minutesOf(time: string): number {
+  const [, hours, minutes] = TIME_REGEX.exec(time)!;
+  return parseInt(hours, 10) * 60 + parseInt(minutes, 10);
+}
+
+// The wall-clock date and time at an instant in a timezone, as if it were UTC
+function wallClock(time: number, timeZone: string): number {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+    }).formatToParts(time).map(part => [part.type, part.value])
+  );
+  return Date.UTC(+parts.year, +parts.month - 1, +parts.day, +parts.hour, +parts.minute);
+}
+
+// The instant a wall-clock time (given as if it were UTC) happens in a timezone. Times skipped by
+// a daylight saving change resolve to the instant after the gap.
+function fromWallClock(wall: number, timeZone: string): number {
+  let time = wall - (wallClock(wall, timeZone) - wall);
+  time = wall - (wallClock(time, timeZone) - time);
+  return time;
+}
+
+/**
+ * Every window occurrence that overlaps [from, to], by start time
+ */
+export function windowOccurrences(schedule: PlaySchedule, from: number, to: number): WindowOccurrence[] {
+  const occurrences: WindowOccurrence[] = [];
+  // Local midnights from the day before `from` (a window can run past midnight) to the day after `to`
+  const firstDay = wallClock(from, schedule.timezone) - DAY_MS;
+  const lastDay = wallClock(to, schedule.timezone) + DAY_MS;
+  for (let day = firstDay - (firstDay % DAY_MS); day <= lastDay; day += DAY_MS) {
+    const weekday = new Date(day).getUTCDay();
+    for (const window of schedule.windows) {
+      if (window.day !== weekday) {
+        continue;
+      }
+      const startMinutes = minutesOf(window.start);
+      const endMinutes = minutesOf(window.end) + (minutesOf(window.end) <= startMinutes ? 24 * 60 : 0);
+      const start = fromWallClock(day + startMinutes * 60 * 1000, schedule.timezone);
+      const end = fromWallClock(day + endMinutes * 60 * 1000, schedule.timezone);
+      if (end > from && start <= to) {
+        occurrences.push({ start, end });
+      }
+    }
+  }
+  return occurrences.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * The window happening at `now` (merged with windows that start as it ends) and the next one to start
+ */
+export function currentAndNextWindow(schedule: PlaySchedule, now: number): { current: WindowOccurrence | null; next: WindowOccurrence | null } {
+  if (!schedule.enabled || schedule.windows.length === 0) {
+    return { current: null, next: null };
+  }
+  const occurrences = windowOccurrences(schedule, now, now + 8 * DAY_MS);
+  let current: WindowOccurrence | null = null;
+  for (const occurrence of occurrences) {
+    if (occurrence.start <= now && occurrence.end > now) {
+      current = current ? { start: current.start, end: Math.max(current.end, occurrence.end) } : { ...occurrence };
+    } else if (current && occurrence.start <= current.end) {
+      current.end = Math.max(current.end, occurrence.end);
+    }
+  }
+  const next = occurrences.find(occurrence => occurrence.start > now && (!current || occurrence.start > current.end)) ?? null;
+  return { current, next };
+}
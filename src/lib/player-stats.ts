@@ -0,0 +1,64 @@
+// Per-player play sessions (join to leave, from the server events) and the statistics built from
+// them: playtime and last seen per player, and the most players online at once per day.
+
+export interface PlayerSession {
+  player: string;
+  joinedAt: number;
+  // null while the player is online
+  leftAt: number | null;
+}
+
+export interface PlayerStat {
+  player: string;
+  playtimeMs: number;
+  sessions: number;
+  // When the player last left, or now if they are online
+  lastSeen: number;
+  online: boolean;
+}
+
+export interface DailyPeak {
+  // YYYY-MM-DD, UTC like the server log
+  day: string;
+  peak: number;
+}
+
+export interface PlayerStats {
+  players: PlayerStat[];
+  dailyPeaks: DailyPeak[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_PEAK_DAYS = 14;
+
+/**
+ * The most players online at the same time on each of the last `days` days (UTC), oldest first
+ */
+export function dailyPeaks(sessions: PlayerSession[], days: number, now: number): DailyPeak[] {
+  const firstDay = now - (now % DAY_MS) - (days - 1) * DAY_MS;
+  // Leaves sort before joins at the same moment so a reconnect doesn't count twice
+  const changes = sessions
+    .flatMap(session => [
+      { time: session.joinedAt, delta: 1 },
+      { time: session.leftAt ?? Infinity, delta: -1 },
+    ])
+    .sort((a, b) => a.time - b.time || a.delta - b.delta);
+
+  const peaks: DailyPeak[] = [];
+  let online = 0;
+  let index = 0;
+  for (let day = firstDay; day <= now; day += DAY_MS) {
+    // Players online at midnight count for the new day
+    while (index < changes.length && changes[index].time < day) {
+      online += changes[index++].delta;
+    }
+    let peak = online;
+    while (index < changes.length && changes[index].time < day + DAY_MS) {
+      online += changes[index++].delta;
+      peak = Math.max(peak, online);
+    }
+    peaks.push({ day: new Date(day).toISOString().slice(0, 10), peak });
+  }
+  return peaks;
+}
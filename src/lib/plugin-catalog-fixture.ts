@@ -0,0 +1,145 @@
+import type { CatalogFetch } from "./plugin-catalog";
+
+// Canned Modrinth and Hangar responses so plugin installs can be exercised without the real catalogs.
+// Enabled with PLUGIN_CATALOG=fixture. "fixture-plugin" (Modrinth) has no build for 1.21.10, which
+// exercises the version switch check; "FixtureHangar" supports every supported version.
+
+const FIXTURE_HOST = 'https://catalog.fixture.invalid';
+
+export function useCatalogFixture(): boolean {
+  // Same lookup as getNodeEnv(), process.env is not enumerable the usual way under Miniflare
+  return (Object.entries(process.env).find(([key]) => key === 'PLUGIN_CATALOG')?.[1] ?? '').toLowerCase() === 'fixture';
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// A stored (uncompressed) zip with a single plugin.yml, enough to pass the plugin jar check
+function fixtureJar(name: string, version: string): Uint8Array<ArrayBuffer> {
+  const encoder = new TextEncoder();
+  const fileName = encoder.encode('plugin.yml');
+  const content = encoder.encode(`name: ${name}\nversion: ${version}\nmain: fixture.${name}\napi-version: '1.21'\n`);
+  const crc = crc32(content);
+
+  const local = new DataView(new ArrayBuffer(30));
+  local.setUint32(0, 0x04034b50, true);
+  local.setUint16(4, 20, true);
+  local.setUint32(14, crc, true);
+  local.setUint32(18, content.length, true);
+  local.setUint32(22, content.length, true);
+  local.setUint16(26, fileName.length, true);
+
+  const central = new DataView(new ArrayBuffer(46));
+  central.setUint32(0, 0x02014b50, true);
+  central.setUint16(4, 20, true);
+  central.setUint16(6, 20, true);
+  central.setUint32(16, crc, true);
+  central.setUint32(20, content.length, true);
+  central.setUint32(24, content.length, true);
+  central.setUint16(28, fileName.length, true);
+
+  const centralOffset = 30 + fileName.length + content.length;
+  const centralSize = 46 + fileName.length;
+  const eocd = new DataView(new ArrayBuffer(22));
+  eocd.setUint32(0, 0x06054b50, true);
+  eocd.setUint16(8, 1, true);
+  eocd.setUint16(10, 1, true);
+  eocd.setUint32(12, centralSize, true);
+  eocd.setUint32(16, centralOffset, true);
+
+  const parts = [new Uint8Array(local.buffer), fileName, content, new Uint8Array(central.buffer), fileName, new Uint8Array(eocd.buffer)];
+  const jar = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    jar.set(part, offset);
+    offset += part.length;
+  }
+  return jar;
+}
+
+async function hexDigest(algorithm: 'SHA-512' | 'SHA-256', data: Uint8Array<ArrayBuffer>): Promise<string> {
+  const digest = new Uint8Array(await crypto.subtle.digest(algorithm, data));
+  return Array.from(digest, b => b.toString(16).padStart(2, '0')).join('');
+}
+
+const JARS: Record<string, Uint8Array<ArrayBuffer>> = {
+  'fixture-plugin-2.1.0.jar': fixtureJar('FixturePlugin', '2.1.0'),
+  'fixture-plugin-2.0.0.jar': fixtureJar('FixturePlugin', '2.0.0'),
+  'FixtureHangar-1.4.0.jar': fixtureJar('FixtureHangar', '1.4.0'),
+};
+
+async function modrinthVersions(gameVersions: string[]) {
+  const versions = [
+    { id: 'fxv210', version_number: '2.1.0', version_type: 'release', game_versions: ['1.21.8'], loaders: ['paper'], file: 'fixture-plugin-2.1.0.jar' },
+    { id: 'fxv200', version_number: '2.0.0', version_type: 'release', game_versions: ['1.21.7', '1.21.8'], loaders: ['paper', 'spigot'], file: 'fixture-plugin-2.0.0.jar' },
+  ];
+  return await Promise.all(versions
+    .filter(v => gameVersions.length === 0 || v.game_versions.some(gv => gameVersions.includes(gv)))
+    .map(async ({ file, ...v }) => ({
+      ...v,
+      files: [{ url: `${FIXTURE_HOST}/files/${file}`, filename: file, primary: true, hashes: { sha512: await hexDigest('SHA-512', JARS[file]) } }],
+    })));
+}
+
+async function hangarVersions() {
+  return {
+    pagination: { limit: 25, offset: 0, count: 1 },
+    result: [{
+      id: 4140,
+      name: '1.4.0',
+      channel: { name: 'Release' },
+      downloads: {
+        PAPER: {
+          fileInfo: { name: 'FixtureHangar-1.4.0.jar', sizeBytes: JARS['FixtureHangar-1.4.0.jar'].length, sha256Hash: await hexDigest('SHA-256', JARS['FixtureHangar-1.4.0.jar']) },
+          externalUrl: null,
+          downloadUrl: `${FIXTURE_HOST}/files/FixtureHangar-1.4.0.jar`,
+        },
+      },
+      platformDependencies: { PAPER: ['1.21-1.21.10'] },
+    }],
+  };
+}
+
+function json(body: unknown): Response {
+  return new Response(JSON.stringify(body), { headers: { 'Content-Type': 'application/json' } });
+}
+
+export const fixtureCatalogFetch: CatalogFetch = async (input) => {
+  const url = new URL(input);
+  const path = url.pathname;
+
+  if (path.startsWith('/files/')) {
+    const jar = JARS[path.slice('/files/'.length)];
+    return jar ? new Response(jar) : new Response('Not Found', { status: 404 });
+  }
+  if (url.host === 'api.modrinth.com') {
+    if (path === '/v2/project/fixture-plugin' || path === '/v2/project/FXPLUGIN') {
+      return json({ id: 'FXPLUGIN', slug: 'fixture-plugin', title: 'Fixture Plugin', project_type: 'mod' });
+    }
+    if (path === '/v2/project/FXPLUGIN/version') {
+      return json(await modrinthVersions(JSON.parse(url.searchParams.get('game_versions') ?? '[]')));
+    }
+  }
+  if (url.host === 'hangar.papermc.io') {
+    if (path === '/api/v1/projects/FixtureHangar' || path === '/api/v1/projects/414') {
+      return json({ id: 414, name: 'FixtureHangar', namespace: { owner: 'fixture', slug: 'FixtureHangar' } });
+    }
+    if (path === '/api/v1/projects/FixtureHangar/versions') {
+      return json(await hangarVersions());
+    }
+  }
+  return new Response('Not Found', { status: 404 });
+};
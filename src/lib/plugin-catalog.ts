@@ -0,0 +1,266 @@
+import { z } from "zod";
+import type { CustomPlugin } from "./custom-plugins";
+
+// Resolves plugins from the public catalogs (Modrinth and Hangar) to a jar that runs on a given
+// Minecraft version. Installed catalog plugins are stored like uploaded plugins (see ./custom-plugins.ts)
+// with the pinned version recorded next to them.
+
+export const CATALOG_SOURCES = ['modrinth', 'hangar'] as const;
+
+export type CatalogSource = typeof CATALOG_SOURCES[number];
+
+// Modrinth asks API clients to identify themselves
+const USER_AGENT = 'mineflare (https://github.com/eastlondoner/mineflare)';
+
+const MODRINTH_API = 'https://api.modrinth.com/v2';
+const HANGAR_API = 'https://hangar.papermc.io/api/v1';
+
+// Loaders whose plugins run on Paper
+const MODRINTH_LOADERS = ['paper', 'spigot', 'bukkit'];
+
+export const CatalogPinSchema = z.object({
+  source: z.enum(CATALOG_SOURCES),
+  projectId: z.string(),
+  versionId: z.string(),
+  versionNumber: z.string(),
+  // Minecraft versions the pinned build supports, as listed by the catalog
+  gameVersions: z.array(z.string()),
+  pinnedAt: z.number(),
+});
+
+export type CatalogPin = z.infer<typeof CatalogPinSchema>;
+
+export interface ResolvedPlugin {
+  source: CatalogSource;
+  projectId: string;
+  // Stable across versions, used as the plugin filename
+  slug: string;
+  title: string;
+  versionId: string;
+  versionNumber: string;
+  gameVersions: string[];
+  downloadUrl: string;
+  hash: { algorithm: 'SHA-512' | 'SHA-256'; hex: string } | null;
+}
+
+export type CatalogFetch = (url: string, init?: RequestInit) => Promise<Response>;
+
+const ModrinthProjectSchema = z.object({
+  id: z.string(),
+  slug: z.string(),
+  title: z.string(),
+  project_type: z.string(),
+});
+
+const ModrinthVersionSchema = z.object({
+  id: z.string(),
+  version_number: z.string(),
+  version_type: z.string(),
+  game_versions: z.array(z.string()),
+  loaders: z.array(z.string()),
+  files: z.array(z.object({
+    url: z.string(),
+    filename: z.string(),
+    primary: z.boolean(),
+    hashes: z.object({ sha512: z.string().optional() }),
+  })),
+});
+
+const HangarProjectSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  namespace: z.object({ owner: z.string(), slug: z.string() }),
+});
+
+const HangarVersionSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  channel: z.object({ name: z.string() }),
+  downloads: z.record(z.string(), z.object({
+    fileInfo: z.object({ sha256Hash: z.string() }).nullable().optional(),
+    externalUrl: z.string().nullable().optional(),
+    downloadUrl: z.string().nullable().optional(),
+  })),
+  platformDependencies: z.record(z.string(), z.array(z.string())),
+});
+
+const HangarVersionsSchema = z.object({
+  result: z.array(HangarVersionSchema),
+});
+
+function compareVersions(a: string, b: string): number {
+  const pa = a.split('.').map(n => parseInt(n, 10) || 0);
+  const pb = b.split('.').map(n => parseInt(n, 10) || 0);
+  for (let i = 0; i < Math.max(pa.length, pb.length); i++) {
+    const diff = (pa[i] ?? 0) - (pb[i] ?? 0);
+    if (diff !== 0) {
+      return diff;
+    }
+  }
+  return 0;
+}
+
+/**
+ * Whether a catalog's list of supported Minecraft versions covers a server version.
+ * Entries are exact versions, wildcards like 1.21.x or ranges like 1.20.6-1.21.4 (Hangar).
+ */
+export function supportsGameVersion(gameVersions: string[], version: string): boolean {
+  return gameVersions.some(entry => {
+    if (entry === version) {
+      return true;
+    }
+    if (entry.endsWith('.x')) {
+      return version.startsWith(entry.slice(0, -1)) || version === entry.slice(0, -2);
+    }
+    const range = /^([\d.]+)\s*-\s*([\d.]+)$/.exec(entry);
+    return range !== null && compareVersions(version, range[1]) >= 0 && compareVersions(version, range[2]) <= 0;
+  });
+}
+
+async function fetchCatalogJson(fetchFn: CatalogFetch, url: string): Promise<unknown | null> {
+  const response = await fetchFn(url, { headers: { 'User-Agent': USER_AGENT, 'Accept': 'application/json' } });
+  if (response.status === 404) {
+    return null;
+  }
+  if (!response.ok) {
+    throw new Error(`Catalog request failed: ${response.status} ${response.statusText}`);
+  }
+  return await response.json();
+}
+
+async function resolveModrinth(fetchFn: CatalogFetch, projectId: string, gameVersion: string): Promise<ResolvedPlugin | null> {
+  const projectJson = await fetchCatalogJson(fetchFn, `${MODRINTH_API}/project/${encodeURIComponent(projectId)}`);
+  if (!projectJson) {
+    throw new Error(`Modrinth project not found: ${projectId}`);
+  }
+  const project = ModrinthProjectSchema.parse(projectJson);
+  if (project.project_type !== 'plugin' && project.project_type !== 'mod') {
+    throw new Error(`${project.title} is a Modrinth ${project.project_type}, not a plugin`);
+  }
+
+  const params = new URLSearchParams({
+    loaders: JSON.stringify(MODRINTH_LOADERS),
+    game_versions: JSON.stringify([gameVersion]),
+  });
+  const versions = z.array(ModrinthVersionSchema).parse(
+    await fetchCatalogJson(fetchFn, `${MODRINTH_API}/project/${project.id}/version?${params}`) ?? []
+  );
+  // Newest first; prefer releases over betas and alphas
+  const compatible = versions.filter(v =>
+    v.game_versions.includes(gameVersion) && v.loaders.some(l => MODRINTH_LOADERS.includes(l)) && v.files.length > 0
+  );
+  const version = compatible.find(v => v.version_type === 'release') ?? compatible[0];
+  if (!version) {
+    return null;
+  }
+  const file = version.files.find(f => f.primary) ?? version.files[0];
+  return {
+    source: 'modrinth',
+    projectId: project.id,
+    slug: project.slug,
+    title: project.title,
+    versionId: version.id,
+    versionNumber: version.version_number,
+    gameVersions: version.game_versions,
+    downloadUrl: file.url,
+    hash: file.hashes.sha512 ? { algorithm: 'SHA-512', hex: file.hashes.sha512 } : null,
+  };
+}
+
+async function resolveHangar(fetchFn: CatalogFetch, projectId: string, gameVersion: string): Promise<ResolvedPlugin | null> {
+  // Accept owner/slug as shown in Hangar URLs
+  const slug = projectId.split('/').pop() ?? projectId;
+  const projectJson = await fetchCatalogJson(fetchFn, `${HANGAR_API}/projects/${encodeURIComponent(slug)}`);
+  if (!projectJson) {
+    throw new Error(`Hangar project not found: ${projectId}`);
+  }
+  const project = HangarProjectSchema.parse(projectJson);
+
+  const params = new URLSearchParams({ platform: 'PAPER', platformVersion: gameVersion, limit: '25', offset: '0' });
+  const { result } = HangarVersionsSchema.parse(
+    await fetchCatalogJson(fetchFn, `${HANGAR_API}/projects/${encodeURIComponent(project.namespace.slug)}/versions?${params}`) ?? { result: [] }
+  );
+  const compatible = result.filter(v =>
+    supportsGameVersion(v.platformDependencies.PAPER ?? [], gameVersion) && (v.downloads.PAPER?.downloadUrl || v.downloads.PAPER?.externalUrl)
+  );
+  const version = compatible.find(v => v.channel.name.toLowerCase() === 'release') ?? compatible[0];
+  if (!version) {
+    return null;
+  }
+  const download = version.downloads.PAPER!;
+  return {
+    source: 'hangar',
+    projectId: String(project.id),
+    slug: project.namespace.slug,
+    title: project.name,
+    versionId: String(version.id),
+    versionNumber: version.name,
+    gameVersions: version.platformDependencies.PAPER ?? [],
+    downloadUrl: (download.downloadUrl || download.externalUrl)!,
+    // Externally hosted files have no hash
+    hash: download.downloadUrl && download.fileInfo ? { algorithm: 'SHA-256', hex: download.fileInfo.sha256Hash } : null,
+  };
+}
+
+/**
+ * Find the newest build of a catalog project that runs on the given Minecraft version.
+ * Returns null if the project exists but has no compatible build.
+ */
+export async function resolveCatalogPlugin(
+  { source, projectId, gameVersion }: { source: CatalogSource; projectId: string; gameVersion: string },
+  fetchFn: CatalogFetch = fetch
+): Promise<ResolvedPlugin | null> {
+  return source === 'modrinth'
+    ? await resolveModrinth(fetchFn, projectId, gameVersion)
+    : await resolveHangar(fetchFn, projectId, gameVersion);
+}
+
+/**
+ * Builds that run on a Minecraft version for the catalog plugins whose pinned build doesn't.
+ * Throws naming the plugins without one, so nothing is re-pinned unless all of them can be.
+ */
+export async function resolveCatalogRepins(
+  plugins: CustomPlugin[],
+  gameVersion: string,
+  fetchFn: CatalogFetch = fetch
+): Promise<ResolvedPlugin[]> {
+  const outdated = plugins.filter(p => p.catalog && !supportsGameVersion(p.catalog.gameVersions, gameVersion));
+  const resolved = await Promise.all(outdated.map(async plugin => ({
+    plugin,
+    build: await resolveCatalogPlugin({ source: plugin.catalog!.source, projectId: plugin.catalog!.projectId, gameVersion }, fetchFn),
+  })));
+  const incompatible = resolved.filter(r => !r.build).map(r => r.plugin.displayName);
+  if (incompatible.length > 0) {
+    throw new Error(`No build for Minecraft ${gameVersion} of: ${incompatible.join(", ")}. Disable ${incompatible.length === 1 ? "it" : "them"} first.`);
+  }
+  return resolved.map(r => r.build!);
+}
+
+/**
+ * Download a resolved build and check it against the catalog's hash
+ */
+export async function downloadCatalogPlugin(resolved: ResolvedPlugin, maxSize: number, fetchFn: CatalogFetch = fetch): Promise<Uint8Array> {
+  const response = await fetchFn(resolved.downloadUrl, { headers: { 'User-Agent': USER_AGENT } });
+  if (!response.ok) {
+    throw new Error(`Failed to download ${resolved.title} ${resolved.versionNumber}: ${response.status} ${response.statusText}`);
+  }
+  const jar = new Uint8Array(await response.arrayBuffer());
+  if (jar.length > maxSize) {
+    throw new Error(`${resolved.title} ${resolved.versionNumber} is larger than ${maxSize / (1024 * 1024)} MB`);
+  }
+  if (resolved.hash) {
+    const digest = new Uint8Array(await crypto.subtle.digest(resolved.hash.algorithm, jar));
+    const hex = Array.from(digest, b => b.toString(16).padStart(2, '0')).join('');
+    if (hex !== resolved.hash.hex.toLowerCase()) {
+      throw new Error(`Checksum mismatch for ${resolved.title} ${resolved.versionNumber}`);
+    }
+  }
+  return jar;
+}
+
+/**
+ * Plugin filename for a catalog project, stable across versions so enabling survives updates
+ */
+export function catalogPluginFilename(source: CatalogSource, slug: string): string {
+  return `${source}-${slug}`.replace(/[^A-Za-z0-9._-]/g, '_').slice(0, 64);
+}
@@ -0,0 +1,248 @@
+import { parseDocument } from "yaml";
+
+// Plugin configuration files below /data/plugins, read and written through the file server.
+// Edits are syntax-checked before they are written and the replaced content is kept for a revert.
+
+export const PLUGINS_DIR = '/data/plugins';
+
+// Larger files are data (player databases, caches) rather than configuration
+export const MAX_CONFIG_SIZE = 256 * 1024;
+
+export type ConfigFormat = 'yaml' | 'properties' | 'json';
+
+// Files start-with-services.sh regenerates on every start, edits to them would be lost
+const MANAGED_CONFIG_FILES: Record<string, string> = {
+  'dynmap/configuration.txt': 'Generated from the Mineflare Dynmap template on every start',
+};
+
+// <plugin folder>/<file>, at most three levels deep like the file server's listing
+const CONFIG_PATH_REGEX = /^[A-Za-z0-9_.-]+(\/[A-Za-z0-9_.-]+){1,2}$/;
+
+export function isConfigPath(path: string): boolean {
+  return CONFIG_PATH_REGEX.test(path) && !path.split('/').some(segment => segment === '.' || segment === '..');
+}
+
+export function configFormat(path: string): ConfigFormat | null {
+  if (path in MANAGED_CONFIG_FILES) {
+    // Dynmap's configuration.txt is YAML
+    return 'yaml';
+  }
+  const extension = path.slice(path.lastIndexOf('.') + 1).toLowerCase();
+  if (extension === 'yml' || extension === 'yaml') return 'yaml';
+  if (extension === 'properties') return 'properties';
+  if (extension === 'json') return 'json';
+  return null;
+}
+
+/**
+ * Why a config file can't be edited, or null if it can
+ */
+export function readOnlyReason(path: string): string | null {
+  return MANAGED_CONFIG_FILES[path] ?? null;
+}
+
+export interface ConfigError {
+  message: string;
+  // 1-based, when the parser reports a position
+  line: number | null;
+}
+
+export type ConfigParseResult =
+  | { valid: true; parsed: unknown; errors: [] }
+  | { valid: false; parsed: null; errors: ConfigError[] };
+
+function lineOf(text: string, offset: number): number {
+  return text.slice(0, offset).split('\n').length;
+}
+
+function parseYaml(text: string): ConfigParseResult {
+  const document = parseDocument(text, { prettyErrors: false, uniqueKeys: true });
+  if (document.errors.length > 0) {
+    return {
+      valid: false,
+      parsed: null,
+      errors: document.errors.map(error => ({
+        message: error.message.split('\n')[0],
+        line: error.pos ? lineOf(text, error.pos[0]) : null,
+      })),
+    };
+  }
+  return { valid: true, parsed: document.toJS(), errors: [] };
+}
+
+function parseJson(text: string): ConfigParseResult {
+  try {
+    return { valid: true, parsed: JSON.parse(text), errors: [] };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Invalid JSON';
+    const position = /position (\d+)/.exec(message);
+    return { valid: false, parsed: null, errors: [{ message, line: position ? lineOf(text, parseInt(position[1], 10)) : null }] };
+  }
+}
+
+// java.util.Properties: the key ends at the first unescaped '=', ':' or whitespace, lines ending
+// in an odd number of backslashes continue on the next line
+function parseProperties(text: string): ConfigParseResult {
+  const parsed: Record<string, string> = {};
+  const errors: ConfigError[] = [];
+  const lines = text.split(/\r?\n/);
+
+  const unescape = (value: string, line: number): string =>
+    value.replace(/\\(u(.{0,4})|.)/g, (match, escape: string, hex: string) => {
+      if (escape.startsWith('u')) {
+        if (!/^[0-9a-fA-F]{4}$/.test(hex)) {
+          errors.push({ message: `Malformed \\u escape: ${match}`, line });
+          return '';
+        }
+        return String.fromCharCode(parseInt(hex, 16));
+      }
+      return { t: '\t', n: '\n', r: '\r', f: '\f' }[escape] ?? escape;
+    });
+
+  for (let i = 0; i < lines.length; i++) {
+    const lineNumber = i + 1;
+    let logical = lines[i].replace(/^\s+/, '');
+    if (logical === '' || logical.startsWith('#') || logical.startsWith('!')) {
+      continue;
+    }
+    while (/(^|[^\\])(\\\\)*\\$/.test(logical) && i + 1 < lines.length) {
+      i++;
+      logical = logical.slice(0, -1) + lines[i].replace(/^\s+/, '');
+    }
+    const separator = /^((?:\\.|[^\\=:\s])*)\s*[=:]?\s*/.exec(logical)!;
+    const key = unescape(separator[1], lineNumber);
+    parsed[key] = unescape(logical.slice(separator[0].length), lineNumber);
+  }
+
+  return errors.length > 0 ? { valid: false, parsed: null, errors } : { valid: true, parsed, errors: [] };
+}
+
+/**
+ * Parse a config file, reporting syntax errors with their line where possible
+ */
+export function parseConfig(format: ConfigFormat, text: string): ConfigParseResult {
+  switch (format) {
+    case 'yaml':
+      return parseYaml(text);
+    case 'json':
+      return parseJson(text);
+    case 'properties':
+      return parseProperties(text);
+  }
+}
+
+export interface DiffLine {
+  type: 'context' | 'added' | 'removed';
+  text: string;
+}
+
+export interface DiffHunk {
+  // 1-based first line of the hunk in the old and new file
+  oldStart: number;
+  newStart: number;
+  lines: DiffLine[];
+}
+
+// Above this many line comparisons the changed region is shown as removed and re-added
+const MAX_DIFF_CELLS = 4_000_000;
+
+/**
+ * Line diff between two versions of a file, grouped into hunks with a few lines of context
+ */
+export function diffLines(before: string, after: string, context = 3): DiffHunk[] {
+  const a = before.split('\n');
+  const b = after.split('\n');
+
+  // Configs are usually edited in a few places, trim the common ends before the LCS
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (suffix < a.length - prefix && suffix < b.length - prefix && a[a.length - 1 - suffix] === b[b.length - 1 - suffix]) suffix++;
+  const midA = a.slice(prefix, a.length - suffix);
+  const midB = b.slice(prefix, b.length - suffix);
+
+  const middle: DiffLine[] = [];
+  if (midA.length * midB.length > MAX_DIFF_CELLS) {
+    middle.push(...midA.map(text => ({ type: 'removed' as const, text })), ...midB.map(text => ({ type: 'added' as const, text })));
+  } else {
+    // lcs[i][j] = length of the longest common subsequence of midA[i..] and midB[j..]
+    const width = midB.length + 1;
+    const lcs = new Uint32Array((midA.length + 1) * width);
+    for (let i = midA.length - 1; i >= 0; i--) {
+      for (let j = midB.length - 1; j >= 0; j--) {
+        lcs[i * width + j] = midA[i] === midB[j]
+          ? lcs[(i + 1) * width + j + 1] + 1
+          : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < midA.length || j < midB.length) {
+      if (i < midA.length && j < midB.length && midA[i] === midB[j]) {
+        middle.push({ type: 'context', text: midA[i] });
+        i++;
+        j++;
+      } else if (i < midA.length && (j === midB.length || lcs[(i + 1) * width + j] >= lcs[i * width + j + 1])) {
+        middle.push({ type: 'removed', text: midA[i++] });
+      } else {
+        middle.push({ type: 'added', text: midB[j++] });
+      }
+    }
+  }
+
+  const lines: DiffLine[] = [
+    ...a.slice(0, prefix).map(text => ({ type: 'context' as const, text })),
+    ...middle,
+    ...a.slice(a.length - suffix).map(text => ({ type: 'context' as const, text })),
+  ];
+
+  // Keep the changed lines and up to `context` unchanged lines around them
+  const hunks: DiffHunk[] = [];
+  let oldLine = 1;
+  let newLine = 1;
+  let current: DiffHunk | null = null;
+  let trailingContext = 0;
+  for (let index = 0; index < lines.length; index++) {
+    const line = lines[index];
+    if (line.type !== 'context') {
+      if (!current) {
+        const lead = [];
+        for (let k = index - 1; k >= 0 && lead.length < context && lines[k].type === 'context'; k--) {
+          lead.unshift(lines[k]);
+        }
+        current = { oldStart: oldLine - lead.length, newStart: newLine - lead.length, lines: lead };
+        hunks.push(current);
+      }
+      current.lines.push(line);
+      trailingContext = 0;
+    } else if (current) {
+      // Close the hunk once the next change is too far away to share context
+      const nextChange = lines.findIndex((l, k) => k > index && l.type !== 'context');
+      if (trailingContext < context || (nextChange !== -1 && nextChange - index <= context)) {
+        current.lines.push(line);
+        trailingContext++;
+      } else {
+        current = null;
+      }
+    }
+    if (line.type !== 'added') oldLine++;
+    if (line.type !== 'removed') newLine++;
+  }
+  return hunks;
+}
+
+export interface PluginConfigFile {
+  // Relative to /data/plugins, e.g. AuthMe/config.yml
+  path: string;
+  format: ConfigFormat;
+  size: number;
+  modified: number;
+  readOnlyReason: string | null;
+  // Whether a replaced version is kept that the file can be reverted to
+  hasPrevious: boolean;
+}
+
+export interface PluginConfigFolder {
+  folder: string;
+  files: PluginConfigFile[];
+}
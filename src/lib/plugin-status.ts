@@ -0,0 +1,102 @@
+// Plugin statuses shown in the Plugins panel. A plugin spec can compute its status in code (getStatus)
+// and/or declare status providers: patterns to look for in the server log, RCON commands whose output
+// is checked, and config files to inspect. The container evaluates them while the server is running.
+
+export type PluginStatus =
+  | { type: "no message" }
+  | { type: "information"; message: string }
+  | { type: "warning"; message: string }
+  | { type: "alert"; message: string };
+
+export type PluginStatusLevel = Exclude<PluginStatus["type"], "no message">;
+
+export type StatusProvider =
+  // Reports when the pattern matches a line of latest.log (the log of the current run)
+  | { kind: 'log'; pattern: RegExp; level: PluginStatusLevel; message: (matches: RegExpMatchArray[]) => string }
+  // Runs an RCON command and checks its output
+  | { kind: 'rcon'; command: string; evaluate: (output: string) => PluginStatus }
+  // Checks a config file, content is null if the file doesn't exist (yet)
+  | { kind: 'config'; path: string; evaluate: (content: string | null) => PluginStatus };
+
+// Where providers read from, the container memoizes these so providers of all plugins share one read
+export interface StatusSources {
+  log(): Promise<string>;
+  rcon(command: string): Promise<string | null>;
+  file(path: string): Promise<string | null>;
+}
+
+const SEVERITY: Record<PluginStatus["type"], number> = {
+  "no message": 0,
+  "information": 1,
+  "warning": 2,
+  "alert": 3,
+};
+
+async function evaluateProvider(provider: StatusProvider, sources: StatusSources): Promise<PluginStatus> {
+  switch (provider.kind) {
+    case 'log': {
+      const pattern = new RegExp(provider.pattern.source, provider.pattern.flags.includes('g') ? provider.pattern.flags : `${provider.pattern.flags}g`);
+      const matches = [...(await sources.log()).matchAll(pattern)];
+      return matches.length > 0 ? { type: provider.level, message: provider.message(matches) } : { type: "no message" };
+    }
+    case 'rcon': {
+      const output = await sources.rcon(provider.command);
+      return output === null ? { type: "no message" } : provider.evaluate(output);
+    }
+    case 'config':
+      return provider.evaluate(await sources.file(provider.path));
+  }
+}
+
+/**
+ * Combine statuses into one: the most severe wins, messages of the same severity are joined
+ */
+export function combinePluginStatuses(statuses: PluginStatus[]): PluginStatus {
+  const top = statuses.reduce((worst, status) => SEVERITY[status.type] > SEVERITY[worst] ? status.type : worst, "no message" as PluginStatus["type"]);
+  if (top === "no message") {
+    return { type: "no message" };
+  }
+  const messages = statuses.flatMap(status => status.type === top ? [status.message] : []);
+  return { type: top, message: [...new Set(messages)].join(" · ") };
+}
+
+/**
+ * Evaluate a plugin's providers. A provider that fails (e.g. RCON not connected yet) is skipped.
+ */
+export async function evaluateStatusProviders(providers: ReadonlyArray<StatusProvider>, sources: StatusSources): Promise<PluginStatus> {
+  const statuses = await Promise.all(providers.map(provider =>
+    evaluateProvider(provider, sources).catch(error => {
+      console.error("Plugin status provider failed:", error);
+      return { type: "no message" as const };
+    })
+  ));
+  return combinePluginStatuses(statuses);
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Log patterns for a plugin that Paper failed to load or enable. Every plugin gets these: the jar is
+ * /data/plugins/<filename>.jar, pluginName is the name from its plugin.yml when known.
+ */
+export function pluginLoadFailureProviders(filename: string, pluginName?: string): StatusProvider[] {
+  const jar = escapeRegExp(`${filename}.jar`);
+  const providers: StatusProvider[] = [{
+    kind: 'log',
+    // "Could not load plugin 'plugins/x.jar'", "Error loading plugin: File 'plugins/x.jar' ..."
+    pattern: new RegExp(`^.*(?:could not load|error loading plugin|invalid plugin).*${jar}.*$`, 'gim'),
+    level: 'alert',
+    message: () => "The server could not load this plugin, it may not support this Minecraft version. Check the server log.",
+  }];
+  if (pluginName) {
+    providers.push({
+      kind: 'log',
+      pattern: new RegExp(`^.*Error occurred while enabling ${escapeRegExp(pluginName)} v.*$`, 'gim'),
+      level: 'alert',
+      message: () => "The plugin failed to start. Check the server log for the error.",
+    });
+  }
+  return providers;
+}
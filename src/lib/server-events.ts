@@ -0,0 +1,89 @@
+import { z } from "zod";
+import type { LogEntry } from "./server-log";
+
+// Server events derived from the parsed server log: players joining and leaving, chat, deaths,
+// advancements and the server starting and stopping. They are pushed to the dashboard as they
+// happen and kept for a few days for the activity feed.
+
+export const SERVER_EVENT_TYPES = ['join', 'leave', 'chat', 'death', 'advancement', 'server_start', 'server_stop'] as const;
+
+export type ServerEventType = typeof SERVER_EVENT_TYPES[number];
+
+export interface ServerEvent {
+  id: number;
+  // Epoch milliseconds of the log entry
+  time: number;
+  type: ServerEventType;
+  player: string | null;
+  // The log message, e.g. "Steve was slain by Zombie", for chat "<Steve> hi" and for the server
+  // "Server started in 12.3s" / "Server stopped"
+  message: string;
+  // The chat text, the advancement title, or the startup time for server_start
+  detail: string | null;
+}
+
+export type NewServerEvent = Omit<ServerEvent, 'id'>;
+
+// Events older than this are deleted
+export const EVENT_RETENTION_DAYS = 7;
+
+export const ServerEventQuerySchema = z.object({
+  types: z.array(z.enum(SERVER_EVENT_TYPES)).optional(),
+  player: z.string().max(16).optional(),
+  // Epoch milliseconds, only events after (since) / before (until) this time
+  since: z.number().optional(),
+  until: z.number().optional(),
+  limit: z.number().int().min(1).max(1000).default(100),
+});
+
+export type ServerEventQuery = z.input<typeof ServerEventQuerySchema>;
+
+const PLAYER = '([A-Za-z0-9_]{1,16})';
+
+const JOIN_REGEX = new RegExp(`^${PLAYER} joined the game$`);
+const LEAVE_REGEX = new RegExp(`^${PLAYER} left the game$`);
+// Chat from players without signed chat is prefixed with [Not Secure], which the log parser reads as the source
+const CHAT_REGEX = new RegExp(`^<${PLAYER}> (.*)$`, 's');
+const ADVANCEMENT_REGEX = new RegExp(`^${PLAYER} has (?:made the advancement|completed the challenge|reached the goal) \\[(.+)\\]$`);
+// The vanilla death messages (en_us death.* keys) all start with the player's name and one of these
+const DEATH_REGEX = new RegExp(`^${PLAYER} (?:${[
+  'was', 'walked into', 'drowned', 'died', 'experienced kinetic energy', 'blew up', 'hit the ground too hard',
+  'fell', 'went up in flames', 'burned to death', 'went off with a bang', 'tried to swim in lava',
+  'discovered the floor was lava', 'suffocated in a wall', 'starved to death', 'withered away',
+  'froze to death', "didn't want to live", 'left the confines of this world', 'is no more',
+].join('|')})\\b`);
+const SERVER_START_REGEX = /^Done \(([\d.,]+)s\)! For help, type "help"/;
+const SERVER_STOP_REGEX = /^Stopping (?:the )?server$/;
+
+/**
+ * The event a log entry describes, if any. Only messages the server itself logs count, so a plugin
+ * logging "Steve joined the game" under its own prefix is not a join.
+ */
+export function eventFromLogEntry(entry: LogEntry): NewServerEvent | null {
+  const time = Date.parse(entry.time);
+  const event = (type: ServerEventType, player: string | null, detail: string | null = null): NewServerEvent =>
+    ({ time, type, player, message: entry.message, detail });
+
+  if (entry.level !== 'INFO') {
+    return null;
+  }
+  if (entry.source === null || entry.source === 'Not Secure') {
+    const chat = CHAT_REGEX.exec(entry.message);
+    if (chat) {
+      return { ...event('chat', chat[1], chat[2]), message: `<${chat[1]}> ${chat[2]}` };
+    }
+  }
+  if (entry.source !== null || entry.thread !== 'Server thread') {
+    return null;
+  }
+  let match: RegExpExecArray | null;
+  if ((match = JOIN_REGEX.exec(entry.message))) return event('join', match[1]);
+  if ((match = LEAVE_REGEX.exec(entry.message))) return event('leave', match[1]);
+  if ((match = ADVANCEMENT_REGEX.exec(entry.message))) return event('advancement', match[1], match[2]);
+  if ((match = SERVER_START_REGEX.exec(entry.message))) {
+    return { ...event('server_start', null, `${match[1]}s`), message: `Server started in ${match[1]}s` };
+  }
+  if (SERVER_STOP_REGEX.test(entry.message)) return { ...event('server_stop', null), message: 'Server stopped' };
+  if ((match = DEATH_REGEX.exec(entry.message))) return event('death', match[1]);
+  return null;
+}
@@ -0,0 +1,120 @@
+import { z } from "zod";
+
+// The Paper server log: /data/logs/latest.log for the current run, gzipped logs/<date>-<n>.log.gz
+// for earlier runs. Lines look like "[14:03:11] [Server thread/INFO]: [dynmap] Loading resources"
+// and are parsed into structured entries; stack traces and other continuation lines are folded
+// into the entry they belong to.
+
+export const LATEST_LOG_PATH = '/data/logs/latest.log';
+export const LOG_DIR = '/data/logs';
+
+export const LOG_LEVELS = ['TRACE', 'DEBUG', 'INFO', 'WARN', 'ERROR', 'FATAL'] as const;
+
+export type LogLevel = typeof LOG_LEVELS[number];
+
+export interface LogEntry {
+  // ISO timestamp. The log only has the time of day, the date comes from the file (see parseLogLines)
+  time: string;
+  thread: string;
+  level: LogLevel;
+  // Plugin or logger prefix of the message ("dynmap" for "[dynmap] ..."), null if there is none
+  source: string | null;
+  message: string;
+}
+
+export const LogFilterSchema = z.object({
+  levels: z.array(z.enum(LOG_LEVELS)).optional(),
+  // Case-insensitive substring of the source or message
+  text: z.string().max(200).optional(),
+});
+
+export type LogFilter = z.infer<typeof LogFilterSchema>;
+
+// The most recent entries of the current log, 200 by default
+export const RecentLogsQuerySchema = LogFilterSchema.extend({
+  limit: z.number().int().min(1).max(1000).optional(),
+});
+
+export const LogSearchSchema = LogFilterSchema.extend({
+  from: z.number(),
+  to: z.number(),
+  limit: z.number().int().min(1).max(5000).default(1000),
+});
+
+export type LogSearch = z.input<typeof LogSearchSchema>;
+
+const LINE_REGEX = /^\[(\d{2}):(\d{2}):(\d{2})\] \[([^\]]*)\/([A-Z]+)\]: (?:\[([^\]]{1,64})\] )?(.*)$/;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Parse log text into entries. day is midnight (UTC, the container's timezone) of the day the log
+ * starts; the date moves to the next day when the time of day goes backwards.
+ * Lines before the first header (the rest of a stack trace from an earlier read) become an entry
+ * like `previous` if given, otherwise they are dropped.
+ */
+export function parseLogLines(text: string, day: number, previous?: LogEntry): LogEntry[] {
+  const entries: LogEntry[] = [];
+  const orphans: string[] = [];
+  let lastTime = previous ? Date.parse(previous.time) : day;
+  let currentDay = previous ? startOfDay(lastTime) : day;
+  let current: LogEntry | undefined;
+
+  for (const line of text.split(/\r?\n/)) {
+    const match = LINE_REGEX.exec(line);
+    if (!match) {
+      if (line.trim() === '') {
+        continue;
+      }
+      if (current) {
+        current.message += `\n${line}`;
+      } else {
+        orphans.push(line);
+      }
+      continue;
+    }
+    const [, hours, minutes, seconds, thread, level, source, message] = match;
+    let time = currentDay + ((parseInt(hours, 10) * 60 + parseInt(minutes, 10)) * 60 + parseInt(seconds, 10)) * 1000;
+    // Allow for small clock steps backwards, anything more is the next day
+    if (time < lastTime - 60 * 60 * 1000) {
+      currentDay += DAY_MS;
+      time += DAY_MS;
+    }
+    lastTime = time;
+    current = {
+      time: new Date(time).toISOString(),
+      thread,
+      level: (LOG_LEVELS as readonly string[]).includes(level) ? level as LogLevel : 'INFO',
+      source: source ?? null,
+      message,
+    };
+    entries.push(current);
+  }
+  if (previous && orphans.length > 0) {
+    entries.unshift({ ...previous, message: orphans.join('\n') });
+  }
+  return entries;
+}
+
+export function matchesLogFilter(entry: LogEntry, filter: LogFilter): boolean {
+  if (filter.levels && filter.levels.length > 0 && !filter.levels.includes(entry.level)) {
+    return false;
+  }
+  if (filter.text) {
+    const text = filter.text.toLowerCase();
+    return entry.message.toLowerCase().includes(text) || (entry.source?.toLowerCase().includes(text) ?? false);
+  }
+  return true;
+}
+
+/**
+ * Midnight UTC of the date in an archived log's name (2025-10-06-1.log.gz), null for other files
+ */
+export function archivedLogDay(filename: string): number | null {
+  const match = /^(\d{4}-\d{2}-\d{2})-\d+\.log\.gz$/.exec(filename);
+  return match ? Date.parse(`${match[1]}T00:00:00Z`) : null;
+}
+
+export function startOfDay(time: number): number {
+  return time - (time % DAY_MS);
+}
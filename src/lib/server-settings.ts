@@ -0,0 +1,65 @@
+import { z } from "zod";
+import { DIFFICULTIES, GAME_MODES } from "./worlds";
+
+// Gameplay settings written to server.properties by the itzg image from env vars on every start.
+// Difficulty and game mode belong to the selected world profile (see ./worlds.ts), the rest are
+// shared by all worlds.
+export const ServerSettingsSchema = z.object({
+  difficulty: z.enum(DIFFICULTIES),
+  gameMode: z.enum(GAME_MODES),
+  pvp: z.boolean(),
+  viewDistance: z.number().int().min(3).max(32),
+  simulationDistance: z.number().int().min(3).max(32),
+  spawnProtection: z.number().int().min(0).max(64),
+  whitelist: z.boolean(),
+  maxPlayers: z.number().int().min(1).max(1000),
+  motd: z.string().max(256).regex(/^[^\r\n]*$/, "MOTD must be a single line"),
+  // Verify players with Mojang. Off by default so Tailscale and playit players without
+  // a paid account can join; an offline-mode server should use an auth plugin instead.
+  onlineMode: z.boolean(),
+});
+
+export type ServerSettings = z.infer<typeof ServerSettingsSchema>;
+
+export type ServerSetting = keyof ServerSettings;
+
+// Defaults of a vanilla server.properties, apart from online mode
+export const DEFAULT_SERVER_SETTINGS: Omit<ServerSettings, 'difficulty' | 'gameMode'> = {
+  pvp: true,
+  viewDistance: 10,
+  simulationDistance: 10,
+  spawnProtection: 16,
+  whitelist: false,
+  maxPlayers: 20,
+  motd: "A Minecraft Server",
+  onlineMode: false,
+};
+
+/**
+ * Translate settings to the itzg/minecraft-server env vars that set the matching server.properties keys
+ */
+export function serverSettingsEnv(settings: ServerSettings): Record<string, string> {
+  return {
+    DIFFICULTY: settings.difficulty,
+    MODE: settings.gameMode,
+    PVP: String(settings.pvp),
+    VIEW_DISTANCE: String(settings.viewDistance),
+    SIMULATION_DISTANCE: String(settings.simulationDistance),
+    SPAWN_PROTECTION: String(settings.spawnProtection),
+    ENABLE_WHITELIST: String(settings.whitelist),
+    MAX_PLAYERS: String(settings.maxPlayers),
+    MOTD: settings.motd,
+    ONLINE_MODE: String(settings.onlineMode),
+  };
+}
+
+// Settings a running server picks up from an RCON command, everything else needs a restart
+const LIVE_SETTING_COMMANDS: Partial<{ [K in ServerSetting]: (value: ServerSettings[K]) => string }> = {
+  difficulty: (value) => `difficulty ${value}`,
+  whitelist: (value) => `whitelist ${value ? 'on' : 'off'}`,
+};
+
+export function liveSettingCommand<K extends ServerSetting>(setting: K, value: ServerSettings[K]): string | null {
+  const command = LIVE_SETTING_COMMANDS[setting] as ((value: ServerSettings[K]) => string) | undefined;
+  return command ? command(value) : null;
+}
@@ -0,0 +1,140 @@
+import { z } from "zod";
+
+// Time-based one-time passwords (RFC 6238) as used by authenticator apps: HMAC-SHA1, 30 second
+// steps, 6 digits. Secrets are 20 random bytes, shown base32 encoded.
+
+export const TOTP_ISSUER = 'Mineflare';
+export const TOTP_STEP_SECONDS = 30;
+export const TOTP_DIGITS = 6;
+// Steps before and after the current one that are accepted too, for clocks that are a bit off
+export const TOTP_WINDOW = 1;
+
+export const RECOVERY_CODE_COUNT = 10;
+
+// After this many wrong codes in a row the second step is locked for a while
+export const MAX_FAILED_2FA_ATTEMPTS = 5;
+export const FAILED_2FA_LOCKOUT_MS = 5 * 60 * 1000;
+
+// How long the second step of a sign-in may take
+export const LOGIN_CHALLENGE_TTL_SECONDS = 5 * 60;
+
+// A code from the app, or one of the recovery codes ("abcde-fghij")
+export const SecondFactorCodeSchema = z.string()
+  .transform(code => code.toLowerCase().replace(/\s/g, ''))
+  .pipe(z.string().min(1, "Enter a code"));
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  // Unused recovery codes, 0 when 2FA is off
+  recoveryCodesLeft: number;
+}
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export function base32Encode(bytes: Uint8Array): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+  for (const byte of bytes) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+export function base32Decode(input: string): Uint8Array {
+  const clean = input.toUpperCase().replace(/[\s=-]/g, '');
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error(`Invalid base32 character "${char}"`);
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return new Uint8Array(bytes);
+}
+
+/**
+ * The otpauth:// URI authenticator apps read from the QR code
+ */
+export function provisioningUri(secret: string, accountName: string): string {
+  const label = `${encodeURIComponent(TOTP_ISSUER)}:${encodeURIComponent(accountName)}`;
+  const params = new URLSearchParams({
+    secret,
+    issuer: TOTP_ISSUER,
+    algorithm: 'SHA1',
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_STEP_SECONDS),
+  });
+  return `otpauth://totp/${label}?${params}`;
+}
+
+export function totpStep(time: number): number {
+  return Math.floor(time / 1000 / TOTP_STEP_SECONDS);
+}
+
+/**
+ * The code for a time step (HOTP of RFC 4226 with the step as counter)
+ */
+export async function totpCode(secret: string, step: number): Promise<string> {
+  const keyBytes = base32Decode(secret);
+  const key = await crypto.subtle.importKey('raw', new Uint8Array(keyBytes).buffer as ArrayBuffer, { name: 'HMAC', hash: 'SHA-1' }, false, ['sign']);
+  const counter = new DataView(new ArrayBuffer(8));
+  counter.setUint32(0, Math.floor(step / 2 ** 32));
+  counter.setUint32(4, step >>> 0);
+  const hmac = new Uint8Array(await crypto.subtle.sign('HMAC', key, counter.buffer));
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary = ((hmac[offset] & 0x7f) << 24) | (hmac[offset + 1] << 16) | (hmac[offset + 2] << 8) | hmac[offset + 3];
+  return String(binary % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, '0');
+}
+
+/**
+ * The time step a code belongs to if it is valid around `time`, null otherwise. Steps up to
+ * `lastStep` are refused, so a code can't be used twice.
+ */
+export async function verifyTotp(secret: string, code: string, time: number, lastStep: number | null): Promise<number | null> {
+  const digits = code.replace(/\s/g, '');
+  if (!new RegExp(`^\\d{${TOTP_DIGITS}}$`).test(digits)) {
+    return null;
+  }
+  const current = totpStep(time);
+  for (let step = current - TOTP_WINDOW; step <= current + TOTP_WINDOW; step++) {
+    if (lastStep !== null && step <= lastStep) {
+      continue;
+    }
+    if (await totpCode(secret, step) === digits) {
+      return step;
+    }
+  }
+  return null;
+}
+
+/**
+ * A new recovery code, like "k7dqp-2mxhw"
+ */
+export function generateRecoveryCode(): string {
+  const bytes = new Uint8Array(7);
+  crypto.getRandomValues(bytes);
+  const code = base32Encode(bytes).slice(0, 10).toLowerCase();
+  return `${code.slice(0, 5)}-${code.slice(5)}`;
+}
+
+// Recovery codes are compared without the dash
+export function normalizeRecoveryCode(code: string): string {
+  return code.toLowerCase().replace(/[^a-z2-7]/g, '');
+}
@@ -0,0 +1,101 @@
+import { z } from "zod";
+
+// Dashboard accounts. Every account has one role, each role can do everything the roles before it
+// can: viewers see the dashboard, moderators also start and stop the server, run RCON commands and
+// moderate players, admins also change the server (plugins, version, worlds, backups, settings) and
+// use the terminal, the owner also manages the accounts.
+
+export const ROLES = ['viewer', 'moderator', 'admin', 'owner'] as const;
+
+export type Role = typeof ROLES[number];
+
+export const RoleSchema = z.enum(ROLES);
+
+// Roles an invite or a role change can hand out, there is exactly one owner
+export const AssignableRoleSchema = z.enum(['viewer', 'moderator', 'admin']);
+
+export type AssignableRole = z.infer<typeof AssignableRoleSchema>;
+
+export const UsernameSchema = z.string()
+  .trim()
+  .min(2, "Usernames are at least 2 characters")
+  .max(32, "Usernames are at most 32 characters")
+  .regex(/^[A-Za-z0-9_.-]+$/, "Usernames can only contain letters, digits, '.', '_' and '-'");
+
+export const PasswordSchema = z.string().min(8, "Password must be at least 8 characters");
+
+// Username of the account created by the first-time setup, and of the account the single password
+// of earlier versions became
+export const OWNER_USERNAME = 'owner';
+
+export const INVITE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+// How long a sign-in lasts, the auth cookie and its session expire together
+export const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+export interface AuthUser {
+  id: number;
+  username: string;
+  role: Role;
+}
+
+export interface UserInfo extends AuthUser {
+  createdAt: number;
+  invitedBy: string | null;
+}
+
+// A signed-in browser, the devices list of an account
+export interface SessionInfo {
+  id: number;
+  createdAt: number;
+  // Recorded at most once a minute
+  lastSeenAt: number;
+  expiresAt: number;
+  // As of the last time it was seen
+  userAgent: string | null;
+  ip: string | null;
+  twoFactor: boolean;
+  // The session of the request that listed it
+  current: boolean;
+}
+
+export interface InviteInfo {
+  id: number;
+  role: AssignableRole;
+  // Null once the account that created it is deleted
+  createdBy: string | null;
+  createdAt: number;
+  expiresAt: number;
+}
+
+export function roleAtLeast(role: Role, minimum: Role): boolean {
+  return ROLES.indexOf(role) >= ROLES.indexOf(minimum);
+}
+
+// The least role that may use a route, first match wins. Paths are the full request paths.
+const ROUTE_ROLES: Array<{ method?: string; path: RegExp; role: Role }> = [
+  { path: /^\/api\/users(\/|$)/, role: 'owner' },
+  // Everyone manages their own API tokens, two-factor authentication, sign-ins and password
+  { path: /^\/api\/tokens(\/|$)/, role: 'viewer' },
+  { path: /^\/auth\/(2fa|sessions|password)(\/|$)/, role: 'viewer' },
+  // The root shell and the embedded browser
+  { path: /^\/src\/(terminal|browser)(\/|$)/, role: 'admin' },
+  // Reads that expose more than the dashboard shows: plugin configs can hold secrets
+  { method: 'GET', path: /^\/api\/plugin-configs(\/|$)/, role: 'admin' },
+  { method: 'GET', path: /^\/api\/world\/download$/, role: 'admin' },
+  { method: 'GET', path: /^\/api\/audit(\/|$)/, role: 'admin' },
+  { method: 'GET', path: /./, role: 'viewer' },
+  { method: 'POST', path: /^\/api\/(shutdown|rcon\/execute)$/, role: 'moderator' },
+  { method: 'POST', path: /^\/api\/players\/[^/]+\/kick$/, role: 'moderator' },
+  { path: /^\/api\/moderation(\/|$)/, role: 'moderator' },
+];
+
+/**
+ * The least role that may use a route. Changes not listed need an admin, so new routes are
+ * admin-only until they are listed.
+ */
+export function requiredRole(method: string, pathname: string): Role {
+  const upperMethod = method.toUpperCase();
+  const rule = ROUTE_ROLES.find(rule => (!rule.method || rule.method === upperMethod) && rule.path.test(pathname));
+  return rule?.role ?? 'admin';
+}
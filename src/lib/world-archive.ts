@@ -0,0 +1,377 @@
+import type { BackupManifest } from "./backups";
+
+// Uploaded world archives waiting to be imported on the next start, see docker_src/file-server.ts
+export const IMPORT_PREFIX = 'imports/';
+
+export type WorldArchiveFormat = 'zip' | 'tar.gz';
+
+export interface PendingWorldImport {
+  key: string;
+  filename: string;
+  format: WorldArchiveFormat;
+  size: number;
+  // Path of level.dat inside the archive, the directory containing it becomes /data/world
+  levelDatPath: string;
+  uploadedAt: number;
+}
+
+export function worldArchiveFormat(filename: string): WorldArchiveFormat | null {
+  const lower = filename.toLowerCase();
+  if (lower.endsWith('.zip')) {
+    return 'zip';
+  }
+  if (lower.endsWith('.tar.gz') || lower.endsWith('.tgz')) {
+    return 'tar.gz';
+  }
+  return null;
+}
+
+/**
+ * Pick the level.dat closest to the archive root, ignoring anything that could escape the extraction directory.
+ */
+export function selectLevelDat(paths: string[]): string | null {
+  const candidates = paths
+    .map(path => path.replace(/^\.\//, ''))
+    .filter(path => (path === 'level.dat' || path.endsWith('/level.dat'))
+      && !path.startsWith('/')
+      && !path.split('/').includes('..')
+      && !path.startsWith('__MACOSX/'))
+    .sort((a, b) => a.split('/').length - b.split('/').length);
+  return candidates[0] ?? null;
+}
+
+// =====================
+// Zip
+// =====================
+
+const EOCD_SIGNATURE = 0x06054b50;
+const ZIP64_EOCD_LOCATOR_SIGNATURE = 0x07064b50;
+const ZIP64_EOCD_SIGNATURE = 0x06064b50;
+const CENTRAL_DIRECTORY_SIGNATURE = 0x02014b50;
+// 22 byte EOCD record plus the longest possible comment
+const EOCD_SEARCH_LENGTH = 22 + 0xffff;
+
+/**
+ * List the file names in a zip archive by reading its central directory.
+ * Only the tail of the archive and the central directory are read, so this is cheap for large worlds.
+ */
+export async function listZipEntries(
+  readRange: (offset: number, length: number) => Promise<Uint8Array>,
+  size: number
+): Promise<string[]> {
+  const tailLength = Math.min(size, EOCD_SEARCH_LENGTH);
+  const tailOffset = size - tailLength;
+  const tail = await readRange(tailOffset, tailLength);
+  const tailView = new DataView(tail.buffer, tail.byteOffset, tail.byteLength);
+
+  let eocd = -1;
+  for (let i = tail.length - 22; i >= 0; i--) {
+    if (tailView.getUint32(i, true) === EOCD_SIGNATURE) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) {
+    throw new Error("Not a zip archive (end of central directory not found)");
+  }
+
+  let entryCount = tailView.getUint16(eocd + 10, true);
+  let directorySize = tailView.getUint32(eocd + 12, true);
+  let directoryOffset = tailView.getUint32(eocd + 16, true);
+
+  // Archives over 4 GB or 65535 entries keep the real values in the zip64 record
+  const locator = eocd - 20;
+  if (locator >= 0 && tailView.getUint32(locator, true) === ZIP64_EOCD_LOCATOR_SIGNATURE) {
+    const zip64Offset = Number(tailView.getBigUint64(locator + 8, true));
+    const record = await readRange(zip64Offset, 56);
+    const recordView = new DataView(record.buffer, record.byteOffset, record.byteLength);
+    if (recordView.getUint32(0, true) !== ZIP64_EOCD_SIGNATURE) {
+      throw new Error("Invalid zip64 end of central directory record");
+    }
+    entryCount = Number(recordView.getBigUint64(32, true));
+    directorySize = Number(recordView.getBigUint64(40, true));
+    directoryOffset = Number(recordView.getBigUint64(48, true));
+  }
+
+  if (directoryOffset + directorySize > size) {
+    throw new Error("Zip central directory is out of range");
+  }
+
+  const directory = directoryOffset >= tailOffset
+    ? tail.subarray(directoryOffset - tailOffset, directoryOffset - tailOffset + directorySize)
+    : await readRange(directoryOffset, directorySize);
+  const view = new DataView(directory.buffer, directory.byteOffset, directory.byteLength);
+  const decoder = new TextDecoder();
+  const names: string[] = [];
+  let position = 0;
+  for (let i = 0; i < entryCount && position + 46 <= directory.length; i++) {
+    if (view.getUint32(position, true) !== CENTRAL_DIRECTORY_SIGNATURE) {
+      throw new Error("Corrupt zip central directory");
+    }
+    const nameLength = view.getUint16(position + 28, true);
+    const extraLength = view.getUint16(position + 30, true);
+    const commentLength = view.getUint16(position + 32, true);
+    names.push(decoder.decode(directory.subarray(position + 46, position + 46 + nameLength)).replace(/\\/g, '/'));
+    position += 46 + nameLength + extraLength + commentLength;
+  }
+  return names;
+}
+
+// =====================
+// Tar
+// =====================
+
+const TAR_BLOCK = 512;
+
+/**
+ * Reads exact byte counts from a stream, buffering only what the caller asked for.
+ */
+class StreamBlockReader {
+  private reader: ReadableStreamDefaultReader<Uint8Array>;
+  private buffer = new Uint8Array(0);
+  private done = false;
+
+  constructor(stream: ReadableStream<Uint8Array>) {
+    this.reader = stream.getReader();
+  }
+
+  private async fill(length: number): Promise<void> {
+    while (this.buffer.length < length && !this.done) {
+      const { done, value } = await this.reader.read();
+      if (done) {
+        this.done = true;
+        break;
+      }
+      const next = new Uint8Array(this.buffer.length + value.length);
+      next.set(this.buffer);
+      next.set(value, this.buffer.length);
+      this.buffer = next;
+    }
+  }
+
+  /** Read exactly `length` bytes, or null at end of stream */
+  async read(length: number): Promise<Uint8Array | null> {
+    await this.fill(length);
+    if (this.buffer.length < length) {
+      return null;
+    }
+    const out = this.buffer.slice(0, length);
+    this.buffer = this.buffer.subarray(length);
+    return out;
+  }
+
+  /** Hand `length` bytes to `onData` in pieces without holding them all in memory */
+  async forward(length: number, onData: (chunk: Uint8Array) => Promise<void>): Promise<void> {
+    let remaining = length;
+    while (remaining > 0) {
+      await this.fill(1);
+      if (this.buffer.length === 0) {
+        throw new Error("Unexpected end of tar stream");
+      }
+      const piece = this.buffer.slice(0, Math.min(remaining, this.buffer.length));
+      this.buffer = this.buffer.subarray(piece.length);
+      remaining -= piece.length;
+      await onData(piece);
+    }
+  }
+
+  async cancel(): Promise<void> {
+    await this.reader.cancel().catch(() => {});
+  }
+}
+
+function readTarString(block: Uint8Array, offset: number, length: number): string {
+  const field = block.subarray(offset, offset + length);
+  const end = field.indexOf(0);
+  return new TextDecoder().decode(end >= 0 ? field.subarray(0, end) : field);
+}
+
+function readTarSize(block: Uint8Array): number {
+  // GNU base-256 encoding for sizes over 8 GB
+  if (block[124] & 0x80) {
+    let size = 0;
+    for (let i = 125; i < 136; i++) {
+      size = size * 256 + block[i];
+    }
+    return size;
+  }
+  return parseInt(readTarString(block, 124, 12).trim() || '0', 8);
+}
+
+function paddedSize(size: number): number {
+  return Math.ceil(size / TAR_BLOCK) * TAR_BLOCK;
+}
+
+interface TarEntry {
+  header: Uint8Array;
+  name: string;
+  type: string;
+  size: number;
+  // Padded data of a GNU long name record, already read by the walker
+  longNameData?: Uint8Array;
+}
+
+/**
+ * Walk the entries of a tar stream. `onEntry` must consume the entry data with `forward` or `skip`,
+ * and can return false to stop early.
+ */
+async function walkTar(
+  reader: StreamBlockReader,
+  onEntry: (entry: TarEntry, data: { forward: (onData: (chunk: Uint8Array) => Promise<void>) => Promise<void>; skip: () => Promise<void> }) => Promise<boolean | void>
+): Promise<void> {
+  let longName: string | null = null;
+  while (true) {
+    const header = await reader.read(TAR_BLOCK);
+    if (!header || header.every(byte => byte === 0)) {
+      return;
+    }
+    const type = String.fromCharCode(header[156] || 0x30);
+    const size = readTarSize(header);
+    // Only POSIX ustar headers have a name prefix, old GNU headers use those bytes for other fields
+    const prefix = readTarString(header, 257, 6) === 'ustar' ? readTarString(header, 345, 155) : '';
+    const baseName = readTarString(header, 0, 100);
+    const name = longName ?? (prefix ? `${prefix}/${baseName}` : baseName);
+    if (type !== 'L') {
+      longName = null;
+    }
+
+    let consumed = false;
+    const forward = async (onData: (chunk: Uint8Array) => Promise<void>) => {
+      consumed = true;
+      await reader.forward(paddedSize(size), onData);
+    };
+    const skip = () => forward(async () => {});
+
+    let longNameData: Uint8Array | undefined;
+    if (type === 'L') {
+      // GNU long name record: the data is the name of the next entry
+      const data = await reader.read(paddedSize(size));
+      if (!data) {
+        throw new Error("Unexpected end of tar stream");
+      }
+      longName = readTarString(data, 0, size);
+      longNameData = data;
+      consumed = true;
+    }
+    const keepGoing = await onEntry({ header, name, type, size, longNameData }, { forward, skip });
+    if (keepGoing === false) {
+      return;
+    }
+    if (!consumed) {
+      await skip();
+    }
+  }
+}
+
+/**
+ * Find level.dat in a gzipped tar stream. Stops reading as soon as one is found.
+ */
+export async function findLevelDatInTarGz(stream: ReadableStream): Promise<string | null> {
+  const reader = new StreamBlockReader(stream.pipeThrough(new DecompressionStream('gzip')));
+  let found: string | null = null;
+  try {
+    await walkTar(reader, async (entry) => {
+      if (entry.type === '0') {
+        found = selectLevelDat([entry.name]);
+      }
+      return found === null;
+    });
+  } finally {
+    await reader.cancel();
+  }
+  return found;
+}
+
+function writeTarField(block: Uint8Array, offset: number, length: number, value: string): void {
+  block.set(new TextEncoder().encode(value).subarray(0, length), offset);
+}
+
+function writeTarOctal(block: Uint8Array, offset: number, length: number, value: number): void {
+  writeTarField(block, offset, length, value.toString(8).padStart(length - 1, '0') + '\0');
+}
+
+function tarHeader(name: string, size: number, mtimeSeconds: number, type: '0' | 'L' = '0'): Uint8Array {
+  const block = new Uint8Array(TAR_BLOCK);
+  writeTarField(block, 0, 100, name);
+  writeTarOctal(block, 100, 8, 0o644);
+  writeTarOctal(block, 108, 8, 1000);
+  writeTarOctal(block, 116, 8, 1000);
+  writeTarOctal(block, 124, 12, size);
+  writeTarOctal(block, 136, 12, mtimeSeconds);
+  block.fill(0x20, 148, 156);
+  block[156] = type.charCodeAt(0);
+  writeTarField(block, 257, 6, 'ustar');
+  writeTarField(block, 263, 2, '00');
+  const checksum = block.reduce((sum, byte) => sum + byte, 0);
+  writeTarField(block, 148, 8, checksum.toString(8).padStart(6, '0') + '\0 ');
+  return block;
+}
+
+function tarFileHeaders(name: string, size: number, mtimeSeconds: number): Uint8Array[] {
+  const encoded = new TextEncoder().encode(name);
+  if (encoded.length <= 100) {
+    return [tarHeader(name, size, mtimeSeconds)];
+  }
+  const longName = new Uint8Array(paddedSize(encoded.length + 1));
+  longName.set(encoded);
+  return [tarHeader('././@LongLink', encoded.length + 1, mtimeSeconds, 'L'), longName, tarHeader(name, size, mtimeSeconds)];
+}
+
+/**
+ * Stream an incremental backup as a single uncompressed tar: the entries of the base tarball
+ * followed by every content-addressed file from the manifest. Nothing is buffered beyond
+ * one read from R2, and the output is not recompressed to keep Durable Object CPU time low.
+ */
+export function incrementalBackupTarStream(
+  manifest: BackupManifest,
+  getObject: (key: string) => Promise<ReadableStream | null>,
+  chunkKeyFor: (sha256: string) => string
+): ReadableStream<Uint8Array> {
+  const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
+  const writer = writable.getWriter();
+  const write = (chunk: Uint8Array) => writer.write(chunk);
+
+  const produce = async () => {
+    const base = await getObject(manifest.base.key);
+    if (!base) {
+      throw new Error(`Missing base tarball ${manifest.base.key}`);
+    }
+    const baseReader = new StreamBlockReader(base.pipeThrough(new DecompressionStream('gzip')));
+    await walkTar(baseReader, async (entry, data) => {
+      // Drop the base archive's end-of-archive marker by re-emitting entries one by one
+      await write(entry.header);
+      if (entry.longNameData) {
+        await write(entry.longNameData);
+      } else {
+        await data.forward(write);
+      }
+    });
+    await baseReader.cancel();
+
+    const mtime = Math.floor(new Date(manifest.created_at).getTime() / 1000);
+    for (const file of manifest.files) {
+      const body = await getObject(chunkKeyFor(file.sha256));
+      if (!body) {
+        throw new Error(`Missing content for ${file.path}`);
+      }
+      for (const header of tarFileHeaders(file.path, file.size, mtime)) {
+        await write(header);
+      }
+      const fileReader = new StreamBlockReader(body);
+      await fileReader.forward(file.size, write);
+      await fileReader.cancel();
+      const padding = paddedSize(file.size) - file.size;
+      if (padding > 0) {
+        await write(new Uint8Array(padding));
+      }
+    }
+    await write(new Uint8Array(TAR_BLOCK * 2));
+    await writer.close();
+  };
+
+  produce().catch(async (error) => {
+    console.error("Failed to stream incremental backup:", error);
+    await writer.abort(error).catch(() => {});
+  });
+  return readable;
+}
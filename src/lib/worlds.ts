@@ -0,0 +1,68 @@
+import { z } from "zod";
+
+export const GAME_MODES = ['survival', 'creative', 'adventure', 'spectator'] as const;
+export const DIFFICULTIES = ['peaceful', 'easy', 'normal', 'hard'] as const;
+
+// The world that existed before profiles, its backups stay at the bucket root under backups/
+export const DEFAULT_WORLD_ID = 'default';
+
+export const WorldProfileSchema = z.object({
+  id: z.string().regex(/^[a-z0-9-]{1,32}$/),
+  name: z.string().trim().min(1).max(64),
+  // World directory under /data, passed to the itzg image as LEVEL
+  levelName: z.string().regex(/^[A-Za-z0-9_-]{1,32}$/, "Level name may only contain letters, numbers, - and _"),
+  // Only used when the world is first generated, empty for a random seed
+  seed: z.string().max(64),
+  gameMode: z.enum(GAME_MODES),
+  difficulty: z.enum(DIFFICULTIES),
+  version: z.string(),
+  createdAt: z.number(),
+  archivedAt: z.number().nullable(),
+});
+
+export type WorldProfile = z.infer<typeof WorldProfileSchema>;
+
+export const CreateWorldSchema = z.object({
+  name: WorldProfileSchema.shape.name,
+  levelName: WorldProfileSchema.shape.levelName.default('world'),
+  seed: WorldProfileSchema.shape.seed.default(''),
+  gameMode: WorldProfileSchema.shape.gameMode.default('survival'),
+  difficulty: WorldProfileSchema.shape.difficulty.default('easy'),
+  version: WorldProfileSchema.shape.version.optional(),
+});
+
+export type CreateWorld = z.input<typeof CreateWorldSchema>;
+
+export function defaultWorldProfile(version: string): WorldProfile {
+  return {
+    id: DEFAULT_WORLD_ID,
+    name: 'World',
+    levelName: 'world',
+    seed: '',
+    gameMode: 'survival',
+    difficulty: 'easy',
+    version,
+    createdAt: 0,
+    archivedAt: null,
+  };
+}
+
+/**
+ * R2 key prefix for a world's backups. The default world keeps the original backups/ location,
+ * other worlds use worlds/<id>/backups/. Content-addressed chunks are shared by all worlds.
+ */
+export function worldBackupPrefix(worldId: string): string {
+  return worldId === DEFAULT_WORLD_ID ? '' : `worlds/${worldId}/`;
+}
+
+/**
+ * Derive a unique profile id from a display name.
+ */
+export function worldIdFromName(name: string, existingIds: string[]): string {
+  const base = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 24) || 'world';
+  let id = base === DEFAULT_WORLD_ID ? `${base}-2` : base;
+  for (let n = 2; existingIds.includes(id); n++) {
+    id = `${base}-${n}`;
+  }
+  return id;
+}
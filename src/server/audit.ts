@@ -0,0 +1,119 @@
+// =====================
+// Audit log of API requests
+// =====================
+
+import { asyncLocalStorage, getMinecraftContainer } from "./get-minecraft-container";
+import { MCP_AGENT_HEADER, auditActionFor, type AuditArgs, type AuditSource } from "../lib/audit-log";
+import { env as workerEnv } from 'cloudflare:workers'
+import type { worker } from "../../alchemy.run";
+
+const env = workerEnv as typeof worker.Env;
+
+function timingSafeEqualAscii(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let mismatch = 0;
+  for (let i = 0; i < a.length; i++) {
+    mismatch |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return mismatch === 0;
+}
+
+/**
+ * Whether the request carries the secret only the MCP agent is bound to
+ */
+export async function isAgentRequest(request: Request): Promise<boolean> {
+  const presented = request.headers.get(MCP_AGENT_HEADER);
+  if (!presented) {
+    return false;
+  }
+  try {
+    const secret = await env.MCP_AGENT_SECRET.get();
+    return !!secret && secret !== 'null' && timingSafeEqualAscii(presented, secret);
+  } catch (error) {
+    console.error("Failed to read the MCP agent secret", error);
+    return false;
+  }
+}
+
+/**
+ * How the request was authenticated, MCP only for the agent itself
+ */
+export async function auditSource(request: Request): Promise<AuditSource> {
+  if (await isAgentRequest(request)) {
+    return 'mcp';
+  }
+  return asyncLocalStorage.getStore()?.apiToken ? 'api-token' : 'web';
+}
+
+/**
+ * Append an action of the current request to the audit log, for the actor requireAuth() found (or
+ * `actor`, for sign-ins that haven't been through it). Never throws, a failure to audit doesn't fail
+ * the request.
+ */
+export async function recordAudit(request: Request, action: string, args: AuditArgs | null, success: boolean, result: string | null, actor?: string): Promise<void> {
+  try {
+    const container = getMinecraftContainer();
+    await container.recordAudit({
+      actor: actor ?? asyncLocalStorage.getStore()?.user?.username ?? 'anonymous',
+      source: await auditSource(request),
+      action,
+      args,
+      success,
+      result,
+    });
+  } catch (error) {
+    console.error("Failed to record audit entry", error);
+  }
+}
+
+// What a JSON response says about how the request went
+async function auditOutcome(response: Response): Promise<{ success: boolean; result: string | null }> {
+  const body = response.headers.get('Content-Type')?.includes('application/json')
+    ? await response.clone().json().catch(() => null) as { success?: boolean; error?: unknown; message?: unknown; output?: unknown } | null
+    : null;
+  const success = response.ok && body?.success !== false && !body?.error;
+  const result = body?.error ?? body?.output ?? body?.message ?? (response.ok ? null : `HTTP ${response.status}`);
+  return { success, result: result === null || typeof result === 'string' ? result : JSON.stringify(result) };
+}
+
+/**
+ * Audit a request to one of the /auth routes with its action from AUDIT_ROUTES. These routes record
+ * their own entries since only they know who signed in and whether it worked.
+ */
+export async function recordAuthAudit(
+  request: Request,
+  { success, result = null, args = null, actor }: { success: boolean; result?: string | null; args?: AuditArgs | null; actor?: string }
+): Promise<void> {
+  const audited = auditActionFor(request.method, new URL(request.url).pathname);
+  if (audited) {
+    const allArgs = { ...audited.pathArgs, ...args };
+    await recordAudit(request, audited.action, Object.keys(allArgs).length > 0 ? allArgs : null, success, result, actor);
+  }
+}
+
+/**
+ * Start auditing an API request that changes something (see auditActionFor()), before its body is
+ * read. Returns the function to call with the response, null for requests that aren't audited
+ * (including the /auth routes, see recordAuthAudit()).
+ */
+export function beginAudit(request: Request): ((response: Response) => Promise<void>) | null {
+  const { pathname } = new URL(request.url);
+  const audited = pathname.startsWith('/auth/') ? null : auditActionFor(request.method, pathname);
+  if (!audited) {
+    return null;
+  }
+  // Uploads aren't arguments worth keeping, only JSON bodies are
+  const body = request.headers.get('Content-Type')?.includes('application/json')
+    ? request.clone().json().catch(() => null) as Promise<unknown>
+    : Promise.resolve(null);
+
+  return async (response: Response) => {
+    const json = await body;
+    const args = {
+      ...audited.pathArgs,
+      ...(json && typeof json === 'object' && !Array.isArray(json) ? json as AuditArgs : {}),
+    };
+    const { success, result } = await auditOutcome(response);
+    await recordAudit(request, audited.action, args, success, result);
+  };
+}
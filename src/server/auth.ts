@@ -6,7 +6,11 @@ import Elysia from "elysia";
 import { getNodeEnv } from "../client/utils/node-env";
 import { CloudflareAdapter } from "elysia/adapter/cloudflare-worker";
 import cors from "@elysiajs/cors";
-import { getMinecraftContainer } from "./get-minecraft-container";
+import { asyncLocalStorage, getMinecraftContainer } from "./get-minecraft-container";
+import { OWNER_USERNAME, PasswordSchema, SESSION_TTL_MS, UsernameSchema, requiredRole, roleAtLeast, type AuthUser, type Role } from "../lib/users";
+import { MCP_AGENT_SCOPES, MCP_AGENT_USER, requiredScope, type ApiTokenScope } from "../lib/api-tokens";
+import { LOGIN_CHALLENGE_TTL_SECONDS } from "../lib/totp";
+import { isAgentRequest, recordAuthAudit } from "./audit";
 import { env as workerEnv } from 'cloudflare:workers'
 import type { worker } from "../../alchemy.run";
 
@@ -21,7 +25,7 @@ const isResetMode = () => {
 };
 
 const AUTH_COOKIE_NAME = 'mf_auth';
-const AUTH_COOKIE_MAX_AGE_SECONDS = 7 * 24 * 60 * 60; // 7 days
+const AUTH_COOKIE_MAX_AGE_SECONDS = SESSION_TTL_MS / 1000; // 7 days
 
 function base64urlEncode(data: ArrayBuffer | Uint8Array): string {
   const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
@@ -39,7 +43,19 @@ function base64urlDecode(input: string): Uint8Array {
   return bytes;
 }
 
-async function encryptToken(symKeyB64: string, payload: { n: string; exp: number }): Promise<string> {
+// n: random nonce, of a cookie the key of its row in the sessions table, exp: expiry in epoch seconds,
+// u: id of the signed-in user, s: on WebSocket tokens the nonce of the session they were issued to,
+// purpose: set on tokens that aren't sessions (the second sign-in step)
+type TokenPayload = { n: string; exp: number; u?: number; s?: string; purpose?: 'login-2fa' };
+
+export interface AuthSession {
+  user: AuthUser;
+  // Of the session in the sessions table
+  nonce: string;
+  twoFactor: boolean;
+}
+
+async function encryptToken(symKeyB64: string, payload: TokenPayload): Promise<string> {
   const keyBytes = base64urlDecode(symKeyB64);
   const keyBuf = new Uint8Array(keyBytes).buffer as ArrayBuffer;
   const key = await crypto.subtle.importKey('raw', keyBuf, { name: 'AES-GCM' }, false, ['encrypt']);
@@ -50,7 +66,7 @@ async function encryptToken(symKeyB64: string, payload: { n: string; exp: number
   return `v1.${base64urlEncode(iv)}.${base64urlEncode(cipherBuf)}`;
 }
 
-async function decryptToken(symKeyB64: string, token: string): Promise<{ n: string; exp: number } | null> {
+async function decryptToken(symKeyB64: string, token: string): Promise<TokenPayload | null> {
   try {
     const parts = token.split('.');
     if (parts.length !== 3 || parts[0] !== 'v1') return null;
@@ -81,6 +97,15 @@ function parseCookie(cookieHeader: string | null): Record<string, string> {
   return cookies;
 }
 
+// The first problem with a username and password, null if they are fine
+function validateCredentials(username: unknown, password: unknown): string | null {
+  const name = UsernameSchema.safeParse(username);
+  if (!name.success) return name.error.issues[0].message;
+  const pass = PasswordSchema.safeParse(password);
+  if (!pass.success) return pass.error.issues[0].message;
+  return null;
+}
+
 function buildSetCookie(value: string, maxAge: number): string {
   const secureFlag = getNodeEnv() === 'production' ? 'Secure; ' : '';
   return `${AUTH_COOKIE_NAME}=${value}; HttpOnly; ${secureFlag}SameSite=Lax; Path=/; Max-Age=${maxAge}`;
@@ -153,6 +178,115 @@ async function getSymKeyCached(request: Request): Promise<string | null> {
   return symKey;
 }
 
+function newNonce(): string {
+  const nonce = new Uint8Array(16);
+  crypto.getRandomValues(nonce);
+  return base64urlEncode(nonce);
+}
+
+async function createToken(symKey: string, userId: number, ttlSeconds: number, extra: Pick<TokenPayload, 's' | 'purpose'> = {}, nonce = newNonce()): Promise<string> {
+  const exp = Math.floor(Date.now() / 1000) + ttlSeconds;
+  return await encryptToken(symKey, { n: nonce, exp, u: userId, ...extra });
+}
+
+// What the devices list shows about where a session is used from
+function clientInfo(request: Request): { userAgent: string | null; ip: string | null } {
+  return { userAgent: request.headers.get('User-Agent'), ip: request.headers.get('CF-Connecting-IP') };
+}
+
+// Sessions and API tokens this isolate looked up recently, so the dashboard's reads don't each wake
+// the Durable Object. Everything else always asks it (see needsFreshAuth()), a session signed out or
+// a role changed elsewhere reaches those reads here within AUTH_CACHE_TTL_MS.
+const AUTH_CACHE_TTL_MS = 30 * 1000;
+const AUTH_CACHE_MAX_ENTRIES = 1000;
+const authCache = new Map<string, { expires: number; value: unknown }>();
+
+async function cachedAuthLookup<T>(key: string, fresh: boolean, lookup: () => Promise<T | null>): Promise<T | null> {
+  const cached = authCache.get(key);
+  if (!fresh && cached && cached.expires > Date.now()) {
+    return cached.value as T;
+  }
+  const value = await lookup();
+  if (value === null) {
+    authCache.delete(key);
+    return null;
+  }
+  if (authCache.size >= AUTH_CACHE_MAX_ENTRIES) {
+    authCache.clear();
+  }
+  authCache.set(key, { expires: Date.now() + AUTH_CACHE_TTL_MS, value });
+  return value;
+}
+
+/**
+ * Drop this isolate's cached sessions and API tokens, after signing out, revoking or changing a user
+ */
+function forgetCachedAuth(): void {
+  authCache.clear();
+}
+
+// GET routes a viewer may use that still must not go by a cached lookup: /api/status starts the server
+const FRESH_AUTH_GET_PATHS = /^\/api\/status$/;
+
+/**
+ * Whether a request must see sign-outs, revoked tokens and role changes at once rather than within
+ * AUTH_CACHE_TTL_MS: only reads that any viewer may make can go by the cache. Changes, WebSocket
+ * upgrades, reads beyond a viewer's role (downloads, the audit log) and starting the server can't.
+ */
+function needsFreshAuth(request: Request): boolean {
+  const { pathname } = new URL(request.url);
+  return !['GET', 'HEAD'].includes(request.method)
+    || request.headers.get('Upgrade') !== null
+    || requiredRole(request.method, pathname) !== 'viewer'
+    || FRESH_AUTH_GET_PATHS.test(pathname);
+}
+
+/**
+ * The session a cookie or WebSocket token belongs to, null if it is invalid, expired, signed out or
+ * the user has been deleted. Tokens from before user accounts existed carry no user and are
+ * rejected, and so are cookies from before sessions were recorded and sign-in challenges.
+ * Unless fresh, a session looked up in the last AUTH_CACHE_TTL_MS is taken from the cache.
+ */
+async function authenticateToken(request: Request, token: string, fresh = true): Promise<AuthSession | null> {
+  const symKey = await getSymKeyCached(request);
+  if (!symKey) return null;
+  const payload = await decryptToken(symKey, token);
+  if (!payload || payload.exp <= Math.floor(Date.now() / 1000) || typeof payload.u !== 'number' || payload.purpose) {
+    return null;
+  }
+  const nonce = payload.s ?? payload.n;
+  const session = await cachedAuthLookup(`session:${nonce}`, fresh, async () => {
+    const container = getMinecraftContainer();
+    return await container.authenticateSession(nonce, clientInfo(request));
+  });
+  return session && session.user.id === payload.u ? { ...session, nonce } : null;
+}
+
+// Start a session for a user and return its cookie, twoFactor when the sign-in passed 2FA
+async function sessionCookie(request: Request, symKey: string, userId: number, twoFactor: boolean): Promise<string> {
+  const nonce = newNonce();
+  const container = getMinecraftContainer();
+  await container.createSession({ nonce, userId, twoFactor, ...clientInfo(request) });
+  const token = await createToken(symKey, userId, AUTH_COOKIE_MAX_AGE_SECONDS, {}, nonce);
+  return buildSetCookie(token, AUTH_COOKIE_MAX_AGE_SECONDS);
+}
+
+/**
+ * The user requireAuth() let through for the current request
+ */
+function getRequestUser(): AuthUser | null {
+  return asyncLocalStorage.getStore()?.user ?? null;
+}
+
+const TWO_FACTOR_REQUIRED_ERROR = "The terminal and browser need two-factor authentication: turn it on for your account, or sign in again with your code";
+
+function jsonError(request: Request, status: number, error: string): Response {
+  return new Response(JSON.stringify({ error }), {
+    status,
+    headers: { "Content-Type": "application/json", ...corsHeaders(request) }
+  });
+}
+
 const corsHeaders = (request: Request): HeadersInit | null => {
     const origin = request.headers.get('Origin');
     console.error("Origin", origin);
@@ -168,43 +302,100 @@ const corsHeaders = (request: Request): HeadersInit | null => {
     return null;
 }
 
+function bearerToken(request: Request): string | null {
+  const header = request.headers.get('Authorization');
+  const match = header ? /^Bearer\s+(\S+)$/i.exec(header) : null;
+  return match ? match[1] : null;
+}
+
+/**
+ * Whether the current request may do something that needs the role and, when it was made with an
+ * API token, the scope. For routes that only sometimes need more than requireAuth() checked.
+ */
+function requestAllows(minimum: Role, scope: ApiTokenScope): boolean {
+  const store = asyncLocalStorage.getStore();
+  if (!store?.user || !roleAtLeast(store.user.role, minimum)) {
+    return false;
+  }
+  return !store.apiToken || store.apiToken.scopes.includes(scope);
+}
+
+/**
+ * Check the auth cookie and that its session wasn't signed out, an API token in the Authorization
+ * header, or the MCP agent's secret, and that the user's role (and the token's or agent's scopes)
+ * may use the route, see requiredRole() and requiredScope(). Returns the response to send instead
+ * (401 or 403), or null to continue. Reads may go by a lookup cached for a few seconds, see needsFreshAuth().
+ */
 export async function requireAuth(request: Request): Promise<Response | null> {
   try {
-    const symKey = await getSymKeyCached(request);
-    if (!symKey) {
-      return new Response(JSON.stringify({ error: "Unauthorized" }), {
-        status: 401,
-        headers: { // need cors headers on these responses in development
-            "Content-Type": "application/json",
-            ...corsHeaders(request),
-         }
+    const { pathname } = new URL(request.url);
+    const store = asyncLocalStorage.getStore();
+    let user: AuthUser | null = null;
+    // Of an API token or the MCP agent, the routes they may use are limited by scope
+    let scopes: ApiTokenScope[] | null = null;
+
+    const apiToken = bearerToken(request);
+    if (await isAgentRequest(request)) {
+      // The agent checked its caller's OAuth token before calling, see src/agent.ts
+      user = MCP_AGENT_USER;
+      scopes = MCP_AGENT_SCOPES;
+      if (store) {
+        store.apiToken = { id: MCP_AGENT_USER.id, name: MCP_AGENT_USER.username, scopes };
+      }
+    } else if (apiToken) {
+      // Without a password there are no accounts and so no tokens, same as for cookies
+      if (!await getSymKeyCached(request)) {
+        return jsonError(request, 401, "Unauthorized");
+      }
+      const auth = await cachedAuthLookup(`token:${apiToken}`, needsFreshAuth(request), async () => {
+        const container = getMinecraftContainer();
+        return await container.authenticateApiToken(apiToken);
       });
+      if (!auth) {
+        return jsonError(request, 401, "Invalid or expired API token");
+      }
+      user = auth.user;
+      scopes = auth.scopes;
+      if (store) {
+        store.apiToken = { id: auth.tokenId, name: auth.tokenName, scopes };
+      }
+    } else {
+      const cookies = parseCookie(request.headers.get('Cookie'));
+      const token = cookies[AUTH_COOKIE_NAME];
+      const session = token ? await authenticateToken(request, token, needsFreshAuth(request)) : null;
+      if (!session) {
+        // need cors headers on these responses in development
+        return jsonError(request, 401, "Unauthorized");
+      }
+      user = session.user;
+      if (store) {
+        store.session = { nonce: session.nonce, twoFactor: session.twoFactor };
+      }
     }
-    
-    const cookies = parseCookie(request.headers.get('Cookie'));
-    const token = cookies[AUTH_COOKIE_NAME];
-    if (!token) {
-      return new Response(JSON.stringify({ error: "Unauthorized" }), {
-        status: 401,
-        headers: { "Content-Type": "application/json", ...corsHeaders(request) }
-      });
+
+    // Set before the role check so refused requests are audited with who made them
+    if (store) {
+      store.user = user;
     }
-    
-    const payload = await decryptToken(symKey, token);
-    if (!payload || payload.exp <= Math.floor(Date.now() / 1000)) {
-      return new Response(JSON.stringify({ error: "Unauthorized" }), {
-        status: 401,
-        headers: { "Content-Type": "application/json", ...corsHeaders(request) }
-      });
+
+    if (scopes) {
+      const scope = requiredScope(request.method, pathname);
+      if (!scope) {
+        return jsonError(request, 403, "API tokens can't use this route");
+      }
+      if (!scopes.includes(scope)) {
+        return jsonError(request, 403, `This needs a token with the ${scope} scope`);
+      }
+    }
+
+    const minimum = requiredRole(request.method, pathname);
+    if (!roleAtLeast(user.role, minimum)) {
+      return jsonError(request, 403, `This needs the ${minimum} role, you are a ${user.role}`);
     }
-    
     return null; // Auth successful
   } catch (error) {
     console.error("Auth check failed", error);
-    return new Response(JSON.stringify({ error: "Unauthorized" }), {
-      status: 401,
-      headers: { "Content-Type": "application/json", ...corsHeaders(request) }
-    });
+    return jsonError(request, 401, "Unauthorized");
   }
 }
 
@@ -239,37 +430,33 @@ export const authApp = (
       // Check passwordSet from cache (no DO wakeup!)
       const passwordSet = await getPasswordSetCached(request);
       
-      // Check if user is authenticated via cookie
-      let authenticated = false;
+      // Check if user is authenticated via cookie, only then is the Durable Object asked for the user
+      let session: AuthSession | null = null;
       if (passwordSet) {
-        const symKey = await getSymKeyCached(request);
-        if (symKey) {
-          const cookies = parseCookie(request.headers.get('Cookie'));
-          const token = cookies[AUTH_COOKIE_NAME];
-          if (token) {
-            const payload = await decryptToken(symKey, token);
-            if (payload && payload.exp > Math.floor(Date.now() / 1000)) {
-              authenticated = true;
-            }
-          }
+        const cookies = parseCookie(request.headers.get('Cookie'));
+        const token = cookies[AUTH_COOKIE_NAME];
+        if (token) {
+          session = await authenticateToken(request, token, false);
         }
       }
       
-      return { passwordSet, authenticated };
+      return { passwordSet, authenticated: session !== null, user: session?.user ?? null, twoFactorVerified: session?.twoFactor ?? false };
     } catch (error) {
       console.error("Failed to get auth status", error);
-      return { passwordSet: false, authenticated: false };
+      return { passwordSet: false, authenticated: false, user: null, twoFactorVerified: false };
     }
   })
   
   /**
-   * Setup password (first time only)
+   * Setup the owner account (first time only). Accepts { username?: string, password: string },
+   * the username defaults to "owner".
    */
   .post("/setup", async ({ request, body }: any) => {
     try {
-      const { password } = body as { password: string };
-      if (!password || password.length < 8) {
-        return new Response(JSON.stringify({ error: "Password must be at least 8 characters" }), {
+      const { username = OWNER_USERNAME, password } = body as { username?: string; password: string };
+      const invalid = validateCredentials(username, password);
+      if (invalid) {
+        return new Response(JSON.stringify({ error: invalid }), {
           status: 400,
           headers: { "Content-Type": "application/json" }
         });
@@ -279,6 +466,7 @@ export const authApp = (
       // When in reset mode, clear existing auth to allow re-setup
       if (isResetMode()) {
         await container.clearAuth();
+        forgetCachedAuth();
         
         // Clear cached auth data
         const cache = await caches.open('mf-auth');
@@ -291,11 +479,12 @@ export const authApp = (
         console.log("Cleared cached auth data");
       }
       console.log("Calling setupPassword on container...");
-      const result = await container.setupPassword({ password });
+      const result = await container.setupPassword({ username, password });
       console.log("setupPassword result:", result);
       
       if (!result.created) {
         console.log("Password already set, returning 409");
+        await recordAuthAudit(request, { success: false, result: "Password already set", args: { username } });
         return new Response(JSON.stringify({ error: "Password already set" }), {
           status: 409,
           headers: { "Content-Type": "application/json" }
@@ -328,18 +517,13 @@ export const authApp = (
         })
       );
       
-      // Create auth cookie
-      const nonce = new Uint8Array(16);
-      crypto.getRandomValues(nonce);
-      const exp = Math.floor(Date.now() / 1000) + AUTH_COOKIE_MAX_AGE_SECONDS;
-      const token = await encryptToken(result.symKey!, { n: base64urlEncode(nonce), exp });
-      
+      await recordAuthAudit(request, { success: true, actor: result.user!.username });
       console.log("Setup complete, returning success with cookie");
       return new Response(JSON.stringify({ success: true }), {
         status: 200,
         headers: {
           "Content-Type": "application/json",
-          "Set-Cookie": buildSetCookie(token, AUTH_COOKIE_MAX_AGE_SECONDS)
+          "Set-Cookie": await sessionCookie(request, result.symKey!, result.user!.id, false)
         }
       });
     } catch (error) {
@@ -352,11 +536,13 @@ export const authApp = (
   })
   
   /**
-   * Login with password
+   * Login with username and password. Accepts { username?: string, password: string }, without a
+   * username this is the owner account, the only account of earlier versions. Accounts with 2FA get
+   * { twoFactorRequired: true, challenge } instead of the cookie, see /login/2fa.
    */
   .post("/login", async ({ request, body }: any) => {
     try {
-      const { password } = body as { password: string };
+      const { username = OWNER_USERNAME, password } = body as { username?: string; password: string };
       if (!password) {
         return new Response(JSON.stringify({ error: "Password required" }), {
           status: 400,
@@ -365,10 +551,11 @@ export const authApp = (
       }
       
       const container = getMinecraftContainer();
-      const result = await container.verifyPassword({ password });
+      const result = await container.verifyPassword({ username, password });
       
-      if (!result.ok) {
-        return new Response(JSON.stringify({ error: "Invalid password" }), {
+      if (!result.ok || !result.user) {
+        await recordAuthAudit(request, { success: false, result: "Invalid username or password", args: { username } });
+        return new Response(JSON.stringify({ error: "Invalid username or password" }), {
           status: 401,
           headers: { "Content-Type": "application/json" }
         });
@@ -383,17 +570,21 @@ export const authApp = (
         });
       }
       
-      // Create auth cookie
-      const nonce = new Uint8Array(16);
-      crypto.getRandomValues(nonce);
-      const exp = Math.floor(Date.now() / 1000) + AUTH_COOKIE_MAX_AGE_SECONDS;
-      const token = await encryptToken(symKey, { n: base64urlEncode(nonce), exp });
-      
+      // The password alone isn't enough with 2FA on, the challenge proves it was right
+      const twoFactor = await container.getTwoFactorStatus(result.user.id);
+      if (twoFactor.enabled) {
+        const challenge = await createToken(symKey, result.user.id, LOGIN_CHALLENGE_TTL_SECONDS, { purpose: 'login-2fa' });
+        await recordAuthAudit(request, { success: true, result: "Waiting for the second factor", actor: result.user.username });
+        return { twoFactorRequired: true, challenge };
+      }
+
+      await recordAuthAudit(request, { success: true, actor: result.user.username });
+
       return new Response(JSON.stringify({ success: true }), {
         status: 200,
         headers: {
           "Content-Type": "application/json",
-          "Set-Cookie": buildSetCookie(token, AUTH_COOKIE_MAX_AGE_SECONDS)
+          "Set-Cookie": await sessionCookie(request, symKey, result.user.id, false)
         }
       });
     } catch (error) {
@@ -406,9 +597,135 @@ export const authApp = (
   })
   
   /**
-   * Logout (clear cookie)
+   * Second sign-in step for accounts with 2FA. Accepts { challenge, code } with the challenge from
+   * /login and a code from the authenticator app or a recovery code.
    */
-  .post("/logout", async () => {
+  .post("/login/2fa", async ({ request, body }: any) => {
+    try {
+      const { challenge, code } = body as { challenge: string; code: string };
+      const symKey = await getSymKeyCached(request);
+      if (!symKey) {
+        return jsonError(request, 500, "Authentication not configured");
+      }
+      const payload = challenge ? await decryptToken(symKey, challenge) : null;
+      if (!payload || payload.purpose !== 'login-2fa' || payload.exp <= Math.floor(Date.now() / 1000) || typeof payload.u !== 'number') {
+        return jsonError(request, 401, "The sign-in expired, enter your password again");
+      }
+
+      const container = getMinecraftContainer();
+      const actor = (await container.getAuthUser(payload.u))?.username;
+      const result = await container.verifySecondFactor(payload.u, String(code ?? ''));
+      if (!result.ok) {
+        await recordAuthAudit(request, { success: false, result: result.error ?? "Invalid code", actor });
+        return jsonError(request, 401, result.error ?? "Invalid code");
+      }
+
+      await recordAuthAudit(request, { success: true, actor });
+      return new Response(JSON.stringify({ success: true }), {
+        status: 200,
+        headers: {
+          "Content-Type": "application/json",
+          "Set-Cookie": await sessionCookie(request, symKey, payload.u, true)
+        }
+      });
+    } catch (error) {
+      console.error("Failed to verify second factor", error);
+      return jsonError(request, 500, "Login failed");
+    }
+  })
+
+  /**
+   * Check an invite code before signing up with it: { role, expiresAt } or 404
+   */
+  .get("/invite", async ({ request, query }: any) => {
+    try {
+      const container = getMinecraftContainer();
+      const invite = query?.code ? await container.getInvite(String(query.code)) : null;
+      if (!invite) {
+        return new Response(JSON.stringify({ error: "This invite is invalid or has expired" }), {
+          status: 404,
+          headers: { "Content-Type": "application/json" }
+        });
+      }
+      return invite;
+    } catch (error) {
+      console.error("Failed to check invite", error);
+      return new Response(JSON.stringify({ error: "Failed to check invite" }), {
+        status: 500,
+        headers: { "Content-Type": "application/json" }
+      });
+    }
+  })
+
+  /**
+   * Create an account from an invite and sign in. Accepts { code, username, password }.
+   */
+  .post("/accept-invite", async ({ request, body }: any) => {
+    try {
+      const { code, username, password } = body as { code: string; username: string; password: string };
+      const invalid = !code ? "Invite code required" : validateCredentials(username, password);
+      if (invalid) {
+        return new Response(JSON.stringify({ error: invalid }), {
+          status: 400,
+          headers: { "Content-Type": "application/json" }
+        });
+      }
+
+      const symKey = await getSymKeyCached(request);
+      if (!symKey) {
+        return new Response(JSON.stringify({ error: "Authentication not configured" }), {
+          status: 500,
+          headers: { "Content-Type": "application/json" }
+        });
+      }
+
+      const container = getMinecraftContainer();
+      let user: AuthUser;
+      try {
+        user = await container.acceptInvite({ code, username, password });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : "Invalid invite";
+        await recordAuthAudit(request, { success: false, result: message, args: { username } });
+        return new Response(JSON.stringify({ error: message }), {
+          status: 400,
+          headers: { "Content-Type": "application/json" }
+        });
+      }
+
+      await recordAuthAudit(request, { success: true, args: { role: user.role }, actor: user.username });
+      return new Response(JSON.stringify({ success: true, user }), {
+        status: 200,
+        headers: {
+          "Content-Type": "application/json",
+          "Set-Cookie": await sessionCookie(request, symKey, user.id, false)
+        }
+      });
+    } catch (error) {
+      console.error("Failed to accept invite", error);
+      return new Response(JSON.stringify({ error: "Failed to create account" }), {
+        status: 500,
+        headers: { "Content-Type": "application/json" }
+      });
+    }
+  })
+
+  /**
+   * Logout (end the session and clear the cookie)
+   */
+  .post("/logout", async ({ request }: any) => {
+    try {
+      const token = parseCookie(request.headers.get('Cookie'))[AUTH_COOKIE_NAME];
+      const session = token ? await authenticateToken(request, token) : null;
+      if (session) {
+        const container = getMinecraftContainer();
+        await container.endSession(session.nonce);
+        forgetCachedAuth();
+        await recordAuthAudit(request, { success: true, actor: session.user.username });
+      }
+    } catch (error) {
+      // The cookie is cleared either way
+      console.error("Failed to end session", error);
+    }
     return new Response(JSON.stringify({ success: true }), {
       status: 200,
       headers: {
@@ -420,22 +737,26 @@ export const authApp = (
 
   /**
    * Get a short-lived WebSocket token (20 minutes)
-   * Requires authentication via cookie
+   * Requires authentication via cookie. The terminal and browser only take tokens of sessions that
+   * passed 2FA, ?for=terminal or ?for=browser checks that up front.
    */
-  .get("/ws-token", async ({ request }: any) => {
+  .get("/ws-token", async ({ request, query }: any) => {
     try {
       // Verify the user is authenticated via cookie
       const authError = await requireAuth(request);
       if (authError) {
         return authError;
       }
+
+      const session = asyncLocalStorage.getStore()!.session!;
+      if ((query?.for === 'terminal' || query?.for === 'browser') && !session.twoFactor) {
+        return jsonError(request, 403, TWO_FACTOR_REQUIRED_ERROR);
+      }
       
-      // User is authenticated, generate short-lived WebSocket token (20 minutes)
+      // User is authenticated, generate short-lived WebSocket token (20 minutes) for the same session,
+      // it stops working when the session is signed out
       const symKey = await getSymKeyCached(request);
-      const nonce = new Uint8Array(16);
-      crypto.getRandomValues(nonce);
-      const exp = Math.floor(Date.now() / 1000) + (20 * 60); // 20 minutes
-      const wsToken = await encryptToken(symKey!, { n: base64urlEncode(nonce), exp });
+      const wsToken = await createToken(symKey!, getRequestUser()!.id, 20 * 60, { s: session.nonce });
       
       return { token: wsToken };
     } catch (error) {
@@ -446,7 +767,237 @@ export const authApp = (
       });
     }
   })
+
+  // =====================
+  // Two-factor authentication of the signed-in account
+  // =====================
+
+  /**
+   * Whether 2FA is on for your account, and how many recovery codes are left
+   */
+  .get("/2fa", async ({ request }: any) => {
+    try {
+      const authError = await requireAuth(request);
+      if (authError) {
+        return authError;
+      }
+      const container = getMinecraftContainer();
+      return await container.getTwoFactorStatus(getRequestUser()!.id);
+    } catch (error) {
+      console.error("Failed to get 2FA status", error);
+      return jsonError(request, 500, "Failed to get 2FA status");
+    }
+  })
+
+  /**
+   * Start turning on 2FA: returns { secret, uri } for the authenticator app (the uri is what the
+   * QR code shows). Nothing changes until /2fa/enable confirms it with a code.
+   */
+  .post("/2fa/setup", async ({ request }: any) => {
+    try {
+      const authError = await requireAuth(request);
+      if (authError) {
+        return authError;
+      }
+      const container = getMinecraftContainer();
+      return await container.startTwoFactorEnrolment(getRequestUser()!.id);
+    } catch (error) {
+      console.error("Failed to start 2FA setup", error);
+      return jsonError(request, 400, error instanceof Error ? error.message : "Failed to start 2FA setup");
+    }
+  })
+
+  /**
+   * Turn on 2FA with a code from the app. Accepts { code }, returns { success, recoveryCodes }.
+   * This session counts as having passed 2FA from then on.
+   */
+  .post("/2fa/enable", async ({ request, body }: any) => {
+    try {
+      const authError = await requireAuth(request);
+      if (authError) {
+        return authError;
+      }
+      const { code } = body as { code: string };
+      const user = getRequestUser()!;
+      const container = getMinecraftContainer();
+      let recoveryCodes: string[];
+      try {
+        ({ recoveryCodes } = await container.enableTwoFactor(user.id, String(code ?? '')));
+      } catch (error) {
+        const message = error instanceof Error ? error.message : "Failed to turn on 2FA";
+        await recordAuthAudit(request, { success: false, result: message });
+        return jsonError(request, 400, message);
+      }
+      await recordAuthAudit(request, { success: true });
+
+      await container.setSessionTwoFactor(asyncLocalStorage.getStore()!.session!.nonce);
+      forgetCachedAuth();
+      return { success: true, recoveryCodes };
+    } catch (error) {
+      console.error("Failed to enable 2FA", error);
+      return jsonError(request, 500, "Failed to turn on 2FA");
+    }
+  })
+
+  /**
+   * Turn off 2FA. Accepts { code }, a code from the app or a recovery code.
+   */
+  .post("/2fa/disable", async ({ request, body }: any) => {
+    try {
+      const authError = await requireAuth(request);
+      if (authError) {
+        return authError;
+      }
+      const { code } = body as { code: string };
+      const container = getMinecraftContainer();
+      try {
+        await container.disableTwoFactor(getRequestUser()!.id, String(code ?? ''));
+        forgetCachedAuth();
+      } catch (error) {
+        const message = error instanceof Error ? error.message : "Failed to turn off 2FA";
+        await recordAuthAudit(request, { success: false, result: message });
+        return jsonError(request, 400, message);
+      }
+      await recordAuthAudit(request, { success: true });
+      return { success: true };
+    } catch (error) {
+      console.error("Failed to disable 2FA", error);
+      return jsonError(request, 500, "Failed to turn off 2FA");
+    }
+  })
+
+  /**
+   * Replace the recovery codes. Accepts { code }, returns { success, recoveryCodes }.
+   */
+  .post("/2fa/recovery-codes", async ({ request, body }: any) => {
+    try {
+      const authError = await requireAuth(request);
+      if (authError) {
+        return authError;
+      }
+      const { code } = body as { code: string };
+      const container = getMinecraftContainer();
+      try {
+        const { recoveryCodes } = await container.regenerateRecoveryCodes(getRequestUser()!.id, String(code ?? ''));
+        await recordAuthAudit(request, { success: true });
+        return { success: true, recoveryCodes };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : "Failed to create recovery codes";
+        await recordAuthAudit(request, { success: false, result: message });
+        return jsonError(request, 400, message);
+      }
+    } catch (error) {
+      console.error("Failed to regenerate recovery codes", error);
+      return jsonError(request, 500, "Failed to create recovery codes");
+    }
+  })
+
+  // =====================
+  // Sessions and password of the signed-in account
+  // =====================
+
+  /**
+   * Where your account is signed in: { sessions } with user agent, IP and when each was last seen
+   */
+  .get("/sessions", async ({ request }: any) => {
+    try {
+      const authError = await requireAuth(request);
+      if (authError) {
+        return authError;
+      }
+      const container = getMinecraftContainer();
+      const sessions = await container.listSessions(getRequestUser()!.id, asyncLocalStorage.getStore()!.session!.nonce);
+      return { sessions };
+    } catch (error) {
+      console.error("Failed to list sessions", error);
+      return jsonError(request, 500, "Failed to list sessions");
+    }
+  })
+
+  /**
+   * Sign out one of your sessions, it is refused on its next change (dashboard reads within 30 seconds)
+   */
+  .delete("/sessions/:id", async ({ request, params }: any) => {
+    try {
+      const authError = await requireAuth(request);
+      if (authError) {
+        return authError;
+      }
+      const container = getMinecraftContainer();
+      const result = await container.revokeSession(getRequestUser()!.id, parseInt(params.id, 10));
+      forgetCachedAuth();
+      await recordAuthAudit(request, { success: result.success, result: result.success ? null : "Session not found" });
+      return result;
+    } catch (error) {
+      console.error("Failed to revoke session", error);
+      return jsonError(request, 500, "Failed to sign out the session");
+    }
+  })
+
+  /**
+   * Sign out everywhere, this session included (its cookie is cleared)
+   */
+  .post("/sessions/revoke-all", async ({ request }: any) => {
+    try {
+      const authError = await requireAuth(request);
+      if (authError) {
+        return authError;
+      }
+      const container = getMinecraftContainer();
+      const { revoked } = await container.revokeAllSessions(getRequestUser()!.id);
+      forgetCachedAuth();
+      await recordAuthAudit(request, { success: true, args: { revoked } });
+      return new Response(JSON.stringify({ success: true, revoked }), {
+        status: 200,
+        headers: {
+          "Content-Type": "application/json",
+          "Set-Cookie": buildClearCookie()
+        }
+      });
+    } catch (error) {
+      console.error("Failed to sign out everywhere", error);
+      return jsonError(request, 500, "Failed to sign out everywhere");
+    }
+  })
+
+  /**
+   * Change your password. Accepts { currentPassword, newPassword }, returns { success, signedOut }:
+   * this session stays signed in, the others are signed out.
+   */
+  .post("/password", async ({ request, body }: any) => {
+    try {
+      const authError = await requireAuth(request);
+      if (authError) {
+        return authError;
+      }
+      const { currentPassword, newPassword } = body as { currentPassword: string; newPassword: string };
+      const parsed = PasswordSchema.safeParse(newPassword);
+      if (!currentPassword || !parsed.success) {
+        const message = !currentPassword ? "Current password required" : parsed.error!.issues[0].message;
+        await recordAuthAudit(request, { success: false, result: message });
+        return jsonError(request, 400, message);
+      }
+      const container = getMinecraftContainer();
+      try {
+        const { signedOut } = await container.changePassword(
+          getRequestUser()!.id,
+          { currentPassword: String(currentPassword), newPassword: parsed.data },
+          asyncLocalStorage.getStore()!.session!.nonce
+        );
+        forgetCachedAuth();
+        await recordAuthAudit(request, { success: true, args: { signedOut } });
+        return { success: true, signedOut };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : "Failed to change password";
+        await recordAuthAudit(request, { success: false, result: message });
+        return jsonError(request, 400, message);
+      }
+    } catch (error) {
+      console.error("Failed to change password", error);
+      return jsonError(request, 500, "Failed to change password");
+    }
+  })
   .compile()
 
 // Export helpers for use in WebSocket validation
-export { decryptToken, parseCookie, getSymKeyCached, base64urlEncode };
+export { decryptToken, parseCookie, getSymKeyCached, base64urlEncode, authenticateToken, forgetCachedAuth, getRequestUser, requestAllows, TWO_FACTOR_REQUIRED_ERROR };
@@ -6,12 +6,22 @@ import { worker } from "../../alchemy.run";
 import type { ContinentCode } from "@cloudflare/workers-types";
 import type { DurableObjectLocationHint } from "@cloudflare/workers-types";
 import { AsyncLocalStorage } from "async_hooks";
+import type { AuthUser } from "../lib/users";
+import type { ApiTokenScope } from "../lib/api-tokens";
 
 
 const env = workerEnv as typeof worker.Env;
 const singletonContainerId = "mineflare-singleton-container";
 
-export const asyncLocalStorage = new AsyncLocalStorage<{ cf: CfProperties | undefined }>();
+// user is set by requireAuth() once the request is authenticated (even if its role is then refused),
+// apiToken when that was with an API token, session when that was with the cookie (nonce identifies
+// its row in the sessions table)
+export const asyncLocalStorage = new AsyncLocalStorage<{
+    cf: CfProperties | undefined;
+    user?: AuthUser;
+    apiToken?: { id: number; name: string; scopes: ApiTokenScope[] };
+    session?: { nonce: string; twoFactor: boolean };
+}>();
 
 export function getMinecraftContainer() {
     const cf = asyncLocalStorage.getStore()?.cf;
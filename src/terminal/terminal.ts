@@ -618,13 +618,15 @@ async function connect(type: ActualTerminalType) {
 
     try {
         // Fetch WebSocket token
-        const tokenResponse = await fetchWithAuth('/auth/ws-token', {
+        const tokenResponse = await fetchWithAuth('/auth/ws-token?for=terminal', {
             credentials: 'include',
         });
         if (!tokenResponse.ok) {
             console.error('Failed to get WebSocket token, status:', tokenResponse.status);
+      // 403 when this sign-in didn't pass two-factor authentication, which the terminal needs
+      const { error } = await tokenResponse.json().catch(() => ({})) as { error?: string };
       if (type === currentTerminal) {
-            showStatus('Authentication failed', 'error');
+            showStatus(tokenResponse.status === 403 && error ? error : 'Authentication failed', 'error');
       }
             return;
         }
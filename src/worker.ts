@@ -5,7 +5,15 @@ import { env as workerEnv } from 'cloudflare:workers'
 import cors from "@elysiajs/cors";
 import { getNodeEnv } from "./client/utils/node-env";
 import { asyncLocalStorage, getMinecraftContainer } from "./server/get-minecraft-container";
-import { authApp, requireAuth, decryptToken, getSymKeyCached } from "./server/auth";
+import { authApp, requireAuth, authenticateToken, forgetCachedAuth, getRequestUser, requestAllows, TWO_FACTOR_REQUIRED_ERROR, type AuthSession } from "./server/auth";
+import { auditSource, beginAudit, recordAudit } from "./server/audit";
+import { isModerationList } from "./lib/moderation";
+import { requiredRole, roleAtLeast, type AssignableRole } from "./lib/users";
+import type { ApiTokenScope } from "./lib/api-tokens";
+import { AUDIT_SOURCE_HEADER, AuditQuerySchema, MAX_AUDIT_EXPORT } from "./lib/audit-log";
+import { LogSearchSchema, RecentLogsQuerySchema } from "./lib/server-log";
+import { ServerEventQuerySchema } from "./lib/server-events";
+import type { ZodError } from "zod";
 
 const env = workerEnv as typeof worker.Env;
 
@@ -42,6 +50,87 @@ const elysiaApp = (
         return { logs };
       }
   })
+  /**
+   * The most recent entries of the current server log, parsed into { time, thread, level, source, message }.
+   * Optional ?levels=WARN,ERROR, ?text= and ?limit= (default 200). For a live stream send
+   * { "type": "logs.subscribe", "filter": { "levels": [...], "text": "..." } } on the /ws WebSocket.
+   */
+  .get("/logs/recent", async ({ query }: any) => {
+    try {
+      const parsed = RecentLogsQuerySchema.safeParse({
+        levels: queryList(query?.levels)?.map(level => level.toUpperCase()),
+        text: query?.text || undefined,
+        limit: queryNumber(query?.limit),
+      });
+      if (!parsed.success) {
+        return invalidQuery(parsed.error);
+      }
+      const container = getMinecraftContainer();
+      const entries = await container.getRecentLogEntries(parsed.data);
+      return { entries };
+    } catch (error) {
+      console.error("Failed to read recent logs:", error);
+      return { entries: [], error: error instanceof Error ? error.message : "Failed to read recent logs" };
+    }
+  })
+
+  /**
+   * Search the archived server logs and the current log by time range.
+   * ?from= and ?to= are ISO dates or epoch milliseconds; optional ?levels=, ?text= and ?limit= (default 1000).
+   */
+  .get("/logs/search", async ({ query }: any) => {
+    try {
+      const container = getMinecraftContainer();
+      const parseTime = (value: unknown, fallback: number) => {
+        if (value === undefined || value === "") return fallback;
+        const time = /^\d+$/.test(String(value)) ? parseInt(String(value), 10) : Date.parse(String(value));
+        if (Number.isNaN(time)) throw new Error(`Invalid time: ${value}`);
+        return time;
+      };
+      const to = parseTime(query?.to, Date.now());
+      const parsed = LogSearchSchema.safeParse({
+        from: parseTime(query?.from, to - 24 * 60 * 60 * 1000),
+        to,
+        levels: queryList(query?.levels)?.map(level => level.toUpperCase()),
+        text: query?.text || undefined,
+        limit: queryNumber(query?.limit),
+      });
+      if (!parsed.success) {
+        return invalidQuery(parsed.error);
+      }
+      return await container.searchLogs(parsed.data);
+    } catch (error) {
+      console.error("Failed to search logs:", error);
+      return { entries: [], truncated: false, files: [], error: error instanceof Error ? error.message : "Failed to search logs" };
+    }
+  })
+
+  /**
+   * Get recent server events (joins, leaves, chat, deaths, advancements, server starts and stops), newest first.
+   * Optional ?types= (comma separated), ?player=, ?since= and ?until= (epoch milliseconds) and ?limit= (default 100).
+   * Doesn't wake the server.
+   */
+  .get("/events", async ({ query }: any) => {
+    try {
+      const parsed = ServerEventQuerySchema.safeParse({
+        types: queryList(query?.types),
+        player: query?.player || undefined,
+        since: queryNumber(query?.since),
+        until: queryNumber(query?.until),
+        limit: queryNumber(query?.limit),
+      });
+      if (!parsed.success) {
+        return invalidQuery(parsed.error);
+      }
+      const container = getMinecraftContainer();
+      const events = await container.getServerEvents(parsed.data);
+      return { events };
+    } catch (error) {
+      console.error("Failed to get server events:", error);
+      return { events: [], error: error instanceof Error ? error.message : "Failed to get server events" };
+    }
+  })
+
   /**
    * Get the status of the Minecraft server. This always wakes the server and is the preferred way to wake the server. This may take up to 5 mins to return a value if the server is not already awake.
    */
@@ -55,7 +144,18 @@ const elysiaApp = (
         return { online: false };
       }
       if(state !== "running") {
+        // Viewers see the server is offline, starting it takes a moderator (and an API token the start-stop scope)
+        if (!requestAllows('moderator', 'start-stop')) {
+          return { online: false };
+        }
+        if (state === "stopped") {
+          const costs = await container.getCostSummary();
+          if (costs.blocked) {
+            return { online: false, budgetExceeded: true, error: `This month's estimated cost ($${costs.estimate.total.toFixed(2)}) is over the $${costs.budget.monthlyLimit?.toFixed(2)} budget` };
+          }
+        }
         console.log("Starting container");
+        await recordAudit(request, 'server.start', null, true, null);
         await container.start();
       }
       const response = await container.getRconStatus();
@@ -82,6 +182,20 @@ const elysiaApp = (
     }
   })
 
+  /**
+   * Get playtime, session count and last seen per player (most playtime first) and the most players
+   * online at once per day for the last ?days= days (default 14, UTC days). Doesn't wake the server.
+   */
+  .get("/players/stats", async ({ query }: any) => {
+    try {
+      const container = getMinecraftContainer();
+      return await container.getPlayerStats({ days: query?.days ? parseInt(query.days, 10) : undefined });
+    } catch (error) {
+      console.error("Failed to get player stats:", error);
+      return { players: [], dailyPeaks: [], error: error instanceof Error ? error.message : "Failed to get player stats" };
+    }
+  })
+
   .get("/container/:id", async ({ params }: any) => {
     try {
       const id = params.id;
@@ -210,6 +324,141 @@ const elysiaApp = (
     }
   })
 
+  /**
+   * List the config files in the plugin folders, grouped by folder. Requires the container to be running.
+   */
+  .get("/plugin-configs", async () => {
+    try {
+      const container = getMinecraftContainer();
+      return await container.listPluginConfigs();
+    } catch (error) {
+      console.error("Failed to list plugin configs:", error);
+      return { folders: [], truncated: false, error: error instanceof Error ? error.message : "Failed to list plugin configs" };
+    }
+  })
+
+  /**
+   * Read a plugin config (?path= relative to /data/plugins) with its parsed structure or syntax errors
+   */
+  .get("/plugin-configs/file", async ({ query }: any) => {
+    try {
+      const container = getMinecraftContainer();
+      return await container.getPluginConfig({ path: String(query?.path ?? "") });
+    } catch (error) {
+      console.error("Failed to read plugin config:", error);
+      return { error: error instanceof Error ? error.message : "Failed to read plugin config" };
+    }
+  })
+
+  /**
+   * Replace a plugin config after a syntax check. The replaced version is kept for a revert.
+   * Accepts: { path: string, content: string, dryRun?: boolean } (dryRun only checks and diffs)
+   */
+  .post("/plugin-configs/file", async ({ body }: any) => {
+    try {
+      const container = getMinecraftContainer();
+      const result = await container.savePluginConfig({ path: String(body?.path ?? ""), content: body?.content, dryRun: body?.dryRun === true });
+      return { success: result.valid, ...result };
+    } catch (error) {
+      console.error("Failed to save plugin config:", error);
+      return { success: false, error: error instanceof Error ? error.message : "Failed to save plugin config" };
+    }
+  })
+
+  /**
+   * Revert a plugin config to the version before its last save.
+   * Accepts: { path: string }
+   */
+  .post("/plugin-configs/revert", async ({ body }: any) => {
+    try {
+      const container = getMinecraftContainer();
+      return await container.revertPluginConfig({ path: String(body?.path ?? "") });
+    } catch (error) {
+      console.error("Failed to revert plugin config:", error);
+      return { success: false, error: error instanceof Error ? error.message : "Failed to revert plugin config" };
+    }
+  })
+
+  /**
+   * List the uploaded plugins (display name, required env vars, size).
+   */
+  .get("/custom-plugins", async () => {
+    try {
+      const container = getMinecraftContainer();
+      const plugins = await container.listCustomPlugins();
+      return { plugins };
+    } catch (error) {
+      console.error("Failed to list custom plugins:", error);
+      return { plugins: [], error: "Failed to list custom plugins" };
+    }
+  })
+
+  /**
+   * Upload a plugin .jar. The raw jar is the request body, ?filename= its name and ?displayName= optional.
+   * Uploading a jar with the name of an uploaded plugin replaces it. Enable it like any other plugin.
+   */
+  .post("/custom-plugins", async ({ request, query }: any) => {
+    try {
+      const container = getMinecraftContainer();
+      const params = new URLSearchParams({ filename: query?.filename ?? "", displayName: query?.displayName ?? "" });
+      return await container.fetch(new Request(`http://localhost/plugins/custom?${params}`, {
+        method: "POST",
+        headers: {
+          "Content-Type": request.headers.get("Content-Type") || "application/java-archive",
+          "Content-Length": request.headers.get("Content-Length") || "",
+        },
+        body: request.body,
+      }));
+    } catch (error) {
+      console.error("Failed to upload plugin:", error);
+      return { success: false, error: error instanceof Error ? error.message : "Failed to upload plugin" };
+    }
+  }, { parse: 'none' })
+
+  /**
+   * Install or update a plugin from Modrinth or Hangar, pinned to the newest build for the configured
+   * server version. Switching versions later re-pins it (or refuses if there is no compatible build).
+   * Accepts: { source: "modrinth" | "hangar", projectId: string }
+   */
+  .post("/custom-plugins/catalog", async ({ body }: any) => {
+    try {
+      const container = getMinecraftContainer();
+      const plugin = await container.installCatalogPlugin({ source: body?.source, projectId: String(body?.projectId ?? "").trim() });
+      return { success: true, plugin };
+    } catch (error) {
+      console.error("Failed to install catalog plugin:", error);
+      return { success: false, error: error instanceof Error ? error.message : "Failed to install catalog plugin" };
+    }
+  })
+
+  /**
+   * Update an uploaded plugin's registration.
+   * Accepts: { displayName?: string, requiredEnv?: Array<{ name: string, description: string }> }
+   */
+  .post("/custom-plugins/:filename", async ({ params, body }: any) => {
+    try {
+      const container = getMinecraftContainer();
+      const plugin = await container.updateCustomPlugin({ filename: params.filename, update: body });
+      return { success: true, plugin };
+    } catch (error) {
+      console.error("Failed to update custom plugin:", error);
+      return { success: false, error: error instanceof Error ? error.message : "Failed to update custom plugin" };
+    }
+  })
+
+  /**
+   * Delete an uploaded plugin. It must be disabled first.
+   */
+  .delete("/custom-plugins/:filename", async ({ params }: any) => {
+    try {
+      const container = getMinecraftContainer();
+      return await container.deleteCustomPlugin({ filename: params.filename });
+    } catch (error) {
+      console.error("Failed to delete custom plugin:", error);
+      return { success: false, error: error instanceof Error ? error.message : "Failed to delete custom plugin" };
+    }
+  })
+
   /**
    * Get the current Minecraft server version configuration
    */
@@ -373,6 +622,282 @@ const elysiaApp = (
       return { thisMonth: 0, thisYear: 0, error: "Failed to get usage stats" };
     }
   })
+
+  /**
+   * Get the auto-sleep settings, and while no players are online when the server will stop.
+   */
+  .get("/auto-sleep", async ({ request }) => {
+    try {
+      const container = getMinecraftContainer();
+      return await container.getAutoSleep();
+    } catch (error) {
+      console.error("Failed to get auto-sleep settings:", error);
+      return { error: error instanceof Error ? error.message : "Failed to get auto-sleep settings" };
+    }
+  })
+
+  /**
+   * Update the auto-sleep settings.
+   * Accepts any of: { enabled: boolean, idleMinutes: number, graceMinutes: number, warningSeconds: number }
+   */
+  .post("/auto-sleep", async ({ body }: any) => {
+    try {
+      const { enabled, idleMinutes, graceMinutes, warningSeconds } = body as { enabled?: boolean; idleMinutes?: number; graceMinutes?: number; warningSeconds?: number };
+      const container = getMinecraftContainer();
+      const autoSleep = await container.setAutoSleep({ enabled, idleMinutes, graceMinutes, warningSeconds });
+      return { success: true, autoSleep };
+    } catch (error) {
+      console.error("Failed to set auto-sleep settings:", error);
+      return { success: false, error: error instanceof Error ? error.message : "Failed to set auto-sleep settings" };
+    }
+  })
+
+  /**
+   * List the dashboard accounts and the open invites. Owner only, like all /users routes.
+   */
+  .get("/users", async ({ request }) => {
+    try {
+      const container = getMinecraftContainer();
+      return await container.listUsers();
+    } catch (error) {
+      console.error("Failed to list users:", error);
+      return { users: [], invites: [], error: error instanceof Error ? error.message : "Failed to list users" };
+    }
+  })
+
+  /**
+   * Create an invite. Accepts: { role: "admin" | "moderator" | "viewer" }. The code is only returned
+   * here, the invite link is /?invite=<code>.
+   */
+  .post("/users/invites", async ({ body }: any) => {
+    try {
+      const { role } = body as { role: AssignableRole };
+      const container = getMinecraftContainer();
+      const { code, invite } = await container.createInvite({ role, createdBy: getRequestUser()!.id });
+      return { success: true, code, invite };
+    } catch (error) {
+      console.error("Failed to create invite:", error);
+      return { success: false, error: error instanceof Error ? error.message : "Failed to create invite" };
+    }
+  })
+
+  /**
+   * Revoke an unused invite
+   */
+  .delete("/users/invites/:id", async ({ params }: any) => {
+    try {
+      const container = getMinecraftContainer();
+      return await container.revokeInvite(parseInt(params.id, 10));
+    } catch (error) {
+      console.error("Failed to revoke invite:", error);
+      return { success: false, error: error instanceof Error ? error.message : "Failed to revoke invite" };
+    }
+  })
+
+  /**
+   * Change the role of an account. Accepts: { role: "admin" | "moderator" | "viewer" }
+   */
+  .post("/users/:id/role", async ({ params, body }: any) => {
+    try {
+      const { role } = body as { role: AssignableRole };
+      const container = getMinecraftContainer();
+      const user = await container.setUserRole(parseInt(params.id, 10), role);
+      forgetCachedAuth();
+      return { success: true, user };
+    } catch (error) {
+      console.error("Failed to change role:", error);
+      return { success: false, error: error instanceof Error ? error.message : "Failed to change role" };
+    }
+  })
+
+  /**
+   * Delete an account
+   */
+  .delete("/users/:id", async ({ params }: any) => {
+    try {
+      const container = getMinecraftContainer();
+      const result = await container.deleteUser(parseInt(params.id, 10));
+      forgetCachedAuth();
+      return result;
+    } catch (error) {
+      console.error("Failed to delete user:", error);
+      return { success: false, error: error instanceof Error ? error.message : "Failed to delete user" };
+    }
+  })
+
+  /**
+   * List your API tokens, newest first. Tokens are sent as "Authorization: Bearer mf_...".
+   */
+  .get("/tokens", async ({ request }) => {
+    try {
+      const container = getMinecraftContainer();
+      return { tokens: await container.listApiTokens(getRequestUser()!.id) };
+    } catch (error) {
+      console.error("Failed to list API tokens:", error);
+      return { tokens: [], error: error instanceof Error ? error.message : "Failed to list API tokens" };
+    }
+  })
+
+  /**
+   * Create an API token. Accepts: { name: string, scopes: Array<"read-status" | "start-stop" | "rcon" | "backups" | "plugins">, expiresInDays?: number | null }.
+   * The token is only returned here.
+   */
+  .post("/tokens", async ({ body }: any) => {
+    try {
+      const { name, scopes, expiresInDays } = body as { name: string; scopes: ApiTokenScope[]; expiresInDays?: number | null };
+      const container = getMinecraftContainer();
+      const { token, info } = await container.createApiToken(getRequestUser()!.id, { name, scopes, expiresInDays });
+      return { success: true, token, info };
+    } catch (error) {
+      console.error("Failed to create API token:", error);
+      return { success: false, error: error instanceof Error ? error.message : "Failed to create API token" };
+    }
+  })
+
+  /**
+   * Revoke one of your API tokens
+   */
+  .delete("/tokens/:id", async ({ params }: any) => {
+    try {
+      const container = getMinecraftContainer();
+      const result = await container.revokeApiToken(getRequestUser()!.id, parseInt(params.id, 10));
+      forgetCachedAuth();
+      return result;
+    } catch (error) {
+      console.error("Failed to revoke API token:", error);
+      return { success: false, error: error instanceof Error ? error.message : "Failed to revoke API token" };
+    }
+  })
+
+  /**
+   * Audit log of changes through the API, the MCP agent and the RCON terminal, newest first.
+   * Filters: ?actor=, ?source=web|mcp|api-token, ?action= (a prefix like "plugin"), ?success=true|false,
+   * ?since= and ?until= (epoch ms), ?limit= (default 100).
+   */
+  .get("/audit", async ({ query }: any) => {
+    try {
+      const parsed = AuditQuerySchema.safeParse(auditQuery(query));
+      if (!parsed.success) {
+        return invalidQuery(parsed.error);
+      }
+      const container = getMinecraftContainer();
+      return { entries: await container.getAuditLog(parsed.data) };
+    } catch (error) {
+      console.error("Failed to get audit log:", error);
+      return { entries: [], error: error instanceof Error ? error.message : "Failed to get audit log" };
+    }
+  })
+
+  /**
+   * Download the audit log as JSON lines, one entry per line, oldest first. Takes the filters of
+   * /audit, without a limit it is the whole log (up to MAX_AUDIT_EXPORT entries).
+   */
+  .get("/audit/export", async ({ query }: any) => {
+    try {
+      const parsed = AuditQuerySchema.safeParse({ ...auditQuery(query), limit: queryNumber(query?.limit) ?? MAX_AUDIT_EXPORT });
+      if (!parsed.success) {
+        return invalidQuery(parsed.error);
+      }
+      const container = getMinecraftContainer();
+      const entries = await container.getAuditLog(parsed.data);
+      const lines = entries.reverse().map(entry => JSON.stringify(entry) + '\n').join('');
+      const stamp = new Date().toISOString().slice(0, 10);
+      return new Response(lines, {
+        headers: {
+          "Content-Type": "application/x-ndjson",
+          "Content-Disposition": `attachment; filename="mineflare-audit-${stamp}.jsonl"`,
+        },
+      });
+    } catch (error) {
+      console.error("Failed to export audit log:", error);
+      return { success: false, error: error instanceof Error ? error.message : "Failed to export audit log" };
+    }
+  })
+
+  /**
+   * Get the play schedule: weekly windows in which the server is started ahead of time, kept awake
+   * and stopped at the end. Includes the window happening now and the next one.
+   */
+  .get("/play-schedule", async ({ request }) => {
+    try {
+      const container = getMinecraftContainer();
+      return await container.getPlaySchedule();
+    } catch (error) {
+      console.error("Failed to get play schedule:", error);
+      return { error: error instanceof Error ? error.message : "Failed to get play schedule" };
+    }
+  })
+
+  /**
+   * Update the play schedule.
+   * Accepts any of: { enabled: boolean, timezone: string, windows: Array<{ day: 0-6, start: "HH:MM", end: "HH:MM" }>, prestartMinutes: number }
+   */
+  .post("/play-schedule", async ({ body }: any) => {
+    try {
+      const { enabled, timezone, windows, prestartMinutes } = body as { enabled?: boolean; timezone?: string; windows?: Array<{ day: number; start: string; end: string }>; prestartMinutes?: number };
+      const container = getMinecraftContainer();
+      const playSchedule = await container.setPlaySchedule({ enabled, timezone, windows, prestartMinutes });
+      return { success: true, playSchedule };
+    } catch (error) {
+      console.error("Failed to set play schedule:", error);
+      return { success: false, error: error instanceof Error ? error.message : "Failed to set play schedule" };
+    }
+  })
+  /**
+   * Get the estimated cost of this month (container runtime, R2 storage and operations) and the monthly budget.
+   */
+  .get("/costs", async ({ request }) => {
+    try {
+      const container = getMinecraftContainer();
+      return await container.getCostSummary();
+    } catch (error) {
+      console.error("Failed to get cost summary:", error);
+      return { error: error instanceof Error ? error.message : "Failed to get cost summary" };
+    }
+  })
+
+  /**
+   * Update the rates of the cost estimate.
+   * Accepts any of: { instanceType, hourlyRate, r2StoragePerGbMonth, r2ClassAPerMillion, r2ClassBPerMillion, r2FreeStorageGb, r2FreeClassA, r2FreeClassB }
+   */
+  .post("/costs/model", async ({ body }: any) => {
+    try {
+      const container = getMinecraftContainer();
+      const costModel = await container.setCostModel(body ?? {});
+      return { success: true, costModel };
+    } catch (error) {
+      console.error("Failed to set cost model:", error);
+      return { success: false, error: error instanceof Error ? error.message : "Failed to set cost model" };
+    }
+  })
+
+  /**
+   * Update the monthly budget. Accepts: { monthlyLimit: number | null, warnAtPercent?: number }
+   */
+  .post("/costs/budget", async ({ body }: any) => {
+    try {
+      const { monthlyLimit, warnAtPercent } = body as { monthlyLimit?: number | null; warnAtPercent?: number };
+      const container = getMinecraftContainer();
+      const budget = await container.setBudget({ monthlyLimit, warnAtPercent });
+      return { success: true, budget };
+    } catch (error) {
+      console.error("Failed to set budget:", error);
+      return { success: false, error: error instanceof Error ? error.message : "Failed to set budget" };
+    }
+  })
+
+  /**
+   * Allow starting the server for the rest of this month although the budget is exceeded
+   */
+  .post("/costs/budget/override", async ({ request }) => {
+    try {
+      const container = getMinecraftContainer();
+      return await container.overrideBudget();
+    } catch (error) {
+      console.error("Failed to override budget:", error);
+      return { success: false, error: error instanceof Error ? error.message : "Failed to override budget" };
+    }
+  })
   .get("/startup-status", async ({ request }) => {
     try {
       const container = getMinecraftContainer();
@@ -385,8 +910,395 @@ const elysiaApp = (
     }
   })
 
+  /**
+   * List the world backups stored in R2, newest first.
+   */
+  .get("/backups", async ({ request }) => {
+    try {
+      const container = getMinecraftContainer();
+      const result = await container.listBackups();
+      return result;
+    } catch (error) {
+      console.error("Failed to list backups:", error);
+      return { backups: [], pendingRestore: null, restoreFailure: null, error: "Failed to list backups" };
+    }
+  })
+
+  /**
+   * Get the history of backup runs, newest first.
+   * Optional query: ?limit=<n> (default 50, max 500)
+   */
+  .get("/backups/history", async ({ query }: any) => {
+    try {
+      const limit = Math.min(500, Math.max(1, parseInt(query?.limit ?? "50", 10) || 50));
+      const container = getMinecraftContainer();
+      const history = await container.getBackupHistory({ limit });
+      return { history };
+    } catch (error) {
+      console.error("Failed to get backup history:", error);
+      return { history: [], error: "Failed to get backup history" };
+    }
+  })
+
+  /**
+   * Get the periodic backup schedule along with the next and last scheduled run.
+   */
+  .get("/backups/schedule", async ({ request }) => {
+    try {
+      const container = getMinecraftContainer();
+      const schedule = await container.getBackupSchedule();
+      return schedule;
+    } catch (error) {
+      console.error("Failed to get backup schedule:", error);
+      return { error: "Failed to get backup schedule" };
+    }
+  })
+
+  /**
+   * Update the periodic backup schedule.
+   * Accepts: { enabled: boolean, intervalMinutes: number }
+   */
+  .post("/backups/schedule", async ({ body }: any) => {
+    try {
+      const { enabled, intervalMinutes } = body as { enabled: boolean; intervalMinutes: number };
+      const container = getMinecraftContainer();
+      const schedule = await container.setBackupSchedule({ enabled, intervalMinutes });
+      return { success: true, schedule };
+    } catch (error) {
+      console.error("Failed to set backup schedule:", error);
+      return { success: false, error: error instanceof Error ? error.message : "Failed to set backup schedule" };
+    }
+  })
+
+  /**
+   * Get the backup retention policy.
+   */
+  .get("/backups/retention", async ({ request }) => {
+    try {
+      const container = getMinecraftContainer();
+      const retention = await container.getBackupRetention();
+      return retention;
+    } catch (error) {
+      console.error("Failed to get backup retention:", error);
+      return { error: "Failed to get backup retention" };
+    }
+  })
+
+  /**
+   * Update the backup retention policy. It is enforced after each successful backup.
+   * Accepts: { enabled: boolean, keepLast: number, keepDaily: number, keepWeekly: number, keepMonthly: number }
+   */
+  .post("/backups/retention", async ({ body }: any) => {
+    try {
+      const container = getMinecraftContainer();
+      const retention = await container.setBackupRetention(body);
+      return { success: true, retention };
+    } catch (error) {
+      console.error("Failed to set backup retention:", error);
+      return { success: false, error: error instanceof Error ? error.message : "Failed to set backup retention" };
+    }
+  })
+
+  /**
+   * Dry run of the retention policy: which backups would be kept and which deleted. Nothing is deleted.
+   * Accepts an optional candidate policy (same shape as POST /backups/retention), otherwise uses the saved one.
+   */
+  .post("/backups/retention/preview", async ({ body }: any) => {
+    try {
+      const container = getMinecraftContainer();
+      const plan = await container.pruneBackups({ dryRun: true, policy: body?.policy });
+      return { success: true, ...plan };
+    } catch (error) {
+      console.error("Failed to preview backup retention:", error);
+      return { success: false, keep: [], delete: [], error: error instanceof Error ? error.message : "Failed to preview backup retention" };
+    }
+  })
+
+  /**
+   * Restore the world from a backup. The key must be URL encoded (it contains slashes).
+   * A running server is stopped (taking a fresh backup first), restored and restarted in the background.
+   */
+  .post("/backups/:key/restore", async ({ params }: any) => {
+    try {
+      const key = decodeURIComponent(params.key);
+      const container = getMinecraftContainer();
+      const result = await container.restoreBackup({ key });
+      return result;
+    } catch (error) {
+      console.error("Failed to restore backup:", error);
+      return { success: false, error: error instanceof Error ? error.message : "Failed to restore backup" };
+    }
+  })
+
+  /**
+   * List the world profiles along with the selected world and the world the server was last started with.
+   */
+  .get("/worlds", async () => {
+    try {
+      const container = getMinecraftContainer();
+      return await container.listWorlds();
+    } catch (error) {
+      console.error("Failed to list worlds:", error);
+      return { worlds: [], error: "Failed to list worlds" };
+    }
+  })
+
+  /**
+   * Create a world profile.
+   * Accepts: { name: string, levelName?: string, seed?: string, gameMode?: string, difficulty?: string, version?: string }
+   */
+  .post("/worlds", async ({ body }: any) => {
+    try {
+      const container = getMinecraftContainer();
+      const world = await container.createWorld(body);
+      return { success: true, world };
+    } catch (error) {
+      console.error("Failed to create world:", error);
+      return { success: false, error: error instanceof Error ? error.message : "Failed to create world" };
+    }
+  })
+
+  /**
+   * Switch to a world profile. A running server is stopped (backing up the current world) and started with the selected world.
+   */
+  .post("/worlds/:id/select", async ({ params }: any) => {
+    try {
+      const container = getMinecraftContainer();
+      return await container.selectWorld({ id: params.id });
+    } catch (error) {
+      console.error("Failed to select world:", error);
+      return { success: false, error: error instanceof Error ? error.message : "Failed to select world" };
+    }
+  })
+
+  /**
+   * Archive or unarchive a world profile. Its backups are kept either way.
+   * Accepts: { archived: boolean }
+   */
+  .post("/worlds/:id/archive", async ({ params, body }: any) => {
+    try {
+      const { archived } = body as { archived: boolean };
+      const container = getMinecraftContainer();
+      const world = await container.archiveWorld({ id: params.id, archived: archived !== false });
+      return { success: true, world };
+    } catch (error) {
+      console.error("Failed to archive world:", error);
+      return { success: false, error: error instanceof Error ? error.message : "Failed to archive world" };
+    }
+  })
+
+  /**
+   * Get the gameplay settings (server.properties) of the selected world. Works when container is stopped.
+   */
+  .get("/settings", async () => {
+    try {
+      const container = getMinecraftContainer();
+      return await container.getServerSettings();
+    } catch (error) {
+      console.error("Failed to get server settings:", error);
+      return { error: "Failed to get server settings" };
+    }
+  })
+
+  /**
+   * Update gameplay settings. Any subset of: { difficulty, gameMode, pvp, viewDistance, simulationDistance,
+   * spawnProtection, whitelist, maxPlayers, motd }. Difficulty and whitelist apply live via RCON,
+   * restartRequired is true when other changes wait for the next start.
+   */
+  .post("/settings", async ({ body }: any) => {
+    try {
+      const container = getMinecraftContainer();
+      const result = await container.setServerSettings(body);
+      return { success: true, ...result };
+    } catch (error) {
+      console.error("Failed to update server settings:", error);
+      return { success: false, error: error instanceof Error ? error.message : "Failed to update server settings" };
+    }
+  })
+
+  /**
+   * Get the whitelist, ops, banned players and banned IPs. Requires the server to be running.
+   */
+  .get("/moderation", async () => {
+    try {
+      const container = getMinecraftContainer();
+      return await container.getModerationState();
+    } catch (error) {
+      console.error("Failed to get moderation state:", error);
+      return { error: error instanceof Error ? error.message : "Failed to get moderation state" };
+    }
+  })
+
+  /**
+   * Turn the whitelist on or off. Saved with the server settings and applied live via RCON.
+   * Accepts: { enabled: boolean }
+   */
+  .post("/moderation/whitelist", async ({ body }: any) => {
+    try {
+      const { enabled } = body as { enabled: boolean };
+      const container = getMinecraftContainer();
+      const result = await container.setServerSettings({ whitelist: enabled === true });
+      return { success: true, whitelistEnabled: result.settings.whitelist, applied: result.applied.includes('whitelist') };
+    } catch (error) {
+      console.error("Failed to toggle whitelist:", error);
+      return { success: false, error: error instanceof Error ? error.message : "Failed to toggle whitelist" };
+    }
+  })
+
+  /**
+   * Add a player to a list: whitelist, ops, banned-players, or an IP to banned-ips.
+   * Accepts: { reason?: string } (bans only)
+   */
+  .post("/moderation/:list/:target", async ({ params, body }: any) => {
+    try {
+      if (!isModerationList(params.list)) {
+        return { success: false, error: `Unknown list: ${params.list}` };
+      }
+      const container = getMinecraftContainer();
+      return await container.updateModerationList({
+        list: params.list,
+        operation: 'add',
+        target: decodeURIComponent(params.target),
+        reason: body?.reason,
+      });
+    } catch (error) {
+      console.error("Failed to update moderation list:", error);
+      return { success: false, error: error instanceof Error ? error.message : "Failed to update moderation list" };
+    }
+  })
+
+  /**
+   * Remove a player (or IP) from a list: whitelist remove, deop, pardon or pardon-ip.
+   */
+  .delete("/moderation/:list/:target", async ({ params }: any) => {
+    try {
+      if (!isModerationList(params.list)) {
+        return { success: false, error: `Unknown list: ${params.list}` };
+      }
+      const container = getMinecraftContainer();
+      return await container.updateModerationList({
+        list: params.list,
+        operation: 'remove',
+        target: decodeURIComponent(params.target),
+      });
+    } catch (error) {
+      console.error("Failed to update moderation list:", error);
+      return { success: false, error: error instanceof Error ? error.message : "Failed to update moderation list" };
+    }
+  })
+
+  /**
+   * Kick an online player.
+   * Accepts: { reason?: string }
+   */
+  .post("/players/:name/kick", async ({ params, body }: any) => {
+    try {
+      const container = getMinecraftContainer();
+      return await container.kickPlayer({ name: decodeURIComponent(params.name), reason: body?.reason });
+    } catch (error) {
+      console.error("Failed to kick player:", error);
+      return { success: false, error: error instanceof Error ? error.message : "Failed to kick player" };
+    }
+  })
+
+  /**
+   * Download a world backup. Streams the latest backup, or the one given by ?key=.
+   * Full backups download as .tar.gz, incremental backups as an uncompressed .tar. Works when container is stopped.
+   */
+  .get("/world/download", async ({ query }: any) => {
+    try {
+      const container = getMinecraftContainer();
+      const search = query?.key ? `?key=${encodeURIComponent(query.key)}` : "";
+      return await container.fetch(new Request(`http://localhost/world/download${search}`));
+    } catch (error) {
+      console.error("Failed to download world:", error);
+      return { success: false, error: error instanceof Error ? error.message : "Failed to download world" };
+    }
+  })
+
+  /**
+   * Get the world archive waiting to be imported on the next start.
+   */
+  .get("/world/import", async () => {
+    try {
+      const container = getMinecraftContainer();
+      const pendingImport = await container.getWorldImport();
+      return { import: pendingImport };
+    } catch (error) {
+      console.error("Failed to get world import:", error);
+      return { import: null, error: "Failed to get world import" };
+    }
+  })
+
+  /**
+   * Upload a world archive to import. The raw .zip or .tar.gz is the request body and ?filename= its name.
+   * The archive must contain a level.dat; it replaces /data/world* on the next start (a running server is restarted).
+   * Note that Cloudflare limits request body size per plan (100 MB on Free and Pro).
+   */
+  .post("/world/import", async ({ request, query }: any) => {
+    try {
+      const container = getMinecraftContainer();
+      return await container.fetch(new Request(`http://localhost/world/import?filename=${encodeURIComponent(query?.filename ?? "")}`, {
+        method: "POST",
+        headers: {
+          "Content-Type": request.headers.get("Content-Type") || "application/octet-stream",
+          "Content-Length": request.headers.get("Content-Length") || "",
+        },
+        body: request.body,
+      }));
+    } catch (error) {
+      console.error("Failed to import world:", error);
+      return { success: false, error: error instanceof Error ? error.message : "Failed to import world" };
+    }
+  }, { parse: 'none' })
+
+  /**
+   * Cancel a pending world import and delete the uploaded archive.
+   */
+  .delete("/world/import", async () => {
+    try {
+      const container = getMinecraftContainer();
+      return await container.cancelWorldImport();
+    } catch (error) {
+      console.error("Failed to cancel world import:", error);
+      return { success: false, error: error instanceof Error ? error.message : "Failed to cancel world import" };
+    }
+  })
+
   .compile()
 
+// A comma separated query parameter as a list, undefined when it is missing
+function queryList(value: unknown): string[] | undefined {
+  return value ? String(value).split(",").map(item => item.trim()) : undefined;
+}
+
+// A numeric query parameter, NaN (which the schemas refuse) when it isn't a number
+function queryNumber(value: unknown): number | undefined {
+  return value ? Number(value) : undefined;
+}
+
+// 400 for a query its schema refused
+function invalidQuery(error: ZodError): Response {
+  const issue = error.issues[0];
+  return new Response(JSON.stringify({ error: `Invalid ${issue.path.join(".") || "query"}: ${issue.message}` }), {
+    status: 400,
+    headers: { "Content-Type": "application/json" }
+  });
+}
+
+// The filters of /audit and /audit/export, for AuditQuerySchema
+function auditQuery(query: Record<string, string | undefined> | undefined) {
+  return {
+    actor: query?.actor || undefined,
+    source: query?.source || undefined,
+    action: query?.action || undefined,
+    success: query?.success === 'true' ? true : query?.success === 'false' ? false : query?.success || undefined,
+    since: queryNumber(query?.since),
+    until: queryNumber(query?.until),
+    limit: queryNumber(query?.limit),
+  };
+}
+
 const app = new Elysia({
   adapter: CloudflareAdapter,
   // aot: false,
@@ -397,9 +1309,11 @@ const app = new Elysia({
 export { MinecraftContainer } from "./container";
 
 /**
- * Validates WebSocket authentication token from query parameter
+ * Validates WebSocket authentication token from query parameter and that the user's role may open
+ * the socket. The terminal and browser also need a token of a session that passed 2FA.
+ * Returns the session, or the response to send instead.
  */
-async function validateWebSocketAuth(request: Request): Promise<Response | null> {
+async function validateWebSocketAuth(request: Request): Promise<AuthSession | Response> {
   const url = new URL(request.url);
   const token = url.searchParams.get('token');
   
@@ -412,26 +1326,35 @@ async function validateWebSocketAuth(request: Request): Promise<Response | null>
   }
   
   try {
-    const symKey = await getSymKeyCached(request);
-    if (!symKey) {
-      console.error("Authentication not configured");
-      return new Response(JSON.stringify({ error: "Authentication not configured" }), {
+    const session = await authenticateToken(request, token);
+    if (!session) {
+      console.error("Invalid or expired WebSocket token");
+      return new Response(JSON.stringify({ error: "Invalid or expired WebSocket token" }), {
         status: 401,
         headers: { "Content-Type": "application/json" }
       });
     }
-    
-    const payload = await decryptToken(symKey, token);
-    if (!payload || payload.exp <= Math.floor(Date.now() / 1000)) {
-      console.error("Invalid or expired WebSocket token");
-      return new Response(JSON.stringify({ error: "Invalid or expired WebSocket token" }), {
-        status: 401,
+
+    const { user } = session;
+    const minimum = requiredRole('GET', url.pathname);
+    if (!roleAtLeast(user.role, minimum)) {
+      console.error(`WebSocket needs the ${minimum} role, ${user.username} is a ${user.role}`);
+      return new Response(JSON.stringify({ error: `This needs the ${minimum} role` }), {
+        status: 403,
+        headers: { "Content-Type": "application/json" }
+      });
+    }
+
+    if (/^\/src\/(terminal|browser)\//.test(url.pathname) && !session.twoFactor) {
+      console.error(`WebSocket to ${url.pathname} needs 2FA, ${user.username}'s session didn't pass it`);
+      return new Response(JSON.stringify({ error: TWO_FACTOR_REQUIRED_ERROR }), {
+        status: 403,
         headers: { "Content-Type": "application/json" }
       });
     }
     
     // Token is valid
-    return null;
+    return session;
   } catch (error) {
     console.error("WebSocket authentication error:", error);
     return new Response(JSON.stringify({ error: "WebSocket authentication failed" }), {
@@ -463,10 +1386,13 @@ function validateWebSocketUpgrade(request: Request): Response | null {
 
 
 export default {
-  async fetch(request: Request, _env: typeof worker.Env): Promise<Response> {
+  async fetch(request: Request, _env: typeof worker.Env, ctx: ExecutionContext): Promise<Response> {
     const url = new URL(request.url);
 
     return asyncLocalStorage.run({ cf: request.cf }, async () => {
+      // Changes through the API go to the audit log, including the ones that were refused
+      const audit = beginAudit(request);
+
       // auth methods do not require auth - but browser/terminal HTML pages DO require auth
       // Only skip auth for WebSocket upgrades (ws protocol or /ws path with Upgrade header)
       const isWebSocketUpgrade = url.protocol.startsWith('ws') || 
@@ -478,6 +1404,9 @@ export default {
       if (!skipAuth) {
         const authError = await requireAuth(request);
         if (authError) {
+          if (audit) {
+            ctx.waitUntil(audit(authError));
+          }
           return authError;
         }
       }
@@ -518,7 +1447,11 @@ export default {
           });
         }
       }
-      return app.fetch(request);
+      const response = await app.fetch(request);
+      if (audit) {
+        ctx.waitUntil(audit(response));
+      }
+      return response;
     });
   },
 
@@ -544,26 +1477,34 @@ export default {
     }
 
     // Validate authentication token
-    const authError = await validateWebSocketAuth(request);
-    if (authError) {
-      console.error("WebSocket authentication error:", authError);
-      return authError;
+    const session = await validateWebSocketAuth(request);
+    if (session instanceof Response) {
+      console.error("WebSocket authentication error:", session);
+      return session;
     }
+    const { user } = session;
 
     // Token is valid, route to appropriate WebSocket endpoint
     try {
       const container = getMinecraftContainer();
+      // With the session the socket is opened with, it is closed when that session is signed out
+      const forwarded = new Request(request);
+      forwarded.headers.set('X-Mineflare-Session', session.nonce);
       
       if (pathname.startsWith('/src/browser/')) {
         console.error("Forwarding WebSocket to embedded browser (noVNC)");
-        return container.fetch(request);
+        return container.fetch(forwarded);
       } else if (pathname.startsWith('/src/terminal/')) {
         console.error("Forwarding WebSocket to ttyd");
-        return container.fetch(request);
+        return container.fetch(forwarded);
       } else {
         console.error("Forwarding WebSocket to RCON terminal");
-        // Forward to RCON WebSocket handler
-        return container.fetch(request);
+        // Forward to RCON WebSocket handler, with the role that decides whether commands are allowed and
+        // the username and source for the audit log
+        forwarded.headers.set('X-Mineflare-Role', user.role);
+        forwarded.headers.set('X-Mineflare-User', user.username);
+        forwarded.headers.set(AUDIT_SOURCE_HEADER, await auditSource(request));
+        return container.fetch(forwarded);
       }
     } catch (error) {
       console.error("WebSocket connection error:", error);
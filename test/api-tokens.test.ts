@@ -0,0 +1,32 @@
+import { describe, expect, test } from "bun:test";
+import { MCP_AGENT_SCOPES, MCP_AGENT_USER, requiredScope } from "../src/lib/api-tokens";
+import { requiredRole, roleAtLeast } from "../src/lib/users";
+
+// What the MCP tools in src/agent.ts call, the agent goes through the same checks as a token
+const AGENT_ROUTES: Array<[string, string]> = [
+  ['GET', '/api/status'],
+  ['GET', '/api/players'],
+  ['GET', '/api/getState'],
+  ['GET', '/api/session/current'],
+  ['GET', '/api/dynmap-url'],
+  ['GET', '/api/plugins'],
+  ['POST', '/api/shutdown'],
+  ['POST', '/api/rcon/execute'],
+  ['GET', '/api/backups'],
+  ['GET', '/api/backups/history'],
+  ['GET', '/api/play-schedule'],
+  ['POST', '/api/play-schedule'],
+];
+
+describe("MCP agent", () => {
+  test.each(AGENT_ROUTES)("may call %s %s", (method, path) => {
+    const scope = requiredScope(method, path);
+    expect(scope).not.toBeNull();
+    expect(MCP_AGENT_SCOPES).toContain(scope!);
+    expect(roleAtLeast(MCP_AGENT_USER.role, requiredRole(method, path))).toBe(true);
+  });
+
+  test("gets no WebSocket token", () => {
+    expect(requiredScope('GET', '/auth/ws-token')).toBeNull();
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, expect, test } from "bun:test";
+import { planBackupRetention, type BackupInfo, type BackupRetention } from "../src/lib/backups";
+
+// A full backup taken at the given UTC time
+function backup(iso: string): BackupInfo {
+  return { key: `backups/${iso}_data.tar.gz`, dirName: 'data', format: 'tarball', createdAt: Date.parse(iso), size: 0 };
+}
+
+function policy(overrides: Partial<BackupRetention>): BackupRetention {
+  return { enabled: true, keepLast: 1, keepDaily: 0, keepWeekly: 0, keepMonthly: 0, ...overrides };
+}
+
+function kept(backups: BackupInfo[], retention: BackupRetention, protectedKeys?: string[]): Array<[string, string[]]> {
+  return planBackupRetention(backups, retention, protectedKeys).keep.map(b => [new Date(b.createdAt).toISOString(), b.reasons]);
+}
+
+describe("planBackupRetention", () => {
+  const hourly = ['2025-03-11T09:00:00.000Z', '2025-03-11T12:00:00.000Z', '2025-03-11T10:00:00.000Z', '2025-03-11T08:00:00.000Z', '2025-03-11T11:00:00.000Z'].map(backup);
+
+  test("keeps the newest keepLast backups", () => {
+    const plan = planBackupRetention(hourly, policy({ keepLast: 3 }));
+    expect(plan.keep.map(b => b.createdAt)).toEqual(['12', '11', '10'].map(h => Date.parse(`2025-03-11T${h}:00:00.000Z`)));
+    expect(plan.keep.every(b => b.reasons.join() === 'last')).toBe(true);
+    expect(plan.delete.map(b => b.createdAt)).toEqual(['09', '08'].map(h => Date.parse(`2025-03-11T${h}:00:00.000Z`)));
+  });
+
+  test("always keeps the newest backup", () => {
+    const plan = planBackupRetention(hourly, policy({ keepLast: 0 }));
+    expect(plan.keep.map(b => b.key)).toEqual([backup('2025-03-11T12:00:00.000Z').key]);
+    expect(plan.delete).toHaveLength(4);
+  });
+
+  test("keeps the newest backup of each UTC day", () => {
+    const backups = ['2025-03-11T12:00:00.000Z', '2025-03-11T00:00:00.000Z', '2025-03-10T23:59:59.000Z', '2025-03-09T12:00:00.000Z'].map(backup);
+    expect(kept(backups, policy({ keepDaily: 2 }))).toEqual([
+      ['2025-03-11T12:00:00.000Z', ['last', 'daily']],
+      ['2025-03-10T23:59:59.000Z', ['daily']],
+    ]);
+  });
+
+  test("starts weeks on Monday", () => {
+    // 2025-03-10 is a Monday
+    const backups = ['2025-03-12T12:00:00.000Z', '2025-03-10T00:00:00.000Z', '2025-03-09T23:59:59.000Z', '2025-03-03T00:00:00.000Z', '2025-03-02T23:59:59.000Z'].map(backup);
+    expect(kept(backups, policy({ keepWeekly: 3 }))).toEqual([
+      ['2025-03-12T12:00:00.000Z', ['last', 'weekly']],
+      ['2025-03-09T23:59:59.000Z', ['weekly']],
+      ['2025-03-02T23:59:59.000Z', ['weekly']],
+    ]);
+  });
+
+  test("keeps the newest backup of each calendar month", () => {
+    const backups = ['2025-03-15T12:00:00.000Z', '2025-03-01T00:00:00.000Z', '2025-02-28T23:59:59.000Z', '2024-12-31T23:59:59.000Z'].map(backup);
+    expect(kept(backups, policy({ keepMonthly: 3 }))).toEqual([
+      ['2025-03-15T12:00:00.000Z', ['last', 'monthly']],
+      ['2025-02-28T23:59:59.000Z', ['monthly']],
+      ['2024-12-31T23:59:59.000Z', ['monthly']],
+    ]);
+  });
+
+  test("gives every reason a backup is kept for", () => {
+    const backups = ['2025-03-15T12:00:00.000Z', '2025-03-14T12:00:00.000Z', '2025-02-14T12:00:00.000Z'].map(backup);
+    expect(kept(backups, policy({ keepLast: 2, keepDaily: 7, keepWeekly: 4, keepMonthly: 12 }))).toEqual([
+      ['2025-03-15T12:00:00.000Z', ['last', 'daily', 'weekly', 'monthly']],
+      ['2025-03-14T12:00:00.000Z', ['last', 'daily']],
+      ['2025-02-14T12:00:00.000Z', ['daily', 'weekly', 'monthly']],
+    ]);
+  });
+
+  test("deletes nothing when disabled", () => {
+    const plan = planBackupRetention(hourly, policy({ enabled: false }));
+    expect(plan.keep).toHaveLength(5);
+    expect(plan.delete).toEqual([]);
+  });
+
+  test("keeps the backup a restore is pending for", () => {
+    const pendingRestore = backup('2025-03-11T08:00:00.000Z').key;
+    expect(kept(hourly, policy({}), [pendingRestore, 'backups/missing_data.tar.gz'])).toEqual([
+      ['2025-03-11T12:00:00.000Z', ['last']],
+      ['2025-03-11T08:00:00.000Z', ['protected']],
+    ]);
+  });
+});
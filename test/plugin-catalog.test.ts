@@ -0,0 +1,76 @@
+import { describe, expect, test } from "bun:test";
+import type { CustomPlugin } from "../src/lib/custom-plugins";
+import { downloadCatalogPlugin, resolveCatalogPlugin, resolveCatalogRepins } from "../src/lib/plugin-catalog";
+import { fixtureCatalogFetch } from "../src/lib/plugin-catalog-fixture";
+
+// An installed catalog plugin pinned to a build that supports the given Minecraft versions
+function pinned(filename: string, source: 'modrinth' | 'hangar', projectId: string, versionNumber: string, gameVersions: string[]): CustomPlugin {
+  return {
+    filename,
+    displayName: filename,
+    requiredEnv: [],
+    size: 0,
+    uploadedAt: 0,
+    catalog: { source, projectId, versionId: versionNumber, versionNumber, gameVersions, pinnedAt: 0 },
+  };
+}
+
+describe("resolveCatalogPlugin", () => {
+  test("picks the newest Modrinth release for the version", async () => {
+    const resolved = await resolveCatalogPlugin({ source: 'modrinth', projectId: 'fixture-plugin', gameVersion: '1.21.8' }, fixtureCatalogFetch);
+    expect(resolved?.versionNumber).toBe('2.1.0');
+    expect(resolved?.slug).toBe('fixture-plugin');
+  });
+
+  test("falls back to an older build when the newest doesn't support the version", async () => {
+    const resolved = await resolveCatalogPlugin({ source: 'modrinth', projectId: 'fixture-plugin', gameVersion: '1.21.7' }, fixtureCatalogFetch);
+    expect(resolved?.versionNumber).toBe('2.0.0');
+  });
+
+  test("returns null without a compatible build", async () => {
+    expect(await resolveCatalogPlugin({ source: 'modrinth', projectId: 'fixture-plugin', gameVersion: '1.21.10' }, fixtureCatalogFetch)).toBeNull();
+  });
+
+  test("matches Hangar version ranges", async () => {
+    const resolved = await resolveCatalogPlugin({ source: 'hangar', projectId: 'fixture/FixtureHangar', gameVersion: '1.21.10' }, fixtureCatalogFetch);
+    expect(resolved?.versionNumber).toBe('1.4.0');
+    expect(resolved?.hash?.algorithm).toBe('SHA-256');
+  });
+
+  test("throws for an unknown project", async () => {
+    await expect(resolveCatalogPlugin({ source: 'modrinth', projectId: 'missing', gameVersion: '1.21.8' }, fixtureCatalogFetch)).rejects.toThrow('Modrinth project not found');
+  });
+});
+
+describe("downloadCatalogPlugin", () => {
+  test("checks the download against the catalog hash", async () => {
+    const resolved = await resolveCatalogPlugin({ source: 'modrinth', projectId: 'fixture-plugin', gameVersion: '1.21.8' }, fixtureCatalogFetch);
+    expect((await downloadCatalogPlugin(resolved!, 1024 * 1024, fixtureCatalogFetch)).length).toBeGreaterThan(0);
+    await expect(downloadCatalogPlugin({ ...resolved!, hash: { algorithm: 'SHA-512', hex: '00' } }, 1024 * 1024, fixtureCatalogFetch)).rejects.toThrow('Checksum mismatch');
+  });
+});
+
+// The check setServerVersion and enabling a plugin run through ensureCatalogPluginsSupport
+describe("resolveCatalogRepins", () => {
+  test("re-pins plugins whose build doesn't support the new version", async () => {
+    const plugins = [
+      pinned('modrinth-fixture-plugin', 'modrinth', 'FXPLUGIN', '2.0.0', ['1.21.7']),
+      pinned('hangar-FixtureHangar', 'hangar', '414', '1.4.0', ['1.21-1.21.10']),
+    ];
+    const builds = await resolveCatalogRepins(plugins, '1.21.8', fixtureCatalogFetch);
+    expect(builds.map(b => [b.slug, b.versionNumber])).toEqual([['fixture-plugin', '2.1.0']]);
+  });
+
+  test("leaves uploaded plugins alone", async () => {
+    const uploaded: CustomPlugin = { filename: 'Uploaded', displayName: 'Uploaded', requiredEnv: [], size: 0, uploadedAt: 0 };
+    expect(await resolveCatalogRepins([uploaded], '1.21.10', fixtureCatalogFetch)).toEqual([]);
+  });
+
+  test("refuses the version when an enabled plugin has no compatible build", async () => {
+    const plugins = [
+      pinned('modrinth-fixture-plugin', 'modrinth', 'FXPLUGIN', '2.1.0', ['1.21.8']),
+      pinned('hangar-FixtureHangar', 'hangar', '414', '1.4.0', ['1.21.8']),
+    ];
+    await expect(resolveCatalogRepins(plugins, '1.21.10', fixtureCatalogFetch)).rejects.toThrow('No build for Minecraft 1.21.10 of: modrinth-fixture-plugin. Disable it first.');
+  });
+});
@@ -0,0 +1,163 @@
+import { describe, expect, test } from "bun:test";
+import { encodeQrCode } from "../src/client/utils/qr-code";
+import { base32Encode, provisioningUri } from "../src/lib/totp";
+
+// Reads the codes back independently of the encoder, with the values of ISO/IEC 18004
+
+// Format information of error correction level M, by mask
+const FORMAT_BITS_M = [0x5412, 0x5125, 0x5e7c, 0x5b4b, 0x45f9, 0x40ce, 0x4f97, 0x4aa0];
+const VERSION_7_BITS = 0x07c94;
+// Version 7 at level M: 4 blocks of 31 data and 18 error correction codewords
+const BLOCKS = 4;
+const DATA_PER_BLOCK = 31;
+const ECC_PER_BLOCK = 18;
+const ALIGNMENT_CENTERS = [6, 22, 38];
+
+const MASKS: Array<(x: number, y: number) => boolean> = [
+  (x, y) => (x + y) % 2 === 0,
+  (_x, y) => y % 2 === 0,
+  (x) => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(y / 2) + Math.floor(x / 3)) % 2 === 0,
+  (x, y) => (x * y) % 2 + (x * y) % 3 === 0,
+  (x, y) => ((x * y) % 2 + (x * y) % 3) % 2 === 0,
+  (x, y) => ((x + y) % 2 + (x * y) % 3) % 2 === 0,
+];
+
+function readBits(modules: boolean[][], positions: Array<[number, number]>): number {
+  return positions.reduce((bits, [x, y], i) => bits | (modules[y][x] ? 1 << i : 0), 0);
+}
+
+function formatInfo(modules: boolean[][]): [number, number] {
+  const size = modules.length;
+  const first: Array<[number, number]> = [];
+  for (let i = 0; i <= 5; i++) first.push([8, i]);
+  first.push([8, 7], [8, 8], [7, 8]);
+  for (let i = 9; i < 15; i++) first.push([14 - i, 8]);
+  const second: Array<[number, number]> = [];
+  for (let i = 0; i < 8; i++) second.push([size - 1 - i, 8]);
+  for (let i = 8; i < 15; i++) second.push([8, size - 15 + i]);
+  return [readBits(modules, first), readBits(modules, second)];
+}
+
+function versionInfo(modules: boolean[][]): [number, number] {
+  const size = modules.length;
+  const topRight: Array<[number, number]> = [];
+  const bottomLeft: Array<[number, number]> = [];
+  for (let i = 0; i < 18; i++) {
+    topRight.push([size - 11 + (i % 3), Math.floor(i / 3)]);
+    bottomLeft.push([Math.floor(i / 3), size - 11 + (i % 3)]);
+  }
+  return [readBits(modules, topRight), readBits(modules, bottomLeft)];
+}
+
+function isFunctionModule(x: number, y: number, size: number): boolean {
+  const finder = (x < 9 && y < 9) || (x >= size - 8 && y < 9) || (x < 9 && y >= size - 8);
+  const versionBlocks = (x >= size - 11 && x < size - 8 && y < 6) || (y >= size - 11 && y < size - 8 && x < 6);
+  const alignment = ALIGNMENT_CENTERS.some(cx => ALIGNMENT_CENTERS.some(cy =>
+    !(cx === 6 && cy === 6) && !(cx === 6 && cy === 38) && !(cx === 38 && cy === 6) &&
+    Math.abs(x - cx) <= 2 && Math.abs(y - cy) <= 2
+  ));
+  return finder || versionBlocks || alignment || x === 6 || y === 6;
+}
+
+// The codewords in placement order, unmasked
+function readCodewords(modules: boolean[][], mask: number): number[] {
+  const size = modules.length;
+  const bits: boolean[] = [];
+  let upward = true;
+  for (let right = size - 1; right > 0; right -= 2) {
+    if (right === 6) {
+      right = 5;
+    }
+    for (let i = 0; i < size; i++) {
+      const y = upward ? size - 1 - i : i;
+      for (const x of [right, right - 1]) {
+        if (!isFunctionModule(x, y, size)) {
+          bits.push(modules[y][x] !== MASKS[mask](x, y));
+        }
+      }
+    }
+    upward = !upward;
+  }
+  const codewords: number[] = [];
+  for (let i = 0; i + 8 <= bits.length; i += 8) {
+    codewords.push(bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | (bit ? 1 : 0), 0));
+  }
+  return codewords;
+}
+
+// GF(256) with the QR polynomial x^8 + x^4 + x^3 + x^2 + 1
+const EXP = new Array<number>(512);
+const LOG = new Array<number>(256);
+for (let i = 0, value = 1; i < 255; i++) {
+  EXP[i] = EXP[i + 255] = value;
+  LOG[value] = i;
+  value = (value << 1) ^ (value & 0x80 ? 0x11d : 0);
+}
+
+// A codeword block is valid when the polynomial it forms has the generator's roots a^0..a^(n-1)
+function syndromes(block: number[]): number[] {
+  return Array.from({ length: ECC_PER_BLOCK }, (_, i) => block.reduce((sum, c) =>
+    (sum === 0 ? 0 : EXP[LOG[sum] + i]) ^ c, 0));
+}
+
+function decode(modules: boolean[][], mask: number): { data: string; syndromes: number[][] } {
+  const codewords = readCodewords(modules, mask);
+  const blocks = Array.from({ length: BLOCKS }, (_, b) => [
+    ...Array.from({ length: DATA_PER_BLOCK }, (_, k) => codewords[k * BLOCKS + b]),
+    ...Array.from({ length: ECC_PER_BLOCK }, (_, k) => codewords[BLOCKS * DATA_PER_BLOCK + k * BLOCKS + b]),
+  ]);
+  const bits = blocks.flatMap(block => block.slice(0, DATA_PER_BLOCK))
+    .flatMap(byte => Array.from({ length: 8 }, (_, i) => (byte >> (7 - i)) & 1));
+  const read = (from: number, length: number) => bits.slice(from, from + length).reduce((value, bit) => (value << 1) | bit, 0);
+  // Byte mode, an 8 bit count up to version 9
+  expect(read(0, 4)).toBe(0b0100);
+  const bytes = Array.from({ length: read(4, 8) }, (_, i) => read(12 + i * 8, 8));
+  return { data: new TextDecoder().decode(new Uint8Array(bytes)), syndromes: blocks.map(syndromes) };
+}
+
+describe("encodeQrCode", () => {
+  // A 20 byte secret like the ones 2FA setup generates, the URI just fits version 7
+  const uri = provisioningUri(base32Encode(new Uint8Array(20).map((_, i) => i * 13)), 'alice');
+
+  test("picks the smallest version that fits", () => {
+    expect(uri.length).toBe(121);
+    const modules = encodeQrCode(uri);
+    expect(modules.length).toBe(45);
+    expect(modules.every(row => row.length === 45)).toBe(true);
+    expect(versionInfo(modules)).toEqual([VERSION_7_BITS, VERSION_7_BITS]);
+  });
+
+  test("draws the finder patterns", () => {
+    const modules = encodeQrCode(uri);
+    for (const [left, top] of [[0, 0], [38, 0], [0, 38]]) {
+      for (let y = 0; y < 7; y++) {
+        for (let x = 0; x < 7; x++) {
+          const ring = Math.max(Math.abs(x - 3), Math.abs(y - 3));
+          expect(modules[top + y][left + x]).toBe(ring !== 2);
+        }
+      }
+    }
+  });
+
+  test.each([0, 1, 2, 3, 4, 5, 6, 7])("encodes the URI with mask %d", mask => {
+    const modules = encodeQrCode(uri, mask);
+    expect(formatInfo(modules)).toEqual([FORMAT_BITS_M[mask], FORMAT_BITS_M[mask]]);
+    const { data, syndromes } = decode(modules, mask);
+    expect(data).toBe(uri);
+    expect(syndromes.flat().every(s => s === 0)).toBe(true);
+  });
+
+  test("chooses a mask and gives the same code every time", () => {
+    const modules = encodeQrCode(uri);
+    const mask = FORMAT_BITS_M.indexOf(formatInfo(modules)[0]);
+    expect(mask).toBeGreaterThanOrEqual(0);
+    expect(decode(modules, mask).data).toBe(uri);
+    expect(encodeQrCode(uri)).toEqual(modules);
+  });
+
+  test("refuses text longer than version 10 holds", () => {
+    expect(() => encodeQrCode('x'.repeat(214))).toThrow('Text too long for a QR code');
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, expect, test } from "bun:test";
+import { TOTP_STEP_SECONDS, base32Decode, base32Encode, totpCode, totpStep, verifyTotp } from "../src/lib/totp";
+
+// The SHA-1 secret of the RFC 6238 test vectors, "12345678901234567890"
+const RFC_SECRET = base32Encode(new TextEncoder().encode('12345678901234567890'));
+
+describe("totpCode", () => {
+  // RFC 6238 Appendix B, the last 6 of the 8 digits there
+  test.each([
+    [59, '287082'],
+    [1111111109, '081804'],
+    [1111111111, '050471'],
+    [1234567890, '005924'],
+    [2000000000, '279037'],
+    [20000000000, '353130'],
+  ])("matches the RFC 6238 vector at %d", async (seconds, code) => {
+    expect(await totpCode(RFC_SECRET, totpStep(seconds * 1000))).toBe(code);
+  });
+});
+
+describe("verifyTotp", () => {
+  const now = 1111111111 * 1000;
+  const current = totpStep(now);
+  const codeAt = (step: number) => totpCode(RFC_SECRET, step);
+
+  test("accepts the steps next to the current one", async () => {
+    expect(await verifyTotp(RFC_SECRET, await codeAt(current), now, null)).toBe(current);
+    expect(await verifyTotp(RFC_SECRET, await codeAt(current - 1), now, null)).toBe(current - 1);
+    expect(await verifyTotp(RFC_SECRET, await codeAt(current + 1), now, null)).toBe(current + 1);
+  });
+
+  test("refuses codes outside the window", async () => {
+    expect(await verifyTotp(RFC_SECRET, await codeAt(current - 2), now, null)).toBeNull();
+    expect(await verifyTotp(RFC_SECRET, await codeAt(current + 2), now, null)).toBeNull();
+  });
+
+  test("goes by the step the time falls in", async () => {
+    const stepStart = current * TOTP_STEP_SECONDS * 1000;
+    expect(await verifyTotp(RFC_SECRET, await codeAt(current - 2), stepStart - 1, null)).toBe(current - 2);
+    expect(await verifyTotp(RFC_SECRET, await codeAt(current - 2), stepStart, null)).toBeNull();
+  });
+
+  test("refuses a code of a step that was already used", async () => {
+    const code = await codeAt(current);
+    expect(await verifyTotp(RFC_SECRET, code, now, current)).toBeNull();
+    expect(await verifyTotp(RFC_SECRET, code, now, current - 1)).toBe(current);
+    expect(await verifyTotp(RFC_SECRET, await codeAt(current + 1), now, current)).toBe(current + 1);
+  });
+
+  test("ignores spaces and refuses anything but 6 digits", async () => {
+    const code = await codeAt(current);
+    expect(await verifyTotp(RFC_SECRET, `${code.slice(0, 3)} ${code.slice(3)}`, now, null)).toBe(current);
+    expect(await verifyTotp(RFC_SECRET, code.slice(1), now, null)).toBeNull();
+    expect(await verifyTotp(RFC_SECRET, 'abcdef', now, null)).toBeNull();
+  });
+});
+
+describe("base32", () => {
+  test("encodes the RFC 4648 vectors without padding", () => {
+    const encoder = new TextEncoder();
+    expect(base32Encode(encoder.encode(''))).toBe('');
+    expect(base32Encode(encoder.encode('f'))).toBe('MY');
+    expect(base32Encode(encoder.encode('fooba'))).toBe('MZXW6YTB');
+    expect(base32Encode(encoder.encode('foobar'))).toBe('MZXW6YTBOI');
+  });
+
+  test("round-trips every length up to a secret and more", () => {
+    for (let length = 0; length <= 25; length++) {
+      const bytes = crypto.getRandomValues(new Uint8Array(length));
+      expect(base32Decode(base32Encode(bytes))).toEqual(bytes);
+    }
+  });
+
+  test("decodes secrets typed in by hand", () => {
+    expect(new TextDecoder().decode(base32Decode('mzxw 6ytb-oi======'))).toBe('foobar');
+    expect(() => base32Decode('MZXW1')).toThrow('Invalid base32 character "1"');
+  });
+});